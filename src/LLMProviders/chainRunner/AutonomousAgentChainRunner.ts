@@ -33,21 +33,53 @@ When you need to modify a canvas file, output a <canvas_edit> block (NOT a use_t
   
   <update_node id="existing-id" x="100" y="200" content="Updated text"/>
   
+  <update_node id="file1" file="notes/other.md" subpath="#Heading"/>
+  
   <delete_node id="node-to-remove"/>
   
-  <add_edge id="edge1" from="node1" to="node2" fromSide="right" toSide="left" label="connects"/>
+  <add_edge id="edge1" from="node1" to="node2" fromSide="right" toSide="left" toEnd="arrow" label="connects"/>
+  
+  <update_edge id="edge1" label="depends on" color="4" fromEnd="none" toEnd="arrow"/>
   
   <delete_edge id="edge-to-remove"/>
+  
+  <move_to_group id="group1" nodes="node1,node2"/>
+  
+  <fit_group id="group1"/>
 </canvas_edit>
 
 Node types: text (content in inner text), file (requires "file" attr), link (requires "url" attr), group (optional "label" attr)
-Position: x, y are coordinates; width, height are dimensions
-Each operation executes immediately as parsed. Use unique IDs for new nodes.`;
+Position: x, y are coordinates; width, height are dimensions. All four are optional on add_node:
+- Prefer relative placement over inventing coordinates: rightOf="node-id", below="node-id" or inGroup="group-id"
+  e.g. <add_node id="idea2" type="text" rightOf="idea1">Next idea</add_node>
+- Nodes without coordinates or placement are laid out automatically: a node that is the target of an add_edge in the same block is placed next to its source (tree layout), the rest in a grid beside the existing content
+- Omitted sizes are derived from the content; groups grow to fit the nodes placed inside them
+Edges: update_edge changes endpoints (from/to), sides, arrow ends (fromEnd/toEnd: "none" or "arrow"), label or color; an empty label or color removes it
+Groups: move_to_group moves the listed nodes into a group, keeping their arrangement, and grows the group to fit; fit_group resizes a group to tightly enclose the nodes inside it
+New canvas: start the block with <create_canvas/> to create the file at the block's path (only if it does not exist yet)
+Quote every attribute value and escape quotes inside values as &quot; (and & as &amp;). Wrap long text containing markup in <![CDATA[ ... ]]>. To edit several canvases, output one canvas_edit block per canvas.
+The whole block is validated and applied at once: either every operation is written or none is. Operations may refer to nodes created earlier in the same block. Use unique IDs for new nodes and edges.`;
+
+const CANVAS_TOOL_INSTRUCTIONS = `## Modifying Canvas
+When you need to modify or create a canvas file, call the canvasEdit tool with all operations for that canvas. Do NOT output canvas_edit blocks or rewrite canvas files with writeToFile.`;
+
+/**
+ * Canvas editing guidance: the canvasEdit tool when it is enabled, canvas_edit blocks otherwise.
+ */
+function getCanvasInstructions(availableTools: StructuredTool[]): string {
+  return availableTools.some((tool) => tool.name === "canvasEdit")
+    ? CANVAS_TOOL_INSTRUCTIONS
+    : CANVAS_MODIFICATION_INSTRUCTIONS;
+}
 import {
   deduplicateSources,
-  executeSequentialToolCall,
+  executeToolCallsConcurrently,
+  groupToolCallsForExecution,
+  isParallelSafeTool,
   logToolCall,
   logToolResult,
+  ToolCall,
+  ToolExecutionResult,
 } from "./utils/toolExecution";
 import {
   createToolResultMessage,
@@ -57,6 +89,7 @@ import {
 } from "./utils/nativeToolCalling";
 
 import { ensureCiCOrderingWithQuestion } from "./utils/cicPromptUtils";
+import { authorizeToolCall, getToolPermission } from "./utils/toolApproval";
 import { LayerToMessagesConverter } from "@/context/LayerToMessagesConverter";
 import { buildAgentPromptDebugReport } from "./utils/promptDebugService";
 import { recordPromptPayload } from "./utils/promptPayloadRecorder";
@@ -72,8 +105,24 @@ import {
   QueryExpansionInfo,
 } from "./utils/AgentReasoningState";
 import { QueryExpander } from "@/search/v3/QueryExpander";
-import { CanvasOperationStreamer, containsCanvasEdit } from "./CanvasOperationStreamer";
-import { executeCanvasOperation } from "@/tools/CanvasTools";
+import {
+  CanvasEditBlock,
+  containsCanvasEdit,
+  formatCanvasParseErrors,
+  parseCanvasEditBlocks,
+} from "./CanvasOperationStreamer";
+import { formatCanvasConflicts, formatCanvasOperationErrors } from "@/tools/CanvasTools";
+import { applyCanvasEditBlock } from "@/tools/CanvasEditTool";
+import { CanvasLiveApplier, CanvasLiveBlock } from "./utils/CanvasLiveApplier";
+import { buildCanvasCheckpointMarker } from "@/tools/CanvasChangeJournal";
+import {
+  applyTodoSnapshot,
+  buildTodoAcknowledgement,
+  WRITE_TODOS_TOOL_NAME,
+} from "@/tools/PlannerTools";
+
+/** Iterations in a row that may only update the plan before the agent must act. */
+const MAX_PLAN_ONLY_ITERATIONS = 2;
 
 type AgentSource = {
   title: string;
@@ -126,6 +175,17 @@ interface ReActLoopParams {
   applyCiCOrderingToLocalSearchResult: AgentLoopDeps["applyCiCOrderingToLocalSearchResult"];
 }
 
+/**
+ * A tool call of the current iteration, with its authorization and, once run, its result
+ */
+interface PreparedToolCall {
+  id?: string;
+  toolCall: ToolCall;
+  denial?: { result: string; summary: string };
+  preExpandedTerms?: QueryExpansionInfo;
+  result?: ToolExecutionResult;
+}
+
 /**
  * Result from the ReAct loop
  */
@@ -252,8 +312,13 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
    *
    * @param summary - Human-readable summary of the step
    * @param toolName - Optional name of the tool associated with this step
+   * @returns The step, whose summary can be updated in place (e.g. for progress)
    */
-  private addReasoningStep(summary: string, toolName?: string, detailedOnly = false): void {
+  private addReasoningStep(
+    summary: string,
+    toolName?: string,
+    detailedOnly = false
+  ): { timestamp: number; summary: string; toolName?: string } {
     const step = {
       timestamp: Date.now(),
       summary,
@@ -264,7 +329,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
 
     // For detailed-only steps, skip the rolling display
     if (detailedOnly) {
-      return;
+      return step;
     }
 
     // Add to display state (rolling window)
@@ -273,6 +338,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
     if (this.reasoningState.steps.length > 4) {
       this.reasoningState.steps.shift();
     }
+    return step;
   }
 
   /**
@@ -331,7 +397,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
       .filter((meta): meta is NonNullable<typeof meta> => meta !== undefined);
 
     // Add Canvas instructions
-    const systemPrompt = basePrompt + "\n\n" + CANVAS_MODIFICATION_INSTRUCTIONS;
+    const systemPrompt = basePrompt + "\n\n" + getCanvasInstructions(availableTools);
 
     // Fallback behavior if no adapter provided
     const toolInstructions = toolMetadata
@@ -593,7 +659,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
 
     // Get tool metadata
     // Add Canvas instructions manually
-    const enhancedSystemPrompt = baseSystemContent + "\n\n" + CANVAS_MODIFICATION_INSTRUCTIONS;
+    const enhancedSystemPrompt = baseSystemContent + "\n\n" + getCanvasInstructions(availableTools);
 
     // Use SystemMessage for better provider compatibility
     messages.push(new SystemMessage({ content: enhancedSystemPrompt }));
@@ -650,6 +716,10 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
 
     const maxIterations = getSettings().autonomousAgentMaxIterations;
     const collectedSources: AgentSource[] = [];
+    const canvasCheckpointIds: string[] = [];
+    // Tools the user approved for the rest of this turn
+    const approvedForTurn = new Set<string>();
+    let planOnlyIterations = 0;
     const loopStartTime = Date.now();
 
     let iteration = 0;
@@ -669,7 +739,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
       // Stream response - streamModelResponse updates this.accumulatedContent
       // The timer will pick up content changes and display them with the reasoning block
       // Once final response is detected, timer stops and direct updates take over
-      const { content, aiMessage, streamingResult } = await this.streamModelResponse(
+      const { content, aiMessage, streamingResult, canvasLive } = await this.streamModelResponse(
         boundModel,
         messages,
         abortController,
@@ -686,24 +756,42 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
 
       // No tool calls = final response
       if (toolCalls.length === 0) {
-        // Stop reasoning timer and finalize the reasoning block
-        this.stopReasoningTimer();
-        this.reasoningState.status = "complete";
-
         messages.push(aiMessage);
 
         // Final response is ONLY this iteration's content, not accumulated intermediate content
         let finalContent = content;
 
-        // Check for canvas_edit blocks and execute them
+        // Check for canvas_edit blocks and execute them (or commit those applied live)
         let canvasSummary: string | null = null;
-        if (containsCanvasEdit(finalContent)) {
-          const canvasResults = await this.executeCanvasOperations(finalContent);
+        const liveBlocks = canvasLive && canvasLive.getBlocks().length > 0 ? canvasLive : undefined;
+        if (liveBlocks || containsCanvasEdit(finalContent)) {
+          const canvasResults = await this.executeCanvasOperations(
+            finalContent,
+            approvedForTurn,
+            abortController.signal,
+            liveBlocks
+          ).finally(() => canvasLive?.release());
+
+          // An invalid block was not written: let the agent correct it while iterations remain
+          if (
+            canvasResults.agentFeedback &&
+            iteration < maxIterations &&
+            !abortController.signal.aborted
+          ) {
+            this.addReasoningStep("Canvas edit failed validation, revising operations");
+            messages.push(new HumanMessage(canvasResults.agentFeedback));
+            continue;
+          }
+
           // Remove canvas_edit blocks from the displayed content
           finalContent = this.stripCanvasEditBlocks(finalContent);
           canvasSummary = canvasResults.summary;
         }
 
+        // Stop reasoning timer and finalize the reasoning block
+        this.stopReasoningTimer();
+        this.reasoningState.status = "complete";
+
         const reasoningBlock = this.buildReasoningBlockMarkup();
 
         // Stream the final response progressively for better UX
@@ -730,6 +818,10 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
         if (canvasSummary) {
           finalResponse += "\n\n" + canvasSummary;
         }
+        if (canvasCheckpointIds.length > 0) {
+          finalResponse +=
+            "\n\n" + canvasCheckpointIds.map((id) => buildCanvasCheckpointMarker(id)).join("\n");
+        }
 
         updateCurrentAiMessage(finalResponse);
 
@@ -744,6 +836,12 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
       // Intermediate content (like "I'll search for..." ) should not appear in final response
       messages.push(aiMessage);
 
+      // Canvas edits are only executed from the final response, so undo any shown live
+      canvasLive?.restoreAll();
+
+      const planOnly = toolCalls.every((tc) => tc.name === WRITE_TODOS_TOOL_NAME);
+      planOnlyIterations = planOnly ? planOnlyIterations + 1 : 0;
+
       // For iterations > 1, the model's content often contains its summary of findings
       // from previous tool calls. Extract first sentence as a "finding summary".
       // (Iteration 1 has no previous findings - its content is just "I'll search for...")
@@ -754,7 +852,8 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
         }
       }
 
-      // Execute each tool
+      // Check each tool's permission first, pausing for the user's approval when required
+      const preparedCalls: PreparedToolCall[] = [];
       for (const tc of toolCalls) {
         if (abortController.signal.aborted) break;
 
@@ -762,97 +861,135 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
           name: tc.name,
           args: tc.args as Record<string, unknown>,
         };
-
-        // Pre-expand query for localSearch to show expanded terms BEFORE search
-        let preExpandedTerms: QueryExpansionInfo | undefined;
-        if (tc.name === "localSearch") {
-          const query = toolCall.args.query as string | undefined;
-          if (query) {
-            try {
-              const expander = new QueryExpander({
-                getChatModel: async () => {
-                  return this.chainManager.chatModelManager.getChatModel();
-                },
-              });
-              const expansion = await expander.expand(query);
-              // Compute recall terms (all terms used for search)
-              const seen = new Set<string>();
-              const recallTerms: string[] = [];
-              const addTerm = (term: unknown) => {
-                if (typeof term !== "string") return;
-                const trimmed = term.trim();
-                // Filter out invalid terms like "[object Object]"
-                if (!trimmed || trimmed === "[object Object]" || trimmed.startsWith("[object "))
-                  return;
-                const normalized = trimmed.toLowerCase();
-                if (!seen.has(normalized)) {
-                  seen.add(normalized);
-                  recallTerms.push(trimmed);
-                }
-              };
-              if (expansion.originalQuery) addTerm(expansion.originalQuery);
-              (expansion.salientTerms || []).forEach(addTerm);
-              (expansion.expandedQueries || []).forEach(addTerm);
-
-              preExpandedTerms = {
-                originalQuery: expansion.originalQuery,
-                salientTerms: expansion.salientTerms,
-                expandedQueries: expansion.expandedQueries,
-                recallTerms,
-              };
-            } catch {
-              // Ignore expansion errors, fall back to basic summary
-            }
-          }
+        const authorization = await authorizeToolCall(
+          toolCall,
+          approvedForTurn,
+          abortController.signal
+        );
+        if (!authorization.approved) {
+          preparedCalls.push({ id: tc.id, toolCall, denial: authorization });
+          continue;
         }
+        toolCall.args = authorization.args;
+        preparedCalls.push({ id: tc.id, toolCall });
+      }
+      if (abortController.signal.aborted) break;
+
+      // Run independent calls concurrently; calls that are not parallel-safe run alone
+      const batches = groupToolCallsForExecution(
+        preparedCalls,
+        (call) => !!call.denial || isParallelSafeTool(call.toolCall.name)
+      );
+      for (const batch of batches) {
+        if (abortController.signal.aborted) break;
 
-        // Add tool call step (shown in both rolling display and expanded view)
-        const toolCallSummary = summarizeToolCall(tc.name, toolCall.args, preExpandedTerms);
-        this.addReasoningStep(toolCallSummary, tc.name);
+        const runnable = batch.filter((call) => !call.denial);
+        await Promise.all(runnable.map((call) => this.preExpandLocalSearch(call)));
+
+        // Add tool call steps (shown in both rolling display and expanded view)
+        const callSummaries = runnable.map((call) =>
+          summarizeToolCall(call.toolCall.name, call.toolCall.args, call.preExpandedTerms)
+        );
+        if (runnable.length > 1) {
+          this.addReasoningStep(
+            `Running ${runnable.length} tools in parallel: ${callSummaries.join(" · ")}`
+          );
+        } else if (runnable.length === 1) {
+          this.addReasoningStep(callSummaries[0], runnable[0].toolCall.name);
+        }
 
-        // Inject pre-expanded query data into args to avoid double expansion in search
-        if (preExpandedTerms) {
-          toolCall.args._preExpandedQuery = preExpandedTerms;
+        for (const call of runnable) {
+          // Inject pre-expanded query data into args to avoid double expansion in search
+          if (call.preExpandedTerms) {
+            call.toolCall.args._preExpandedQuery = call.preExpandedTerms;
+          }
+          logToolCall(call.toolCall, iteration);
         }
 
-        logToolCall(toolCall, iteration);
+        // Execute the tools; results come back in call order
+        const results = await executeToolCallsConcurrently(
+          runnable.map((call) => call.toolCall),
+          tools,
+          originalPrompt,
+          getSettings().autonomousAgentToolConcurrency
+        );
+        runnable.forEach((call, index) => (call.result = results[index]));
+
+        for (const call of batch) {
+          const toolName = call.toolCall.name;
+          if (call.denial) {
+            this.addReasoningStep(call.denial.summary, toolName);
+            messages.push(
+              createToolResultMessage(call.id || generateToolCallId(), toolName, call.denial.result)
+            );
+            continue;
+          }
+          const result = call.result!;
+
+          // Track source info for reasoning summary
+          let sourceInfo: LocalSearchSourceInfo | undefined;
+
+          // Special handling for localSearch
+          if (toolName === "localSearch" && result.success) {
+            const processed = processLocalSearchResult(result);
+            collectedSources.push(...processed.sources);
+
+            // Extract source info for reasoning summary (just count and titles, no terms needed)
+            sourceInfo = {
+              titles: processed.sources.map((s) => s.title),
+              count: processed.sources.length,
+            };
+
+            result.result = applyCiCOrderingToLocalSearchResult(
+              processed.formattedForLLM,
+              originalPrompt || ""
+            );
+          }
 
-        // Execute the tool
-        const result = await executeSequentialToolCall(toolCall, tools, originalPrompt);
+          // Apply plan updates; the model gets a compact acknowledgement back
+          if (toolName === WRITE_TODOS_TOOL_NAME && result.success) {
+            if (planOnlyIterations > MAX_PLAN_ONLY_ITERATIONS) {
+              result.success = false;
+              result.result =
+                "Error: planner_overuse_execute_next_step. The plan was not changed; carry out the next step instead of rewriting the plan.";
+            } else {
+              this.reasoningState.plan = applyTodoSnapshot(
+                this.reasoningState.plan ?? null,
+                JSON.parse(result.result)
+              );
+              result.result = buildTodoAcknowledgement(this.reasoningState.plan);
+            }
+          }
 
-        // Track source info for reasoning summary
-        let sourceInfo: LocalSearchSourceInfo | undefined;
+          logToolResult(toolName, result);
 
-        // Special handling for localSearch
-        if (tc.name === "localSearch" && result.success) {
-          const processed = processLocalSearchResult(result);
-          collectedSources.push(...processed.sources);
+          // Keep canvasEdit checkpoints so the final message can offer to undo them
+          if (toolName === "canvasEdit" && result.success) {
+            try {
+              const { checkpointId } = JSON.parse(result.result);
+              if (checkpointId) canvasCheckpointIds.push(checkpointId);
+            } catch {
+              // Not a structured result, nothing to undo
+            }
+          }
 
-          // Extract source info for reasoning summary (just count and titles, no terms needed)
-          sourceInfo = {
-            titles: processed.sources.map((s) => s.title),
-            count: processed.sources.length,
-          };
+          // Add tool result step (shown in rolling display - this is the "what was found")
+          const resultSummary = summarizeToolResult(
+            toolName,
+            result,
+            sourceInfo,
+            call.toolCall.args
+          );
+          this.addReasoningStep(resultSummary, toolName);
 
-          result.result = applyCiCOrderingToLocalSearchResult(
-            processed.formattedForLLM,
-            originalPrompt || ""
+          // Add ToolMessage to conversation
+          const toolMessage = createToolResultMessage(
+            call.id || generateToolCallId(),
+            toolName,
+            result.result
           );
+          messages.push(toolMessage);
         }
-
-        logToolResult(tc.name, result);
-
-        // Add tool result step (shown in rolling display - this is the "what was found")
-        const resultSummary = summarizeToolResult(tc.name, result, sourceInfo, toolCall.args);
-        this.addReasoningStep(resultSummary, tc.name);
-
-        // Add ToolMessage to conversation
-        const toolMessage = createToolResultMessage(
-          tc.id || generateToolCallId(),
-          tc.name,
-          result.result
-        );
-        messages.push(toolMessage);
       }
     }
 
@@ -906,6 +1043,50 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
     };
   }
 
+  /**
+   * Pre-expand the query of a localSearch call so the expanded terms can be shown
+   * before the search runs. Expansion errors fall back to the basic summary.
+   */
+  private async preExpandLocalSearch(call: PreparedToolCall): Promise<void> {
+    const query = call.toolCall.args.query as string | undefined;
+    if (call.toolCall.name !== "localSearch" || !query) return;
+
+    try {
+      const expander = new QueryExpander({
+        getChatModel: async () => {
+          return this.chainManager.chatModelManager.getChatModel();
+        },
+      });
+      const expansion = await expander.expand(query);
+      // Compute recall terms (all terms used for search)
+      const seen = new Set<string>();
+      const recallTerms: string[] = [];
+      const addTerm = (term: unknown) => {
+        if (typeof term !== "string") return;
+        const trimmed = term.trim();
+        // Filter out invalid terms like "[object Object]"
+        if (!trimmed || trimmed === "[object Object]" || trimmed.startsWith("[object ")) return;
+        const normalized = trimmed.toLowerCase();
+        if (!seen.has(normalized)) {
+          seen.add(normalized);
+          recallTerms.push(trimmed);
+        }
+      };
+      if (expansion.originalQuery) addTerm(expansion.originalQuery);
+      (expansion.salientTerms || []).forEach(addTerm);
+      (expansion.expandedQueries || []).forEach(addTerm);
+
+      call.preExpandedTerms = {
+        originalQuery: expansion.originalQuery,
+        salientTerms: expansion.salientTerms,
+        expandedQueries: expansion.expandedQueries,
+        recallTerms,
+      };
+    } catch {
+      // Ignore expansion errors, fall back to basic summary
+    }
+  }
+
   /**
    * Stream response from the bound model and accumulate tool call chunks.
    * Does NOT stop the timer - that's handled by runReActLoop when it determines
@@ -919,13 +1100,27 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
     messages: BaseMessage[],
     abortController: AbortController,
     _updateCurrentAiMessage: (message: string) => void
-  ): Promise<{ content: string; aiMessage: AIMessage; streamingResult: StreamingResult }> {
+  ): Promise<{
+    content: string;
+    aiMessage: AIMessage;
+    streamingResult: StreamingResult;
+    canvasLive: CanvasLiveApplier | null;
+  }> {
     const toolCallChunks: Map<number, ToolCallChunk> = new Map();
+    const canvasLive = this.createCanvasLiveApplier(abortController);
+    let streamedText = "";
 
     // Use ThinkBlockStreamer with excludeThinking=true to strip thinking content
     // Agent mode should never show thinking tokens in the response
     const thinkStreamer = new ThinkBlockStreamer(
-      () => {}, // No-op update function - we don't display intermediate content
+      (text) => {
+        // Intermediate content is not displayed, but canvas edits are applied as they stream
+        if (!canvasLive) return;
+        if (text.startsWith(streamedText)) {
+          canvasLive.push(text.slice(streamedText.length));
+        }
+        streamedText = text;
+      },
       true // excludeThinking = true for agent mode
     );
 
@@ -966,6 +1161,7 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
       // Close the streamer to finalize content (handles unclosed think blocks, etc.)
       const streamingResult = thinkStreamer.close();
       const fullContent = streamingResult.content;
+      await canvasLive?.finish();
 
       // Build tool calls from accumulated chunks (with sanitization for empty objects)
       const toolCalls = buildToolCallsFromChunks(toolCallChunks);
@@ -985,91 +1181,300 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
         content: fullContent,
         aiMessage,
         streamingResult,
+        canvasLive,
       };
     } catch (error: any) {
       logError(`Stream error: ${error.message}`);
       if (error.name === "AbortError" || abortController.signal.aborted) {
         const streamingResult = thinkStreamer.close();
+        await canvasLive?.finish();
         return {
           content: streamingResult.content,
           aiMessage: new AIMessage({ content: streamingResult.content }),
           streamingResult,
+          canvasLive,
         };
       }
+      canvasLive?.restoreAll();
       throw error;
     }
   }
 
   /**
-   * Execute canvas operations found in the response.
+   * Create a live applier when canvas edits are auto-accepted and need no approval, so
+   * operations show up in the open canvas while streaming. Progress is shown as a single
+   * updating reasoning step.
+   */
+  private createCanvasLiveApplier(abortController: AbortController): CanvasLiveApplier | null {
+    const app = this.chainManager.app;
+    if (
+      !app?.vault ||
+      !getSettings().autoAcceptEdits ||
+      getToolPermission("canvasEdit").mode !== "always"
+    ) {
+      return null;
+    }
+
+    let progressStep: { summary: string } | null = null;
+    return new CanvasLiveApplier(app, abortController.signal, (progress) => {
+      const target = progress.canvasPath ? ` ${progress.canvasPath}` : " canvas";
+      const summary = `Editing${target}: ${progress.applied} applied${
+        progress.failed > 0 ? `, ${progress.failed} failed` : ""
+      }`;
+      if (progressStep) {
+        progressStep.summary = summary;
+      } else {
+        progressStep = this.addReasoningStep(summary);
+      }
+    });
+  }
+
+  /**
+   * Execute the canvas_edit blocks found in the response, one transaction per block.
+   * Blocks with parse errors or invalid operations are not written and come back with
+   * `agentFeedback` describing what to fix. Each block needs the same permission as a
+   * canvasEdit call, so the user may be asked first. Blocks already applied live are
+   * committed as they were shown, or restored in the view when they are not written.
    */
   private async executeCanvasOperations(
-    responseContent: string
-  ): Promise<{ summary: string | null; successCount: number; failCount: number }> {
-    const vault = this.chainManager.app?.vault;
-    if (!vault) {
+    responseContent: string,
+    approvedForTurn: Set<string>,
+    signal: AbortSignal,
+    canvasLive?: CanvasLiveApplier
+  ): Promise<{
+    summary: string | null;
+    successCount: number;
+    failCount: number;
+    agentFeedback: string | null;
+  }> {
+    if (!this.chainManager.app?.vault) {
       logWarn("[Agent] No vault available for canvas operations");
-      return { summary: null, successCount: 0, failCount: 0 };
+      return { summary: null, successCount: 0, failCount: 0, agentFeedback: null };
     }
 
-    const operationStreamer = new CanvasOperationStreamer();
+    const { blocks, errors } = canvasLive
+      ? { blocks: canvasLive.getBlocks(), errors: canvasLive.getErrors() }
+      : await parseCanvasEditBlocks(responseContent);
+    const summaries: string[] = [];
+    const feedback: string[] = [];
+    const appliedPaths: string[] = [];
+    let successCount = 0;
+    let failCount = 0;
 
-    // Collect operations from the async generator to check count and get canvas path
-    const operationsList: { type: string; id: string }[] = [];
+    for (const [index, block] of blocks.entries()) {
+      const blockErrors = errors.filter((e) => e.blockIndex === index);
+      if (!block.canvasPath || blockErrors.length > 0) {
+        logWarn(
+          `[Agent] Canvas edit block for ${block.canvasPath} has ${blockErrors.length} parse error(s)`
+        );
+        canvasLive?.restore(block as CanvasLiveBlock);
+        continue;
+      }
+      const refusal = await this.authorizeCanvasEditBlock(block, approvedForTurn, signal);
+      if (refusal) {
+        canvasLive?.restore(block as CanvasLiveBlock);
+        failCount += block.operations.length;
+        summaries.push(
+          this.buildCanvasSummary(
+            block.summary,
+            0,
+            [`❌ ${refusal}`],
+            `No changes were written to ${block.canvasPath}.`
+          )
+        );
+        continue;
+      }
+      const result = await this.executeCanvasEditBlock(block, canvasLive);
+      if (result.successCount > 0) appliedPaths.push(block.canvasPath);
+      successCount += result.successCount;
+      failCount += result.failCount;
+      if (result.summary) summaries.push(result.summary);
+      if (result.agentFeedback) feedback.push(result.agentFeedback);
+    }
 
-    for await (const operation of operationStreamer.processChunk(responseContent)) {
-      operationsList.push({ type: operation.type, id: operation.id });
+    if (errors.length > 0) {
+      failCount += errors.length;
+      summaries.push(
+        this.buildCanvasSummary(
+          "Some canvas edits could not be parsed",
+          0,
+          errors.map((e) => `❌ ${e.message}${e.canvasPath ? ` (${e.canvasPath})` : ""}`),
+          "No changes were written for the affected canvas_edit blocks."
+        )
+      );
+      feedback.push(formatCanvasParseErrors(errors));
     }
 
-    const canvasPath = operationStreamer.getCanvasPath();
-    if (!canvasPath) {
-      logWarn("[Agent] No canvas path found in canvas_edit block");
-      return { summary: null, successCount: 0, failCount: 0 };
+    if (feedback.length > 0 && appliedPaths.length > 0) {
+      feedback.push(
+        `The canvas_edit blocks for ${appliedPaths.map((p) => `"${p}"`).join(", ")} were applied successfully; do not repeat them.`
+      );
     }
 
-    if (operationsList.length === 0) {
-      return { summary: null, successCount: 0, failCount: 0 };
+    return {
+      summary: summaries.length > 0 ? summaries.join("\n\n") : null,
+      successCount,
+      failCount,
+      agentFeedback: feedback.length > 0 ? feedback.join("\n\n") : null,
+    };
+  }
+
+  /**
+   * Check a canvas_edit block against the canvasEdit tool's permission, asking the
+   * user when its policy says so.
+   *
+   * @returns Why the block may not be written, or null when it may
+   */
+  private async authorizeCanvasEditBlock(
+    block: CanvasEditBlock,
+    approvedForTurn: Set<string>,
+    signal: AbortSignal
+  ): Promise<string | null> {
+    const toolCall = {
+      name: "canvasEdit",
+      args: { path: block.canvasPath, summary: block.summary },
+    };
+    const authorization = await authorizeToolCall(toolCall, approvedForTurn, signal);
+    if (!authorization.approved) {
+      return authorization.summary;
     }
+    // The block's operations were written for this canvas
+    if (authorization.args.path !== block.canvasPath) {
+      return `The canvas path of a canvas_edit block cannot be changed (${block.canvasPath})`;
+    }
+    return null;
+  }
 
-    logInfo(`[Agent] Executing ${operationsList.length} canvas operations on ${canvasPath}`);
+  /**
+   * Execute a single canvas_edit block as a transaction and summarize the outcome.
+   * Live-applied blocks are already laid out and shown, so they skip layout and the
+   * preview, and are restored in the view when they are not written.
+   */
+  private async executeCanvasEditBlock(
+    block: CanvasEditBlock,
+    canvasLive?: CanvasLiveApplier
+  ): Promise<{
+    summary: string | null;
+    successCount: number;
+    failCount: number;
+    agentFeedback: string | null;
+  }> {
+    const { canvasPath, summary: editSummary } = block;
+    if (block.operations.length === 0) {
+      return { summary: null, successCount: 0, failCount: 0, agentFeedback: null };
+    }
 
-    // Re-process to get operations and execute them
-    const streamer2 = new CanvasOperationStreamer();
-    let successCount = 0;
-    let failCount = 0;
-    const resultDetails: string[] = [];
+    const outcome = await applyCanvasEditBlock(
+      this.chainManager.app,
+      block,
+      canvasLive
+        ? {
+            laidOut: true,
+            preview: false,
+            base: (block as CanvasLiveBlock).original ?? undefined,
+          }
+        : {}
+    );
+    if (canvasLive && outcome.status !== "applied") {
+      canvasLive.restore(block as CanvasLiveBlock);
+    }
 
-    for await (const operation of streamer2.processChunk(responseContent)) {
-      try {
-        const result = await executeCanvasOperation(vault, canvasPath, operation);
-        if (result.success) {
-          successCount++;
-          resultDetails.push(`✅ \`${operation.type}\` (${operation.id})`);
-          logInfo(`[Agent] Canvas operation succeeded: ${operation.type} (${operation.id})`);
-        } else {
-          failCount++;
-          resultDetails.push(`❌ \`${operation.type}\` (${operation.id}): ${result.error}`);
-          logWarn(`[Agent] Canvas operation failed: ${result.error}`);
-        }
-      } catch (error) {
-        failCount++;
-        resultDetails.push(`❌ \`${operation.type}\` (${operation.id}): ${String(error)}`);
-        logError("[Agent] Canvas operation error:", error);
-      }
+    const errorDetails = outcome.errors.map(
+      (e) => `❌ \`${e.operationType}\` (${e.operationId}): ${e.error}`
+    );
+    const rejectedDetails = outcome.rejected.map(
+      (op) => `⏭️ \`${op.type}\` (${op.id}): rejected by user`
+    );
+
+    switch (outcome.status) {
+      case "unreadable":
+        return {
+          summary: `---\n**Canvas Update:** ❌ ${outcome.error}`,
+          successCount: 0,
+          failCount: block.operations.length,
+          agentFeedback: null,
+        };
+      case "invalid":
+        return {
+          summary: this.buildCanvasSummary(
+            editSummary,
+            0,
+            errorDetails,
+            "No changes were written because the edit block failed validation."
+          ),
+          successCount: 0,
+          failCount: outcome.errors.length,
+          agentFeedback: formatCanvasOperationErrors(canvasPath, outcome.errors),
+        };
+      case "conflict":
+        return {
+          summary: this.buildCanvasSummary(
+            editSummary,
+            0,
+            errorDetails,
+            "No changes were written because the canvas was edited while the block was pending."
+          ),
+          successCount: 0,
+          failCount: outcome.errors.length,
+          agentFeedback: formatCanvasConflicts(canvasPath, outcome.errors),
+        };
+      case "rejected":
+        return {
+          summary: this.buildCanvasSummary(editSummary, 0, rejectedDetails),
+          successCount: 0,
+          failCount: 0,
+          agentFeedback: null,
+        };
+      case "failed":
+        return {
+          summary: this.buildCanvasSummary(
+            editSummary,
+            0,
+            [...(outcome.error ? [`❌ ${outcome.error}`] : errorDetails), ...rejectedDetails],
+            "No changes were written."
+          ),
+          successCount: 0,
+          failCount: outcome.accepted.length,
+          agentFeedback: null,
+        };
+      default:
+        return {
+          summary: this.buildCanvasSummary(
+            editSummary,
+            outcome.accepted.length,
+            [...outcome.accepted.map((op) => `✅ \`${op.type}\` (${op.id})`), ...rejectedDetails],
+            outcome.checkpointId ? buildCanvasCheckpointMarker(outcome.checkpointId) : undefined
+          ),
+          successCount: outcome.accepted.length,
+          failCount: 0,
+          agentFeedback: null,
+        };
     }
+  }
+
+  /**
+   * Build the canvas update summary appended to the final response.
+   */
+  private buildCanvasSummary(
+    editSummary: string,
+    successCount: number,
+    details: string[],
+    footer?: string
+  ): string {
+    const failCount = details.filter((d) => d.startsWith("❌")).length;
+    const rejectedCount = details.filter((d) => d.startsWith("⏭️")).length;
 
-    const editSummary = streamer2.getSummary();
-    const summary = [
+    return [
       "---",
       `**Canvas Update:** ${editSummary || "Operations completed"}`,
       `- ✅ Successful: ${successCount}`,
       ...(failCount > 0 ? [`- ❌ Failed: ${failCount}`] : []),
+      ...(rejectedCount > 0 ? [`- ⏭️ Rejected: ${rejectedCount}`] : []),
       "",
       "**Details:**",
-      ...resultDetails.map((r) => `- ${r}`),
+      ...details.map((d) => `- ${d}`),
+      ...(footer ? ["", footer] : []),
     ].join("\n");
-
-    return { summary, successCount, failCount };
   }
 
   /**
@@ -1077,11 +1482,12 @@ export class AutonomousAgentChainRunner extends CopilotPlusChainRunner {
    */
   private stripCanvasEditBlocks(text: string): string {
     // Remove complete canvas_edit blocks
-    const completeBlockRegex = /<canvas_edit[^>]*>[\s\S]*?<\/canvas_edit>/gi;
+    // Attribute values may contain ">", so match quoted values explicitly
+    const completeBlockRegex = /<canvas_edit(?:[^>"']|"[^"]*"|'[^']*')*>[\s\S]*?<\/canvas_edit>/gi;
     let result = text.replace(completeBlockRegex, "");
 
     // Remove incomplete opening tags at the end
-    const incompleteRegex = /<canvas_edit[^>]*>[\s\S]*$/i;
+    const incompleteRegex = /<canvas_edit[\s\S]*$/i;
     result = result.replace(incompleteRegex, "");
 
     return result.trim();
@@ -0,0 +1,183 @@
+import {
+  CanvasOperation,
+  CanvasOperationStreamer,
+  decodeEntities,
+  extractCanvasPath,
+  formatCanvasParseErrors,
+  parseCanvasEditBlocks,
+} from "./CanvasOperationStreamer";
+
+/**
+ * Feed text to a streamer in fixed-size chunks and collect the yielded operations.
+ */
+async function streamInChunks(
+  text: string,
+  chunkSize: number
+): Promise<{ streamer: CanvasOperationStreamer; operations: CanvasOperation[] }> {
+  const streamer = new CanvasOperationStreamer();
+  const operations: CanvasOperation[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    for await (const op of streamer.processChunk(text.slice(i, i + chunkSize))) {
+      operations.push(op);
+    }
+  }
+  streamer.end();
+  return { streamer, operations };
+}
+
+const RESPONSE = `Here is the plan.
+<canvas_edit path="Boards/plan.canvas" summary="Add &quot;ideas&quot; &amp; links">
+  <add_node id="f1" type="file" file="Projects/plan.md" x="0" y="0" width="400" height="400"/>
+  <add_node id="l1" type="link" url="https://example.com/a/b?x=1&amp;y=2"/>
+  <add_node id="t1" type="text" rightOf="f1"><![CDATA[Use <b>bold</b> & </add_node> freely]]></add_node>
+  <add_edge id="e1" from="f1" to="t1" label="a/b"/>
+</canvas_edit>
+And another canvas:
+<canvas_edit path='Other.canvas'>
+  <update_node id="n1" content="He said &quot;hi&quot;"/>
+  <delete_node id="n2"/>
+</canvas_edit>`;
+
+describe("CanvasOperationStreamer", () => {
+  it.each([1, 7, RESPONSE.length])(
+    "parses the same operations with chunk size %i",
+    async (size) => {
+      const { streamer, operations } = await streamInChunks(RESPONSE, size);
+
+      expect(streamer.getErrors()).toEqual([]);
+      expect(operations.map((op) => `${op.type}:${op.id}`)).toEqual([
+        "add_node:f1",
+        "add_node:l1",
+        "add_node:t1",
+        "add_edge:e1",
+        "update_node:n1",
+        "delete_node:n2",
+      ]);
+    }
+  );
+
+  it("keeps slashes, entities and CDATA content intact", async () => {
+    const { blocks } = await parseCanvasEditBlocks(RESPONSE);
+    const [first, second] = blocks;
+
+    expect(first.canvasPath).toBe("Boards/plan.canvas");
+    expect(first.summary).toBe('Add "ideas" & links');
+    expect(first.operations[0]).toMatchObject({ file: "Projects/plan.md", x: 0, width: 400 });
+    expect(first.operations[1]).toMatchObject({ url: "https://example.com/a/b?x=1&y=2" });
+    expect(first.operations[1]).toMatchObject({ x: undefined, width: undefined });
+    expect(first.operations[2]).toMatchObject({
+      content: "Use <b>bold</b> & </add_node> freely",
+      placement: { rightOf: "f1" },
+    });
+    expect(first.operations[3]).toMatchObject({ fromNode: "f1", toNode: "t1", label: "a/b" });
+
+    expect(second.canvasPath).toBe("Other.canvas");
+    expect(second.operations[0]).toMatchObject({ updates: { content: 'He said "hi"' } });
+  });
+
+  it("reports invalid operations instead of dropping them silently", async () => {
+    const { blocks, errors } = await parseCanvasEditBlocks(`<canvas_edit path="a.canvas">
+  <add_node type="text">No id</add_node>
+  <add_node id="n" type="text" x="left">Bad x</add_node>
+  <move_node id="n"/>
+  <delete_edge id="e1"/>
+</canvas_edit>`);
+
+    expect(blocks[0].operations.map((op) => op.type)).toEqual(["delete_edge"]);
+    expect(errors.map((e) => e.message)).toEqual([
+      "<add_node> is missing required attribute(s): id",
+      '<add_node> has a non-numeric x="left"',
+      "Unknown canvas operation <move_node>",
+    ]);
+    expect(errors.every((e) => e.canvasPath === "a.canvas" && e.blockIndex === 0)).toBe(true);
+  });
+
+  it("reports unclosed elements and blocks", async () => {
+    const { blocks, errors } = await parseCanvasEditBlocks(`<canvas_edit path="a.canvas">
+  <add_node id="n" type="text">Never closed
+</canvas_edit>
+<canvas_edit path="b.canvas">
+  <delete_node id="x"/>`);
+
+    expect(blocks.map((b) => b.canvasPath)).toEqual(["a.canvas", "b.canvas"]);
+    expect(blocks[1].operations).toHaveLength(1);
+    expect(errors.map((e) => [e.message, e.blockIndex])).toEqual([
+      ["<add_node> was not closed", 0],
+      ["canvas_edit block was not closed", 1],
+    ]);
+  });
+
+  it("accepts body-less tags written without a trailing slash", async () => {
+    const { blocks, errors } = await parseCanvasEditBlocks(
+      `<canvas_edit path="a.canvas"><delete_node id="a"><add_edge from="a" to="b"></add_edge></canvas_edit>`
+    );
+
+    expect(errors).toEqual([]);
+    expect(blocks[0].operations.map((op) => op.type)).toEqual(["delete_node", "add_edge"]);
+  });
+
+  it.each([1, 1000])(
+    "ends a body tag without slash or body at the next operation (chunk size %i)",
+    async (size) => {
+      const { streamer, operations } = await streamInChunks(
+        `<canvas_edit path="a.canvas">
+  <update_node id="a" color="1">
+  <update_node id="b">text</update_node>
+</canvas_edit>`,
+        size
+      );
+
+      expect(streamer.getErrors()).toEqual([]);
+      expect(operations).toEqual([
+        { type: "update_node", id: "a", updates: { color: "1" } },
+        { type: "update_node", id: "b", updates: { content: "text" } },
+      ]);
+    }
+  );
+
+  it("parses edge, group and canvas operations", async () => {
+    const { blocks, errors } = await parseCanvasEditBlocks(`<canvas_edit path="new.canvas">
+  <create_canvas/>
+  <update_edge id="e1" to="c" label="" toEnd="arrow"/>
+  <move_to_group id="g" nodes="a, b,,c"/>
+  <fit_group id="g"/>
+  <update_node id="f" file="notes/b.md" subpath="#Intro" url="https://example.com"/>
+</canvas_edit>`);
+
+    expect(errors).toEqual([]);
+    expect(blocks[0].operations).toEqual([
+      { type: "create_canvas", id: "new.canvas" },
+      { type: "update_edge", id: "e1", updates: { toNode: "c", label: "", toEnd: "arrow" } },
+      { type: "move_to_group", id: "g", nodeIds: ["a", "b", "c"] },
+      { type: "fit_group", id: "g" },
+      {
+        type: "update_node",
+        id: "f",
+        updates: { file: "notes/b.md", subpath: "#Intro", url: "https://example.com" },
+      },
+    ]);
+  });
+
+  it("reports blocks without a path", async () => {
+    const { errors } = await parseCanvasEditBlocks(`<canvas_edit summary="x"></canvas_edit>`);
+    expect(errors[0].message).toBe("canvas_edit block is missing the path attribute");
+  });
+});
+
+describe("canvas_edit helpers", () => {
+  it("decodes named and numeric entities", () => {
+    expect(decodeEntities("&lt;a&gt; &#65;&#x42; &unknown;")).toBe("<a> AB &unknown;");
+  });
+
+  it("extracts the first canvas path with quoted slashes", () => {
+    expect(extractCanvasPath(`x <canvas_edit summary="a/b" path="c/d.canvas">`)).toBe("c/d.canvas");
+  });
+
+  it("formats parse errors for the agent", () => {
+    const text = formatCanvasParseErrors([
+      { message: "Unknown canvas operation <x>", canvasPath: "a.canvas", blockIndex: 0 },
+    ]);
+    expect(text).toContain("NOT applied");
+    expect(text).toContain("- Unknown canvas operation <x> (in a.canvas)");
+  });
+});
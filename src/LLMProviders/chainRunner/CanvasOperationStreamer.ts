@@ -6,13 +6,21 @@
  * - <canvas_edit path="..." summary="...">
  * - <add_node id="..." type="text" x="0" y="0" width="200" height="100">content</add_node>
  * - <add_node id="..." type="file" file="..." x="0" y="0" width="200" height="100"/>
- * - <update_node id="..." x="100" content="..."/>
+ * - <add_node id="..." type="text" rightOf="..."|below="..."|inGroup="...">content</add_node>
+ * - <update_node id="..." x="100" content="..." file="..." subpath="#..." url="..."/>
  * - <delete_node id="..."/>
- * - <add_edge id="..." from="..." to="..." fromSide="right" toSide="left"/>
+ * - <add_edge id="..." from="..." to="..." fromSide="right" toSide="left" toEnd="arrow"/>
+ * - <update_edge id="..." label="..." color="..." fromEnd="none" toEnd="arrow"/>
  * - <delete_edge id="..."/>
+ * - <move_to_group id="group-id" nodes="a,b,c"/>
+ * - <fit_group id="group-id"/>
+ * - <create_canvas/> (first operation of a block for a canvas that does not exist yet)
+ *
+ * A response may contain several canvas_edit blocks for different canvases. Attribute
+ * values may use XML entities (&quot; &amp; ...) and long text may be wrapped in CDATA.
  */
 
-import type { NodeSide } from "obsidian/canvas";
+import type { EdgeEnd, NodeSide } from "obsidian/canvas";
 
 /* ---------- Operation Types ---------- */
 
@@ -21,20 +29,36 @@ export type CanvasOperationType =
   | "update_node"
   | "delete_node"
   | "add_edge"
-  | "delete_edge";
+  | "update_edge"
+  | "delete_edge"
+  | "move_to_group"
+  | "fit_group"
+  | "create_canvas";
 
 export interface BaseCanvasOperation {
   type: CanvasOperationType;
   id: string;
 }
 
+/**
+ * Relative placement for a new node, resolved to coordinates by the layout engine
+ * when x/y are omitted.
+ */
+export interface NodePlacement {
+  rightOf?: string;
+  below?: string;
+  inGroup?: string;
+}
+
 export interface AddNodeOperation extends BaseCanvasOperation {
   type: "add_node";
   nodeType: "text" | "file" | "link" | "group";
-  x: number;
-  y: number;
-  width: number;
-  height: number;
+  // Omitted geometry is filled in by the layout engine (see CanvasLayout)
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  placement?: NodePlacement;
   content?: string; // for text nodes
   file?: string; // for file nodes
   url?: string; // for link nodes
@@ -52,6 +76,9 @@ export interface UpdateNodeOperation extends BaseCanvasOperation {
     content: string;
     color: string;
     label: string;
+    file: string; // file nodes
+    subpath: string; // file nodes, e.g. "#Heading"
+    url: string; // link nodes
   }>;
 }
 
@@ -65,20 +92,60 @@ export interface AddEdgeOperation extends BaseCanvasOperation {
   toNode: string;
   fromSide?: NodeSide;
   toSide?: NodeSide;
+  fromEnd?: EdgeEnd;
+  toEnd?: EdgeEnd;
   label?: string;
   color?: string;
 }
 
+export interface UpdateEdgeOperation extends BaseCanvasOperation {
+  type: "update_edge";
+  // An empty label or color removes it
+  updates: Partial<{
+    fromNode: string;
+    toNode: string;
+    fromSide: NodeSide;
+    toSide: NodeSide;
+    fromEnd: EdgeEnd;
+    toEnd: EdgeEnd;
+    label: string;
+    color: string;
+  }>;
+}
+
 export interface DeleteEdgeOperation extends BaseCanvasOperation {
   type: "delete_edge";
 }
 
+/**
+ * Move nodes into a group (the operation ID), keeping their arrangement, and grow
+ * the group to fit them.
+ */
+export interface MoveToGroupOperation extends BaseCanvasOperation {
+  type: "move_to_group";
+  nodeIds: string[];
+}
+
+/** Resize a group (the operation ID) to tightly enclose the nodes inside it. */
+export interface FitGroupOperation extends BaseCanvasOperation {
+  type: "fit_group";
+}
+
+/** Create the block's canvas file. The operation ID is the canvas path. */
+export interface CreateCanvasOperation extends BaseCanvasOperation {
+  type: "create_canvas";
+}
+
 export type CanvasOperation =
   | AddNodeOperation
   | UpdateNodeOperation
   | DeleteNodeOperation
   | AddEdgeOperation
-  | DeleteEdgeOperation;
+  | UpdateEdgeOperation
+  | DeleteEdgeOperation
+  | MoveToGroupOperation
+  | FitGroupOperation
+  | CreateCanvasOperation;
 
 export interface CanvasEditBlock {
   canvasPath: string;
@@ -86,17 +153,72 @@ export interface CanvasEditBlock {
   operations: CanvasOperation[];
 }
 
+/**
+ * A problem found while parsing canvas_edit markup. Reported instead of silently
+ * dropping the affected operation.
+ */
+export interface CanvasParseError {
+  message: string;
+  /** Path of the canvas_edit block the error occurred in, if known. */
+  canvasPath: string | null;
+  /** Index of that block among the parsed blocks, or null outside any block. */
+  blockIndex: number | null;
+  /** The offending markup, truncated. */
+  snippet?: string;
+}
+
 /* ---------- Streaming Parser ---------- */
 
+const OPERATION_TAGS = new Set<string>([
+  "add_node",
+  "update_node",
+  "delete_node",
+  "add_edge",
+  "update_edge",
+  "delete_edge",
+  "move_to_group",
+  "fit_group",
+  "create_canvas",
+]);
+
+/** Operations whose content may be given as element body. */
+const BODY_TAGS = new Set<string>(["add_node", "update_node"]);
+
+/** Start of an operation element, which cannot appear inside another element's body. */
+const OPERATION_OPEN_REGEX = new RegExp(`<(?:${Array.from(OPERATION_TAGS).join("|")})[\\s/>]`, "g");
+
+const CANVAS_EDIT_OPEN = "<canvas_edit";
+const CANVAS_EDIT_CLOSE = "</canvas_edit>";
+const CDATA_OPEN = "<![CDATA[";
+const CDATA_CLOSE = "]]>";
+const SNIPPET_LENGTH = 120;
+
+/** A complete element read from the buffer. */
+interface ParsedElement {
+  name: string;
+  attrs: Record<string, string>;
+  /** Decoded inner text, or null for self-closing elements. */
+  body: string | null;
+  raw: string;
+}
+
+/** Result of trying to read a construct at a buffer position; null means "need more input". */
+type ScanResult<T> = { value: T; end: number } | null;
+
 /**
  * Streaming parser for canvas operations from LLM output.
- * Extracts completed operations incrementally for immediate execution.
- * Uses attribute-style XML protocol for token efficiency and parsing reliability.
+ * Tokenizes the output incrementally and yields each operation as soon as its tag is
+ * complete. Handles quoted attribute values containing `/` or `>`, XML entities,
+ * CDATA bodies and multiple canvas_edit blocks, and records parse errors instead of
+ * dropping operations silently.
  */
 export class CanvasOperationStreamer {
   private buffer = "";
-  private currentCanvasPath: string | null = null;
-  private summary = "";
+  /** Buffer position up to which input has been consumed. */
+  private position = 0;
+  private currentBlock: CanvasEditBlock | null = null;
+  private blocks: CanvasEditBlock[] = [];
+  private errors: CanvasParseError[] = [];
 
   /**
    * Process a chunk of LLM output and yield completed operations.
@@ -104,41 +226,60 @@ export class CanvasOperationStreamer {
   async *processChunk(chunk: string): AsyncGenerator<CanvasOperation> {
     this.buffer += chunk;
 
-    // Extract canvas path and summary from attributes if not yet found
-    // Format: <canvas_edit path="..." summary="...">
-    if (!this.currentCanvasPath || !this.summary) {
-      const canvasEditMatch = this.buffer.match(
-        /<canvas_edit\s+path="([^"]+)"(?:\s+summary="([^"]*)")?/
-      );
-      if (canvasEditMatch) {
-        if (!this.currentCanvasPath) {
-          this.currentCanvasPath = canvasEditMatch[1];
-        }
-        if (!this.summary && canvasEditMatch[2]) {
-          this.summary = canvasEditMatch[2];
-        }
-      }
+    for (const op of this.extractCompletedOperations()) {
+      yield op;
     }
 
-    // Extract and yield completed operations
-    const completedOps = this.extractCompletedOperations();
-    for (const op of completedOps) {
-      yield op;
+    // Drop consumed input so the buffer stays small on long streams
+    this.buffer = this.buffer.slice(this.position);
+    this.position = 0;
+  }
+
+  /**
+   * Signal the end of the stream. Reports constructs left incomplete and closes
+   * an unterminated canvas_edit block so its operations are kept.
+   */
+  end(): void {
+    if (this.currentBlock) {
+      const rest = this.buffer.slice(this.position).trim();
+      if (rest.startsWith("<")) {
+        this.addError("Incomplete tag at end of response", rest);
+      }
+      this.addError("canvas_edit block was not closed");
+      this.closeBlock();
     }
+    this.buffer = "";
+    this.position = 0;
   }
 
   /**
-   * Get the canvas path from the edit block.
+   * Get the canvas path of the block being parsed, or of the last parsed block.
    */
   getCanvasPath(): string | null {
-    return this.currentCanvasPath;
+    const block = this.currentBlock ?? this.blocks[this.blocks.length - 1];
+    return block?.canvasPath || null;
   }
 
   /**
-   * Get the summary from the edit block.
+   * Get the summary of the block being parsed, or of the last parsed block.
    */
   getSummary(): string {
-    return this.summary;
+    const block = this.currentBlock ?? this.blocks[this.blocks.length - 1];
+    return block?.summary ?? "";
+  }
+
+  /**
+   * Get every canvas_edit block seen so far, including one still being parsed.
+   */
+  getBlocks(): CanvasEditBlock[] {
+    return this.currentBlock ? [...this.blocks, this.currentBlock] : [...this.blocks];
+  }
+
+  /**
+   * Get the parse errors collected so far.
+   */
+  getErrors(): CanvasParseError[] {
+    return [...this.errors];
   }
 
   /**
@@ -146,192 +287,485 @@ export class CanvasOperationStreamer {
    */
   reset(): void {
     this.buffer = "";
-    this.currentCanvasPath = null;
-    this.summary = "";
+    this.position = 0;
+    this.currentBlock = null;
+    this.blocks = [];
+    this.errors = [];
   }
 
   /**
-   * Helper to parse all attributes from a tag string into a key-value map.
+   * Consume as much of the buffer as possible, returning completed operations.
    */
-  private parseAttributes(tagContent: string): Record<string, string> {
-    const attrs: Record<string, string> = {};
-    const attrPattern = /(\w+)="([^"]*)"/g;
-    let match;
-    while ((match = attrPattern.exec(tagContent)) !== null) {
-      attrs[match[1]] = match[2];
+  private extractCompletedOperations(): CanvasOperation[] {
+    const operations: CanvasOperation[] = [];
+
+    while (this.position < this.buffer.length) {
+      if (!this.currentBlock) {
+        if (!this.openBlock()) break;
+        continue;
+      }
+
+      const next = this.buffer.indexOf("<", this.position);
+      if (next === -1) {
+        // Text between operations is ignored
+        this.position = this.buffer.length;
+        break;
+      }
+      this.position = next;
+      const rest = this.buffer.slice(next);
+
+      if (rest.startsWith(CANVAS_EDIT_CLOSE)) {
+        this.position += CANVAS_EDIT_CLOSE.length;
+        this.closeBlock();
+        continue;
+      }
+      if (isPrefixOf(rest, CANVAS_EDIT_CLOSE) || isPrefixOf(rest, "<!--")) break;
+      if (rest.startsWith("<!--")) {
+        const commentEnd = this.buffer.indexOf("-->", next + 4);
+        if (commentEnd === -1) break;
+        this.position = commentEnd + 3;
+        continue;
+      }
+      if (rest.startsWith(CDATA_OPEN) || isPrefixOf(rest, CDATA_OPEN)) {
+        const cdataEnd = this.buffer.indexOf(CDATA_CLOSE, next);
+        if (cdataEnd === -1) break;
+        this.position = cdataEnd + CDATA_CLOSE.length;
+        continue;
+      }
+      if (!/^<[A-Za-z_]/.test(rest)) {
+        if (rest.length < 2) break;
+        // A stray "<" in free text
+        this.position += 1;
+        continue;
+      }
+
+      const element = this.readElement(next);
+      if (!element) break;
+      this.position = element.end;
+
+      const operation = this.toOperation(element.value);
+      if (operation) {
+        this.currentBlock.operations.push(operation);
+        operations.push(operation);
+      }
     }
-    return attrs;
+
+    return operations;
   }
 
   /**
-   * Extract completed operations from buffer and remove them.
+   * Find and open the next canvas_edit block.
+   * @returns false when more input is needed
    */
-  private extractCompletedOperations(): CanvasOperation[] {
-    const operations: CanvasOperation[] = [];
+  private openBlock(): boolean {
+    const start = this.buffer.indexOf(CANVAS_EDIT_OPEN, this.position);
+    if (start === -1) {
+      // Keep a possible partial "<canvas_edit" at the end of the buffer
+      this.position = Math.max(this.position, this.buffer.length - (CANVAS_EDIT_OPEN.length - 1));
+      return false;
+    }
 
-    // Pattern for add_node with inner content (text nodes)
-    // <add_node id="..." type="text" x="0" y="0" width="200" height="100">content</add_node>
-    const addNodeWithContentPattern =
-      /<add_node\s+([^>]+)>([^<]*(?:<(?!\/add_node>)[^<]*)*)<\/add_node>/g;
+    const tag = scanTag(this.buffer, start);
+    if (!tag) {
+      this.position = start;
+      return false;
+    }
 
-    // Pattern for self-closing add_node (file, link, group nodes)
-    // <add_node id="..." type="file" file="..." x="0" y="0" width="200" height="100"/>
-    const addNodeSelfClosingPattern = /<add_node\s+([^/]+)\/>/g;
+    const path = tag.value.attrs.path ?? "";
+    if (!path) {
+      this.addError("canvas_edit block is missing the path attribute", tag.value.raw);
+    }
+    this.currentBlock = {
+      canvasPath: path,
+      summary: tag.value.attrs.summary ?? "",
+      operations: [],
+    };
+    this.position = tag.end;
+
+    if (tag.value.selfClosing) {
+      this.closeBlock();
+    }
+    return true;
+  }
 
-    // Pattern for update_node (attribute-style, self-closing)
-    // <update_node id="..." x="100" content="..."/>
-    const updateNodePattern = /<update_node\s+([^/]+)\/>/g;
+  private closeBlock(): void {
+    if (this.currentBlock) {
+      this.blocks.push(this.currentBlock);
+      this.currentBlock = null;
+    }
+  }
 
-    // Pattern for delete_node (self-closing)
-    // <delete_node id="..."/>
-    const deleteNodePattern = /<delete_node\s+([^/]+)\/>/g;
+  /**
+   * Read a complete element starting at `start`, including its body and closing tag.
+   */
+  private readElement(start: number): ScanResult<ParsedElement> {
+    const tag = scanTag(this.buffer, start);
+    if (!tag) return null;
+
+    const { name, attrs, selfClosing } = tag.value;
+    if (selfClosing) {
+      return {
+        value: { name, attrs, body: null, raw: this.buffer.slice(start, tag.end) },
+        end: tag.end,
+      };
+    }
 
-    // Pattern for add_edge (attribute-style, self-closing)
-    // <add_edge id="..." from="..." to="..." fromSide="right" toSide="left" label="..."/>
-    const addEdgePattern = /<add_edge\s+([^/]+)\/>/g;
+    if (!BODY_TAGS.has(name)) {
+      // Tolerate a missing "/" on tags that never have a body
+      const closeTag = `</${name}>`;
+      const after = this.buffer.slice(tag.end);
+      const trimmed = after.trimStart();
+      if (trimmed === "" || isPrefixOf(trimmed, closeTag)) return null;
+      const end = trimmed.startsWith(closeTag)
+        ? tag.end + (after.length - trimmed.length) + closeTag.length
+        : tag.end;
+      return {
+        value: { name, attrs, body: null, raw: this.buffer.slice(start, end) },
+        end,
+      };
+    }
 
-    // Pattern for delete_edge (self-closing)
-    // <delete_edge id="..."/>
-    const deleteEdgePattern = /<delete_edge\s+([^/]+)\/>/g;
+    const body = scanBody(this.buffer, tag.end, name);
+    if (!body) {
+      // The block ended before this element was closed
+      const blockEnd = this.buffer.indexOf(CANVAS_EDIT_CLOSE, tag.end);
+      if (blockEnd !== -1 && !this.buffer.slice(tag.end, blockEnd).includes(CDATA_OPEN)) {
+        this.addError(`<${name}> was not closed`, tag.value.raw);
+        return { value: { name: "", attrs, body: null, raw: tag.value.raw }, end: blockEnd };
+      }
+      return null;
+    }
 
-    let match;
+    return {
+      value: { name, attrs, body: body.value, raw: this.buffer.slice(start, body.end) },
+      end: body.end,
+    };
+  }
 
-    // Process add_node with content (text nodes)
-    while ((match = addNodeWithContentPattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
-      const innerContent = match[2].trim();
+  /**
+   * Convert a parsed element into an operation, recording an error when it is invalid.
+   */
+  private toOperation(element: ParsedElement): CanvasOperation | null {
+    const { name, attrs, body, raw } = element;
+    if (!name) {
+      // Already reported while reading the element
+      return null;
+    }
 
-      if (attrs.id && attrs.type) {
-        operations.push({
-          type: "add_node",
-          id: attrs.id,
-          nodeType: attrs.type as "text" | "file" | "link" | "group",
-          x: parseInt(attrs.x || "0", 10),
-          y: parseInt(attrs.y || "0", 10),
-          width: parseInt(attrs.width || "200", 10),
-          height: parseInt(attrs.height || "100", 10),
-          color: attrs.color || undefined,
-          content: innerContent || undefined,
-          file: attrs.file || undefined,
-          url: attrs.url || undefined,
-          label: attrs.label || undefined,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        addNodeWithContentPattern.lastIndex = 0;
-      }
+    if (!OPERATION_TAGS.has(name)) {
+      this.addError(`Unknown canvas operation <${name}>`, raw);
+      return null;
     }
 
-    // Process self-closing add_node (file, link, group nodes)
-    while ((match = addNodeSelfClosingPattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
+    const numbers: Record<string, number | undefined> = {};
+    for (const key of ["x", "y", "width", "height"]) {
+      const value = attrs[key];
+      if (value === undefined || value.trim() === "") continue;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        this.addError(`<${name}> has a non-numeric ${key}="${value}"`, raw);
+        return null;
+      }
+      numbers[key] = Math.round(parsed);
+    }
 
-      if (attrs.id && attrs.type) {
-        operations.push({
+    const requireAttrs = (...keys: string[]): boolean => {
+      const missing = keys.filter((key) => !attrs[key]);
+      if (missing.length > 0) {
+        this.addError(`<${name}> is missing required attribute(s): ${missing.join(", ")}`, raw);
+        return false;
+      }
+      return true;
+    };
+
+    switch (name) {
+      case "add_node": {
+        if (!requireAttrs("id", "type")) return null;
+        const placement: NodePlacement = {};
+        if (attrs.rightOf) placement.rightOf = attrs.rightOf;
+        if (attrs.below) placement.below = attrs.below;
+        if (attrs.inGroup) placement.inGroup = attrs.inGroup;
+
+        return {
           type: "add_node",
           id: attrs.id,
-          nodeType: attrs.type as "text" | "file" | "link" | "group",
-          x: parseInt(attrs.x || "0", 10),
-          y: parseInt(attrs.y || "0", 10),
-          width: parseInt(attrs.width || "200", 10),
-          height: parseInt(attrs.height || "100", 10),
+          nodeType: attrs.type as AddNodeOperation["nodeType"],
+          x: numbers.x,
+          y: numbers.y,
+          width: numbers.width,
+          height: numbers.height,
+          placement: Object.keys(placement).length > 0 ? placement : undefined,
           color: attrs.color || undefined,
+          content: body?.trim() || attrs.content || undefined,
           file: attrs.file || undefined,
           url: attrs.url || undefined,
           label: attrs.label || undefined,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        addNodeSelfClosingPattern.lastIndex = 0;
+        };
       }
-    }
-
-    // Process update_node (attribute-style)
-    while ((match = updateNodePattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
 
-      if (attrs.id) {
+      case "update_node": {
+        if (!requireAttrs("id")) return null;
         const updates: UpdateNodeOperation["updates"] = {};
-        if (attrs.x !== undefined) updates.x = parseInt(attrs.x, 10);
-        if (attrs.y !== undefined) updates.y = parseInt(attrs.y, 10);
-        if (attrs.width !== undefined) updates.width = parseInt(attrs.width, 10);
-        if (attrs.height !== undefined) updates.height = parseInt(attrs.height, 10);
+        if (numbers.x !== undefined) updates.x = numbers.x;
+        if (numbers.y !== undefined) updates.y = numbers.y;
+        if (numbers.width !== undefined) updates.width = numbers.width;
+        if (numbers.height !== undefined) updates.height = numbers.height;
         if (attrs.content !== undefined) updates.content = attrs.content;
+        if (body !== null && body.trim() !== "") updates.content = body.trim();
         if (attrs.color !== undefined) updates.color = attrs.color;
         if (attrs.label !== undefined) updates.label = attrs.label;
+        if (attrs.file !== undefined) updates.file = attrs.file;
+        if (attrs.subpath !== undefined) updates.subpath = attrs.subpath;
+        if (attrs.url !== undefined) updates.url = attrs.url;
 
-        operations.push({
-          type: "update_node",
-          id: attrs.id,
-          updates,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        updateNodePattern.lastIndex = 0;
+        return { type: "update_node", id: attrs.id, updates };
       }
-    }
 
-    // Process delete_node
-    while ((match = deleteNodePattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
-      if (attrs.id) {
-        operations.push({
-          type: "delete_node",
-          id: attrs.id,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        deleteNodePattern.lastIndex = 0;
-      }
-    }
-
-    // Process add_edge (attribute-style)
-    while ((match = addEdgePattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
+      case "delete_node":
+        if (!requireAttrs("id")) return null;
+        return { type: "delete_node", id: attrs.id };
 
-      if (attrs.from && attrs.to) {
-        operations.push({
+      case "add_edge":
+        if (!requireAttrs("from", "to")) return null;
+        return {
           type: "add_edge",
           id: attrs.id || `edge_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
           fromNode: attrs.from,
           toNode: attrs.to,
           fromSide: (attrs.fromSide as NodeSide) || undefined,
           toSide: (attrs.toSide as NodeSide) || undefined,
+          fromEnd: (attrs.fromEnd as EdgeEnd) || undefined,
+          toEnd: (attrs.toEnd as EdgeEnd) || undefined,
           label: attrs.label || undefined,
           color: attrs.color || undefined,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        addEdgePattern.lastIndex = 0;
+        };
+
+      case "update_edge": {
+        if (!requireAttrs("id")) return null;
+        const updates: UpdateEdgeOperation["updates"] = {};
+        if (attrs.from) updates.fromNode = attrs.from;
+        if (attrs.to) updates.toNode = attrs.to;
+        if (attrs.fromSide) updates.fromSide = attrs.fromSide as NodeSide;
+        if (attrs.toSide) updates.toSide = attrs.toSide as NodeSide;
+        if (attrs.fromEnd) updates.fromEnd = attrs.fromEnd as EdgeEnd;
+        if (attrs.toEnd) updates.toEnd = attrs.toEnd as EdgeEnd;
+        if (attrs.label !== undefined) updates.label = attrs.label;
+        if (attrs.color !== undefined) updates.color = attrs.color;
+
+        return { type: "update_edge", id: attrs.id, updates };
       }
-    }
 
-    // Process delete_edge
-    while ((match = deleteEdgePattern.exec(this.buffer)) !== null) {
-      const attrs = this.parseAttributes(match[1]);
-      if (attrs.id) {
-        operations.push({
-          type: "delete_edge",
-          id: attrs.id,
-        });
-        this.buffer = this.buffer.replace(match[0], "");
-        deleteEdgePattern.lastIndex = 0;
+      case "delete_edge":
+        if (!requireAttrs("id")) return null;
+        return { type: "delete_edge", id: attrs.id };
+
+      case "move_to_group": {
+        if (!requireAttrs("id", "nodes")) return null;
+        const nodeIds = attrs.nodes
+          .split(",")
+          .map((id) => id.trim())
+          .filter(Boolean);
+        return { type: "move_to_group", id: attrs.id, nodeIds };
       }
+
+      case "fit_group":
+        if (!requireAttrs("id")) return null;
+        return { type: "fit_group", id: attrs.id };
+
+      case "create_canvas":
+        return { type: "create_canvas", id: this.currentBlock?.canvasPath ?? "" };
+
+      default:
+        return null;
     }
+  }
 
-    return operations;
+  private addError(message: string, snippet?: string): void {
+    this.errors.push({
+      message,
+      canvasPath: this.currentBlock?.canvasPath || null,
+      blockIndex: this.currentBlock ? this.blocks.length : null,
+      snippet:
+        snippet && snippet.length > SNIPPET_LENGTH
+          ? `${snippet.slice(0, SNIPPET_LENGTH)}…`
+          : snippet,
+    });
+  }
+}
+
+/* ---------- Tokenizer ---------- */
+
+/**
+ * Read a start tag at `start`, honouring quoted attribute values.
+ */
+function scanTag(
+  text: string,
+  start: number
+): ScanResult<{
+  name: string;
+  attrs: Record<string, string>;
+  selfClosing: boolean;
+  raw: string;
+}> {
+  const nameMatch = /^<([A-Za-z_][\w-]*)/.exec(text.slice(start, start + 64));
+  if (!nameMatch) return null;
+
+  let quote: string | null = null;
+  for (let i = start + nameMatch[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      const inner = text.slice(start + nameMatch[0].length, i);
+      const selfClosing = inner.trimEnd().endsWith("/");
+      return {
+        value: {
+          name: nameMatch[1],
+          attrs: parseAttributes(selfClosing ? inner.trimEnd().slice(0, -1) : inner),
+          selfClosing,
+          raw: text.slice(start, i + 1),
+        },
+        end: i + 1,
+      };
+    }
   }
+  return null;
+}
+
+/**
+ * Read an element body up to its closing tag. CDATA sections are taken verbatim and
+ * may contain markup; other text has entities decoded. An element written without
+ * "/" or a body ends where the next operation element starts.
+ */
+function scanBody(text: string, start: number, name: string): ScanResult<string> {
+  const closeTag = `</${name}>`;
+  let body = "";
+  let i = start;
+
+  while (i < text.length) {
+    const cdata = text.indexOf(CDATA_OPEN, i);
+    const close = text.indexOf(closeTag, i);
+    OPERATION_OPEN_REGEX.lastIndex = i;
+    let nested = OPERATION_OPEN_REGEX.exec(text)?.index ?? -1;
+    const blockClose = text.indexOf(CANVAS_EDIT_CLOSE, i);
+    if (blockClose !== -1 && blockClose < nested) {
+      // An element of the next block; this one was not closed
+      nested = -1;
+    }
+
+    if (nested !== -1 && (close === -1 || nested < close) && (cdata === -1 || nested < cdata)) {
+      body += decodeEntities(text.slice(i, nested));
+      return { value: body, end: nested };
+    }
+
+    if (cdata !== -1 && (close === -1 || cdata < close)) {
+      const cdataEnd = text.indexOf(CDATA_CLOSE, cdata + CDATA_OPEN.length);
+      if (cdataEnd === -1) return null;
+      body += decodeEntities(text.slice(i, cdata));
+      body += text.slice(cdata + CDATA_OPEN.length, cdataEnd);
+      i = cdataEnd + CDATA_CLOSE.length;
+      continue;
+    }
+
+    if (close === -1) return null;
+    body += decodeEntities(text.slice(i, close));
+    return { value: body, end: close + closeTag.length };
+  }
+
+  return null;
+}
+
+/**
+ * Parse attributes from the inside of a start tag. Values may use double or single
+ * quotes and contain any character other than their own quote.
+ */
+function parseAttributes(tagContent: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrPattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = attrPattern.exec(tagContent)) !== null) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3] ?? "");
+  }
+  return attrs;
+}
+
+/**
+ * Decode the predefined XML entities and numeric character references.
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|quot|apos|amp|lt|gt);/g, (entity, code: string) => {
+    switch (code) {
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      case "amp":
+        return "&";
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      default: {
+        const codePoint =
+          code[1] === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+      }
+    }
+  });
+}
+
+/**
+ * Whether `text` is a proper prefix of `token`, i.e. the token may still be arriving.
+ */
+function isPrefixOf(text: string, token: string): boolean {
+  return text.length < token.length && token.startsWith(text);
 }
 
 /* ---------- Utility Functions ---------- */
 
+/**
+ * Parse every canvas_edit block in a complete response.
+ */
+export async function parseCanvasEditBlocks(
+  text: string
+): Promise<{ blocks: CanvasEditBlock[]; errors: CanvasParseError[] }> {
+  const streamer = new CanvasOperationStreamer();
+  const operations = streamer.processChunk(text);
+  while (!(await operations.next()).done) {
+    // Operations are collected into their blocks by the streamer
+  }
+  streamer.end();
+  return { blocks: streamer.getBlocks(), errors: streamer.getErrors() };
+}
+
+/**
+ * Format parse errors as instructions the agent can act on.
+ */
+export function formatCanvasParseErrors(errors: CanvasParseError[]): string {
+  return [
+    `${errors.length} problem(s) were found in your canvas_edit markup and the affected blocks were NOT applied.`,
+    "Output corrected canvas_edit blocks. Quote every attribute value, escape quotes inside values as &quot;, and wrap long text containing markup in <![CDATA[ ... ]]>.",
+    ...errors.map(
+      (e) =>
+        `- ${e.message}${e.canvasPath ? ` (in ${e.canvasPath})` : ""}${e.snippet ? `: ${e.snippet}` : ""}`
+    ),
+  ].join("\n");
+}
+
 /**
  * Check if a string contains a canvas_edit block.
  */
 export function containsCanvasEdit(text: string): boolean {
-  return text.includes("<canvas_edit");
+  return text.includes(CANVAS_EDIT_OPEN);
 }
 
 /**
- * Extract the canvas path from a canvas_edit block.
- * Supports attribute-style: <canvas_edit path="...">
+ * Extract the canvas path from the first canvas_edit block.
  */
 export function extractCanvasPath(text: string): string | null {
-  const match = text.match(/<canvas_edit\s+path="([^"]+)"/);
-  return match ? match[1] : null;
+  const start = text.indexOf(CANVAS_EDIT_OPEN);
+  if (start === -1) return null;
+  return scanTag(text, start)?.value.attrs.path || null;
 }
@@ -1041,6 +1041,7 @@ Otherwise omit RETURN_ALL or output: [RETURN_ALL: false]`;
       .map((d: any) => ({
         title: d.title || d.path || "Untitled",
         path: d.path || d.title || "",
+        nodeId: d.nodeId || undefined,
       }));
     const catalogLines = formatSourceCatalog(sourceEntries);
 
@@ -154,6 +154,7 @@ export class VaultQAChainRunner extends BaseChainRunner {
         .map((d: any) => ({
           title: d.metadata?.title || d.metadata?.path || "Untitled",
           path: d.metadata?.path || d.metadata?.title || "",
+          nodeId: d.metadata?.nodeId,
         }));
       const sourceCatalog = formatSourceCatalog(sourceEntries).join("\n");
 
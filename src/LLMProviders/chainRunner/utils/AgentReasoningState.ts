@@ -5,6 +5,8 @@
  * which replaces the old tool call banner with a more informative reasoning display.
  */
 
+import { type AgentPlan, type TodoStatus } from "@/tools/PlannerTools";
+
 /**
  * Represents a single reasoning step in the agent loop
  */
@@ -31,6 +33,8 @@ export interface AgentReasoningState {
   startTime: number | null;
   elapsedSeconds: number;
   steps: ReasoningStep[];
+  /** The agent's checklist, once it has written one */
+  plan?: AgentPlan;
 }
 
 /**
@@ -66,7 +70,67 @@ export function serializeReasoningBlock(state: AgentReasoningState): string {
   }
 
   const stepsJson = JSON.stringify(state.steps.map((s) => s.summary));
-  return `<!--AGENT_REASONING:${state.status}:${state.elapsedSeconds}:${stepsJson}-->`;
+  const marker = `<!--AGENT_REASONING:${state.status}:${state.elapsedSeconds}:${stepsJson}-->`;
+  return state.plan ? `${marker}\n${serializeAgentPlan(state.plan)}` : marker;
+}
+
+const PLAN_CHECKBOXES: Record<TodoStatus, string> = {
+  pending: " ",
+  in_progress: "/",
+  completed: "x",
+};
+
+const AGENT_PLAN_REGEX = /<!--AGENT_PLAN:(\d+)\n([\s\S]*?)-->/;
+
+/**
+ * Serialize the agent's plan as a checklist marker. Unlike the reasoning marker it is
+ * kept when the chat is saved, so the plan stays readable in the chat note.
+ * Format:
+ * <!--AGENT_PLAN:revision
+ * - [x] done
+ * - [/] in progress
+ * - [ ] pending
+ * -->
+ */
+export function serializeAgentPlan(plan: AgentPlan): string {
+  const items = plan.todos.map(
+    (todo) =>
+      `- [${PLAN_CHECKBOXES[todo.status]}] ${todo.content.replace(/\s+/g, " ").replace(/-->/g, "->")}`
+  );
+  return `<!--AGENT_PLAN:${plan.revision}\n${items.join("\n")}\n-->`;
+}
+
+/**
+ * Parse the plan marker from message content. Todo IDs are not stored, so parsed
+ * todos are numbered in order.
+ *
+ * @returns The plan, or null if the content has no plan marker
+ */
+export function parseAgentPlan(content: string): AgentPlan | null {
+  const match = content.match(AGENT_PLAN_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const todos = match[2]
+    .split("\n")
+    .map((line) => line.match(/^- \[([ x/])\] (.*)$/))
+    .filter((item): item is RegExpMatchArray => item !== null)
+    .map(([, checkbox, content], index) => ({
+      id: String(index + 1),
+      content,
+      status: (Object.keys(PLAN_CHECKBOXES) as TodoStatus[]).find(
+        (status) => PLAN_CHECKBOXES[status] === checkbox
+      )!,
+    }));
+  return { revision: parseInt(match[1], 10), todos };
+}
+
+/**
+ * Remove the plan marker from message content.
+ */
+export function stripAgentPlan(content: string): string {
+  return content.replace(AGENT_PLAN_REGEX, "").trim();
 }
 
 /**
@@ -179,8 +243,42 @@ export function summarizeToolResult(
       }
       return "Read note content";
     }
-    case "createNote":
-      return "Created new note";
+    case "getTasks": {
+      try {
+        const { total } = JSON.parse(result.result || "");
+        return `Found ${total} task${total === 1 ? "" : "s"}`;
+      } catch {
+        return "Collected tasks";
+      }
+    }
+    case "completeTask": {
+      try {
+        const { result: status, task } = JSON.parse(result.result || "");
+        if (status === "failed") return "Could not update task";
+        if (status === "unchanged") return "Task already up to date";
+        return `${status === "reopened" ? "Reopened" : "Completed"} "${truncate(task ?? args?.text ?? "task", 60)}"`;
+      } catch {
+        return "Could not update task";
+      }
+    }
+    case "queryProperties": {
+      try {
+        const { total, groupBy } = { ...JSON.parse(result.result || ""), ...args };
+        if (groupBy) return `Counted notes by "${groupBy}"`;
+        return `Found ${total} matching note${total === 1 ? "" : "s"}`;
+      } catch {
+        return "Queried note properties";
+      }
+    }
+    case "getLinkedNotes": {
+      try {
+        const { outgoing = [], backlinks = [] } = JSON.parse(result.result || "");
+        const count = outgoing.length + backlinks.length;
+        return `Found ${count} linked note${count === 1 ? "" : "s"}`;
+      } catch {
+        return "Retrieved linked notes";
+      }
+    }
     case "appendToNote":
       return "Appended to note";
     case "editNote":
@@ -206,6 +304,14 @@ export function summarizeToolResult(
       return "Indexed vault";
     case "updateMemory":
       return "Updated memory";
+    case "write_todos": {
+      try {
+        const { todoCount, completed } = JSON.parse(result.result || "");
+        return `Updated plan: ${completed}/${todoCount} done`;
+      } catch {
+        return "Updated plan";
+      }
+    }
     case "writeToFile":
     case "replaceInFile": {
       // Parse the result to check if accepted/rejected
@@ -225,6 +331,30 @@ export function summarizeToolResult(
       // See docs/TODO-composer-tool-redesign.md
       return toolName === "writeToFile" ? `Wrote to "${fileName}"` : `Edited "${fileName}"`;
     }
+    case "createNote":
+    case "moveNote":
+    case "appendToHeading":
+    case "updateFrontmatter":
+    case "createFolder": {
+      const target = String(args?.newPath ?? args?.path ?? "");
+      const name = target.split("/").pop() || target || "note";
+      let status = "";
+      try {
+        status = JSON.parse(result.result || "").result ?? "";
+      } catch {
+        // Errors are plain strings
+      }
+      if (!result.success || status === "failed") return `Could not change "${name}"`;
+      if (status === "rejected" || status === "aborted") return `Change rejected for "${name}"`;
+      const done: Record<string, string> = {
+        createNote: "Created",
+        moveNote: "Moved to",
+        appendToHeading: "Added to",
+        updateFrontmatter: "Updated properties of",
+        createFolder: "Created folder",
+      };
+      return `${done[toolName]} "${name}"`;
+    }
     default:
       return "Done";
   }
@@ -300,8 +430,17 @@ export function summarizeToolCall(
       }
       return "Reading note";
     }
-    case "createNote":
-      return "Creating new note";
+    case "getTasks":
+      return "Collecting tasks";
+    case "completeTask":
+      return args?.completed === false ? "Reopening task" : "Completing task";
+    case "queryProperties":
+      return "Querying note properties";
+    case "getLinkedNotes": {
+      const notePath = args?.notePath as string | undefined;
+      const noteTitle = notePath?.split("/").pop()?.replace(/\.md$/i, "");
+      return noteTitle ? `Following links of "${noteTitle}"` : "Following note links";
+    }
     case "appendToNote":
       return "Appending to note";
     case "editNote":
@@ -327,6 +466,8 @@ export function summarizeToolCall(
       return "Indexing vault";
     case "updateMemory":
       return "Saving to memory";
+    case "write_todos":
+      return "Updating plan";
     case "writeToFile": {
       const filePath = args?.path as string | undefined;
       if (filePath) {
@@ -343,6 +484,24 @@ export function summarizeToolCall(
       }
       return "Editing file";
     }
+    case "createNote":
+    case "moveNote":
+    case "appendToHeading":
+    case "updateFrontmatter":
+    case "createFolder": {
+      const name =
+        String(args?.path ?? "")
+          .split("/")
+          .pop() || "note";
+      const pending: Record<string, string> = {
+        createNote: `Creating "${name}"`,
+        moveNote: `Moving "${name}"`,
+        appendToHeading: `Adding to "${name}"`,
+        updateFrontmatter: `Updating properties of "${name}"`,
+        createFolder: `Creating folder "${name}"`,
+      };
+      return pending[toolName];
+    }
     default:
       return "Processing";
   }
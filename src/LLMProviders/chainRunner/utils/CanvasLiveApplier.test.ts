@@ -0,0 +1,130 @@
+import { App, TFile } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { CanvasLiveApplier, CanvasLiveProgress } from "./CanvasLiveApplier";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+const path = "boards/plan.canvas";
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [{ id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 }],
+    edges: [],
+  } as CanvasData;
+}
+
+/**
+ * Create an app mock with one canvas file and one open view of it.
+ */
+function createApp() {
+  const file = new (TFile as any)(path);
+  const canvas = { setData: jest.fn() };
+  const view = { file: { path }, canvas, save: jest.fn(), requestSave: jest.fn() };
+  const vault = {
+    getAbstractFileByPath: jest.fn((p: string) => (p === path ? file : null)),
+    read: jest.fn(async () => JSON.stringify(createCanvas())),
+    modify: jest.fn(),
+  };
+  const workspace = {
+    getLeavesOfType: jest.fn(() => [{ view }]),
+  };
+  return { app: { vault, workspace } as unknown as App, canvas, view, vault };
+}
+
+const response = [
+  `Sure.\n<canvas_edit path="${path}" summary="Add notes">`,
+  `<add_node id="b" type="text" x="300" y="0" width="200" height="100">Beta</add_node>`,
+  `<add_edge id="e1" from="a" to="b" />`,
+  `<delete_node id="missing" />`,
+  `</canvas_edit>\nDone.`,
+];
+
+describe("CanvasLiveApplier", () => {
+  it("applies each operation to the open view as its tag closes", async () => {
+    const { app, canvas, vault } = createApp();
+    const progress: CanvasLiveProgress[] = [];
+    const applier = new CanvasLiveApplier(app, new AbortController().signal, (p) =>
+      progress.push(p)
+    );
+
+    response.forEach((chunk) => applier.push(chunk));
+    await applier.finish();
+
+    const shown = canvas.setData.mock.calls.map(([data]: [CanvasData]) => ({
+      nodes: data.nodes.map((n) => n.id),
+      edges: data.edges.map((e) => e.id),
+    }));
+    expect(shown).toEqual([
+      { nodes: ["a", "b"], edges: [] },
+      { nodes: ["a", "b"], edges: ["e1"] },
+    ]);
+    expect(progress[progress.length - 1]).toEqual({ canvasPath: path, applied: 2, failed: 1 });
+    expect(applier.getBlocks()[0].operations.map((op) => op.id)).toEqual(["b", "e1", "missing"]);
+    expect(vault.modify).not.toHaveBeenCalled();
+  });
+
+  it("resolves placement so committed operations match what was shown", async () => {
+    const { app } = createApp();
+    const applier = new CanvasLiveApplier(app, new AbortController().signal);
+
+    applier.push(`<canvas_edit path="${path}"><add_node id="b" type="text" rightOf="a">Beta`);
+    applier.push(`</add_node></canvas_edit>`);
+    await applier.finish();
+
+    const [operation] = applier.getBlocks()[0].operations;
+    expect(operation).toMatchObject({ id: "b", x: expect.any(Number), y: expect.any(Number) });
+  });
+
+  it("stops applying operations once aborted and reports an unfinished block", async () => {
+    const { app, canvas } = createApp();
+    const controller = new AbortController();
+    const applier = new CanvasLiveApplier(app, controller.signal);
+
+    applier.push(response[0] + response[1]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+    applier.push(response[2]);
+    await applier.finish();
+
+    expect(canvas.setData).toHaveBeenCalledTimes(1);
+    expect(applier.getBlocks()[0].operations.map((op) => op.id)).toEqual(["b"]);
+    expect(applier.getErrors()).toEqual([
+      { message: "canvas_edit block was not closed", canvasPath: path, blockIndex: 0 },
+    ]);
+  });
+
+  it("keeps the view from saving the preview until released", async () => {
+    const { app, view } = createApp();
+    const { save, requestSave } = view;
+    const applier = new CanvasLiveApplier(app, new AbortController().signal);
+    response.forEach((chunk) => applier.push(chunk));
+    await applier.finish();
+
+    await view.save();
+    view.requestSave();
+    expect(save).not.toHaveBeenCalled();
+    expect(requestSave).not.toHaveBeenCalled();
+
+    applier.release();
+
+    expect(view.save).toBe(save);
+    expect(view.requestSave).toBe(requestSave);
+    // The save the user's edit asked for meanwhile
+    expect(requestSave).toHaveBeenCalledTimes(1);
+  });
+
+  it("restores the view to the canvas before the block", async () => {
+    const { app, canvas } = createApp();
+    const applier = new CanvasLiveApplier(app, new AbortController().signal);
+    response.forEach((chunk) => applier.push(chunk));
+    await applier.finish();
+
+    applier.restoreAll();
+
+    expect(canvas.setData).toHaveBeenLastCalledWith(createCanvas());
+  });
+});
@@ -0,0 +1,239 @@
+import { App } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { logInfo, logWarn } from "@/logger";
+import {
+  CanvasEditBlock,
+  CanvasOperation,
+  CanvasOperationStreamer,
+  CanvasParseError,
+} from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { layoutCanvasOperations } from "@/tools/CanvasLayout";
+import { applyCanvasOperation, readCanvasFile } from "@/tools/CanvasTools";
+
+/** Running totals shown in the chat while a canvas is being edited. */
+export interface CanvasLiveProgress {
+  canvasPath: string | null;
+  applied: number;
+  failed: number;
+}
+
+/**
+ * A canvas_edit block as applied live. Its operations carry resolved placement,
+ * so committing them reproduces exactly what the user saw appear.
+ */
+export interface CanvasLiveBlock extends CanvasEditBlock {
+  /** Canvas content the block was applied on top of (null if the canvas could not be read). */
+  original: CanvasData | null;
+}
+
+interface LiveBlockState {
+  block: CanvasLiveBlock;
+  working: CanvasData | null;
+  /** Number of parsed operations already applied. */
+  consumed: number;
+}
+
+/**
+ * CanvasLiveApplier applies canvas_edit operations to the open canvas view while the
+ * response is still streaming, so nodes appear as soon as their tag closes.
+ *
+ * 1. Parses streamed text with CanvasOperationStreamer
+ * 2. Applies each completed operation to an in-memory copy of the canvas
+ * 3. Pushes the copy to every open view of that canvas, with the view's saving
+ *    suspended so the preview never reaches the file
+ *
+ * Nothing is written to the vault here: the runner commits each block as a single
+ * transaction once the response is complete, restores the view when it is not, and
+ * then releases the views. After an abort no further operations are applied, and a
+ * block left unfinished is reported as unclosed so it is not committed.
+ */
+export class CanvasLiveApplier {
+  private streamer = new CanvasOperationStreamer();
+  private states: LiveBlockState[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private applied = 0;
+  private failed = 0;
+  /** Open views showing a preview, with the save methods they had before. */
+  private suspendedViews = new Map<any, { save: unknown; requestSave: unknown }>();
+  private saveRequested = new Set<any>();
+
+  constructor(
+    private app: App,
+    private signal: AbortSignal,
+    private onProgress?: (progress: CanvasLiveProgress) => void
+  ) {}
+
+  /**
+   * Feed newly streamed text. Chunks are processed in order in the background.
+   */
+  push(text: string): void {
+    if (!text || this.signal.aborted) return;
+    this.queue = this.queue
+      .then(() => this.process(text))
+      .catch((error) => logWarn("[CanvasLiveApplier] Failed to apply streamed operations", error));
+  }
+
+  /**
+   * Wait for pending chunks and close the stream. A block cut off by an abort gets
+   * an "unclosed" parse error, so only the operations of complete blocks are committed.
+   */
+  async finish(): Promise<void> {
+    await this.queue;
+    this.streamer.end();
+  }
+
+  /**
+   * Get the blocks seen so far with the operations that were applied live.
+   */
+  getBlocks(): CanvasLiveBlock[] {
+    return this.states.map((state) => state.block);
+  }
+
+  getErrors(): CanvasParseError[] {
+    return this.streamer.getErrors();
+  }
+
+  getProgress(): CanvasLiveProgress {
+    return {
+      canvasPath: this.streamer.getCanvasPath(),
+      applied: this.applied,
+      failed: this.failed,
+    };
+  }
+
+  /**
+   * Show a block's canvas as it was before the block, e.g. when it was not committed.
+   */
+  restore(block: CanvasLiveBlock): void {
+    if (block.original) {
+      this.renderView(block.canvasPath, block.original);
+    }
+  }
+
+  /**
+   * Restore every canvas touched by this response, newest block first, and release
+   * the views.
+   */
+  restoreAll(): void {
+    [...this.states].reverse().forEach((state) => this.restore(state.block));
+    this.release();
+  }
+
+  /**
+   * Let the previewed views save again once the blocks are committed or restored.
+   * A view the user edited meanwhile saves what it shows now.
+   */
+  release(): void {
+    for (const [view, original] of this.suspendedViews) {
+      view.save = original.save;
+      view.requestSave = original.requestSave;
+      if (this.saveRequested.has(view) && typeof view.requestSave === "function") {
+        view.requestSave();
+      }
+    }
+    this.suspendedViews.clear();
+    this.saveRequested.clear();
+  }
+
+  private async process(text: string): Promise<void> {
+    // Drain the generator; operations are picked up per block below
+    const operations = this.streamer.processChunk(text);
+    while (!(await operations.next()).done) {
+      if (this.signal.aborted) return;
+    }
+
+    for (const [index, block] of this.streamer.getBlocks().entries()) {
+      const state = this.states[index] ?? (this.states[index] = await this.openBlock(block));
+      while (state.consumed < block.operations.length) {
+        if (this.signal.aborted) return;
+        this.applyOperation(state, block.operations[state.consumed]);
+        state.consumed++;
+      }
+    }
+  }
+
+  private async openBlock(block: CanvasEditBlock): Promise<LiveBlockState> {
+    // Later blocks on the same canvas build on what earlier blocks showed
+    const previous = [...this.states]
+      .reverse()
+      .find((state) => state.working && state.block.canvasPath === block.canvasPath);
+    const base = previous
+      ? cloneCanvasData(previous.working!)
+      : block.canvasPath
+        ? await readCanvasFile(this.app.vault, block.canvasPath)
+        : null;
+
+    logInfo(`[CanvasLiveApplier] Applying canvas edits live on ${block.canvasPath}`);
+    return {
+      block: {
+        canvasPath: block.canvasPath,
+        summary: block.summary,
+        operations: [],
+        original: base ? cloneCanvasData(base) : null,
+      },
+      working: base,
+      consumed: 0,
+    };
+  }
+
+  private applyOperation(state: LiveBlockState, operation: CanvasOperation): void {
+    if (!state.working && operation.type === "create_canvas" && state.consumed === 0) {
+      // A canvas created by this block starts out empty
+      state.working = { nodes: [], edges: [] };
+      state.block.original = { nodes: [], edges: [] };
+    }
+    if (!state.working) {
+      state.block.operations.push(operation);
+      this.failed++;
+      this.onProgress?.(this.getProgress());
+      return;
+    }
+
+    // Resolve placement now so the node appears where it will be written
+    let success = true;
+    for (const resolved of layoutCanvasOperations(state.working, [operation])) {
+      state.block.operations.push(resolved);
+      const result = applyCanvasOperation(state.working, resolved);
+      if (!result.success) {
+        success = false;
+      }
+    }
+
+    if (success) {
+      this.applied++;
+      this.renderView(state.block.canvasPath, state.working);
+    } else {
+      this.failed++;
+    }
+    this.onProgress?.(this.getProgress());
+  }
+
+  /**
+   * Replace the content of every open view of the canvas without saving it.
+   */
+  private renderView(canvasPath: string, data: CanvasData): void {
+    for (const leaf of this.app.workspace.getLeavesOfType("canvas")) {
+      const view = leaf.view as any;
+      if (view?.file?.path !== canvasPath || typeof view.canvas?.setData !== "function") continue;
+      this.suspendSaving(view);
+      view.canvas.setData(cloneCanvasData(data));
+    }
+  }
+
+  /**
+   * Stop a view from writing its content, which includes the preview, to the file.
+   * Canvas views save on their own after changes and when closed.
+   */
+  private suspendSaving(view: any): void {
+    if (this.suspendedViews.has(view)) return;
+    this.suspendedViews.set(view, { save: view.save, requestSave: view.requestSave });
+    view.save = async () => {};
+    view.requestSave = () => {
+      this.saveRequested.add(view);
+    };
+  }
+}
+
+function cloneCanvasData(canvasData: CanvasData): CanvasData {
+  return JSON.parse(JSON.stringify(canvasData));
+}
@@ -75,6 +75,14 @@ More content
       expect(result).toHaveLength(2);
     });
 
+    it("should link canvas sources to their node", () => {
+      const result = formatSourceCatalog([
+        { title: "Board", path: "Plans/Board.canvas", nodeId: "a1b2" },
+      ]);
+
+      expect(result).toEqual(["- [[Board.canvas#^a1b2]] (Plans/Board.canvas)"]);
+    });
+
     it("should handle empty input", () => {
       expect(formatSourceCatalog([])).toEqual([]);
     });
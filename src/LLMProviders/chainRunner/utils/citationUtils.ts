@@ -561,15 +561,19 @@ export function processInlineCitations(
 export interface SourceCatalogEntry {
   title: string;
   path: string;
+  /** Canvas node the source was found in. */
+  nodeId?: string;
 }
 
 /**
  * Formats source catalog entries for citation guidance.
+ * Canvas nodes are listed as block links to the node so citations can open it.
  */
 export function formatSourceCatalog(sources: SourceCatalogEntry[]): string[] {
   return sources.map((source) => {
     const title = source.title || source.path || "Untitled";
     const path = source.path || title;
-    return `- [[${title}]] (${path})`;
+    const link = source.nodeId ? `${path.split("/").pop()}#^${source.nodeId}` : title;
+    return `- [[${link}]] (${path})`;
   });
 }
@@ -72,7 +72,7 @@ export function formatQualitySummary(summary: QualitySummary): string {
 
 /**
  * Formats localSearch results as structured text for LLM consumption
- * Includes essential metadata (title, path, mtime) while excluding unnecessary fields
+ * Includes essential metadata (title, path, canvas node, mtime) while excluding unnecessary fields
  * @param searchResults - The raw search results from localSearch tool
  * @returns Formatted text string for LLM
  */
@@ -113,6 +113,11 @@ export function formatSearchResultsForLLM(searchResults: any[]): string {
           ? `
 <path>${path}</path>`
           : ""
+      }${
+        doc.nodeId
+          ? `
+<node>${doc.nodeId}</node>`
+          : ""
       }${
         modified
           ? `
@@ -325,6 +330,11 @@ ${doc.content || ""}
             ? `
 <path>${path}</path>`
             : ""
+        }${
+          doc.nodeId
+            ? `
+<node>${doc.nodeId}</node>`
+            : ""
         }${
           modified
             ? `
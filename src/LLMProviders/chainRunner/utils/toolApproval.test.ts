@@ -0,0 +1,125 @@
+import { ToolApprovalPolicy } from "@/settings/model";
+import { ToolMetadata, ToolRegistry } from "@/tools/ToolRegistry";
+import {
+  authorizeToolCall,
+  checkToolPolicy,
+  isPathAllowed,
+  ToolApprovalManager,
+} from "./toolApproval";
+
+jest.mock("@/logger", () => ({
+  logInfo: jest.fn(),
+}));
+
+let mockPolicies: Record<string, ToolApprovalPolicy> = {};
+jest.mock("@/settings/model", () => ({
+  getSettings: jest.fn(() => ({ toolApprovalPolicies: mockPolicies })),
+}));
+
+function registerTool(metadata: Partial<ToolMetadata> & { id: string }) {
+  ToolRegistry.getInstance().register({
+    tool: {} as any,
+    metadata: { displayName: metadata.id, description: "", category: "file", ...metadata },
+  });
+}
+
+/** Answer the next approval request as soon as the card would show it. */
+function answerNextRequest(decision: Parameters<ToolApprovalManager["resolve"]>[1]): jest.Mock {
+  const manager = ToolApprovalManager.getInstance();
+  const listener = jest.fn(() => {
+    const [request] = manager.getPending();
+    if (request) {
+      unsubscribe();
+      manager.resolve(request.id, decision);
+    }
+  });
+  const unsubscribe = manager.subscribe(listener);
+  return listener;
+}
+
+describe("toolApproval", () => {
+  beforeEach(() => {
+    mockPolicies = {};
+    ToolRegistry.getInstance().clear();
+    registerTool({ id: "readNote" });
+    registerTool({ id: "writeToFile", pathArgs: ["path"] });
+    registerTool({ id: "updateMemory", approval: "ask" });
+  });
+
+  describe("isPathAllowed", () => {
+    it("matches files inside the allowed folders only", () => {
+      expect(isPathAllowed("Drafts/idea.md", ["Drafts/"])).toBe(true);
+      expect(isPathAllowed("/Drafts/sub/idea.md", ["./Drafts"])).toBe(true);
+      expect(isPathAllowed("DraftsArchive/idea.md", ["Drafts/"])).toBe(false);
+      expect(isPathAllowed("Drafts/../Journal/today.md", ["Drafts/"])).toBe(false);
+      expect(isPathAllowed("anywhere.md", [])).toBe(true);
+    });
+  });
+
+  describe("checkToolPolicy", () => {
+    it("uses the metadata default unless the settings override it", () => {
+      expect(checkToolPolicy("readNote", {})).toEqual({ verdict: "allow" });
+      expect(checkToolPolicy("updateMemory", {})).toEqual({ verdict: "ask" });
+
+      mockPolicies = { updateMemory: { mode: "always" }, readNote: { mode: "never" } };
+      expect(checkToolPolicy("updateMemory", {})).toEqual({ verdict: "allow" });
+      expect(checkToolPolicy("readNote", {}).verdict).toBe("deny");
+    });
+
+    it("denies writes outside the allowed paths", () => {
+      mockPolicies = { writeToFile: { allowedPaths: ["Drafts/"] } };
+
+      expect(checkToolPolicy("writeToFile", { path: "Drafts/a.md" })).toEqual({ verdict: "allow" });
+      expect(checkToolPolicy("writeToFile", { path: "Journal/a.md" })).toEqual({
+        verdict: "deny",
+        reason: '"Journal/a.md" is outside the folders it may write to (Drafts/)',
+      });
+    });
+  });
+
+  describe("authorizeToolCall", () => {
+    it("feeds denials back with the user's feedback", async () => {
+      answerNextRequest({ action: "deny", feedback: "Don't store that" });
+
+      const result = await authorizeToolCall(
+        { name: "updateMemory", args: { statement: "x" } },
+        new Set()
+      );
+
+      expect(result).toMatchObject({ approved: false });
+      expect(!result.approved && result.result).toContain(
+        "The user denied the updateMemory call. User feedback: Don't store that"
+      );
+    });
+
+    it("runs with edited arguments and remembers approvals for the turn", async () => {
+      const approvedForTurn = new Set<string>();
+      answerNextRequest({ action: "approve", args: { statement: "edited" }, forTurn: true });
+
+      expect(
+        await authorizeToolCall({ name: "updateMemory", args: { statement: "x" } }, approvedForTurn)
+      ).toEqual({ approved: true, args: { statement: "edited" } });
+
+      // No request is made the second time
+      expect(
+        await authorizeToolCall({ name: "updateMemory", args: { statement: "y" } }, approvedForTurn)
+      ).toEqual({ approved: true, args: { statement: "y" } });
+      expect(ToolApprovalManager.getInstance().getPending()).toEqual([]);
+    });
+
+    it("treats an abort while waiting as a denial", async () => {
+      const controller = new AbortController();
+      const pending = authorizeToolCall(
+        { name: "updateMemory", args: {} },
+        new Set(),
+        controller.signal
+      );
+      expect(ToolApprovalManager.getInstance().getPending()).toHaveLength(1);
+
+      controller.abort();
+
+      expect(await pending).toMatchObject({ approved: false });
+      expect(ToolApprovalManager.getInstance().getPending()).toEqual([]);
+    });
+  });
+});
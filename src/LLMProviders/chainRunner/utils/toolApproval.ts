@@ -0,0 +1,264 @@
+import { logInfo } from "@/logger";
+import { getSettings } from "@/settings/model";
+import { ToolApprovalMode, ToolRegistry } from "@/tools/ToolRegistry";
+import { type ToolCall } from "./toolExecution";
+
+/**
+ * Effective permission of a tool: its approval mode and the paths it may write to.
+ */
+export interface ToolPermission {
+  mode: ToolApprovalMode;
+  /** Folders or files the tool may write to; empty means anywhere */
+  allowedPaths: string[];
+}
+
+/**
+ * Outcome of checking a tool call against its permission, before asking the user.
+ */
+export type ToolPolicyVerdict =
+  | { verdict: "allow" }
+  | { verdict: "ask" }
+  | { verdict: "deny"; reason: string };
+
+/**
+ * A tool call waiting for the user in the chat.
+ */
+export interface ToolApprovalRequest {
+  id: string;
+  toolName: string;
+  displayName: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * The user's answer to an approval request. Approvals may carry edited arguments
+ * and may cover the rest of the turn; denials may explain what to do instead.
+ */
+export type ToolApprovalDecision =
+  | { action: "approve"; args?: Record<string, unknown>; forTurn?: boolean }
+  | { action: "deny"; feedback?: string };
+
+/**
+ * Result of authorizing a tool call: the arguments to run it with, or the tool
+ * result to send back to the model instead of running it.
+ */
+export type ToolAuthorization =
+  | { approved: true; args: Record<string, unknown> }
+  | { approved: false; result: string; summary: string };
+
+/**
+ * Resolve a tool's permission from the user's settings, falling back to the
+ * default approval mode declared in its metadata.
+ */
+export function getToolPermission(toolName: string): ToolPermission {
+  const metadata = ToolRegistry.getInstance().getToolMetadata(toolName);
+  const policy = getSettings().toolApprovalPolicies?.[toolName];
+  return {
+    mode: policy?.mode ?? metadata?.approval ?? "always",
+    allowedPaths: policy?.allowedPaths ?? [],
+  };
+}
+
+/**
+ * Normalize a vault path for prefix comparison: forward slashes, no leading
+ * "./" or "/", no trailing slash.
+ */
+function normalizeVaultPath(path: string): string {
+  return path
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/|\/)+/, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Whether a path lies inside one of the allowed folders (or is one of the allowed
+ * files). Paths that climb out with ".." never match.
+ */
+export function isPathAllowed(path: string, allowedPaths: string[]): boolean {
+  if (allowedPaths.length === 0) return true;
+  const normalized = normalizeVaultPath(path);
+  if (normalized.split("/").includes("..")) return false;
+
+  return allowedPaths.some((allowed) => {
+    const prefix = normalizeVaultPath(allowed);
+    return prefix === "" || normalized === prefix || normalized.startsWith(`${prefix}/`);
+  });
+}
+
+/**
+ * Check a tool call against its permission. A call writing outside the allowed
+ * folders is refused without asking the user.
+ */
+export function checkToolPolicy(
+  toolName: string,
+  args: Record<string, unknown>
+): ToolPolicyVerdict {
+  const { mode, allowedPaths } = getToolPermission(toolName);
+  if (mode === "never") {
+    return { verdict: "deny", reason: "the user does not allow the agent to use this tool" };
+  }
+
+  const pathArgs = ToolRegistry.getInstance().getToolMetadata(toolName)?.pathArgs ?? [];
+  for (const arg of pathArgs) {
+    const value = args[arg];
+    if (typeof value === "string" && value && !isPathAllowed(value, allowedPaths)) {
+      return {
+        verdict: "deny",
+        reason: `"${value}" is outside the folders it may write to (${allowedPaths.join(", ")})`,
+      };
+    }
+  }
+
+  return mode === "ask" ? { verdict: "ask" } : { verdict: "allow" };
+}
+
+/**
+ * Tracks tool calls waiting for the user's approval. The agent awaits `request`,
+ * and the approval card in the chat answers through `resolve`.
+ */
+export class ToolApprovalManager {
+  private static instance: ToolApprovalManager;
+  private pending = new Map<
+    string,
+    { request: ToolApprovalRequest; resolve: (decision: ToolApprovalDecision) => void }
+  >();
+  private listeners: Set<() => void> = new Set();
+  private nextId = 0;
+
+  private constructor() {}
+
+  static getInstance(): ToolApprovalManager {
+    if (!ToolApprovalManager.instance) {
+      ToolApprovalManager.instance = new ToolApprovalManager();
+    }
+    return ToolApprovalManager.instance;
+  }
+
+  /**
+   * Ask the user to approve a tool call. Resolves once the user decides, or as a
+   * denial when the signal aborts first.
+   */
+  request(
+    toolName: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ToolApprovalDecision> {
+    if (signal?.aborted) {
+      return Promise.resolve({ action: "deny" });
+    }
+
+    const id = `tool-approval-${++this.nextId}`;
+    const displayName = ToolRegistry.getInstance().getToolMetadata(toolName)?.displayName;
+    const request: ToolApprovalRequest = {
+      id,
+      toolName,
+      displayName: displayName || toolName,
+      args,
+    };
+
+    return new Promise((resolve) => {
+      const onAbort = () => this.resolve(id, { action: "deny" });
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.pending.set(id, {
+        request,
+        resolve: (decision) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(decision);
+        },
+      });
+      this.notifyListeners();
+    });
+  }
+
+  /**
+   * Answer a pending request. Unknown or already answered requests are ignored.
+   */
+  resolve(id: string, decision: ToolApprovalDecision): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    entry.resolve(decision);
+    this.notifyListeners();
+  }
+
+  /**
+   * Requests waiting for the user, oldest first.
+   */
+  getPending(): ToolApprovalRequest[] {
+    return Array.from(this.pending.values()).map((entry) => entry.request);
+  }
+
+  /**
+   * Subscribe to changes of the pending requests.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Decide whether the agent may run a tool call, asking the user when its policy
+ * says so. Tools approved "for this turn" are added to `approvedForTurn` and not
+ * asked about again until the next user message. Refusals come back as a tool
+ * result the model can adapt to.
+ */
+export async function authorizeToolCall(
+  toolCall: ToolCall,
+  approvedForTurn: Set<string>,
+  signal?: AbortSignal
+): Promise<ToolAuthorization> {
+  const policy = checkToolPolicy(toolCall.name, toolCall.args);
+  if (policy.verdict === "deny") {
+    return {
+      approved: false,
+      result: `Error: ${toolCall.name} was not run because ${policy.reason}. Do not retry it; continue without it or ask the user.`,
+      summary: `Blocked ${toolCall.name}: ${policy.reason}`,
+    };
+  }
+  if (policy.verdict === "allow" || approvedForTurn.has(toolCall.name)) {
+    return { approved: true, args: toolCall.args };
+  }
+
+  const decision = await ToolApprovalManager.getInstance().request(
+    toolCall.name,
+    toolCall.args,
+    signal
+  );
+  if (decision.action === "deny") {
+    logInfo(`[ToolApproval] User denied ${toolCall.name}`);
+    const feedback = decision.feedback?.trim();
+    return {
+      approved: false,
+      result: `Error: The user denied the ${toolCall.name} call.${
+        feedback ? ` User feedback: ${feedback}` : ""
+      } Do not retry the same call; adjust your approach or ask the user how to proceed.`,
+      summary: `User denied ${toolCall.name}`,
+    };
+  }
+
+  // Edited arguments must still respect the path rules
+  const args = decision.args ?? toolCall.args;
+  if (decision.args) {
+    const recheck = checkToolPolicy(toolCall.name, args);
+    if (recheck.verdict === "deny") {
+      return {
+        approved: false,
+        result: `Error: ${toolCall.name} was not run because ${recheck.reason}.`,
+        summary: `Blocked ${toolCall.name}: ${recheck.reason}`,
+      };
+    }
+  }
+  if (decision.forTurn) {
+    approvedForTurn.add(toolCall.name);
+  }
+  return { approved: true, args };
+}
@@ -1,4 +1,8 @@
-import { executeSequentialToolCall } from "./toolExecution";
+import {
+  executeSequentialToolCall,
+  executeToolCallsConcurrently,
+  groupToolCallsForExecution,
+} from "./toolExecution";
 import { createLangChainTool } from "@/tools/createLangChainTool";
 import { ToolRegistry } from "@/tools/ToolRegistry";
 import { z } from "zod";
@@ -155,4 +159,50 @@ describe("toolExecution", () => {
       });
     });
   });
+
+  describe("executeToolCallsConcurrently", () => {
+    it("runs at most the given number of calls at once and keeps call order", async () => {
+      const searchTool = createLangChainTool({
+        name: "search",
+        description: "Search",
+        schema: z.object({ query: z.string() }),
+        func: async () => "unused",
+      });
+      let running = 0;
+      let maxRunning = 0;
+      mockCallTool.mockImplementation(async (_tool, args: any) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        // Later calls finish first
+        await new Promise((resolve) => setTimeout(resolve, 30 - args.query.length * 5));
+        running--;
+        return `found ${args.query}`;
+      });
+
+      const queries = ["a", "bb", "ccc", "dddd"];
+      const results = await executeToolCallsConcurrently(
+        queries.map((query) => ({ name: "search", args: { query } })),
+        [searchTool],
+        undefined,
+        2
+      );
+
+      expect(maxRunning).toBe(2);
+      expect(results.map((r) => r.result)).toEqual(queries.map((q) => `found ${q}`));
+    });
+  });
+
+  describe("groupToolCallsForExecution", () => {
+    it("batches consecutive parallel-safe calls and isolates the rest", () => {
+      const calls = ["search1", "search2", "write", "search3", "write", "write"];
+
+      expect(groupToolCallsForExecution(calls, (call) => call.startsWith("search"))).toEqual([
+        ["search1", "search2"],
+        ["write"],
+        ["search3"],
+        ["write"],
+        ["write"],
+      ]);
+    });
+  });
 });
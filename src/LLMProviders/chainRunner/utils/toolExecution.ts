@@ -142,6 +142,67 @@ export async function executeSequentialToolCall(
   }
 }
 
+/**
+ * Executes tool calls concurrently, running at most `concurrency` at a time.
+ * Results are returned in call order.
+ */
+export async function executeToolCallsConcurrently(
+  toolCalls: ToolCall[],
+  availableTools: any[],
+  originalUserMessage?: string,
+  concurrency = 1
+): Promise<ToolExecutionResult[]> {
+  const results: ToolExecutionResult[] = new Array(toolCalls.length);
+  let nextIndex = 0;
+
+  // Each worker picks up the next call as soon as its previous one finishes
+  const runWorker = async () => {
+    while (nextIndex < toolCalls.length) {
+      const index = nextIndex++;
+      results[index] = await executeSequentialToolCall(
+        toolCalls[index],
+        availableTools,
+        originalUserMessage
+      );
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, concurrency), toolCalls.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+  return results;
+}
+
+/**
+ * Whether a tool can run at the same time as other tools (read-only tools).
+ */
+export function isParallelSafeTool(toolName: string): boolean {
+  return ToolRegistry.getInstance().getToolMetadata(toolName)?.isParallelSafe === true;
+}
+
+/**
+ * Split tool calls into batches that can each run concurrently, keeping call order:
+ * consecutive parallel-safe calls share a batch, every other call gets its own.
+ */
+export function groupToolCallsForExecution<T>(
+  calls: T[],
+  isParallelSafe: (call: T) => boolean
+): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+
+  for (const call of calls) {
+    if (isParallelSafe(call)) {
+      current.push(call);
+      continue;
+    }
+    if (current.length > 0) batches.push(current);
+    batches.push([call]);
+    current = [];
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
 /**
  * Get display name for tool (user-friendly version)
  */
@@ -0,0 +1,173 @@
+import { App, TFile } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { applyCanvasEditBlock } from "@/tools/CanvasEditTool";
+import { validateCanvasOperations } from "@/tools/CanvasTools";
+import {
+  buildCardOperations,
+  buildChildNodeOperations,
+  buildConvertCardOperations,
+  getNoteTitleFromCard,
+  parseListItems,
+  runCanvasAction,
+} from "./canvasActions";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+jest.mock("@/tools/CanvasEditTool", () => ({
+  applyCanvasEditBlock: jest.fn(async () => ({ status: "applied", errors: [] })),
+}));
+
+const mockInvoke = jest.fn();
+jest.mock("@/LLMProviders/chatModelManager", () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getChatModel: () => ({ invoke: mockInvoke }) }) },
+}));
+
+const canvasPath = "boards/plan.canvas";
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      {
+        id: "a",
+        type: "text",
+        text: "# Launch plan\nShip it",
+        x: 0,
+        y: 0,
+        width: 200,
+        height: 100,
+      },
+      {
+        id: "b",
+        type: "text",
+        text: "Beta",
+        x: 300,
+        y: 0,
+        width: 200,
+        height: 100,
+        color: "2",
+      },
+    ],
+    edges: [{ id: "e1", fromNode: "a", toNode: "b", label: "then", toEnd: "arrow" }],
+  } as CanvasData;
+}
+
+function createApp() {
+  const file = new (TFile as any)(canvasPath);
+  const vault = {
+    getAbstractFileByPath: jest.fn((path: string) => (path === canvasPath ? file : null)),
+    read: jest.fn(async () => JSON.stringify(createCanvas())),
+    create: jest.fn(async (path: string) => new (TFile as any)(path)),
+    delete: jest.fn(),
+  };
+  return { app: { vault } as unknown as App, vault, file };
+}
+
+describe("canvas action operations", () => {
+  it("adds child ideas as text nodes connected from the source", () => {
+    const operations = buildChildNodeOperations("a", ["One", "Two"]);
+
+    expect(operations).toHaveLength(4);
+    expect(operations[0]).toMatchObject({ type: "add_node", nodeType: "text", content: "One" });
+    expect(operations[1]).toMatchObject({
+      type: "add_edge",
+      fromNode: "a",
+      toNode: operations[0].id,
+    });
+    expect(validateCanvasOperations(createCanvas(), operations)).toEqual([]);
+  });
+
+  it("connects a card from every source node", () => {
+    const operations = buildCardOperations(["a", "b"], "Answer", "answer");
+
+    expect(operations[0]).toMatchObject({ placement: { rightOf: "a" } });
+    expect(operations.slice(1).map((op: any) => [op.fromNode, op.label])).toEqual([
+      ["a", "answer"],
+      ["b", "answer"],
+    ]);
+  });
+
+  it("replaces a card by a file node in place and keeps its edges", () => {
+    const canvas = createCanvas();
+    const operations = buildConvertCardOperations(canvas, "b", "boards/Beta.md");
+
+    expect(validateCanvasOperations(canvas, operations)).toEqual([]);
+    expect(operations[1]).toMatchObject({
+      type: "add_node",
+      id: "b",
+      nodeType: "file",
+      file: "boards/Beta.md",
+      x: 300,
+      color: "2",
+    });
+    expect(operations[2]).toMatchObject({ type: "add_edge", id: "e1", label: "then" });
+  });
+
+  it("parses list replies and derives note titles", () => {
+    expect(parseListItems("Ideas:\n- First\n2. Second\n\n* Third", 2)).toEqual(["Ideas:", "First"]);
+    expect(getNoteTitleFromCard("\n## **Launch**: plan/v2\nbody")).toBe("Launch plan v2");
+    expect(getNoteTitleFromCard("   ")).toBe("Untitled card");
+  });
+});
+
+describe("runCanvasAction", () => {
+  beforeEach(() => {
+    jest.mocked(applyCanvasEditBlock).mockClear();
+    mockInvoke.mockReset();
+  });
+
+  function createView(file: TFile, selection: string[]) {
+    return { file, canvas: { selection: new Set(selection.map((id) => ({ id }))) } };
+  }
+
+  it("writes expanded ideas back to the canvas", async () => {
+    const { app, file } = createApp();
+    mockInvoke.mockResolvedValue({ content: "- Marketing\n- Pricing" });
+
+    await runCanvasAction(app, "expand-ideas", createView(file, ["a"]));
+
+    expect(mockInvoke.mock.calls[0][0][1].content).toContain("(focus)");
+    const block = jest.mocked(applyCanvasEditBlock).mock.calls[0][1];
+    expect(block.canvasPath).toBe(canvasPath);
+    expect(block.operations.filter((op) => op.type === "add_node")).toHaveLength(2);
+  });
+
+  it("creates the note for a converted card only once the edit is applied", async () => {
+    const { app, file, vault } = createApp();
+    jest.mocked(applyCanvasEditBlock).mockResolvedValueOnce({ status: "rejected" } as any);
+
+    await runCanvasAction(app, "convert-card-to-note", createView(file, ["a"]));
+
+    expect(vault.create).not.toHaveBeenCalled();
+    expect(mockInvoke).not.toHaveBeenCalled();
+
+    jest.mocked(applyCanvasEditBlock).mockImplementationOnce(
+      async (_app, block) =>
+        ({
+          status: "applied",
+          accepted: block.operations,
+          errors: [],
+        }) as any
+    );
+
+    await runCanvasAction(app, "convert-card-to-note", createView(file, ["a"]));
+
+    const block = jest.mocked(applyCanvasEditBlock).mock.calls[1][1];
+    expect(block.operations[1]).toMatchObject({ nodeType: "file", file: "boards/Launch plan.md" });
+    expect(vault.create).toHaveBeenCalledWith("boards/Launch plan.md", "# Launch plan\nShip it");
+    expect(vault.delete).not.toHaveBeenCalled();
+  });
+
+  it("does not call the model when the selection does not fit the action", async () => {
+    const { app, file } = createApp();
+
+    await runCanvasAction(app, "summarize-group", createView(file, ["a"]));
+
+    expect(mockInvoke).not.toHaveBeenCalled();
+    expect(applyCanvasEditBlock).not.toHaveBeenCalled();
+  });
+});
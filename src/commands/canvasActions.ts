@@ -0,0 +1,411 @@
+import { AIMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { App, Notice } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { logError, logInfo } from "@/logger";
+import {
+  CanvasViewLike,
+  getSelectedCanvasNodeIds,
+} from "@/services/canvasSelection/canvasSelectionContext";
+import { applyCanvasEditBlock } from "@/tools/CanvasEditTool";
+import { getGroupMembers } from "@/tools/CanvasLayout";
+import { CanvasLoader } from "@/tools/CanvasLoader";
+import { serializeCanvas } from "@/tools/CanvasSerializer";
+import { createCanvasId, readCanvasFile } from "@/tools/CanvasTools";
+import { extractTextFromChunk } from "@/utils";
+
+/** Token budget for the canvas excerpt sent with an action. */
+const ACTION_CONTEXT_MAX_TOKENS = 6000;
+const MAX_CHILD_IDEAS = 8;
+const MAX_RELATED_NOTES = 5;
+const MAX_NOTE_TITLE_LENGTH = 60;
+
+export type CanvasActionId =
+  | "expand-ideas"
+  | "summarize-group"
+  | "find-related-notes"
+  | "ask-question"
+  | "convert-card-to-note";
+
+/**
+ * The canvas a context menu action runs on: its path, saved data and selected nodes.
+ */
+export interface CanvasActionTarget {
+  canvasPath: string;
+  canvasData: CanvasData;
+  selectedNodeIds: string[];
+}
+
+/* ---------- Operation builders ---------- */
+
+/**
+ * Add one text node per item, each connected from the source node. Nodes are left
+ * without geometry so the layout engine arranges them as children of the source.
+ */
+export function buildChildNodeOperations(sourceId: string, items: string[]): CanvasOperation[] {
+  return items.flatMap((content) => {
+    const id = createCanvasId();
+    return [
+      { type: "add_node", id, nodeType: "text", content },
+      { type: "add_edge", id: createCanvasId(), fromNode: sourceId, toNode: id, toEnd: "arrow" },
+    ] as CanvasOperation[];
+  });
+}
+
+/**
+ * Add a text card right of the first source node, connected from every source node.
+ */
+export function buildCardOperations(
+  sourceIds: string[],
+  content: string,
+  label?: string
+): CanvasOperation[] {
+  const id = createCanvasId();
+  return [
+    { type: "add_node", id, nodeType: "text", content, placement: { rightOf: sourceIds[0] } },
+    ...sourceIds.map(
+      (fromNode): CanvasOperation => ({
+        type: "add_edge",
+        id: createCanvasId(),
+        fromNode,
+        toNode: id,
+        toEnd: "arrow",
+        label,
+      })
+    ),
+  ];
+}
+
+/**
+ * Add a file node per note, connected from the source node with a "related" edge.
+ */
+export function buildRelatedNoteOperations(sourceId: string, paths: string[]): CanvasOperation[] {
+  return paths.flatMap((file) => {
+    const id = createCanvasId();
+    return [
+      { type: "add_node", id, nodeType: "file", file },
+      {
+        type: "add_edge",
+        id: createCanvasId(),
+        fromNode: sourceId,
+        toNode: id,
+        toEnd: "arrow",
+        label: "related",
+      },
+    ] as CanvasOperation[];
+  });
+}
+
+/**
+ * Replace a text node by a file node with the same ID, geometry and color, and
+ * reconnect its edges. The canvas format has no way to change a node's type in place.
+ */
+export function buildConvertCardOperations(
+  canvasData: CanvasData,
+  nodeId: string,
+  notePath: string
+): CanvasOperation[] {
+  const node = canvasData.nodes.find((n) => n.id === nodeId)!;
+  const edges = canvasData.edges.filter((e) => e.fromNode === nodeId || e.toNode === nodeId);
+  return [
+    { type: "delete_node", id: nodeId },
+    {
+      type: "add_node",
+      id: nodeId,
+      nodeType: "file",
+      file: notePath,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      color: node.color,
+    },
+    ...edges.map(
+      (edge): CanvasOperation => ({
+        type: "add_edge",
+        id: edge.id,
+        fromNode: edge.fromNode,
+        toNode: edge.toNode,
+        fromSide: edge.fromSide,
+        toSide: edge.toSide,
+        fromEnd: edge.fromEnd,
+        toEnd: edge.toEnd,
+        label: edge.label,
+        color: edge.color,
+      })
+    ),
+  ];
+}
+
+/**
+ * Parse a model response listing one item per line ("- idea", "1. idea" or plain lines).
+ */
+export function parseListItems(text: string, maxItems: number): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*+•]|\d+[.)])\s+/, "").trim())
+    .filter((line) => line.length > 0)
+    .slice(0, maxItems);
+}
+
+/**
+ * Derive a note title from a card's first non-empty line, without markdown markers
+ * or characters that are not allowed in file names.
+ */
+export function getNoteTitleFromCard(text: string): string {
+  const firstLine = text.split("\n").find((line) => line.trim()) ?? "";
+  const title = firstLine
+    .replace(/^\s*(?:#+|[-*+]|\d+[.)])\s*/, "")
+    .replace(/[*_`~[\]]/g, "")
+    .replace(/[\\/:|#^?<>"]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_NOTE_TITLE_LENGTH)
+    .trim();
+  return title || "Untitled card";
+}
+
+/* ---------- Actions ---------- */
+
+/**
+ * Run a canvas context menu action on the selection of a canvas view. Results are
+ * written back as new, connected nodes through the same path as agent canvas edits,
+ * so they are previewed (unless edits are auto-accepted) and can be rolled back.
+ */
+export async function runCanvasAction(
+  app: App,
+  actionId: CanvasActionId,
+  view: CanvasViewLike,
+  question?: string
+): Promise<void> {
+  const canvasPath = view.file?.path;
+  const selectedNodeIds = getSelectedCanvasNodeIds(view);
+  if (!canvasPath || selectedNodeIds.length === 0) {
+    new Notice("No nodes selected in canvas");
+    return;
+  }
+
+  const canvasData = await readCanvasFile(app.vault, canvasPath);
+  if (!canvasData) {
+    new Notice("Failed to read canvas");
+    return;
+  }
+
+  const target: CanvasActionTarget = { canvasPath, canvasData, selectedNodeIds };
+  const progress = new Notice("Copilot is working on the canvas…", 0);
+  try {
+    const result = await buildActionOperations(app, actionId, target, question);
+    progress.hide();
+    if (typeof result === "string") {
+      new Notice(result);
+      return;
+    }
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath,
+      summary: result.summary,
+      operations: result.operations,
+    });
+    logInfo(`[CanvasActions] ${actionId} on ${canvasPath}: ${outcome.status}`);
+    if (outcome.status === "applied") {
+      await result.onApplied?.(outcome.accepted);
+      new Notice(result.summary);
+    } else {
+      if (outcome.status === "conflict") {
+        new Notice("The canvas changed while the action was running. Try again.");
+      } else if (outcome.status !== "rejected") {
+        new Notice(`Canvas action failed: ${outcome.error ?? outcome.errors[0]?.error}`);
+      }
+    }
+  } catch (error) {
+    progress.hide();
+    logError(`[CanvasActions] ${actionId} failed`, error);
+    new Notice(`Canvas action failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+interface ActionOperations {
+  summary: string;
+  operations: CanvasOperation[];
+  /** Side effects outside the canvas, run once the accepted operations are written. */
+  onApplied?: (accepted: CanvasOperation[]) => Promise<void>;
+}
+
+/**
+ * Compute the operations for an action, or a message explaining why it cannot run.
+ */
+async function buildActionOperations(
+  app: App,
+  actionId: CanvasActionId,
+  target: CanvasActionTarget,
+  question?: string
+): Promise<ActionOperations | string> {
+  const { canvasData, selectedNodeIds } = target;
+  const [firstId] = selectedNodeIds;
+
+  switch (actionId) {
+    case "expand-ideas": {
+      const excerpt = await serializeSelection(app, target, selectedNodeIds);
+      const response = await askModel(
+        `You help brainstorm on an Obsidian canvas. Reply with 3 to 6 child ideas that expand on the nodes marked "focus", one per line starting with "- ". Each idea is a short phrase or sentence in the language of the canvas. Reply with the list only.`,
+        excerpt
+      );
+      const ideas = parseListItems(response, MAX_CHILD_IDEAS);
+      if (ideas.length === 0) return "The model did not suggest any ideas";
+      return {
+        summary: `Added ${ideas.length} child ideas`,
+        operations: buildChildNodeOperations(firstId, ideas),
+      };
+    }
+
+    case "summarize-group": {
+      const group = canvasData.nodes.find(
+        (node) => selectedNodeIds.includes(node.id) && node.type === "group"
+      );
+      if (!group) return "Select a group to summarize";
+      const members = getGroupMembers(canvasData, group.id).map((node) => node.id);
+      if (members.length === 0) return "The group is empty";
+      const excerpt = await serializeSelection(app, target, [group.id, ...members], 0);
+      const summary = await askModel(
+        `Summarize the content of the canvas group "${group.label ?? group.id}" into one concise card: a short bold title line followed by the key points in markdown, under 120 words. Reply with the card text only.`,
+        excerpt
+      );
+      if (!summary.trim()) return "The model did not return a summary";
+      return {
+        summary: "Added a summary card",
+        operations: buildCardOperations([group.id], summary.trim(), "summary"),
+      };
+    }
+
+    case "find-related-notes": {
+      const query = await getSelectionText(app, target);
+      if (!query) return "The selected nodes have no text to search for";
+      const existing = new Set(canvasData.nodes.map((node) => node.file).filter(Boolean));
+      const paths = (await searchVaultNotes(app, query)).filter(
+        (path) => !existing.has(path) && path !== target.canvasPath
+      );
+      if (paths.length === 0) return "No related notes found";
+      return {
+        summary: `Added ${Math.min(paths.length, MAX_RELATED_NOTES)} related notes`,
+        operations: buildRelatedNoteOperations(firstId, paths.slice(0, MAX_RELATED_NOTES)),
+      };
+    }
+
+    case "ask-question": {
+      if (!question?.trim()) return "No question asked";
+      const excerpt = await serializeSelection(app, target, selectedNodeIds);
+      const answer = await askModel(
+        `Answer the user's question about the canvas nodes marked "focus", using the canvas excerpt. Reply in concise markdown with the answer only.`,
+        `${excerpt}\n\nQuestion: ${question.trim()}`
+      );
+      if (!answer.trim()) return "The model did not return an answer";
+      return {
+        summary: "Added the answer to the canvas",
+        operations: buildCardOperations(
+          selectedNodeIds,
+          `**Q:** ${question.trim()}\n\n${answer.trim()}`,
+          "answer"
+        ),
+      };
+    }
+
+    case "convert-card-to-note": {
+      const card = canvasData.nodes.find(
+        (node) => selectedNodeIds.includes(node.id) && node.type === "text"
+      );
+      if (!card) return "Select a text card to convert";
+      // The note is only created once the file node replacing the card is written
+      const notePath = getNotePathForCard(app, target.canvasPath, card.text ?? "");
+      return {
+        summary: `Converted card to note "${getNoteTitleFromPath(notePath)}"`,
+        operations: buildConvertCardOperations(canvasData, card.id, notePath),
+        onApplied: async (accepted) => {
+          if (accepted.some((op) => op.type === "add_node" && op.file === notePath)) {
+            await app.vault.create(notePath, card.text ?? "");
+          }
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Serialize the nodes an action is about, with their neighbourhood.
+ */
+async function serializeSelection(
+  app: App,
+  target: CanvasActionTarget,
+  focusNodeIds: string[],
+  hops = 1
+): Promise<string> {
+  const canvas = await new CanvasLoader(app.vault).enrich(target.canvasData);
+  return serializeCanvas(canvas, {
+    focusNodeIds,
+    hops,
+    maxTokens: ACTION_CONTEXT_MAX_TOKENS,
+  });
+}
+
+/**
+ * Plain text of the selected nodes, used as a search query.
+ */
+async function getSelectionText(app: App, target: CanvasActionTarget): Promise<string> {
+  const canvas = await new CanvasLoader(app.vault).enrich(target.canvasData);
+  return target.selectedNodeIds
+    .map((id) => canvas.byId[id])
+    .map((node) => node?.text || node?.label || node?.content?.slice(0, 500) || "")
+    .join("\n")
+    .trim()
+    .slice(0, 1000);
+}
+
+/**
+ * Ask the active chat model for a single reply.
+ */
+export async function askModel(systemPrompt: string, userPrompt: string): Promise<string> {
+  // Deferred to avoid loading the model stack with the command module
+  const ChatModelManager = (await import("@/LLMProviders/chatModelManager")).default;
+  const chatModel = ChatModelManager.getInstance().getChatModel();
+  const response = (await chatModel.invoke([
+    new SystemMessage(systemPrompt),
+    new HumanMessage(userPrompt),
+  ])) as AIMessage;
+  return extractTextFromChunk(response.content);
+}
+
+/**
+ * Paths of markdown notes matching the query, best first, using the configured retriever.
+ */
+export async function searchVaultNotes(
+  app: App,
+  query: string,
+  maxK = MAX_RELATED_NOTES * 3
+): Promise<string[]> {
+  const { RetrieverFactory } = await import("@/search/RetrieverFactory");
+  const { retriever } = await RetrieverFactory.createRetriever(app, {
+    maxK,
+    minSimilarityScore: 0.1,
+  });
+  const documents = await retriever.getRelevantDocuments(query);
+  const paths = documents
+    .map((doc) => doc.metadata.path as string | undefined)
+    .filter((path): path is string => !!path && path.endsWith(".md"));
+  return [...new Set(paths)];
+}
+
+/**
+ * A unique path for a note next to the canvas, named after the card's text.
+ */
+function getNotePathForCard(app: App, canvasPath: string, text: string): string {
+  const folder = canvasPath.includes("/") ? canvasPath.slice(0, canvasPath.lastIndexOf("/")) : "";
+  const title = getNoteTitleFromCard(text);
+  let path = folder ? `${folder}/${title}.md` : `${title}.md`;
+  for (let i = 1; app.vault.getAbstractFileByPath(path); i++) {
+    path = folder ? `${folder}/${title} ${i}.md` : `${title} ${i}.md`;
+  }
+  return path;
+}
+
+function getNoteTitleFromPath(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+}
@@ -0,0 +1,197 @@
+import { App, TFile, Vault } from "obsidian";
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+import { CanvasChangeJournal } from "@/tools/CanvasChangeJournal";
+import { CanvasLoader } from "@/tools/CanvasLoader";
+import { validateCanvasOperations } from "@/tools/CanvasTools";
+import {
+  buildStepOutputOperations,
+  planCanvasWorkflow,
+  runCanvasWorkflow,
+  WORKFLOW_OUTPUT_LABEL,
+} from "./canvasWorkflow";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+jest.mock("@/tools/CanvasEditTool", () => ({
+  applyCanvasEditBlock: jest.fn(),
+}));
+
+jest.mock("@/tools/CanvasChangeJournal", () => {
+  const journal = { record: jest.fn() };
+  return { CanvasChangeJournal: { getInstance: () => journal } };
+});
+
+const mockInvoke = jest.fn();
+jest.mock("@/LLMProviders/chatModelManager", () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getChatModel: () => ({ invoke: mockInvoke }) }) },
+}));
+
+const canvasPath = "flows/post.canvas";
+
+function card(id: string, text: string, x: number, y = 0) {
+  return { id, type: "text", text, x, y, width: 200, height: 100 };
+}
+
+function edge(id: string, fromNode: string, toNode: string, label?: string) {
+  return { id, fromNode, toNode, label, toEnd: "arrow" };
+}
+
+/**
+ * Brief (file) -> Outline step -> Draft step -> output card, plus an unrelated
+ * Title step fed by the outline.
+ */
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "brief", type: "file", file: "notes/Brief.md", x: 0, y: 0, width: 200, height: 100 },
+      card("outline", "#prompt Outline the brief", 300),
+      card("draft", "Write a draft from the outline #prompt", 600),
+      card("draft-out", "Old draft", 900),
+      card("title", "#prompt\nSuggest a title", 600, 300),
+    ] as AllCanvasNodeData[],
+    edges: [
+      edge("e1", "brief", "outline"),
+      edge("e2", "outline", "draft"),
+      edge("e3", "draft", "draft-out", WORKFLOW_OUTPUT_LABEL),
+      edge("e4", "outline", "title"),
+    ] as CanvasEdgeData[],
+  };
+}
+
+async function enrich(data: CanvasData) {
+  const vault = {
+    getAbstractFileByPath: jest.fn(() => null),
+  } as unknown as Vault;
+  return new CanvasLoader(vault).enrich(data);
+}
+
+function createApp(data: CanvasData) {
+  const files: Record<string, string> = {
+    [canvasPath]: JSON.stringify(data),
+    "notes/Brief.md": "Announce the new release",
+  };
+  const vault = {
+    getAbstractFileByPath: jest.fn((path: string) =>
+      path in files ? new (TFile as any)(path) : null
+    ),
+    read: jest.fn(async (file: TFile) => files[file.path]),
+    cachedRead: jest.fn(async (file: TFile) => files[file.path]),
+    modify: jest.fn(async (file: TFile, content: string) => {
+      files[file.path] = content;
+    }),
+  };
+  const read = () => JSON.parse(files[canvasPath]) as CanvasData;
+  return { app: { vault } as unknown as App, read };
+}
+
+describe("planCanvasWorkflow", () => {
+  it("orders steps by their inputs and strips the prompt tag", async () => {
+    const plan = planCanvasWorkflow(await enrich(createCanvas()));
+
+    expect(plan).toEqual([
+      { id: "outline", prompt: "Outline the brief", inputIds: ["brief"], outputNodeId: undefined },
+      {
+        id: "draft",
+        prompt: "Write a draft from the outline",
+        inputIds: ["outline"],
+        outputNodeId: "draft-out",
+      },
+      { id: "title", prompt: "Suggest a title", inputIds: ["outline"], outputNodeId: undefined },
+    ]);
+  });
+
+  it("re-runs the branch below the selection and upstream steps without output", async () => {
+    const canvas = await enrich(createCanvas());
+
+    // The outline has never run, so the draft needs it first; the title is another branch
+    expect((planCanvasWorkflow(canvas, ["draft"]) as any[]).map((step) => step.id)).toEqual([
+      "outline",
+      "draft",
+    ]);
+    expect(planCanvasWorkflow(canvas, ["draft-out"])).toBe(
+      "No workflow steps downstream of the selection."
+    );
+  });
+
+  it("reports cycles and canvases without steps", async () => {
+    const data = createCanvas();
+    data.edges.push(edge("loop", "draft", "outline") as CanvasEdgeData);
+
+    expect(planCanvasWorkflow(await enrich(data))).toMatch(/cycle through: Outline the brief/);
+    expect(
+      planCanvasWorkflow(await enrich({ nodes: [card("a", "Notes", 0)], edges: [] } as any))
+    ).toMatch(/No workflow steps found/);
+  });
+});
+
+describe("buildStepOutputOperations", () => {
+  it("adds a connected output card, or updates the existing one", () => {
+    const step = { id: "outline", prompt: "", inputIds: [] };
+    const operations = buildStepOutputOperations(step, "1. Intro");
+
+    expect(validateCanvasOperations(createCanvas(), operations)).toEqual([]);
+    expect(operations[1]).toMatchObject({
+      type: "add_edge",
+      fromNode: "outline",
+      toNode: operations[0].id,
+      label: WORKFLOW_OUTPUT_LABEL,
+    });
+    expect(buildStepOutputOperations({ ...step, outputNodeId: "o" }, "v2")).toEqual([
+      { type: "update_node", id: "o", updates: { content: "v2" } },
+    ]);
+  });
+});
+
+describe("runCanvasWorkflow", () => {
+  beforeEach(() => {
+    mockInvoke.mockReset();
+    jest.mocked(CanvasChangeJournal.getInstance().record).mockClear();
+  });
+
+  it("runs each step on its inputs and writes the outputs back", async () => {
+    const { app, read } = createApp(createCanvas());
+    mockInvoke.mockImplementation(async (messages: any[]) => ({
+      content: messages[1].content.includes("Outline the brief") ? "1. Intro" : "Step output",
+    }));
+
+    await runCanvasWorkflow(app, canvasPath);
+
+    const prompts = mockInvoke.mock.calls.map((call) => call[0][1].content as string);
+    expect(prompts).toHaveLength(3);
+    expect(prompts[0]).toContain('<input source="note \\"notes/Brief.md\\"">');
+    expect(prompts[0]).toContain("Announce the new release");
+    // Later steps see the output produced earlier in the same run
+    expect(prompts[1]).toContain("1. Intro");
+
+    const canvas = read();
+    const outlineOutput = canvas.edges.find(
+      (e) => e.fromNode === "outline" && e.label === WORKFLOW_OUTPUT_LABEL
+    );
+    expect(canvas.nodes.find((n) => n.id === outlineOutput?.toNode)).toMatchObject({
+      text: "1. Intro",
+    });
+    expect(canvas.nodes.find((n) => n.id === "draft-out")).toMatchObject({ text: "Step output" });
+    expect(CanvasChangeJournal.getInstance().record).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the outputs written before a step fails", async () => {
+    const { app, read } = createApp(createCanvas());
+    mockInvoke.mockResolvedValueOnce({ content: "1. Intro" }).mockRejectedValueOnce(new Error("x"));
+
+    await runCanvasWorkflow(app, canvasPath);
+
+    expect(mockInvoke).toHaveBeenCalledTimes(2);
+    expect(read().nodes).toHaveLength(6);
+    expect(read().nodes.find((n) => n.id === "draft-out")).toMatchObject({ text: "Old draft" });
+    expect(CanvasChangeJournal.getInstance().record).toHaveBeenCalledWith(
+      canvasPath,
+      "Run canvas workflow",
+      expect.any(Array)
+    );
+  });
+});
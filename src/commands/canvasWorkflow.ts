@@ -0,0 +1,314 @@
+/**
+ * Canvas workflows: a canvas run as a prompt pipeline.
+ * Text cards tagged #prompt are LLM steps, edges carry data from node to node, and
+ * every other node (notes, text cards, links, groups) is an input. Steps run in
+ * dependency order with the active chat model and write their output into a node
+ * connected to the step, which later runs update in place.
+ */
+
+import { App, Notice } from "obsidian";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { logError, logInfo } from "@/logger";
+import { CanvasChangeJournal } from "@/tools/CanvasChangeJournal";
+import { CanvasData, CanvasLoader, RichNode } from "@/tools/CanvasLoader";
+import { sortByReadingOrder } from "@/tools/CanvasSerializer";
+import {
+  CanvasRecordChange,
+  createCanvasId,
+  executeCanvasOperations,
+  readCanvasFile,
+  saveOpenCanvasViews,
+} from "@/tools/CanvasTools";
+import { askModel } from "./canvasActions";
+
+const PROMPT_TAG = /(^|\s)#prompt\b/i;
+/** Label of the edge from a step to the node holding its output. */
+export const WORKFLOW_OUTPUT_LABEL = "output";
+/** Inputs longer than this are cut off before they are sent to the model. */
+const MAX_INPUT_LENGTH = 20000;
+
+const WORKFLOW_SYSTEM_PROMPT = `You are running one step of a prompt pipeline laid out on an Obsidian canvas.
+Carry out the step's instructions using the inputs provided with it.
+Reply with the result of the step only, as markdown, without a preamble or closing remarks.`;
+
+/**
+ * A prompt step of a canvas workflow.
+ */
+export interface WorkflowStep {
+  id: string;
+  /** The card's text without the #prompt tag. */
+  prompt: string;
+  /** Nodes connected into the step, in reading order. */
+  inputIds: string[];
+  /** Node holding the step's output from an earlier run. */
+  outputNodeId?: string;
+}
+
+// Canvases with a workflow in progress
+const runningWorkflows = new Set<string>();
+
+/**
+ * Whether a node is a workflow step: a text card tagged #prompt.
+ */
+export function isPromptNode(node: RichNode): boolean {
+  return node.type === "text" && PROMPT_TAG.test(node.text ?? "");
+}
+
+/**
+ * The node a step's output was written to, connected by an "output" edge.
+ */
+export function findOutputNodeId(canvas: CanvasData, stepId: string): string | undefined {
+  return canvas.edges.find(
+    (edge) =>
+      !edge.synthetic &&
+      edge.fromNode === stepId &&
+      edge.label === WORKFLOW_OUTPUT_LABEL &&
+      canvas.byId[edge.toNode]?.type === "text"
+  )?.toNode;
+}
+
+/**
+ * Work out which steps to run, in dependency order.
+ * Without start nodes every step runs. With start nodes, only the steps downstream
+ * of them run (including the start nodes themselves), plus any upstream step that
+ * has no output yet. Returns a message when there is nothing to run or the steps
+ * form a cycle.
+ */
+export function planCanvasWorkflow(
+  canvas: CanvasData,
+  startNodeIds?: string[]
+): WorkflowStep[] | string {
+  const edges = canvas.edges.filter(
+    (edge) => !edge.synthetic && canvas.byId[edge.fromNode] && canvas.byId[edge.toNode]
+  );
+  const steps = new Map<string, WorkflowStep>();
+  for (const node of canvas.nodes.filter(isPromptNode)) {
+    const inputs = edges
+      .filter((edge) => edge.toNode === node.id)
+      .map((edge) => canvas.byId[edge.fromNode]);
+    steps.set(node.id, {
+      id: node.id,
+      prompt: (node.text ?? "").replace(PROMPT_TAG, "$1").trim(),
+      inputIds: [...new Set(sortByReadingOrder(inputs).map((input) => input.id))],
+      outputNodeId: findOutputNodeId(canvas, node.id),
+    });
+  }
+  if (steps.size === 0) {
+    return "No workflow steps found. Tag text cards with #prompt to make them steps.";
+  }
+
+  let toRun = new Set(steps.keys());
+  if (startNodeIds) {
+    const downstream = walk(startNodeIds, edges, "down");
+    const upstream = walk(
+      [...downstream].filter((id) => steps.has(id)),
+      edges,
+      "up"
+    );
+    toRun = new Set(
+      [...steps.values()]
+        .filter((step) => downstream.has(step.id) || (upstream.has(step.id) && !step.outputNodeId))
+        .map((step) => step.id)
+    );
+    if (toRun.size === 0) {
+      return "No workflow steps downstream of the selection.";
+    }
+  }
+
+  // Kahn's algorithm over the whole canvas, taking nodes in reading order
+  const order = sortByReadingOrder(canvas.nodes).map((node) => node.id);
+  const incoming = new Map(order.map((id) => [id, 0]));
+  edges.forEach((edge) => incoming.set(edge.toNode, incoming.get(edge.toNode)! + 1));
+  const sorted: string[] = [];
+  const ready = order.filter((id) => incoming.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    sorted.push(id);
+    for (const edge of edges.filter((e) => e.fromNode === id)) {
+      incoming.set(edge.toNode, incoming.get(edge.toNode)! - 1);
+      if (incoming.get(edge.toNode) === 0) {
+        ready.push(edge.toNode);
+        ready.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+      }
+    }
+  }
+
+  const sortedIds = new Set(sorted);
+  const cyclic = [...toRun].filter((id) => !sortedIds.has(id));
+  if (cyclic.length > 0) {
+    return `The workflow has a cycle through: ${cyclic.map((id) => describeStep(steps.get(id)!)).join(", ")}`;
+  }
+  return sorted.filter((id) => toRun.has(id)).map((id) => steps.get(id)!);
+}
+
+/**
+ * Operations that write a step's output: update its output node, or add one to the
+ * right of the step with an "output" edge.
+ */
+export function buildStepOutputOperations(step: WorkflowStep, output: string): CanvasOperation[] {
+  if (step.outputNodeId) {
+    return [{ type: "update_node", id: step.outputNodeId, updates: { content: output } }];
+  }
+  const id = createCanvasId();
+  return [
+    { type: "add_node", id, nodeType: "text", content: output, placement: { rightOf: step.id } },
+    {
+      type: "add_edge",
+      id: createCanvasId(),
+      fromNode: step.id,
+      toNode: id,
+      label: WORKFLOW_OUTPUT_LABEL,
+      toEnd: "arrow",
+    },
+  ];
+}
+
+/**
+ * Run the workflow on a canvas, or only the branch downstream of the start nodes.
+ * Each step's output is written as soon as the step finishes; the whole run is
+ * recorded as one checkpoint so it can be rolled back.
+ */
+export async function runCanvasWorkflow(
+  app: App,
+  canvasPath: string,
+  startNodeIds?: string[]
+): Promise<void> {
+  if (runningWorkflows.has(canvasPath)) {
+    new Notice("A workflow is already running on this canvas");
+    return;
+  }
+
+  await saveOpenCanvasViews(app, canvasPath);
+  const canvasData = await readCanvasFile(app.vault, canvasPath);
+  if (!canvasData) {
+    new Notice("Failed to read canvas");
+    return;
+  }
+  const canvas = await new CanvasLoader(app.vault).enrich(canvasData);
+  const plan = planCanvasWorkflow(canvas, startNodeIds);
+  if (typeof plan === "string") {
+    new Notice(plan);
+    return;
+  }
+
+  runningWorkflows.add(canvasPath);
+  // Outputs produced by this run, by step and output node
+  const outputs = new Map<string, string>();
+  const changes: CanvasRecordChange[] = [];
+  let progress: Notice | null = null;
+  try {
+    for (const [index, step] of plan.entries()) {
+      progress?.hide();
+      progress = new Notice(
+        `Running canvas workflow: step ${index + 1} of ${plan.length} (${describeStep(step)})`,
+        0
+      );
+
+      const inputs = step.inputIds.map((id) => formatInput(canvas, canvas.byId[id], outputs));
+      const output = await askModel(WORKFLOW_SYSTEM_PROMPT, buildStepPrompt(step, inputs));
+      const operations = buildStepOutputOperations(step, output);
+      // The user may have kept editing the canvas while the model was answering
+      await saveOpenCanvasViews(app, canvasPath);
+      const result = await executeCanvasOperations(app.vault, canvasPath, operations);
+      if (!result.success) {
+        throw new Error(result.error ?? result.errors[0]?.error ?? "Failed to write the output");
+      }
+
+      changes.push(...result.changes);
+      const outputNodeId = step.outputNodeId ?? operations[0].id;
+      outputs.set(step.id, output);
+      outputs.set(outputNodeId, output);
+      logInfo(`[CanvasWorkflow] Step ${step.id} on ${canvasPath} wrote ${outputNodeId}`);
+    }
+    new Notice(`Canvas workflow finished: ran ${plan.length} step(s)`);
+  } catch (error) {
+    logError(`[CanvasWorkflow] Workflow on ${canvasPath} failed`, error);
+    new Notice(
+      `Canvas workflow stopped: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    progress?.hide();
+    runningWorkflows.delete(canvasPath);
+    if (changes.length > 0) {
+      CanvasChangeJournal.getInstance().record(canvasPath, "Run canvas workflow", changes);
+    }
+  }
+}
+
+/* ---------- Helpers ---------- */
+
+/**
+ * Nodes reachable from the start nodes along edges, including the start nodes.
+ */
+function walk(
+  startIds: string[],
+  edges: CanvasData["edges"],
+  direction: "up" | "down"
+): Set<string> {
+  const seen = new Set(startIds);
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of edges) {
+      const [from, to] =
+        direction === "down" ? [edge.fromNode, edge.toNode] : [edge.toNode, edge.fromNode];
+      if (from === id && !seen.has(to)) {
+        seen.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * An input as it is passed to a step. Steps and their output nodes pass on the
+ * output of this run when there is one; groups pass on their members.
+ */
+function formatInput(canvas: CanvasData, node: RichNode, outputs: Map<string, string>): string {
+  let source: string;
+  let content: string;
+  if (outputs.has(node.id)) {
+    source = isPromptNode(node) ? "output of a previous step" : "text card";
+    content = outputs.get(node.id)!;
+  } else if (isPromptNode(node)) {
+    const outputNodeId = findOutputNodeId(canvas, node.id);
+    source = "output of a previous step";
+    content = outputNodeId ? (canvas.byId[outputNodeId].text ?? "") : "";
+  } else if (node.type === "file") {
+    source = `note "${node.file}"`;
+    content = node.content;
+  } else if (node.type === "link") {
+    source = "link";
+    content = node.url ?? "";
+  } else if (node.type === "group") {
+    source = `group "${node.label ?? ""}"`;
+    const memberIds = canvas.edges
+      .filter((edge) => edge.synthetic && edge.fromNode === node.id)
+      .map((edge) => edge.toNode);
+    content = sortByReadingOrder(memberIds.map((id) => canvas.byId[id]))
+      .filter((member) => member.type !== "group")
+      .map((member) => outputs.get(member.id) ?? (member.content || member.url || ""))
+      .filter((text) => text.trim())
+      .join("\n\n---\n\n");
+  } else {
+    source = "text card";
+    content = node.text ?? "";
+  }
+
+  const trimmed =
+    content.length > MAX_INPUT_LENGTH
+      ? `${content.slice(0, MAX_INPUT_LENGTH)}\n… [truncated, ${content.length} characters in total]`
+      : content;
+  return `<input source=${JSON.stringify(source)}>\n${trimmed}\n</input>`;
+}
+
+function buildStepPrompt(step: WorkflowStep, inputs: string[]): string {
+  const instructions = `Step instructions:\n${step.prompt}`;
+  return inputs.length > 0 ? `Inputs:\n\n${inputs.join("\n\n")}\n\n${instructions}` : instructions;
+}
+
+function describeStep(step: WorkflowStep): string {
+  const firstLine = step.prompt.split("\n").find((line) => line.trim()) ?? step.id;
+  return firstLine.length > 40 ? `${firstLine.slice(0, 40)}…` : firstLine;
+}
@@ -80,7 +80,8 @@ export function registerContextMenu(menu: Menu, obsidianApp: App): void {
 
 /**
  * Register context menu for canvas node right-click.
- * This adds a "Copilot" submenu with an option to add selected canvas nodes to chat context.
+ * This adds a "Copilot" submenu with options to add selected canvas nodes to chat context,
+ * to tidy up their layout, and to run AI actions on them.
  */
 export function registerCanvasContextMenu(menu: Menu) {
   // Create the main "Copilot" submenu for canvas
@@ -100,6 +101,30 @@ export function registerCanvasContextMenu(menu: Menu) {
       });
     });
 
+    submenu.addItem((subItem: any) => {
+      subItem.setTitle("Tidy up selection").onClick(() => {
+        (app as any).commands.executeCommandById(`copilot:${COMMAND_IDS.TIDY_CANVAS_SELECTION}`);
+      });
+    });
+
+    // AI actions that write their results back as connected nodes
+    submenu.addSeparator();
+    const canvasActions: Array<[string, string]> = [
+      ["Expand into child ideas", COMMAND_IDS.CANVAS_EXPAND_IDEAS],
+      ["Summarize group into a card", COMMAND_IDS.CANVAS_SUMMARIZE_GROUP],
+      ["Find related vault notes", COMMAND_IDS.CANVAS_FIND_RELATED_NOTES],
+      ["Ask a question about these nodes", COMMAND_IDS.CANVAS_ASK_ABOUT_NODES],
+      ["Convert card to note", COMMAND_IDS.CANVAS_CONVERT_CARD_TO_NOTE],
+      ["Re-run workflow from here", COMMAND_IDS.CANVAS_RUN_WORKFLOW_FROM_SELECTION],
+    ];
+    for (const [title, commandId] of canvasActions) {
+      submenu.addItem((subItem: any) => {
+        subItem.setTitle(title).onClick(() => {
+          (app as any).commands.executeCommandById(`copilot:${commandId}`);
+        });
+      });
+    }
+
     // Get custom commands
     const commands = getCachedCustomCommands();
     const visibleCustomCommands = commands.filter(
@@ -18,18 +18,37 @@ import {
 } from "@/commands/quickCommandPrompts";
 import { CustomCommandChatModal } from "@/commands/CustomCommandChatModal";
 import { ApplyCustomCommandModal } from "@/components/modals/ApplyCustomCommandModal";
+import { CanvasCheckpointModal } from "@/components/modals/CanvasCheckpointModal";
 import { YoutubeTranscriptModal } from "@/components/modals/YoutubeTranscriptModal";
 import { checkIsPlusUser } from "@/plusUtils";
 // Debug modals removed with search v3
 import CopilotPlugin from "@/main";
 import { getAllQAMarkdownContent } from "@/search/searchUtils";
-import { CopilotSettings } from "@/settings/model";
 import {
-  NoteSelectedTextContext,
-  WebSelectedTextContext,
-  CanvasSelectedNodesContext,
-} from "@/types/message";
-import { ensureFolderExists, isSourceModeOn } from "@/utils";
+  buildCanvasSelectionContext,
+  CanvasViewLike,
+  getSelectedCanvasNodeIds,
+} from "@/services/canvasSelection/canvasSelectionContext";
+import { CanvasActionId, runCanvasAction } from "@/commands/canvasActions";
+import { runCanvasWorkflow } from "@/commands/canvasWorkflow";
+import { generateTopicMap } from "@/commands/vaultTopicMap";
+import { CanvasQuestionModal } from "@/components/modals/CanvasQuestionModal";
+import { TaskListModal } from "@/components/modals/TaskListModal";
+import { TopicMapModal } from "@/components/modals/TopicMapModal";
+import { CanvasChangeJournal } from "@/tools/CanvasChangeJournal";
+import type { DiagramFormat } from "@/tools/CanvasDiagram";
+import {
+  createCanvasFromDiagram,
+  exportCanvasDiagram,
+  getCanvasPathForNote,
+} from "@/tools/CanvasDiagramTool";
+import { tidyCanvasNodes } from "@/tools/CanvasLayout";
+import { executeCanvasOperations, readCanvasFile } from "@/tools/CanvasTools";
+import { collectVaultTasks } from "@/tools/TaskTools";
+import { CopilotSettings } from "@/settings/model";
+import { NoteSelectedTextContext, WebSelectedTextContext } from "@/types/message";
+import { ensureFolderExists, isSourceModeOn, openFileInWorkspace } from "@/utils";
+import moment from "moment";
 import { Editor, MarkdownView, Notice, TFile } from "obsidian";
 import { v4 as uuidv4 } from "uuid";
 import { COMMAND_IDS, COMMAND_NAMES, CommandId } from "../constants";
@@ -638,41 +657,236 @@ export function registerCommands(
       return;
     }
 
-    // Get selected node IDs
+    // Get canvas file info
+    if (!(view as any).file) {
+      new Notice("Could not determine canvas file");
+      return;
+    }
+
+    // Serialize the selected nodes with their neighbourhood
+    const canvasContext = await buildCanvasSelectionContext(plugin.app, view as CanvasViewLike);
+    if (!canvasContext) {
+      new Notice("No valid nodes selected");
+      return;
+    }
+
+    // Mutually exclusive: only keep the latest selection
+    setSelectedTextContexts([canvasContext]);
+
+    // Open chat window to show the context was added
+    plugin.activateView();
+
+    new Notice(`Added ${canvasContext.selectedNodeIds.length} canvas node(s) to chat context`);
+  });
+
+  // Roll a canvas back to an earlier agent checkpoint
+  addCommand(plugin, COMMAND_IDS.ROLLBACK_CANVAS_TO_CHECKPOINT, () => {
+    const journal = CanvasChangeJournal.getInstance();
+    const activeFile = plugin.app.workspace.getActiveFile();
+    // Prefer checkpoints of the open canvas, fall back to all canvases
+    const activeCanvasPath = activeFile?.extension === "canvas" ? activeFile.path : undefined;
+    const checkpoints = activeCanvasPath
+      ? journal.getCheckpoints(activeCanvasPath)
+      : journal.getCheckpoints();
+
+    if (checkpoints.length === 0) {
+      new Notice("No agent canvas checkpoints in this session");
+      return;
+    }
+
+    const modal = new CanvasCheckpointModal(plugin.app, checkpoints, async (checkpoint) => {
+      const result = await journal.rollbackTo(plugin.app, checkpoint.id);
+      if (result.success) {
+        new Notice(`Reverted ${result.revertedCount} canvas update(s) on ${checkpoint.canvasPath}`);
+      } else {
+        new Notice(`Failed to roll back canvas: ${result.error}`);
+      }
+    });
+    modal.open();
+  });
+
+  // Re-layout the selected canvas nodes with the canvas layout engine
+  addCommand(plugin, COMMAND_IDS.TIDY_CANVAS_SELECTION, async () => {
+    const view = plugin.app.workspace.activeLeaf?.view;
+    const canvas = (view as any)?.canvas;
+    const canvasFile = (view as any)?.file;
+    if (!canvas || !canvasFile) {
+      new Notice("Not a canvas view. Please open a canvas file first.");
+      return;
+    }
+
     const selectedNodeIds: string[] = [];
-    for (const node of selection) {
+    for (const node of canvas.selection ?? []) {
       if (node.id) {
         selectedNodeIds.push(node.id);
       }
     }
-
     if (selectedNodeIds.length === 0) {
-      new Notice("No valid nodes selected");
+      new Notice("No nodes selected in canvas");
       return;
     }
 
-    // Get canvas file info
-    const canvasFile = (view as any).file;
-    if (!canvasFile) {
-      new Notice("Could not determine canvas file");
+    const canvasData = await readCanvasFile(plugin.app.vault, canvasFile.path);
+    if (!canvasData) {
+      new Notice("Failed to read canvas");
       return;
     }
 
-    // Create canvas selected nodes context
-    const canvasContext: CanvasSelectedNodesContext = {
-      id: uuidv4(),
-      sourceType: "canvas",
-      canvasTitle: canvasFile.basename,
-      canvasPath: canvasFile.path,
-      selectedNodeIds,
-    };
+    const operations = tidyCanvasNodes(canvasData, selectedNodeIds);
+    if (operations.length === 0) {
+      new Notice("Selection is already tidy");
+      return;
+    }
 
-    // Mutually exclusive: only keep the latest selection
-    setSelectedTextContexts([canvasContext]);
+    const result = await executeCanvasOperations(plugin.app.vault, canvasFile.path, operations);
+    if (!result.success) {
+      new Notice(`Failed to tidy up selection: ${result.error ?? result.errors[0]?.error}`);
+      return;
+    }
 
-    // Open chat window to show the context was added
-    plugin.activateView();
+    // Record it like an agent edit so it can be rolled back
+    CanvasChangeJournal.getInstance().record(canvasFile.path, "Tidy up selection", result.changes);
+    new Notice(`Tidied up ${operations.length} canvas node(s)`);
+  });
+
+  // AI actions on the selected canvas nodes; results are written back as connected nodes
+  const canvasActions: Array<[CommandId, CanvasActionId]> = [
+    [COMMAND_IDS.CANVAS_EXPAND_IDEAS, "expand-ideas"],
+    [COMMAND_IDS.CANVAS_SUMMARIZE_GROUP, "summarize-group"],
+    [COMMAND_IDS.CANVAS_FIND_RELATED_NOTES, "find-related-notes"],
+    [COMMAND_IDS.CANVAS_CONVERT_CARD_TO_NOTE, "convert-card-to-note"],
+  ];
+  for (const [commandId, actionId] of canvasActions) {
+    addCommand(plugin, commandId, async () => {
+      const view = plugin.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+      if (!view?.canvas || !view.file) {
+        new Notice("Not a canvas view. Please open a canvas file first.");
+        return;
+      }
+      await runCanvasAction(plugin.app, actionId, view);
+    });
+  }
+
+  addCommand(plugin, COMMAND_IDS.CANVAS_ASK_ABOUT_NODES, () => {
+    const view = plugin.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+    if (!view?.canvas || !view.file) {
+      new Notice("Not a canvas view. Please open a canvas file first.");
+      return;
+    }
+    const nodeCount = getSelectedCanvasNodeIds(view).length;
+    if (nodeCount === 0) {
+      new Notice("No nodes selected in canvas");
+      return;
+    }
+    new CanvasQuestionModal(plugin.app, nodeCount, (question) => {
+      void runCanvasAction(plugin.app, "ask-question", view, question);
+    }).open();
+  });
+
+  // Draw the selected text, or the whole note, as a new canvas next to the note
+  addEditorCommand(plugin, COMMAND_IDS.CANVAS_CREATE_FROM_DIAGRAM, async (editor: Editor) => {
+    const note = plugin.app.workspace.getActiveFile();
+    if (!note) {
+      new Notice("No active note");
+      return;
+    }
+
+    const canvasPath = getCanvasPathForNote(plugin.app.vault, note.path);
+    const text = editor.getSelection() || editor.getValue();
+    const result = await createCanvasFromDiagram(plugin.app.vault, canvasPath, text);
+    if ("error" in result) {
+      new Notice(`Failed to create canvas: ${result.error}`);
+      return;
+    }
+
+    new Notice(`Created ${canvasPath} with ${result.nodeCount} node(s)`);
+    const file = plugin.app.vault.getAbstractFileByPath(canvasPath);
+    if (file instanceof TFile) {
+      await openFileInWorkspace(file);
+    }
+  });
+
+  // Copy the canvas selection, or the whole canvas, as a text diagram
+  const diagramExports: Array<[CommandId, DiagramFormat, string]> = [
+    [COMMAND_IDS.CANVAS_COPY_AS_MERMAID, "mermaid", "Mermaid"],
+    [COMMAND_IDS.CANVAS_COPY_AS_OUTLINE, "outline", "markdown outline"],
+  ];
+  for (const [commandId, format, formatName] of diagramExports) {
+    addCommand(plugin, commandId, async () => {
+      const view = plugin.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+      if (!view?.canvas || !view.file) {
+        new Notice("Not a canvas view. Please open a canvas file first.");
+        return;
+      }
 
-    new Notice(`Added ${selectedNodeIds.length} canvas node(s) to chat context`);
+      const canvasData =
+        view.canvas.getData?.() ?? (await readCanvasFile(plugin.app.vault, view.file.path));
+      if (!canvasData) {
+        new Notice("Failed to read canvas");
+        return;
+      }
+
+      const selectedNodeIds = getSelectedCanvasNodeIds(view);
+      const diagram = await exportCanvasDiagram(
+        plugin.app.vault,
+        canvasData,
+        format,
+        selectedNodeIds.length > 0 ? selectedNodeIds : undefined
+      );
+      await navigator.clipboard.writeText(
+        format === "mermaid" ? `\`\`\`mermaid\n${diagram}\n\`\`\`` : diagram
+      );
+      new Notice(
+        selectedNodeIds.length > 0
+          ? `Copied ${selectedNodeIds.length} selected node(s) as ${formatName}`
+          : `Copied canvas as ${formatName}`
+      );
+    });
+  }
+
+  // Run the canvas as a prompt pipeline: #prompt cards are steps, edges carry their inputs
+  addCommand(plugin, COMMAND_IDS.CANVAS_RUN_WORKFLOW, async () => {
+    const view = plugin.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+    if (!view?.canvas || !view.file) {
+      new Notice("Not a canvas view. Please open a canvas file first.");
+      return;
+    }
+    await runCanvasWorkflow(plugin.app, view.file.path);
+  });
+
+  addCommand(plugin, COMMAND_IDS.CANVAS_RUN_WORKFLOW_FROM_SELECTION, async () => {
+    const view = plugin.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+    if (!view?.canvas || !view.file) {
+      new Notice("Not a canvas view. Please open a canvas file first.");
+      return;
+    }
+    const selectedNodeIds = getSelectedCanvasNodeIds(view);
+    if (selectedNodeIds.length === 0) {
+      new Notice("No nodes selected in canvas");
+      return;
+    }
+    await runCanvasWorkflow(plugin.app, view.file.path, selectedNodeIds);
+  });
+
+  // Map a folder, tag or search as groups of related notes, starting from the active note's folder
+  addCommand(plugin, COMMAND_IDS.CANVAS_CREATE_TOPIC_MAP, () => {
+    const folder = plugin.app.workspace.getActiveFile()?.parent?.path;
+    new TopicMapModal(plugin.app, folder && folder !== "/" ? folder : "", async (source) => {
+      const canvasPath = await generateTopicMap(plugin.app, source);
+      const file = canvasPath ? plugin.app.vault.getAbstractFileByPath(canvasPath) : null;
+      if (file instanceof TFile) {
+        await openFileInWorkspace(file);
+      }
+    }).open();
+  });
+
+  // List open tasks across the vault, overdue first, and jump to the chosen one
+  addCommand(plugin, COMMAND_IDS.SHOW_OPEN_TASKS, async () => {
+    const tasks = await collectVaultTasks({ status: "open" });
+    if (tasks.length === 0) {
+      new Notice("No open tasks found in the vault");
+      return;
+    }
+    new TaskListModal(plugin.app, tasks, moment().format("YYYY-MM-DD")).open();
   });
 }
@@ -0,0 +1,193 @@
+import { TFile, Vault } from "obsidian";
+import { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import { CanvasLoader } from "@/tools/CanvasLoader";
+import { executeCanvasOperations, validateCanvasOperations } from "@/tools/CanvasTools";
+import {
+  assignExistingGroups,
+  buildTopicMapOperations,
+  clusterNotes,
+  getTopicMapPath,
+  NoteSimilarity,
+  OTHER_NOTES_LABEL,
+  parseClusterLabels,
+  pickStrongLinks,
+} from "./vaultTopicMap";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+jest.mock("@/tools/CanvasEditTool", () => ({
+  applyCanvasEditBlock: jest.fn(),
+}));
+
+const mapPath = "Topic maps/Projects.canvas";
+
+function similarity(from: string, to: string, score: number): NoteSimilarity {
+  return { from, to, score };
+}
+
+// Two topics (garden, budget) and a note unrelated to either
+const similarities = [
+  similarity("garden/soil.md", "garden/seeds.md", 0.9),
+  similarity("garden/seeds.md", "garden/tomatoes.md", 0.7),
+  similarity("garden/soil.md", "garden/tomatoes.md", 0.5),
+  similarity("money/budget.md", "money/taxes.md", 0.65),
+  similarity("garden/tomatoes.md", "money/budget.md", 0.2),
+];
+const paths = [
+  "garden/soil.md",
+  "money/budget.md",
+  "garden/seeds.md",
+  "misc/recipes.md",
+  "money/taxes.md",
+  "garden/tomatoes.md",
+];
+
+async function enrich(data: CanvasData) {
+  const vault = { getAbstractFileByPath: jest.fn(() => null) } as unknown as Vault;
+  return new CanvasLoader(vault).enrich(data);
+}
+
+function createVault(data: CanvasData) {
+  let content = JSON.stringify(data);
+  const vault = {
+    getAbstractFileByPath: jest.fn((path: string) =>
+      path === mapPath ? new (TFile as any)(path) : null
+    ),
+    read: jest.fn(async () => content),
+    modify: jest.fn(async (_file: TFile, next: string) => {
+      content = next;
+    }),
+  };
+  return { vault: vault as unknown as Vault, read: () => JSON.parse(content) as CanvasData };
+}
+
+describe("clusterNotes", () => {
+  it("groups similar notes and leaves the rest unclustered", () => {
+    expect(clusterNotes(paths, similarities)).toEqual({
+      clusters: [
+        ["garden/seeds.md", "garden/soil.md", "garden/tomatoes.md"],
+        ["money/budget.md", "money/taxes.md"],
+      ],
+      unclustered: ["misc/recipes.md"],
+    });
+  });
+
+  it("puts a note with the cluster it is most similar to on average", () => {
+    const { clusters } = clusterNotes(paths, [
+      ...similarities,
+      similarity("garden/tomatoes.md", "money/taxes.md", 0.9),
+    ]);
+
+    // Tomatoes pairs with taxes, then budget joins them; seeds and soil stay apart
+    expect(clusters).toEqual([
+      ["garden/tomatoes.md", "money/budget.md", "money/taxes.md"],
+      ["garden/seeds.md", "garden/soil.md"],
+    ]);
+  });
+});
+
+describe("pickStrongLinks", () => {
+  it("keeps the strongest pairs above the threshold", () => {
+    expect(pickStrongLinks(similarities)).toEqual([
+      similarity("garden/soil.md", "garden/seeds.md", 0.9),
+      similarity("garden/seeds.md", "garden/tomatoes.md", 0.7),
+      similarity("money/budget.md", "money/taxes.md", 0.65),
+    ]);
+  });
+});
+
+describe("topic map operations", () => {
+  const { clusters, unclustered } = clusterNotes(paths, similarities);
+  const topics = [
+    { paths: clusters[0], label: "Gardening" },
+    { paths: clusters[1], label: "Finances" },
+    { paths: unclustered, label: OTHER_NOTES_LABEL },
+  ];
+
+  it("creates a group per topic with the notes inside it", () => {
+    const operations = buildTopicMapOperations(
+      null,
+      topics,
+      pickStrongLinks(similarities),
+      mapPath
+    );
+    const empty: CanvasData = { nodes: [], edges: [] };
+
+    expect(validateCanvasOperations(empty, operations)).toEqual([]);
+    expect(
+      operations.filter((op: any) => op.nodeType === "group").map((op: any) => op.label)
+    ).toEqual(["Gardening", "Finances", OTHER_NOTES_LABEL]);
+    expect(operations.filter((op: any) => op.nodeType === "file")).toHaveLength(6);
+    expect(operations.filter((op) => op.type === "add_edge")).toHaveLength(3);
+  });
+
+  it("updates an existing map without duplicating notes", async () => {
+    // The user renamed the garden group; budget sits in it by mistake, taxes is missing
+    const existing: CanvasData = {
+      nodes: [
+        { id: "g1", type: "group", label: "My garden", x: 0, y: 0, width: 1400, height: 400 },
+        { id: "n1", type: "file", file: "garden/soil.md", x: 40, y: 40, width: 400, height: 240 },
+        { id: "n2", type: "file", file: "garden/seeds.md", x: 480, y: 40, width: 400, height: 240 },
+        { id: "n3", type: "file", file: "money/budget.md", x: 920, y: 40, width: 400, height: 240 },
+        { id: "t1", type: "text", text: "Notes", x: 0, y: 600, width: 200, height: 60 },
+      ] as AllCanvasNodeData[],
+      edges: [{ id: "x1", fromNode: "n2", toNode: "n1" }] as CanvasData["edges"],
+    };
+    const canvas = await enrich(existing);
+
+    const assigned = assignExistingGroups(canvas, [{ paths: clusters[0] }, { paths: clusters[1] }]);
+    expect(assigned[0]).toMatchObject({ groupId: "g1", label: "My garden" });
+    // Budget's group is already taken by the garden notes
+    expect(assigned[1].groupId).toBeUndefined();
+
+    assigned[1].label = "Finances";
+    const operations = buildTopicMapOperations(canvas, assigned, pickStrongLinks(similarities));
+    expect(operations.map((op) => op.type)).toEqual([
+      "add_node", // tomatoes
+      "add_node", // Finances group
+      "add_node", // taxes
+      "move_to_group", // budget
+      "add_edge", // seeds - tomatoes; soil - seeds is already connected
+      "add_edge", // budget - taxes
+    ]);
+
+    const { vault, read } = createVault(existing);
+    const result = await executeCanvasOperations(vault, mapPath, operations);
+    expect(result.success).toBe(true);
+
+    const updated = await enrich(read());
+    const files = updated.nodes.filter((node) => node.type === "file").map((node) => node.file);
+    expect(files.sort()).toEqual([
+      "garden/seeds.md",
+      "garden/soil.md",
+      "garden/tomatoes.md",
+      "money/budget.md",
+      "money/taxes.md",
+    ]);
+    const financesId = operations[1].id;
+    const members = updated.edges
+      .filter((edge) => edge.synthetic && edge.fromNode === financesId)
+      .map((edge) => updated.byId[edge.toNode].file);
+    expect(members.sort()).toEqual(["money/budget.md", "money/taxes.md"]);
+  });
+});
+
+describe("topic map helpers", () => {
+  it("parses numbered labels and names missing ones", () => {
+    expect(parseClusterLabels("Labels:\n1. **Gardening**\n3) Misc", 3)).toEqual([
+      "Gardening",
+      "Topic 2",
+      "Misc",
+    ]);
+  });
+
+  it("names the map after its source", () => {
+    expect(getTopicMapPath("#project/alpha")).toBe("Topic maps/tag project alpha.canvas");
+    expect(getTopicMapPath("Work/Meetings/")).toBe("Topic maps/Work Meetings.canvas");
+    expect(getTopicMapPath("/")).toBe("Topic maps/Vault.canvas");
+  });
+});
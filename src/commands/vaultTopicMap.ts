@@ -0,0 +1,531 @@
+/**
+ * Vault topic maps: a canvas of the notes in a folder, tag or search, grouped by topic.
+ * Notes are clustered by similarity (embeddings when semantic search is on, otherwise
+ * BM25 and the link graph), each cluster becomes a labelled group of file nodes, and
+ * strongly related notes are connected. Running it again on the same source updates
+ * the map in place: notes already on it are kept, and only new clusters are labelled.
+ */
+
+import { App, Notice, TFile, TFolder } from "obsidian";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { logError, logInfo, logWarn } from "@/logger";
+import { getSettings } from "@/settings/model";
+import { applyCanvasEditBlock } from "@/tools/CanvasEditTool";
+import { CanvasData, CanvasLoader } from "@/tools/CanvasLoader";
+import { createCanvasId, readCanvasFile, saveOpenCanvasViews } from "@/tools/CanvasTools";
+import { getNotesFromTags, getTagsFromNote } from "@/utils";
+import { askModel, searchVaultNotes } from "./canvasActions";
+
+const MAX_TOPIC_MAP_NOTES = 80;
+const MAX_CLUSTER_SIZE = 12;
+/** Clusters only merge while their notes are at least this similar on average. */
+const MIN_CLUSTER_SIMILARITY = 0.3;
+/** Notes at least this similar are connected on the map. */
+const STRONG_LINK_SIMILARITY = 0.6;
+const MAX_LINKS_PER_NOTE = 3;
+// Same split as findRelevantNotes between content similarity and links
+const CONTENT_WEIGHT = 0.7;
+const LINK_WEIGHT = 0.3;
+const MAX_LABELLED_NOTES = 8;
+const EXCERPT_LENGTH = 160;
+const TOPIC_MAP_FOLDER = "Topic maps";
+const NOTE_NODE_SIZE = { width: 400, height: 240 };
+export const OTHER_NOTES_LABEL = "Other notes";
+
+/**
+ * How similar two notes are, from 0 to 1. Pairs are unordered.
+ */
+export interface NoteSimilarity {
+  from: string;
+  to: string;
+  score: number;
+}
+
+/**
+ * A cluster of notes and the group that shows it on the map.
+ */
+export interface TopicCluster {
+  paths: string[];
+  label?: string;
+  /** Group already on the map that holds the cluster. */
+  groupId?: string;
+}
+
+/**
+ * The canvas a topic map for the source is written to.
+ */
+export function getTopicMapPath(source: string): string {
+  const name = source
+    .trim()
+    .replace(/^#/, "tag ")
+    .replace(/[\\/:*?"<>|#^[\]]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 80);
+  return `${TOPIC_MAP_FOLDER}/${name || "Vault"}.canvas`;
+}
+
+/**
+ * Group notes by average similarity, merging the most similar clusters first.
+ * Notes that are not similar enough to any cluster are returned separately.
+ */
+export function clusterNotes(
+  paths: string[],
+  similarities: NoteSimilarity[]
+): { clusters: string[][]; unclustered: string[] } {
+  const scores = new Map(similarities.map((s) => [getPairKey(s.from, s.to), s.score]));
+  const averageScore = (a: string[], b: string[]) => {
+    let total = 0;
+    for (const from of a) {
+      for (const to of b) {
+        total += scores.get(getPairKey(from, to)) ?? 0;
+      }
+    }
+    return total / (a.length * b.length);
+  };
+
+  const clusters = paths.map((path) => [path]);
+  for (;;) {
+    let best: { i: number; j: number; score: number } | null = null;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (clusters[i].length + clusters[j].length > MAX_CLUSTER_SIZE) continue;
+        const score = averageScore(clusters[i], clusters[j]);
+        if (score >= MIN_CLUSTER_SIMILARITY && (!best || score > best.score)) {
+          best = { i, j, score };
+        }
+      }
+    }
+    if (!best) break;
+    clusters[best.i].push(...clusters[best.j]);
+    clusters.splice(best.j, 1);
+  }
+
+  return {
+    clusters: clusters
+      .filter((cluster) => cluster.length > 1)
+      .map((cluster) => [...cluster].sort())
+      .sort((a, b) => b.length - a.length),
+    unclustered: clusters.filter((cluster) => cluster.length === 1).flat(),
+  };
+}
+
+/**
+ * The strongest pairs to connect on the map, at most a few per note.
+ */
+export function pickStrongLinks(similarities: NoteSimilarity[]): NoteSimilarity[] {
+  const counts = new Map<string, number>();
+  return [...similarities]
+    .filter((s) => s.score >= STRONG_LINK_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .filter(({ from, to }) => {
+      if ((counts.get(from) ?? 0) >= MAX_LINKS_PER_NOTE) return false;
+      if ((counts.get(to) ?? 0) >= MAX_LINKS_PER_NOTE) return false;
+      counts.set(from, (counts.get(from) ?? 0) + 1);
+      counts.set(to, (counts.get(to) ?? 0) + 1);
+      return true;
+    });
+}
+
+/**
+ * Match clusters to the groups of an existing map: each cluster takes the unclaimed
+ * group holding most of its notes, and keeps that group's label.
+ */
+export function assignExistingGroups(
+  canvas: CanvasData | null,
+  clusters: TopicCluster[]
+): TopicCluster[] {
+  if (!canvas) return clusters;
+  const noteNodes = getNoteNodeIds(canvas);
+  const noteGroups = getInnermostGroups(canvas);
+  const claimed = new Set<string>();
+
+  return clusters.map((cluster) => {
+    const votes = new Map<string, number>();
+    for (const path of cluster.paths) {
+      const groupId = noteGroups.get(noteNodes.get(path) ?? "");
+      if (groupId && !claimed.has(groupId)) {
+        votes.set(groupId, (votes.get(groupId) ?? 0) + 1);
+      }
+    }
+    const [groupId] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (!groupId) return cluster;
+    claimed.add(groupId);
+    return { ...cluster, groupId, label: canvas.byId[groupId].label || cluster.label };
+  });
+}
+
+/**
+ * Operations that bring a map up to date: a group per new cluster, a file node per
+ * note not yet on the map, moves for notes now in another cluster, and edges
+ * between strongly related notes that are not connected yet.
+ * @param createCanvas - Path of the canvas to create when there is no map yet
+ */
+export function buildTopicMapOperations(
+  canvas: CanvasData | null,
+  clusters: TopicCluster[],
+  links: NoteSimilarity[],
+  createCanvas?: string
+): CanvasOperation[] {
+  const operations: CanvasOperation[] = createCanvas
+    ? [{ type: "create_canvas", id: createCanvas }]
+    : [];
+  const noteNodes = canvas ? getNoteNodeIds(canvas) : new Map<string, string>();
+  const noteGroups = canvas ? getInnermostGroups(canvas) : new Map<string, string>();
+
+  for (const cluster of clusters) {
+    const groupId = cluster.groupId ?? createCanvasId();
+    if (!cluster.groupId) {
+      operations.push({ type: "add_node", id: groupId, nodeType: "group", label: cluster.label });
+    }
+
+    const moved: string[] = [];
+    for (const path of cluster.paths) {
+      const nodeId = noteNodes.get(path);
+      if (!nodeId) {
+        const id = createCanvasId();
+        noteNodes.set(path, id);
+        operations.push({
+          type: "add_node",
+          id,
+          nodeType: "file",
+          file: path,
+          ...NOTE_NODE_SIZE,
+          placement: { inGroup: groupId },
+        });
+      } else if (noteGroups.get(nodeId) !== groupId) {
+        moved.push(nodeId);
+      }
+    }
+    if (moved.length > 0) {
+      operations.push({ type: "move_to_group", id: groupId, nodeIds: moved });
+    }
+  }
+
+  const connected = new Set(
+    (canvas?.edges ?? [])
+      .filter((edge) => !edge.synthetic)
+      .map((edge) => getPairKey(edge.fromNode, edge.toNode))
+  );
+  for (const link of links) {
+    const fromNode = noteNodes.get(link.from);
+    const toNode = noteNodes.get(link.to);
+    if (!fromNode || !toNode || connected.has(getPairKey(fromNode, toNode))) continue;
+    connected.add(getPairKey(fromNode, toNode));
+    operations.push({ type: "add_edge", id: createCanvasId(), fromNode, toNode, toEnd: "none" });
+  }
+
+  return operations;
+}
+
+/**
+ * Parse numbered labels ("1. Label") from a model reply, falling back to
+ * "Topic N" for clusters the reply leaves out.
+ */
+export function parseClusterLabels(response: string, count: number): string[] {
+  const labels = new Map<number, string>();
+  for (const line of response.split("\n")) {
+    const match = line.match(/^\s*(\d+)[.):]\s*(.+)$/);
+    if (!match) continue;
+    const label = match[2].replace(/[*_`"]/g, "").trim();
+    if (label) labels.set(Number(match[1]), label);
+  }
+  return Array.from({ length: count }, (_, i) => labels.get(i + 1) ?? `Topic ${i + 1}`);
+}
+
+/**
+ * Create or update the topic map for a folder path, #tag or search query.
+ * Returns the path of the map once written.
+ */
+export async function generateTopicMap(app: App, source: string): Promise<string | null> {
+  const paths = await resolveTopicMapNotes(app, source);
+  if (paths.length < 2) {
+    new Notice(
+      paths.length === 0
+        ? `No notes found for "${source.trim()}"`
+        : "Only one note matches; a topic map needs at least two"
+    );
+    return null;
+  }
+
+  const canvasPath = getTopicMapPath(source);
+  const progress = new Notice(`Mapping ${paths.length} notes…`, 0);
+  try {
+    let canvasData = null;
+    if (app.vault.getAbstractFileByPath(canvasPath)) {
+      await saveOpenCanvasViews(app, canvasPath);
+      canvasData = await readCanvasFile(app.vault, canvasPath);
+      if (!canvasData) {
+        new Notice(`Failed to read the existing topic map: ${canvasPath}`);
+        return null;
+      }
+    }
+    const canvas = canvasData ? await new CanvasLoader(app.vault).enrich(canvasData) : null;
+
+    const similarities = await computeNoteSimilarities(app, paths);
+    const { clusters, unclustered } = clusterNotes(paths, similarities);
+    const topics = assignExistingGroups(canvas, [
+      ...clusters.map((cluster) => ({ paths: cluster })),
+      ...(unclustered.length > 0 ? [{ paths: unclustered, label: OTHER_NOTES_LABEL }] : []),
+    ]);
+
+    // Groups already on the map keep their labels; only new clusters are named
+    const unlabelled = topics.filter((topic) => !topic.label);
+    if (unlabelled.length > 0) {
+      const labels = await labelClusters(
+        app,
+        unlabelled.map((topic) => topic.paths)
+      );
+      unlabelled.forEach((topic, i) => (topic.label = labels[i]));
+    }
+
+    const operations = buildTopicMapOperations(
+      canvas,
+      topics,
+      pickStrongLinks(similarities),
+      canvas ? undefined : canvasPath
+    );
+    if (operations.length === 0) {
+      new Notice("The topic map is already up to date");
+      return canvasPath;
+    }
+
+    const outcome = await applyCanvasEditBlock(
+      app,
+      {
+        canvasPath,
+        summary: canvas ? "Update topic map" : "Create topic map",
+        operations,
+      },
+      { base: canvasData ?? undefined }
+    );
+    if (outcome.status === "applied") {
+      logInfo(`[TopicMap] Wrote ${canvasPath}: ${paths.length} notes in ${topics.length} groups`);
+      new Notice(`Mapped ${paths.length} notes into ${topics.length} topics`);
+      return canvasPath;
+    }
+    if (outcome.status === "conflict") {
+      new Notice("The topic map changed while it was being updated. Try again.");
+    } else if (outcome.status !== "rejected") {
+      new Notice(
+        `Failed to write the topic map: ${outcome.error ?? outcome.errors[0]?.error ?? outcome.status}`
+      );
+    }
+    return null;
+  } catch (error) {
+    logError(`[TopicMap] Failed to map "${source}"`, error);
+    new Notice(
+      `Failed to create the topic map: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  } finally {
+    progress.hide();
+  }
+}
+
+/* ---------- Helpers ---------- */
+
+/**
+ * Markdown notes in a folder (or the whole vault for "/"), with a #tag, or
+ * matching a search query.
+ */
+async function resolveTopicMapNotes(app: App, source: string): Promise<string[]> {
+  const query = source.trim();
+  let paths: string[];
+  if (query.startsWith("#")) {
+    paths = getNotesFromTags(app.vault, [query]).map((file) => file.path);
+  } else {
+    const folder = query.replace(/^\/+|\/+$/g, "");
+    paths =
+      !folder || app.vault.getAbstractFileByPath(folder) instanceof TFolder
+        ? app.vault
+            .getMarkdownFiles()
+            .filter((file) => !folder || file.path.startsWith(`${folder}/`))
+            .map((file) => file.path)
+        : await searchVaultNotes(app, query, MAX_TOPIC_MAP_NOTES);
+  }
+  if (paths.length > MAX_TOPIC_MAP_NOTES) {
+    logWarn(
+      `[TopicMap] "${query}" matches ${paths.length} notes; mapping the first ${MAX_TOPIC_MAP_NOTES}`
+    );
+  }
+  return paths.slice(0, MAX_TOPIC_MAP_NOTES);
+}
+
+/**
+ * Similarities between the notes: from their embeddings when semantic search is on
+ * and the notes are indexed, otherwise from BM25 and links between them.
+ */
+async function computeNoteSimilarities(app: App, paths: string[]): Promise<NoteSimilarity[]> {
+  if (getSettings().enableSemanticSearchV3) {
+    try {
+      const similarities = await getSemanticSimilarities(paths);
+      if (similarities.length > 0) return similarities;
+      logInfo("[TopicMap] No embeddings for these notes; using BM25 and links");
+    } catch (error) {
+      logWarn("[TopicMap] Semantic similarity failed; using BM25 and links", error);
+    }
+  }
+  return getLexicalSimilarities(app, paths);
+}
+
+async function getSemanticSimilarities(paths: string[]): Promise<NoteSimilarity[]> {
+  // Deferred to avoid loading the index with the command module
+  const VectorStoreManager = (await import("@/search/vectorStoreManager")).default;
+  const { findRelevantNotes } = await import("@/search/findRelevantNotes");
+  const db = await VectorStoreManager.getInstance().getDb();
+
+  const inMap = new Set(paths);
+  const scores = new Map<string, NoteSimilarity>();
+  for (const filePath of paths) {
+    for (const entry of await findRelevantNotes({ db, filePath })) {
+      // Link-only matches say nothing about the content
+      if (!inMap.has(entry.document.path) || entry.metadata.similarityScore === undefined) {
+        continue;
+      }
+      addSimilarity(scores, filePath, entry.document.path, entry.metadata.score);
+    }
+  }
+  return [...scores.values()];
+}
+
+async function getLexicalSimilarities(app: App, paths: string[]): Promise<NoteSimilarity[]> {
+  const { FullTextEngine } = await import("@/search/v3/engines/FullTextEngine");
+  const { extractNotePathFromChunkId } = await import("@/search/v3/utils/chunkIdUtils");
+  const inMap = new Set(paths);
+  const scores = new Map<string, NoteSimilarity>();
+
+  // Each note's title and tags, searched with BM25 across the other notes
+  const engine = new FullTextEngine(app);
+  try {
+    await engine.buildFromCandidates(paths);
+    for (const path of paths) {
+      const file = app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) continue;
+      const query = [file.basename, ...getTagsFromNote(file, false)].join(" ");
+      const hits = new Map<string, number>();
+      for (const hit of engine.search([query], MAX_TOPIC_MAP_NOTES * 2, [], query)) {
+        const hitPath = extractNotePathFromChunkId(hit.id);
+        if (inMap.has(hitPath)) hits.set(hitPath, Math.max(hits.get(hitPath) ?? 0, hit.score));
+      }
+      // Relative to how well the note matches its own title, so scores are comparable
+      const top = hits.get(path) ?? Math.max(0, ...hits.values());
+      hits.delete(path);
+      for (const [other, score] of hits) {
+        addSimilarity(scores, path, other, Math.min(1, score / top) * CONTENT_WEIGHT);
+      }
+    }
+  } finally {
+    engine.clear();
+  }
+
+  const linked = new Set<string>();
+  const resolvedLinks = app.metadataCache.resolvedLinks ?? {};
+  for (const path of paths) {
+    for (const target of Object.keys(resolvedLinks[path] ?? {})) {
+      if (target === path || !inMap.has(target) || linked.has(getPairKey(path, target))) continue;
+      linked.add(getPairKey(path, target));
+      const lexical = scores.get(getPairKey(path, target))?.score ?? 0;
+      scores.set(getPairKey(path, target), {
+        from: path,
+        to: target,
+        score: lexical + LINK_WEIGHT,
+      });
+    }
+  }
+  return [...scores.values()];
+}
+
+/**
+ * Ask the model for a short label per cluster, from its notes' titles and excerpts.
+ */
+async function labelClusters(app: App, clusters: string[][]): Promise<string[]> {
+  const described = await Promise.all(
+    clusters.map(async (paths, i) => {
+      const notes = await Promise.all(
+        paths.slice(0, MAX_LABELLED_NOTES).map(async (path) => {
+          const title = path.split("/").pop()!.replace(/\.md$/, "");
+          const excerpt = await getNoteExcerpt(app, path);
+          return excerpt ? `- ${title}: ${excerpt}` : `- ${title}`;
+        })
+      );
+      return `${i + 1}.\n${notes.join("\n")}`;
+    })
+  );
+
+  try {
+    const response = await askModel(
+      `You name clusters of notes from an Obsidian vault. For each numbered cluster, reply with a short topic label of 1 to 4 words in the language of the notes, one per line as "<number>. <label>". Reply with the list only.`,
+      described.join("\n\n")
+    );
+    return parseClusterLabels(response, clusters.length);
+  } catch (error) {
+    logError("[TopicMap] Failed to label clusters", error);
+    return parseClusterLabels("", clusters.length);
+  }
+}
+
+/**
+ * The start of a note: its first indexed chunk when semantic search is on, or the
+ * note itself otherwise.
+ */
+async function getNoteExcerpt(app: App, path: string): Promise<string> {
+  let text = "";
+  if (getSettings().enableSemanticSearchV3) {
+    const VectorStoreManager = (await import("@/search/vectorStoreManager")).default;
+    const [doc] = await VectorStoreManager.getInstance()
+      .getDocumentsByPath(path)
+      .catch(() => []);
+    text = doc?.content ?? "";
+  }
+  if (!text) {
+    const file = app.vault.getAbstractFileByPath(path);
+    text = file instanceof TFile ? await app.vault.cachedRead(file) : "";
+  }
+  return text
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, EXCERPT_LENGTH);
+}
+
+function getPairKey(a: string, b: string): string {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+function addSimilarity(
+  scores: Map<string, NoteSimilarity>,
+  from: string,
+  to: string,
+  score: number
+): void {
+  const key = getPairKey(from, to);
+  if ((scores.get(key)?.score ?? 0) < score) {
+    scores.set(key, { from, to, score });
+  }
+}
+
+/** The first file node showing each note. */
+function getNoteNodeIds(canvas: CanvasData): Map<string, string> {
+  const nodeIds = new Map<string, string>();
+  for (const node of canvas.nodes) {
+    if (node.type === "file" && node.file && !nodeIds.has(node.file)) {
+      nodeIds.set(node.file, node.id);
+    }
+  }
+  return nodeIds;
+}
+
+/** The smallest group each node sits in. */
+function getInnermostGroups(canvas: CanvasData): Map<string, string> {
+  const area = (id: string) => canvas.byId[id].width * canvas.byId[id].height;
+  const groups = new Map<string, string>();
+  for (const edge of canvas.edges) {
+    if (!edge.synthetic || canvas.byId[edge.fromNode]?.type !== "group") continue;
+    const current = groups.get(edge.toNode);
+    if (!current || area(edge.fromNode) < area(current)) {
+      groups.set(edge.toNode, edge.fromNode);
+    }
+  }
+  return groups;
+}
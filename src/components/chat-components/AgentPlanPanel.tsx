@@ -0,0 +1,50 @@
+import { cn } from "@/lib/utils";
+import { AgentPlan, TodoStatus } from "@/tools/PlannerTools";
+import { CheckCircle2, Circle, CircleDot } from "lucide-react";
+import React from "react";
+
+const STATUS_ICONS: Record<TodoStatus, React.ReactNode> = {
+  pending: <Circle className="tw-size-3 tw-text-faint" />,
+  in_progress: <CircleDot className="tw-size-3 tw-text-accent" />,
+  completed: <CheckCircle2 className="tw-size-3 tw-text-success" />,
+};
+
+interface AgentPlanPanelProps {
+  plan: AgentPlan;
+  className?: string;
+}
+
+/**
+ * Checklist the agent keeps with the write_todos tool, with the status of each todo.
+ */
+export const AgentPlanPanel: React.FC<AgentPlanPanelProps> = ({ plan, className }) => {
+  const completed = plan.todos.filter((todo) => todo.status === "completed").length;
+
+  return (
+    <div
+      className={cn("tw-rounded-md tw-border tw-border-solid tw-border-border tw-p-2", className)}
+    >
+      <div className="tw-mb-1 tw-flex tw-items-center tw-justify-between tw-text-xs tw-font-medium tw-text-muted">
+        <span>Plan</span>
+        <span>
+          {completed}/{plan.todos.length} done
+        </span>
+      </div>
+      <ul className="tw-m-0 tw-flex tw-list-none tw-flex-col tw-gap-1 tw-p-0">
+        {plan.todos.map((todo) => (
+          <li key={todo.id} className="tw-flex tw-items-start tw-gap-2 tw-text-xs">
+            <span className="tw-mt-0.5 tw-shrink-0">{STATUS_ICONS[todo.status]}</span>
+            <span
+              className={cn(
+                todo.status === "completed" && "tw-text-muted tw-line-through",
+                todo.status === "in_progress" && "tw-font-medium"
+              )}
+            >
+              {todo.content}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
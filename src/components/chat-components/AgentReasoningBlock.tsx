@@ -1,6 +1,8 @@
+import { AgentPlanPanel } from "@/components/chat-components/AgentPlanPanel";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { cn } from "@/lib/utils";
 import { ReasoningStatus } from "@/LLMProviders/chainRunner/utils/AgentReasoningState";
+import { AgentPlan } from "@/tools/PlannerTools";
 import { ChevronRight } from "lucide-react";
 import React, { useEffect, useState } from "react";
 
@@ -11,6 +13,8 @@ interface AgentReasoningBlockProps {
   status: ReasoningStatus;
   elapsedSeconds: number;
   steps: string[];
+  /** The agent's checklist, shown above the steps */
+  plan?: AgentPlan | null;
   isStreaming: boolean;
 }
 
@@ -91,6 +95,7 @@ const CopilotSpinner: React.FC = () => {
  * reasoning display that shows:
  * - Active spinner during reasoning
  * - Elapsed time counter
+ * - The agent's plan (if it wrote one) with the status of each todo
  * - Current reasoning steps (last 2)
  * - Collapsible view after completion
  *
@@ -103,6 +108,7 @@ export const AgentReasoningBlock: React.FC<AgentReasoningBlockProps> = ({
   status,
   elapsedSeconds,
   steps,
+  plan,
   isStreaming,
 }) => {
   const [isExpanded, setIsExpanded] = useState(status === "reasoning");
@@ -122,7 +128,7 @@ export const AgentReasoningBlock: React.FC<AgentReasoningBlockProps> = ({
   }
 
   const isActive = status === "reasoning";
-  const canExpand = !isActive && steps.length > 0;
+  const canExpand = !isActive && (steps.length > 0 || !!plan);
 
   return (
     <Collapsible
@@ -161,6 +167,7 @@ export const AgentReasoningBlock: React.FC<AgentReasoningBlockProps> = ({
 
       {/* Steps - visible when expanded or actively reasoning */}
       <CollapsibleContent>
+        {plan && <AgentPlanPanel plan={plan} className="tw-my-1" />}
         {steps.length > 0 && (
           <ul className="agent-reasoning-steps">
             {steps.map((step, i) => (
@@ -11,6 +11,7 @@ import {
   RotateCw,
   TextCursorInput,
   Trash2,
+  Undo2,
 } from "lucide-react";
 import { Platform } from "obsidian";
 import React from "react";
@@ -25,6 +26,7 @@ interface ChatButtonsProps {
   onDelete: () => void;
   onShowSources?: () => void;
   hasSources: boolean;
+  onUndoCanvasUpdate?: () => void;
 }
 
 export const ChatButtons: React.FC<ChatButtonsProps> = ({
@@ -37,6 +39,7 @@ export const ChatButtons: React.FC<ChatButtonsProps> = ({
   onDelete,
   onShowSources,
   hasSources,
+  onUndoCanvasUpdate,
 }) => {
   return (
     <div
@@ -83,6 +86,21 @@ export const ChatButtons: React.FC<ChatButtonsProps> = ({
               <TooltipContent>Show Sources</TooltipContent>
             </Tooltip>
           )}
+          {onUndoCanvasUpdate && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  onClick={onUndoCanvasUpdate}
+                  variant="ghost2"
+                  size="fit"
+                  title="Undo canvas update"
+                >
+                  <Undo2 className="tw-size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>Undo canvas update</TooltipContent>
+            </Tooltip>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
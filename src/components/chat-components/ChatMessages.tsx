@@ -1,6 +1,7 @@
 import ChatSingleMessage from "@/components/chat-components/ChatSingleMessage";
 import { RelevantNotes } from "@/components/chat-components/RelevantNotes";
 import { SuggestedPrompts } from "@/components/chat-components/SuggestedPrompts";
+import { ToolApprovalRequests } from "@/components/chat-components/ToolApprovalCard";
 import { USER_SENDER } from "@/constants";
 import { useChatScrolling } from "@/hooks/useChatScrolling";
 import { useSettingsValue } from "@/settings/model";
@@ -133,6 +134,7 @@ const ChatMessages = memo(
                 isStreaming={true}
                 onDelete={() => {}}
               />
+              <ToolApprovalRequests />
             </div>
           )}
         </div>
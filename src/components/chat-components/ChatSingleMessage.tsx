@@ -1,4 +1,5 @@
 import { ChatButtons } from "@/components/chat-components/ChatButtons";
+import { ConfirmModal } from "@/components/modals/ConfirmModal";
 import { SourcesModal } from "@/components/modals/SourcesModal";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
@@ -26,16 +27,28 @@ import {
   renderToolCallBanner,
   type ToolCallRootRecord,
 } from "@/components/chat-components/toolCallRootManager";
+import { AgentPlanPanel } from "@/components/chat-components/AgentPlanPanel";
 import { AgentReasoningBlock } from "@/components/chat-components/AgentReasoningBlock";
 import { USER_SENDER } from "@/constants";
 import { cn } from "@/lib/utils";
 import { parseToolCallMarkers } from "@/LLMProviders/chainRunner/utils/toolCallParser";
-import { parseReasoningBlock } from "@/LLMProviders/chainRunner/utils/AgentReasoningState";
+import {
+  parseAgentPlan,
+  parseReasoningBlock,
+  stripAgentPlan,
+} from "@/LLMProviders/chainRunner/utils/AgentReasoningState";
 import { processInlineCitations } from "@/LLMProviders/chainRunner/utils/citationUtils";
+import { getCanvasNodeUri } from "@/services/canvasSelection/canvasNodeFocus";
+import {
+  CanvasChangeJournal,
+  CanvasCheckpoint,
+  extractCanvasCheckpointIds,
+} from "@/tools/CanvasChangeJournal";
+import { AgentPlan } from "@/tools/PlannerTools";
 import { ChatMessage } from "@/types/message";
 import { cleanMessageForCopy, extractYoutubeVideoId, insertIntoEditor } from "@/utils";
-import { App, Component, MarkdownRenderer, MarkdownView, TFile } from "obsidian";
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import { App, Component, MarkdownRenderer, MarkdownView, Notice, TFile } from "obsidian";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useSettingsValue } from "@/settings/model";
 import {
   buildCopilotCollapsibleDomId,
@@ -201,6 +214,7 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
     elapsedSeconds: number;
     steps: string[];
   } | null>(null);
+  const [planData, setPlanData] = useState<AgentPlan | null>(null);
   const contentRef = useRef<HTMLDivElement>(null);
   const componentRef = useRef<Component | null>(null);
   const isUnmountingRef = useRef<boolean>(false);
@@ -378,7 +392,11 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
         );
       };
 
-      const replaceLinks = (text: string, regex: RegExp, template: (file: TFile) => string) => {
+      const replaceLinks = (
+        text: string,
+        regex: RegExp,
+        template: (file: TFile, subpath: string) => string
+      ) => {
         // Split text into code blocks and non-code blocks
         const parts = text.split(/(```[\s\S]*?```|`[^`]*`)/g);
 
@@ -387,9 +405,10 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
             // Even indices are normal text, odd indices are code blocks
             if (index % 2 === 0) {
               // Process links only in non-code blocks
-              return part.replace(regex, (match: string, selection: string) => {
+              // A second capture group, when the regex has one, is passed on as the subpath
+              return part.replace(regex, (match: string, selection: string, subpath: unknown) => {
                 const file = app.metadataCache.getFirstLinkpathDest(selection, sourcePath);
-                return file ? template(file) : match;
+                return file ? template(file, typeof subpath === "string" ? subpath : "") : match;
               });
             }
             // Return code blocks unchanged
@@ -430,9 +449,18 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
         settings.enableInlineCitations
       );
 
+      // Transform canvas node citations [[Board.canvas#^node]] to links that open the canvas
+      // zoomed to the node
+      const canvasNodeLinksProcessed = replaceLinks(
+        sourcesSectionProcessed,
+        /(?<!!)\[\[([^\]#|]+\.canvas)#\^([^\]|]+)]]/g,
+        (file: TFile, nodeId: string) =>
+          `<a href="${getCanvasNodeUri(file.path, nodeId)}">${file.basename}</a>`
+      );
+
       // Transform [[link]] to clickable format but exclude ![[]] image links
       const noteLinksProcessed = replaceLinks(
-        sourcesSectionProcessed,
+        canvasNodeLinksProcessed,
         /(?<!!)\[\[([^\]]+)]]/g,
         (file: TFile) =>
           `<a href="obsidian://open?file=${encodeURIComponent(file.path)}">${file.basename}</a>`
@@ -565,7 +593,14 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
       }
 
       // Use content after reasoning block (or full message if no reasoning block)
-      const messageContent = reasoningBlockData?.contentAfter ?? originMessage;
+      let messageContent = reasoningBlockData?.contentAfter ?? originMessage;
+
+      // The agent's plan is shown in the reasoning block (or on its own in saved chats)
+      const plan = message.sender !== USER_SENDER ? parseAgentPlan(messageContent) : null;
+      setPlanData(plan);
+      if (plan) {
+        messageContent = stripAgentPlan(messageContent);
+      }
       const processedMessage = preprocess(messageContent);
       const parsedMessage = parseToolCallMarkers(processedMessage, messageId.current);
 
@@ -785,6 +820,62 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
     }
   };
 
+  // Canvas checkpoints recorded for this message that can still be undone. The journal
+  // lives for the session only, so messages restored from history have none.
+  const [journalVersion, setJournalVersion] = useState(0);
+  useEffect(
+    () => CanvasChangeJournal.getInstance().subscribe(() => setJournalVersion((v) => v + 1)),
+    []
+  );
+  const canvasCheckpointIds = useMemo(() => {
+    if (message.sender === USER_SENDER) return [];
+    const journal = CanvasChangeJournal.getInstance();
+    return extractCanvasCheckpointIds(message.message).filter((id) => journal.getCheckpoint(id));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [message.message, message.sender, journalVersion]);
+
+  const undoCanvasUpdate = async () => {
+    const journal = CanvasChangeJournal.getInstance();
+    let revertedCount = 0;
+    // Roll back newest first; each rollback also reverts later checkpoints on that canvas
+    for (const checkpointId of [...canvasCheckpointIds].reverse()) {
+      if (!journal.getCheckpoint(checkpointId)) continue;
+      const result = await journal.rollbackTo(app, checkpointId);
+      if (!result.success) {
+        new Notice(`Failed to undo canvas update: ${result.error}`);
+        return;
+      }
+      revertedCount += result.revertedCount;
+    }
+    new Notice(`Reverted ${revertedCount} canvas update(s)`);
+  };
+
+  // Undoing an update also undoes later updates on the same canvas, so ask first
+  const handleUndoCanvasUpdate = () => {
+    const journal = CanvasChangeJournal.getInstance();
+    const later = new Map<string, CanvasCheckpoint>();
+    for (const checkpointId of canvasCheckpointIds) {
+      for (const checkpoint of journal.getRollbackCheckpoints(checkpointId)) {
+        if (!canvasCheckpointIds.includes(checkpoint.id)) later.set(checkpoint.id, checkpoint);
+      }
+    }
+    if (later.size === 0) {
+      void undoCanvasUpdate();
+      return;
+    }
+
+    const list = Array.from(later.values())
+      .map((c) => `- ${c.summary} (${c.canvasPath}, ${new Date(c.createdAt).toLocaleTimeString()})`)
+      .join("\n");
+    new ConfirmModal(
+      app,
+      () => void undoCanvasUpdate(),
+      `Later messages changed the same canvas. Undoing this update also undoes these ${later.size} later update(s):\n\n${list}`,
+      "Undo Later Canvas Updates",
+      "Undo all"
+    ).open();
+  };
+
   const handleInsertIntoEditor = () => {
     let leaf = app.workspace.getMostRecentLeaf();
     if (!leaf || !(leaf.view instanceof MarkdownView)) {
@@ -881,9 +972,11 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
               status={reasoningData.status}
               elapsedSeconds={reasoningData.elapsedSeconds}
               steps={reasoningData.steps}
+              plan={planData}
               isStreaming={isStreaming}
             />
           )}
+          {!reasoningData && planData && <AgentPlanPanel plan={planData} />}
 
           <div className="message-content">{renderMessageContent()}</div>
 
@@ -904,6 +997,9 @@ const ChatSingleMessage: React.FC<ChatSingleMessageProps> = ({
                 onDelete={onDelete}
                 onShowSources={handleShowSources}
                 hasSources={message.sources && message.sources.length > 0 ? true : false}
+                onUndoCanvasUpdate={
+                  canvasCheckpointIds.length > 0 ? handleUndoCanvasUpdate : undefined
+                }
               />
             </div>
           )}
@@ -14,6 +14,7 @@ import {
   RelevantNoteEntry,
 } from "@/search/findRelevantNotes";
 import { onIndexChanged } from "@/search/indexSignal";
+import { getCanvasSearchText, isCanvasFile } from "@/search/v3/utils/canvasText";
 import {
   ArrowRight,
   ChevronDown,
@@ -109,8 +110,8 @@ function RelevantNote({
     if (file instanceof TFile) {
       const content = await app.vault.cachedRead(file);
 
-      // Remove YAML frontmatter if it exists
-      let cleanContent = content;
+      // Remove YAML frontmatter if it exists; canvases preview their text cards
+      let cleanContent = isCanvasFile(file) ? getCanvasSearchText(content) : content;
       if (content.startsWith("---")) {
         const endOfFrontmatter = content.indexOf("---", 3);
         if (endOfFrontmatter !== -1) {
@@ -271,8 +272,11 @@ export const RelevantNotes = memo(
         leaf.openFile(file);
       }
     };
-    const addToChat = (prompt: string) => {
-      chatInput.insertTextWithPills(`[[${prompt}]]`, true);
+    const addToChat = (note: RelevantNoteEntry) => {
+      // Canvases only resolve as links by their full file name
+      const file = app.vault.getAbstractFileByPath(note.document.path);
+      const link = file instanceof TFile && isCanvasFile(file) ? file.name : note.document.title;
+      chatInput.insertTextWithPills(`[[${link}]]`, true);
     };
     const refreshIndex = async () => {
       if (activeFile) {
@@ -367,7 +371,7 @@ export const RelevantNotes = memo(
                 <RelevantNotePopover
                   key={note.document.path}
                   note={note}
-                  onAddToChat={() => addToChat(note.document.title)}
+                  onAddToChat={() => addToChat(note)}
                   onNavigateToNote={(openInNewLeaf: boolean) =>
                     navigateToNote(note.document.path, openInNewLeaf)
                   }
@@ -389,7 +393,7 @@ export const RelevantNotes = memo(
                 <RelevantNote
                   note={note}
                   key={note.document.path}
-                  onAddToChat={() => addToChat(note.document.title)}
+                  onAddToChat={() => addToChat(note)}
                   onNavigateToNote={(openInNewLeaf: boolean) =>
                     navigateToNote(note.document.path, openInNewLeaf)
                   }
@@ -0,0 +1,125 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ToolApprovalManager,
+  ToolApprovalRequest,
+} from "@/LLMProviders/chainRunner/utils/toolApproval";
+import { getToolEmoji } from "@/LLMProviders/chainRunner/utils/toolExecution";
+import React, { useEffect, useState } from "react";
+
+interface ToolApprovalCardProps {
+  request: ToolApprovalRequest;
+}
+
+/**
+ * Inline card asking the user to approve, edit or deny a tool call the agent is
+ * waiting on.
+ */
+export const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({ request }) => {
+  const manager = ToolApprovalManager.getInstance();
+  const formattedArgs = JSON.stringify(request.args, null, 2);
+  const [isEditing, setIsEditing] = useState(false);
+  const [argsText, setArgsText] = useState(formattedArgs);
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState("");
+
+  const approve = (forTurn: boolean) => {
+    if (!isEditing) {
+      manager.resolve(request.id, { action: "approve", forTurn });
+      return;
+    }
+    try {
+      const args = JSON.parse(argsText);
+      if (!args || typeof args !== "object" || Array.isArray(args)) {
+        setArgsError("Arguments must be a JSON object");
+        return;
+      }
+      manager.resolve(request.id, { action: "approve", args, forTurn });
+    } catch (error) {
+      setArgsError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const deny = () => {
+    manager.resolve(request.id, { action: "deny", feedback: feedback.trim() || undefined });
+  };
+
+  return (
+    <div className="tw-my-3 tw-w-full tw-rounded-md tw-border tw-border-solid tw-border-border tw-p-3 tw-bg-secondary/50 sm:tw-max-w-md">
+      <div className="tw-mb-2 tw-flex tw-items-center tw-gap-2 tw-text-sm tw-font-medium">
+        <span className="tw-text-base">{getToolEmoji(request.toolName)}</span>
+        <span>Allow {request.displayName}?</span>
+      </div>
+
+      {isEditing ? (
+        <>
+          <Textarea
+            value={argsText}
+            onChange={(e) => {
+              setArgsText(e.target.value);
+              setArgsError(null);
+            }}
+            className="tw-font-mono tw-text-xs"
+            aria-label="Tool arguments"
+          />
+          {argsError && <div className="tw-mt-1 tw-text-xs tw-text-error">{argsError}</div>}
+        </>
+      ) : (
+        <pre className="tw-max-h-40 tw-overflow-auto tw-whitespace-pre-wrap tw-rounded tw-bg-primary tw-p-2 tw-font-mono tw-text-xs">
+          {formattedArgs}
+        </pre>
+      )}
+
+      <Input
+        className="tw-mt-2"
+        placeholder="Reason for denying (optional)"
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+      />
+
+      <div className="tw-mt-2 tw-flex tw-flex-wrap tw-gap-2">
+        <Button size="sm" onClick={() => approve(false)}>
+          Approve
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => approve(true)}>
+          Approve for this turn
+        </Button>
+        {!isEditing && (
+          <Button size="sm" variant="secondary" onClick={() => setIsEditing(true)}>
+            Edit arguments
+          </Button>
+        )}
+        <Button size="sm" variant="destructive" onClick={deny}>
+          Deny
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * All tool calls currently waiting for approval, updated as the agent asks and
+ * the user answers.
+ */
+export const ToolApprovalRequests: React.FC = () => {
+  const manager = ToolApprovalManager.getInstance();
+  const [requests, setRequests] = useState<ToolApprovalRequest[]>(() => manager.getPending());
+
+  useEffect(() => {
+    setRequests(manager.getPending());
+    return manager.subscribe(() => {
+      setRequests(manager.getPending());
+    });
+  }, [manager]);
+
+  if (requests.length === 0) return null;
+
+  return (
+    <>
+      {requests.map((request) => (
+        <ToolApprovalCard key={request.id} request={request} />
+      ))}
+    </>
+  );
+};
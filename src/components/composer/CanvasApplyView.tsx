@@ -0,0 +1,470 @@
+import { cn } from "@/lib/utils";
+import { logError } from "@/logger";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import {
+  buildCanvasOverlay,
+  CanvasOverlayChange,
+  CanvasOverlayItem,
+  describeCanvasOperation,
+  previewCanvasOperations,
+} from "@/tools/CanvasPreview";
+import { CanvasApplyViewResult } from "@/types";
+import { Check, X as XIcon } from "lucide-react";
+import { App, ItemView, WorkspaceLeaf } from "obsidian";
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+import React, { memo, useEffect, useMemo, useState } from "react";
+import { createRoot } from "react-dom/client";
+import { Button } from "../ui/button";
+import { CanvasViewOverlay, openCanvasLeaf } from "./canvasViewOverlay";
+
+export const CANVAS_APPLY_VIEW_TYPE = "obsidian-copilot-canvas-apply-view";
+
+export interface CanvasApplyViewState {
+  path: string;
+  /** Canvas content the operations will be applied to. */
+  canvasData: CanvasData;
+  operations: CanvasOperation[];
+  resultCallback?: (result: CanvasApplyViewResult) => void;
+}
+
+/** Stroke colour per change type, matching the diff colours used by ApplyView. */
+const CHANGE_COLORS: Record<CanvasOverlayChange, { stroke: string; fill: string }> = {
+  added: { stroke: "var(--color-green)", fill: "rgba(var(--color-green-rgb), 0.15)" },
+  updated: { stroke: "var(--color-yellow)", fill: "rgba(var(--color-yellow-rgb), 0.15)" },
+  deleted: { stroke: "var(--color-red)", fill: "rgba(var(--color-red-rgb), 0.15)" },
+  unchanged: { stroke: "var(--background-modifier-border)", fill: "var(--background-primary)" },
+};
+
+const OVERLAY_PADDING = 40;
+
+/**
+ * Open the CanvasApplyView for a set of operations and wait for the user's decision.
+ * The canvas is opened beside the view so the changes can be shown on it.
+ * @param app - Obsidian app
+ * @param canvasPath - Vault-relative path of the canvas being edited
+ * @param canvasData - Current canvas content
+ * @param operations - Operations proposed by the agent
+ */
+export async function showCanvasPreview(
+  app: App,
+  canvasPath: string,
+  canvasData: CanvasData,
+  operations: CanvasOperation[]
+): Promise<CanvasApplyViewResult> {
+  const canvasLeaf = await openCanvasLeaf(app, canvasPath);
+  if (canvasLeaf) {
+    app.workspace.setActiveLeaf(canvasLeaf, { focus: false });
+  }
+
+  return new Promise((resolve) => {
+    const leaf = canvasLeaf
+      ? app.workspace.getLeaf("split", "vertical")
+      : app.workspace.getLeaf(true);
+    leaf.setViewState({
+      type: CANVAS_APPLY_VIEW_TYPE,
+      active: true,
+      state: {
+        path: canvasPath,
+        canvasData,
+        operations,
+        resultCallback: (result: CanvasApplyViewResult) => {
+          resolve(result);
+        },
+      },
+    });
+  });
+}
+
+export class CanvasApplyView extends ItemView {
+  private root: ReturnType<typeof createRoot> | null = null;
+  private state: CanvasApplyViewState | null = null;
+  private result: CanvasApplyViewResult | null = null;
+
+  constructor(leaf: WorkspaceLeaf) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return CANVAS_APPLY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Preview Canvas Changes";
+  }
+
+  async setState(state: CanvasApplyViewState) {
+    this.state = state;
+    this.render();
+  }
+
+  async onOpen() {
+    this.render();
+  }
+
+  async onClose() {
+    if (this.root) {
+      this.root.unmount();
+      this.root = null;
+    }
+
+    this.state?.resultCallback?.(this.result ?? { result: "aborted", acceptedIndices: [] });
+  }
+
+  private render() {
+    if (!this.state) return;
+
+    // The second child is the actual content of the view, and the first child is the title of the view
+    const contentEl = this.containerEl.children[1];
+    contentEl.empty();
+
+    const rootEl = contentEl.createDiv({ cls: "tw-h-full" });
+    if (!this.root) {
+      this.root = createRoot(rootEl);
+    }
+
+    this.root.render(
+      <CanvasApplyViewRoot
+        app={this.app}
+        state={this.state}
+        close={(result) => {
+          this.result = result;
+          this.leaf.detach();
+        }}
+      />
+    );
+  }
+}
+
+/**
+ * Get the geometry of a node record, or null for edges.
+ */
+function getNodeGeometry(data: AllCanvasNodeData | CanvasEdgeData) {
+  if (!("x" in data)) return null;
+  return { x: data.x, y: data.y, width: data.width, height: data.height };
+}
+
+/**
+ * Short label drawn inside a node in the overlay.
+ */
+function getNodeLabel(node: AllCanvasNodeData): string {
+  const raw =
+    node.type === "text"
+      ? node.text
+      : node.type === "file"
+        ? node.file
+        : node.type === "link"
+          ? node.url
+          : node.type === "group"
+            ? (node.label ?? "Group")
+            : "";
+  const firstLine = String(raw ?? "").split("\n")[0];
+  return firstLine.length > 40 ? `${firstLine.slice(0, 39)}…` : firstLine;
+}
+
+interface CanvasOverlayProps {
+  items: CanvasOverlayItem[];
+  highlightedIndex: number | null;
+}
+
+/**
+ * Schematic drawing of the canvas with changed records colour-coded, shown when the
+ * changes cannot be drawn on an open view of the canvas (e.g. a canvas the edit
+ * creates). Cards show their first line, path or URL rather than rendered content.
+ */
+const CanvasOverlay = memo(({ items, highlightedIndex }: CanvasOverlayProps) => {
+  const nodes = items.filter((item) => item.kind === "node");
+  const edges = items.filter((item) => item.kind === "edge");
+  const nodeById = new Map(nodes.map((item) => [item.id, item]));
+
+  const geometries = nodes.flatMap((item) => {
+    const current = getNodeGeometry(item.data);
+    const previous = item.previous ? getNodeGeometry(item.previous) : null;
+    return [current, previous].filter((g): g is NonNullable<typeof g> => g !== null);
+  });
+
+  if (geometries.length === 0) {
+    return <div className="tw-p-4 tw-text-sm tw-text-muted">The canvas is empty.</div>;
+  }
+
+  const minX = Math.min(...geometries.map((g) => g.x)) - OVERLAY_PADDING;
+  const minY = Math.min(...geometries.map((g) => g.y)) - OVERLAY_PADDING;
+  const maxX = Math.max(...geometries.map((g) => g.x + g.width)) + OVERLAY_PADDING;
+  const maxY = Math.max(...geometries.map((g) => g.y + g.height)) + OVERLAY_PADDING;
+
+  const isHighlighted = (item: CanvasOverlayItem) =>
+    highlightedIndex !== null && item.operationIndices.includes(highlightedIndex);
+
+  // Groups first so they sit behind the nodes they contain
+  const orderedNodes = [...nodes].sort(
+    (a, b) =>
+      Number((b.data as AllCanvasNodeData).type === "group") -
+      Number((a.data as AllCanvasNodeData).type === "group")
+  );
+
+  return (
+    <svg
+      className="tw-size-full"
+      viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {orderedNodes.map((item) => {
+        const node = item.data as AllCanvasNodeData;
+        const previous = item.previous as AllCanvasNodeData | undefined;
+        const colors = CHANGE_COLORS[item.change];
+        const moved =
+          previous &&
+          (previous.x !== node.x ||
+            previous.y !== node.y ||
+            previous.width !== node.width ||
+            previous.height !== node.height);
+
+        return (
+          <g key={`node-${item.id}`} opacity={item.change === "unchanged" ? 0.6 : 1}>
+            {moved && (
+              <rect
+                x={previous.x}
+                y={previous.y}
+                width={previous.width}
+                height={previous.height}
+                rx={8}
+                fill="none"
+                stroke={colors.stroke}
+                strokeDasharray="8 6"
+                strokeWidth={2}
+                opacity={0.6}
+              />
+            )}
+            <rect
+              x={node.x}
+              y={node.y}
+              width={node.width}
+              height={node.height}
+              rx={8}
+              fill={colors.fill}
+              stroke={colors.stroke}
+              strokeWidth={isHighlighted(item) ? 8 : 3}
+              strokeDasharray={item.change === "deleted" ? "12 6" : undefined}
+            >
+              <title>{`${item.change}: ${item.id}`}</title>
+            </rect>
+            <text
+              x={node.x + 12}
+              y={node.y + 28}
+              fontSize={18}
+              fill="var(--text-normal)"
+              textDecoration={item.change === "deleted" ? "line-through" : undefined}
+            >
+              {getNodeLabel(node)}
+            </text>
+          </g>
+        );
+      })}
+      {edges.map((item) => {
+        const edge = item.data as CanvasEdgeData;
+        const from = nodeById.get(edge.fromNode);
+        const to = nodeById.get(edge.toNode);
+        const fromGeometry = from ? getNodeGeometry(from.data) : null;
+        const toGeometry = to ? getNodeGeometry(to.data) : null;
+        if (!fromGeometry || !toGeometry) return null;
+
+        const colors = CHANGE_COLORS[item.change];
+        return (
+          <line
+            key={`edge-${item.id}`}
+            x1={fromGeometry.x + fromGeometry.width / 2}
+            y1={fromGeometry.y + fromGeometry.height / 2}
+            x2={toGeometry.x + toGeometry.width / 2}
+            y2={toGeometry.y + toGeometry.height / 2}
+            stroke={item.change === "unchanged" ? "var(--text-faint)" : colors.stroke}
+            strokeWidth={isHighlighted(item) ? 8 : 3}
+            strokeDasharray={item.change === "deleted" ? "12 6" : undefined}
+          >
+            <title>{`${item.change}: ${item.id}${edge.label ? ` (${edge.label})` : ""}`}</title>
+          </line>
+        );
+      })}
+    </svg>
+  );
+});
+
+CanvasOverlay.displayName = "CanvasOverlay";
+
+interface CanvasApplyViewRootProps {
+  app: App;
+  state: CanvasApplyViewState;
+  close: (result: CanvasApplyViewResult) => void;
+}
+
+const CanvasApplyViewRoot: React.FC<CanvasApplyViewRootProps> = ({ app, state, close }) => {
+  // A view restored from the workspace layout has no canvas data or operations
+  if (!state.canvasData || !state.operations) {
+    logError("Invalid canvas preview state:", state);
+    return (
+      <div className="tw-flex tw-h-full tw-flex-col tw-items-center tw-justify-center">
+        <div className="tw-text-error">Error: Invalid state - missing canvas operations</div>
+        <Button
+          onClick={() => close({ result: "failed", acceptedIndices: [] })}
+          className="tw-mt-4"
+        >
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <CanvasApplyViewContent
+      app={app}
+      path={state.path}
+      canvasData={state.canvasData}
+      operations={state.operations}
+      close={close}
+    />
+  );
+};
+
+interface CanvasApplyViewContentProps {
+  app: App;
+  path: string;
+  canvasData: CanvasData;
+  operations: CanvasOperation[];
+  close: (result: CanvasApplyViewResult) => void;
+}
+
+const CanvasApplyViewContent: React.FC<CanvasApplyViewContentProps> = ({
+  app,
+  path,
+  canvasData,
+  operations,
+  close,
+}) => {
+  // null = undecided, true = accepted, false = rejected
+  const [decisions, setDecisions] = useState<(boolean | null)[]>(() => operations.map(() => null));
+  const [highlightedIndex, setHighlightedIndex] = useState<number | null>(null);
+
+  // Rejected operations are left out so the overlay shows what would actually be written
+  const previews = useMemo(
+    () => previewCanvasOperations(canvasData, operations, (index) => decisions[index] !== false),
+    [canvasData, operations, decisions]
+  );
+  const overlayItems = useMemo(
+    () => buildCanvasOverlay(canvasData, previews),
+    [canvasData, previews]
+  );
+
+  // Draw the changes on the open canvas when possible, and restore it on close
+  const [viewOverlay, setViewOverlay] = useState<CanvasViewOverlay | null>(null);
+  useEffect(() => {
+    const overlay = CanvasViewOverlay.attach(app, path);
+    setViewOverlay(overlay);
+    return () => overlay?.remove();
+  }, [app, path]);
+  useEffect(() => {
+    viewOverlay?.show(overlayItems);
+  }, [viewOverlay, overlayItems]);
+  useEffect(() => {
+    viewOverlay?.highlight(highlightedIndex);
+  }, [viewOverlay, overlayItems, highlightedIndex]);
+
+  const setDecision = (index: number, accepted: boolean) => {
+    setDecisions((prev) => prev.map((decision, i) => (i === index ? accepted : decision)));
+  };
+
+  const finish = (acceptUndecided: boolean) => {
+    const acceptedIndices = decisions
+      .map((decision, index) => ((decision ?? acceptUndecided) ? index : -1))
+      .filter((index) => index !== -1);
+    close({ result: acceptedIndices.length > 0 ? "accepted" : "rejected", acceptedIndices });
+  };
+
+  const counts = overlayItems.reduce(
+    (acc, item) => {
+      acc[item.change]++;
+      return acc;
+    },
+    { added: 0, updated: 0, deleted: 0, unchanged: 0 } as Record<CanvasOverlayChange, number>
+  );
+
+  return (
+    <div className="tw-relative tw-flex tw-h-full tw-flex-col">
+      <div className="tw-fixed tw-bottom-4 tw-left-1/2 tw-z-[9999] tw-flex tw-gap-2 tw-rounded-md tw-border tw-border-solid tw-border-border tw-bg-secondary tw-p-2 tw-shadow-lg">
+        <Button variant="destructive" size="sm" onClick={() => finish(false)}>
+          <XIcon className="tw-size-4" />
+          Reject
+        </Button>
+        <Button variant="success" size="sm" onClick={() => finish(true)}>
+          <Check className="tw-size-4" />
+          Accept
+        </Button>
+      </div>
+      <div className="tw-flex tw-items-center tw-justify-between tw-border-b tw-border-solid tw-border-border tw-p-2">
+        <div className="tw-text-sm tw-font-medium">{path}</div>
+        <div className="tw-flex tw-gap-3 tw-text-xs">
+          <span className="tw-text-success">+{counts.added} added</span>
+          <span className="tw-text-warning">~{counts.updated} updated</span>
+          <span className="tw-text-error">−{counts.deleted} deleted</span>
+        </div>
+      </div>
+
+      <div className="tw-flex tw-min-h-0 tw-flex-1 tw-flex-col tw-gap-2 tw-p-2">
+        {!viewOverlay && (
+          <div className="tw-min-h-[240px] tw-flex-1 tw-rounded-md tw-border tw-border-solid tw-border-border tw-bg-primary">
+            <CanvasOverlay items={overlayItems} highlightedIndex={highlightedIndex} />
+          </div>
+        )}
+
+        <div
+          className={cn(
+            "tw-mb-16 tw-flex tw-flex-col tw-gap-1 tw-overflow-auto",
+            !viewOverlay && "tw-max-h-[40%]"
+          )}
+        >
+          {previews.map((preview) => {
+            const decision = decisions[preview.index];
+            return (
+              <div
+                key={preview.index}
+                onMouseEnter={() => setHighlightedIndex(preview.index)}
+                onMouseLeave={() => setHighlightedIndex(null)}
+                className={cn(
+                  "tw-flex tw-items-center tw-justify-between tw-gap-2 tw-rounded-md tw-border tw-border-solid tw-border-border tw-p-2",
+                  decision === false && "tw-opacity-50"
+                )}
+              >
+                <div className="tw-flex tw-min-w-0 tw-flex-col">
+                  <div className="tw-truncate tw-text-sm">
+                    <span className="tw-font-mono tw-text-xs tw-text-muted">
+                      {preview.operation.type} ({preview.operation.id})
+                    </span>{" "}
+                    {describeCanvasOperation(preview.operation)}
+                  </div>
+                  {preview.status === "invalid" && (
+                    <div className="tw-text-xs tw-text-error">Will fail: {preview.error}</div>
+                  )}
+                </div>
+                <div className="tw-flex tw-shrink-0 tw-items-center tw-gap-2">
+                  <Button
+                    variant={decision === false ? "destructive" : "ghost"}
+                    size="sm"
+                    onClick={() => setDecision(preview.index, false)}
+                  >
+                    <XIcon className="tw-size-4" />
+                    Reject
+                  </Button>
+                  <Button
+                    variant={decision === true ? "success" : "ghost"}
+                    size="sm"
+                    onClick={() => setDecision(preview.index, true)}
+                  >
+                    <Check className="tw-size-4" />
+                    Accept
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
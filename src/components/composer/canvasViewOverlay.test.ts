@@ -0,0 +1,95 @@
+import { App } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { buildCanvasOverlay, previewCanvasOperations } from "@/tools/CanvasPreview";
+import { CanvasViewOverlay } from "./canvasViewOverlay";
+
+const path = "boards/plan.canvas";
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 },
+      { id: "b", type: "text", text: "Beta", x: 300, y: 0, width: 200, height: 100 },
+    ],
+    edges: [{ id: "e1", fromNode: "a", toNode: "b" }],
+  } as CanvasData;
+}
+
+/**
+ * Create an app mock with one open canvas view that renders its data as elements.
+ */
+function createApp() {
+  let data = createCanvas();
+  const canvas = {
+    nodes: new Map<string, { nodeEl: Element }>(),
+    edges: new Map<string, { lineGroupEl: Element }>(),
+    getData: jest.fn(() => data),
+    setData: jest.fn((next: CanvasData) => {
+      data = next;
+      canvas.nodes = new Map(
+        next.nodes.map((n) => [n.id, { nodeEl: document.createElement("div") }])
+      );
+      canvas.edges = new Map(
+        next.edges.map((e) => [e.id, { lineGroupEl: document.createElement("div") }])
+      );
+    }),
+  };
+  const save = jest.fn();
+  const requestSave = jest.fn();
+  const view = { file: { path }, canvas, save, requestSave };
+  const app = {
+    workspace: { getLeavesOfType: jest.fn(() => [{ view }]) },
+  } as unknown as App;
+  return { app, canvas, view, save, requestSave, getData: () => data };
+}
+
+describe("CanvasViewOverlay", () => {
+  const overlayItems = () => {
+    const previews = previewCanvasOperations(createCanvas(), [
+      { type: "add_node", id: "c", nodeType: "text", content: "Gamma", x: 600, y: 0 },
+      { type: "delete_node", id: "b" },
+    ]);
+    return buildCanvasOverlay(createCanvas(), previews);
+  };
+
+  it("shows the previewed canvas in the view with changes marked", () => {
+    const { app, canvas, getData } = createApp();
+    const overlay = CanvasViewOverlay.attach(app, path)!;
+
+    overlay.show(overlayItems(), 0);
+
+    expect(getData().nodes.map((n) => n.id)).toEqual(["a", "b", "c"]);
+    const classes = (id: string) => Array.from(canvas.nodes.get(id)!.nodeEl.classList);
+    expect(classes("a")).toEqual([]);
+    expect(classes("b")).toEqual(["copilot-canvas-change-deleted"]);
+    expect(classes("c")).toEqual([
+      "copilot-canvas-change-added",
+      "copilot-canvas-change-highlighted",
+    ]);
+    expect(canvas.edges.get("e1")!.lineGroupEl.classList).toContain(
+      "copilot-canvas-change-deleted"
+    );
+  });
+
+  it("keeps the view from saving until removed, then restores its content", async () => {
+    const { app, view, save, requestSave, getData } = createApp();
+    const overlay = CanvasViewOverlay.attach(app, path)!;
+
+    overlay.show(overlayItems());
+    await view.save();
+    view.requestSave();
+    expect(save).not.toHaveBeenCalled();
+    expect(requestSave).not.toHaveBeenCalled();
+
+    overlay.remove();
+
+    expect(getData()).toEqual(createCanvas());
+    expect(view.save).toBe(save);
+    expect(view.requestSave).toBe(requestSave);
+  });
+
+  it("is not attached when the canvas is not open", () => {
+    const { app } = createApp();
+    expect(CanvasViewOverlay.attach(app, "other.canvas")).toBeNull();
+  });
+});
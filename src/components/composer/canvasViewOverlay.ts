@@ -0,0 +1,141 @@
+/**
+ * Canvas View Overlay
+ *
+ * Shows a canvas preview in the open view of the canvas itself. The view is given
+ * the previewed canvas, deleted records included, and each changed node and edge
+ * is marked with a class coloured by its kind of change. The view does not save
+ * while the overlay is shown and gets its own content back when it is removed.
+ */
+
+import { App, TFile, WorkspaceLeaf } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { CanvasOverlayItem } from "@/tools/CanvasPreview";
+
+const CHANGE_CLASS_PREFIX = "copilot-canvas-change-";
+const HIGHLIGHT_CLASS = "copilot-canvas-change-highlighted";
+
+/**
+ * The parts of Obsidian's (undocumented) canvas API used to show the overlay.
+ */
+interface OverlayCanvasLike {
+  nodes?: Map<string, { nodeEl?: Element }>;
+  edges?: Map<string, { lineGroupEl?: Element }>;
+  getData?: () => CanvasData;
+  setData?: (data: CanvasData) => void;
+}
+
+interface OverlayCanvasViewLike {
+  file?: TFile | null;
+  canvas?: OverlayCanvasLike;
+  save?: unknown;
+  requestSave?: unknown;
+}
+
+function findCanvasLeaf(app: App, canvasPath: string): WorkspaceLeaf | undefined {
+  return app.workspace
+    .getLeavesOfType("canvas")
+    .find((leaf) => (leaf.view as OverlayCanvasViewLike).file?.path === canvasPath);
+}
+
+/**
+ * Get the leaf showing a canvas, opening the canvas in a new tab when no tab
+ * shows it yet.
+ *
+ * @returns Null when the canvas file does not exist
+ */
+export async function openCanvasLeaf(app: App, canvasPath: string): Promise<WorkspaceLeaf | null> {
+  const existing = findCanvasLeaf(app, canvasPath);
+  if (existing) return existing;
+
+  const file = app.vault.getAbstractFileByPath(canvasPath);
+  if (!(file instanceof TFile)) return null;
+  const leaf = app.workspace.getLeaf("tab");
+  await leaf.openFile(file);
+  return leaf;
+}
+
+export class CanvasViewOverlay {
+  private original: CanvasData | null = null;
+  private saveMethods: { save: unknown; requestSave: unknown } | null = null;
+  private items: CanvasOverlayItem[] = [];
+
+  private constructor(private view: OverlayCanvasViewLike) {}
+
+  /**
+   * Create an overlay for the open view of a canvas.
+   *
+   * @returns Null when the canvas is not open or its view cannot be drawn on
+   */
+  static attach(app: App, canvasPath: string): CanvasViewOverlay | null {
+    const view = findCanvasLeaf(app, canvasPath)?.view as OverlayCanvasViewLike | undefined;
+    if (typeof view?.canvas?.getData !== "function" || typeof view.canvas.setData !== "function") {
+      return null;
+    }
+    return new CanvasViewOverlay(view);
+  }
+
+  /**
+   * Show the previewed canvas in the view and mark its changed records.
+   */
+  show(items: CanvasOverlayItem[], highlightedIndex: number | null = null): void {
+    const canvas = this.view.canvas!;
+    if (!this.original) {
+      this.original = canvas.getData!();
+      this.suspendSaving();
+    }
+
+    this.items = items;
+    canvas.setData!({
+      nodes: items.filter((item) => item.kind === "node").map((item) => item.data),
+      edges: items.filter((item) => item.kind === "edge").map((item) => item.data),
+    } as CanvasData);
+    for (const item of items) {
+      if (item.change !== "unchanged") {
+        this.getElement(item)?.classList.add(`${CHANGE_CLASS_PREFIX}${item.change}`);
+      }
+    }
+    this.highlight(highlightedIndex);
+  }
+
+  /**
+   * Emphasize the records touched by one operation, or none.
+   */
+  highlight(operationIndex: number | null): void {
+    for (const item of this.items) {
+      this.getElement(item)?.classList.toggle(
+        HIGHLIGHT_CLASS,
+        operationIndex !== null && item.operationIndices.includes(operationIndex)
+      );
+    }
+  }
+
+  /**
+   * Give the view its own content back and let it save again.
+   */
+  remove(): void {
+    if (!this.original) return;
+    this.view.canvas!.setData!(this.original);
+    this.view.save = this.saveMethods!.save;
+    this.view.requestSave = this.saveMethods!.requestSave;
+    this.original = null;
+    this.saveMethods = null;
+    this.items = [];
+  }
+
+  /**
+   * Canvas views save on their own after changes and when closed; the preview
+   * must never reach the file.
+   */
+  private suspendSaving(): void {
+    this.saveMethods = { save: this.view.save, requestSave: this.view.requestSave };
+    this.view.save = async () => {};
+    this.view.requestSave = () => {};
+  }
+
+  private getElement(item: CanvasOverlayItem): Element | undefined {
+    const canvas = this.view.canvas!;
+    return item.kind === "node"
+      ? canvas.nodes?.get(item.id)?.nodeEl
+      : canvas.edges?.get(item.id)?.lineGroupEl;
+  }
+}
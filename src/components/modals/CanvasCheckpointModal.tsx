@@ -0,0 +1,26 @@
+import { CanvasCheckpoint } from "@/tools/CanvasChangeJournal";
+import { App, FuzzySuggestModal } from "obsidian";
+
+export class CanvasCheckpointModal extends FuzzySuggestModal<CanvasCheckpoint> {
+  constructor(
+    app: App,
+    private checkpoints: CanvasCheckpoint[],
+    private onChooseCheckpoint: (checkpoint: CanvasCheckpoint) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Roll back to before the selected agent canvas update");
+  }
+
+  getItems(): CanvasCheckpoint[] {
+    return this.checkpoints;
+  }
+
+  getItemText(checkpoint: CanvasCheckpoint): string {
+    const time = new Date(checkpoint.createdAt).toLocaleTimeString();
+    return `${checkpoint.summary} (${checkpoint.canvasPath}, ${time}, ${checkpoint.changes.length} changes)`;
+  }
+
+  onChooseItem(checkpoint: CanvasCheckpoint, evt: MouseEvent | KeyboardEvent) {
+    this.onChooseCheckpoint(checkpoint);
+  }
+}
@@ -0,0 +1,90 @@
+import { App, Modal } from "obsidian";
+import React, { useState } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+function CanvasQuestionModalContent({
+  nodeCount,
+  onConfirm,
+  onCancel,
+}: {
+  nodeCount: number;
+  onConfirm: (question: string) => void;
+  onCancel: () => void;
+}) {
+  const [question, setQuestion] = useState("");
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && question.trim()) {
+      onConfirm(question);
+    }
+  };
+
+  return (
+    <div className="tw-flex tw-flex-col tw-gap-4">
+      <div className="tw-flex tw-flex-col tw-gap-4">
+        <div>
+          Ask about the {nodeCount} selected node{nodeCount !== 1 ? "s" : ""}. The answer is added
+          to the canvas as a new card connected to them.
+        </div>
+        <Input
+          autoFocus
+          placeholder="Enter your question"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      <div className="tw-flex tw-justify-end tw-gap-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="default" disabled={!question.trim()} onClick={() => onConfirm(question)}>
+          Ask
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export class CanvasQuestionModal extends Modal {
+  private root: Root;
+
+  constructor(
+    app: App,
+    private nodeCount: number,
+    private onConfirm: (question: string) => void
+  ) {
+    super(app);
+    // https://docs.obsidian.md/Reference/TypeScript+API/Modal/setTitle
+    // @ts-ignore
+    this.setTitle("Ask about canvas nodes");
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.root = createRoot(contentEl);
+
+    const handleConfirm = (question: string) => {
+      this.onConfirm(question);
+      this.close();
+    };
+
+    const handleCancel = () => {
+      this.close();
+    };
+
+    this.root.render(
+      <CanvasQuestionModalContent
+        nodeCount={this.nodeCount}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+    );
+  }
+
+  onClose() {
+    this.root.unmount();
+  }
+}
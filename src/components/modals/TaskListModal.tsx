@@ -0,0 +1,29 @@
+import { VaultTask } from "@/tools/TaskTools";
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+export class TaskListModal extends FuzzySuggestModal<VaultTask> {
+  constructor(
+    app: App,
+    private tasks: VaultTask[],
+    private today: string
+  ) {
+    super(app);
+    this.setPlaceholder(`${tasks.length} open tasks, by due date. Select one to open its note`);
+  }
+
+  getItems(): VaultTask[] {
+    return this.tasks;
+  }
+
+  getItemText(task: VaultTask): string {
+    const due = task.due ? `${task.due < this.today ? "Overdue" : "Due"} ${task.due} · ` : "";
+    return `${due}${task.text} (${task.path.replace(/\.md$/, "")})`;
+  }
+
+  onChooseItem(task: VaultTask, evt: MouseEvent | KeyboardEvent) {
+    const file = this.app.vault.getAbstractFileByPath(task.path);
+    if (file instanceof TFile) {
+      void this.app.workspace.getLeaf(false).openFile(file, { eState: { line: task.line - 1 } });
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { App, Modal } from "obsidian";
+import React, { useState } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+function TopicMapModalContent({
+  initialSource,
+  onConfirm,
+  onCancel,
+}: {
+  initialSource: string;
+  onConfirm: (source: string) => void;
+  onCancel: () => void;
+}) {
+  const [source, setSource] = useState(initialSource);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" && source.trim()) {
+      onConfirm(source);
+    }
+  };
+
+  return (
+    <div className="tw-flex tw-flex-col tw-gap-4">
+      <div className="tw-flex tw-flex-col tw-gap-4">
+        <div>
+          Map the notes in a folder, with a tag, or matching a search. Related notes are grouped by
+          topic on a canvas; running it again on the same notes updates the map.
+        </div>
+        <Input
+          autoFocus
+          placeholder="Folder path, #tag, or search query"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      <div className="tw-flex tw-justify-end tw-gap-2">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="default" disabled={!source.trim()} onClick={() => onConfirm(source)}>
+          Create map
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export class TopicMapModal extends Modal {
+  private root: Root;
+
+  constructor(
+    app: App,
+    private initialSource: string,
+    private onConfirm: (source: string) => void
+  ) {
+    super(app);
+    // https://docs.obsidian.md/Reference/TypeScript+API/Modal/setTitle
+    // @ts-ignore
+    this.setTitle("Create topic map");
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.root = createRoot(contentEl);
+
+    const handleConfirm = (source: string) => {
+      this.onConfirm(source);
+      this.close();
+    };
+
+    const handleCancel = () => {
+      this.close();
+    };
+
+    this.root.render(
+      <TopicMapModalContent
+        initialSource={this.initialSource}
+        onConfirm={handleConfirm}
+        onCancel={handleCancel}
+      />
+    );
+  }
+
+  onClose() {
+    this.root.unmount();
+  }
+}
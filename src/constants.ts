@@ -16,6 +16,7 @@ export const DEFAULT_CHAT_HISTORY_FOLDER = `${COPILOT_FOLDER_ROOT}/copilot-conve
 export const DEFAULT_CUSTOM_PROMPTS_FOLDER = `${COPILOT_FOLDER_ROOT}/copilot-custom-prompts`;
 export const DEFAULT_MEMORY_FOLDER = `${COPILOT_FOLDER_ROOT}/memory`;
 export const DEFAULT_SYSTEM_PROMPTS_FOLDER = `${COPILOT_FOLDER_ROOT}/system-prompts`;
+export const DEFAULT_USER_TOOLS_FOLDER = `${COPILOT_FOLDER_ROOT}/copilot-tools`;
 export const DEFAULT_QA_EXCLUSIONS_SETTING = COPILOT_FOLDER_ROOT;
 export const DEFAULT_SYSTEM_PROMPT = `You are Obsidian Copilot, a helpful assistant that integrates AI to Obsidian note-taking.
   1. Never mention that you do not have access to something. Always rely on the user provided context.
@@ -124,6 +125,7 @@ export const LLM_TIMEOUT_MS = 30000; // 30 seconds timeout for LLM operations
 export const DEFAULT_MAX_SOURCE_CHUNKS = 30; // Default max chunks for search results (with diverse top-K)
 export const AGENT_LOOP_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes timeout for agent loop
 export const AGENT_MAX_ITERATIONS_LIMIT = 16; // Maximum allowed value for agent iterations setting
+export const AGENT_TOOL_CONCURRENCY_LIMIT = 8; // Maximum allowed value for agent tool concurrency setting
 export const LOADING_MESSAGES = {
   DEFAULT: "",
   READING_FILES: "Reading files",
@@ -789,6 +791,20 @@ export const COMMAND_IDS = {
   ADD_SELECTION_TO_CHAT_CONTEXT: "add-selection-to-chat-context",
   ADD_WEB_SELECTION_TO_CHAT_CONTEXT: "add-web-selection-to-chat-context",
   ADD_CANVAS_SELECTION_TO_CHAT_CONTEXT: "add-canvas-selection-to-chat-context",
+  ROLLBACK_CANVAS_TO_CHECKPOINT: "rollback-canvas-to-checkpoint",
+  TIDY_CANVAS_SELECTION: "tidy-canvas-selection",
+  CANVAS_EXPAND_IDEAS: "canvas-expand-ideas",
+  CANVAS_SUMMARIZE_GROUP: "canvas-summarize-group",
+  CANVAS_FIND_RELATED_NOTES: "canvas-find-related-notes",
+  CANVAS_ASK_ABOUT_NODES: "canvas-ask-about-nodes",
+  CANVAS_CONVERT_CARD_TO_NOTE: "canvas-convert-card-to-note",
+  CANVAS_CREATE_FROM_DIAGRAM: "canvas-create-from-diagram",
+  CANVAS_COPY_AS_MERMAID: "canvas-copy-as-mermaid",
+  CANVAS_COPY_AS_OUTLINE: "canvas-copy-as-outline",
+  CANVAS_RUN_WORKFLOW: "canvas-run-workflow",
+  CANVAS_RUN_WORKFLOW_FROM_SELECTION: "canvas-run-workflow-from-selection",
+  CANVAS_CREATE_TOPIC_MAP: "canvas-create-topic-map",
+  SHOW_OPEN_TASKS: "show-open-tasks",
   ADD_CUSTOM_COMMAND: "add-custom-command",
   APPLY_CUSTOM_COMMAND: "apply-custom-command",
   OPEN_LOG_FILE: "open-log-file",
@@ -819,6 +835,20 @@ export const COMMAND_NAMES: Record<CommandId, string> = {
   [COMMAND_IDS.ADD_SELECTION_TO_CHAT_CONTEXT]: "Add selection to chat context",
   [COMMAND_IDS.ADD_WEB_SELECTION_TO_CHAT_CONTEXT]: "Add web selection to chat context",
   [COMMAND_IDS.ADD_CANVAS_SELECTION_TO_CHAT_CONTEXT]: "Add canvas selection to chat context",
+  [COMMAND_IDS.ROLLBACK_CANVAS_TO_CHECKPOINT]: "Roll back canvas to agent checkpoint",
+  [COMMAND_IDS.TIDY_CANVAS_SELECTION]: "Tidy up canvas selection",
+  [COMMAND_IDS.CANVAS_EXPAND_IDEAS]: "Canvas: Expand into child ideas",
+  [COMMAND_IDS.CANVAS_SUMMARIZE_GROUP]: "Canvas: Summarize group into a card",
+  [COMMAND_IDS.CANVAS_FIND_RELATED_NOTES]: "Canvas: Find related vault notes",
+  [COMMAND_IDS.CANVAS_ASK_ABOUT_NODES]: "Canvas: Ask a question about these nodes",
+  [COMMAND_IDS.CANVAS_CONVERT_CARD_TO_NOTE]: "Canvas: Convert card to note",
+  [COMMAND_IDS.CANVAS_CREATE_FROM_DIAGRAM]: "Canvas: Create canvas from Mermaid or outline",
+  [COMMAND_IDS.CANVAS_COPY_AS_MERMAID]: "Canvas: Copy as Mermaid",
+  [COMMAND_IDS.CANVAS_COPY_AS_OUTLINE]: "Canvas: Copy as markdown outline",
+  [COMMAND_IDS.CANVAS_RUN_WORKFLOW]: "Canvas: Run workflow",
+  [COMMAND_IDS.CANVAS_RUN_WORKFLOW_FROM_SELECTION]: "Canvas: Re-run workflow from selected nodes",
+  [COMMAND_IDS.CANVAS_CREATE_TOPIC_MAP]: "Canvas: Create topic map of notes",
+  [COMMAND_IDS.SHOW_OPEN_TASKS]: "Show open tasks across the vault",
   [COMMAND_IDS.ADD_CUSTOM_COMMAND]: "Add new custom command",
   [COMMAND_IDS.APPLY_CUSTOM_COMMAND]: "Apply custom command",
   [COMMAND_IDS.OPEN_LOG_FILE]: "Create log file",
@@ -838,6 +868,63 @@ export const RESTRICTION_MESSAGES = {
     `${extension.toUpperCase()} files are not supported in the current mode.`,
 } as const;
 
+/** Tools the agent may use by default */
+export const DEFAULT_AGENT_TOOL_IDS = [
+  "localSearch",
+  "queryProperties",
+  "getTasks",
+  "readNote",
+  "getLinkedNotes",
+  "webSearch",
+  "pomodoro",
+  "youtubeTranscription",
+  "writeToFile",
+  "replaceInFile",
+  "createNote",
+  "moveNote",
+  "appendToHeading",
+  "updateFrontmatter",
+  "createFolder",
+  "completeTask",
+  "canvasEdit",
+  "queryCanvas",
+  "convertToCanvas",
+  "exportCanvas",
+  "updateMemory",
+];
+
+/**
+ * Default tools that only read. Of the defaults added since a user's settings were
+ * saved, only these are turned on for them; tools that write stay off until the
+ * user turns them on.
+ */
+export const READ_ONLY_DEFAULT_AGENT_TOOL_IDS = [
+  "localSearch",
+  "queryProperties",
+  "getTasks",
+  "readNote",
+  "getLinkedNotes",
+  "webSearch",
+  "youtubeTranscription",
+  "queryCanvas",
+  "exportCanvas",
+];
+
+/**
+ * Default tools of settings saved before `seenDefaultAgentToolIds` existed. Defaults
+ * added since are considered new for those users.
+ */
+export const LEGACY_DEFAULT_AGENT_TOOL_IDS = [
+  "localSearch",
+  "readNote",
+  "webSearch",
+  "pomodoro",
+  "youtubeTranscription",
+  "writeToFile",
+  "replaceInFile",
+  "updateMemory",
+];
+
 export const DEFAULT_SETTINGS: CopilotSettings = {
   userId: uuidv4(),
   isPlusUser: true,
@@ -927,16 +1014,11 @@ export const DEFAULT_SETTINGS: CopilotSettings = {
   enableLexicalBoosts: true,
   suggestedDefaultCommands: false,
   autonomousAgentMaxIterations: 4,
-  autonomousAgentEnabledToolIds: [
-    "localSearch",
-    "readNote",
-    "webSearch",
-    "pomodoro",
-    "youtubeTranscription",
-    "writeToFile",
-    "replaceInFile",
-    "updateMemory",
-  ],
+  autonomousAgentToolConcurrency: 4,
+  autonomousAgentEnabledToolIds: DEFAULT_AGENT_TOOL_IDS,
+  seenDefaultAgentToolIds: DEFAULT_AGENT_TOOL_IDS,
+  toolApprovalPolicies: {},
+  userToolsFolder: DEFAULT_USER_TOOLS_FOLDER,
   reasoningEffort: DEFAULT_MODEL_SETTING.REASONING_EFFORT,
   verbosity: DEFAULT_MODEL_SETTING.VERBOSITY,
   memoryFolderName: DEFAULT_MEMORY_FOLDER,
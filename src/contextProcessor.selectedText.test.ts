@@ -1,15 +1,20 @@
 /**
  * Tests for processSelectedTextContexts in ContextProcessor
  *
- * Verifies that note and web selected text contexts are correctly
+ * Verifies that note, web and canvas selected contexts are correctly
  * formatted with appropriate XML tags.
  */
 
 import { SELECTED_TEXT_TAG, WEB_SELECTED_TEXT_TAG } from "@/constants";
-import { NoteSelectedTextContext, WebSelectedTextContext } from "@/types/message";
+import {
+  CanvasSelectedNodesContext,
+  NoteSelectedTextContext,
+  SelectedTextContext,
+  WebSelectedTextContext,
+} from "@/types/message";
 
 // Mock the aiParams module
-const mockSelectedTextContexts: (NoteSelectedTextContext | WebSelectedTextContext)[] = [];
+const mockSelectedTextContexts: SelectedTextContext[] = [];
 
 jest.mock("@/aiParams", () => ({
   getSelectedTextContexts: () => mockSelectedTextContexts,
@@ -172,4 +177,25 @@ describe("ContextProcessor.processSelectedTextContexts", () => {
     expect(result).toContain("<title>Page &lt;Title&gt;</title>");
     expect(result).toContain("<url>https://example.com/page?a=1&amp;b=2</url>");
   });
+
+  it("should include serialized canvas nodes with the selected node IDs", () => {
+    const canvasContext: CanvasSelectedNodesContext = {
+      id: "canvas-1",
+      sourceType: "canvas",
+      canvasTitle: "Plan",
+      canvasPath: "boards/plan.canvas",
+      selectedNodeIds: ["a", "b"],
+      content: "## Nodes\n- [text a] @0,0 200x100 (focus)\n  Alpha",
+    };
+
+    mockSelectedTextContexts.push(canvasContext);
+
+    const result = processor.processSelectedTextContexts();
+
+    expect(result).toContain("<canvas_selected_nodes>");
+    expect(result).toContain("<node_ids>a, b</node_ids>");
+    expect(result).toContain(
+      "<content>\n## Nodes\n- [text a] @0,0 200x100 (focus)\n  Alpha\n</content>"
+    );
+  });
 });
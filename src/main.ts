@@ -6,10 +6,15 @@ import {
   setSelectedTextContexts,
   getSelectedTextContexts,
 } from "@/aiParams";
-import { NoteSelectedTextContext, SelectedTextContext } from "@/types/message";
+import {
+  isCanvasSelectedNodesContext,
+  NoteSelectedTextContext,
+  SelectedTextContext,
+} from "@/types/message";
 import { registerCommands } from "@/commands";
 import CopilotView from "@/components/CopilotView";
 import { APPLY_VIEW_TYPE, ApplyView } from "@/components/composer/ApplyView";
+import { CANVAS_APPLY_VIEW_TYPE, CanvasApplyView } from "@/components/composer/CanvasApplyView";
 import { LoadChatHistoryModal } from "@/components/modals/LoadChatHistoryModal";
 
 import { registerContextMenu, registerCanvasContextMenu } from "@/commands/contextMenu";
@@ -31,6 +36,15 @@ import {
   startActiveWebTabTracking,
 } from "@/services/webViewerService/webViewerServiceSingleton";
 import { WebSelectionTracker } from "@/services/webViewerService/webViewerServiceSelection";
+import {
+  buildCanvasSelectionContext,
+  CanvasViewLike,
+} from "@/services/canvasSelection/canvasSelectionContext";
+import {
+  CANVAS_NODE_URI_ACTION,
+  openCanvasAtNode,
+} from "@/services/canvasSelection/canvasNodeFocus";
+import { CanvasSelectionTracker } from "@/services/canvasSelection/canvasSelectionTracker";
 import VectorStoreManager from "@/search/vectorStoreManager";
 import { CopilotSettingTab } from "@/settings/SettingsPage";
 import {
@@ -44,6 +58,7 @@ import { ChatUIState } from "@/state/ChatUIState";
 import { VaultDataManager } from "@/state/vaultDataAtoms";
 import { FileParserManager } from "@/tools/FileParserManager";
 import { initializeBuiltinTools } from "@/tools/builtinTools";
+import { UserToolRegister } from "@/tools/userToolRegister";
 import { McpServerManager } from "@/mcp/McpServerManager";
 
 import {
@@ -83,6 +98,7 @@ export default class CopilotPlugin extends Plugin {
   fileParserManager: FileParserManager;
   customCommandRegister: CustomCommandRegister;
   systemPromptRegister: SystemPromptRegister;
+  userToolRegister: UserToolRegister;
   settingsUnsubscriber?: () => void;
   chatUIState: ChatUIState;
   userMemoryManager: UserMemoryManager;
@@ -92,6 +108,7 @@ export default class CopilotPlugin extends Plugin {
   private selectionChangeHandler?: () => void;
   private lastSelectionSignature?: string;
   private webSelectionTracker?: WebSelectionTracker;
+  private canvasSelectionTracker?: CanvasSelectionTracker;
   private readonly chatHistoryLastAccessedAtManager = new RecentUsageManager<string>();
 
   async onload(): Promise<void> {
@@ -170,6 +187,7 @@ export default class CopilotPlugin extends Plugin {
 
     this.registerView(CHAT_VIEWTYPE, (leaf: WorkspaceLeaf) => new CopilotView(leaf, this));
     this.registerView(APPLY_VIEW_TYPE, (leaf: WorkspaceLeaf) => new ApplyView(leaf));
+    this.registerView(CANVAS_APPLY_VIEW_TYPE, (leaf: WorkspaceLeaf) => new CanvasApplyView(leaf));
 
     this.initActiveLeafChangeHandler();
 
@@ -201,6 +219,13 @@ export default class CopilotPlugin extends Plugin {
       })
     );
 
+    // Citations of canvas nodes link here to open the canvas zoomed to the node
+    this.registerObsidianProtocolHandler(CANVAS_NODE_URI_ACTION, async ({ file, node }) => {
+      if (!file || !node || !(await openCanvasAtNode(this.app, file, node))) {
+        new Notice("The cited canvas node no longer exists.");
+      }
+    });
+
     this.registerEvent(
       this.app.workspace.on("active-leaf-change", (leaf) => {
         // Delegate to chat selection highlight controller
@@ -226,6 +251,7 @@ export default class CopilotPlugin extends Plugin {
 
     this.customCommandRegister = new CustomCommandRegister(this, this.app.vault);
     this.systemPromptRegister = new SystemPromptRegister(this, this.app.vault);
+    this.userToolRegister = new UserToolRegister(this.app.vault);
 
     this.app.workspace.onLayoutReady(() => {
       // Initialize custom commands
@@ -235,6 +261,9 @@ export default class CopilotPlugin extends Plugin {
       this.systemPromptRegister
         .initialize()
         .then(() => migrateSystemPromptsFromSettings(this.app.vault));
+
+      // Register agent tools defined in the user tools folder
+      this.userToolRegister.initialize();
     });
 
     // Initialize automatic selection handler
@@ -242,6 +271,9 @@ export default class CopilotPlugin extends Plugin {
 
     // Initialize web selection watcher (Desktop only)
     this.initWebSelectionWatcher();
+
+    // Keep an attached canvas selection in sync with the canvas view
+    this.initCanvasSelectionTracker();
   }
 
   async onunload() {
@@ -262,6 +294,7 @@ export default class CopilotPlugin extends Plugin {
 
     this.customCommandRegister.cleanup();
     this.systemPromptRegister.cleanup();
+    this.userToolRegister.cleanup();
     this.settingsUnsubscriber?.();
 
     // Cleanup MCP server connections
@@ -270,6 +303,7 @@ export default class CopilotPlugin extends Plugin {
     // Cleanup selection handler
     this.cleanupSelectionHandler();
     this.cleanupWebSelectionWatcher();
+    this.cleanupCanvasSelectionTracker();
     this.clearSelectionContext();
 
     // Cleanup Web Viewer state tracking (webview event listeners)
@@ -543,6 +577,41 @@ export default class CopilotPlugin extends Plugin {
     this.webSelectionTracker = undefined;
   }
 
+  /**
+   * Initialize canvas selection tracking: while a canvas selection context is attached,
+   * selecting other nodes in that canvas refreshes the context in place.
+   */
+  initCanvasSelectionTracker() {
+    this.canvasSelectionTracker = new CanvasSelectionTracker({
+      getAttachedContext: () =>
+        getSelectedTextContexts().find(isCanvasSelectedNodesContext) ?? null,
+      getCanvasView: (canvasPath) => {
+        const views = this.app.workspace
+          .getLeavesOfType("canvas")
+          .map((leaf) => leaf.view as CanvasViewLike)
+          .filter((view) => view.file?.path === canvasPath);
+        const activeView = this.app.workspace.activeLeaf?.view as CanvasViewLike | undefined;
+        return views.find((view) => view === activeView) ?? views[0] ?? null;
+      },
+      buildContext: (view, id) => buildCanvasSelectionContext(this.app, view, id),
+      onRefresh: (context) => {
+        setSelectedTextContexts(
+          getSelectedTextContexts().map((c) => (c.id === context.id ? context : c))
+        );
+      },
+    });
+
+    this.canvasSelectionTracker.start();
+  }
+
+  /**
+   * Clean up canvas selection tracker
+   */
+  cleanupCanvasSelectionTracker() {
+    this.canvasSelectionTracker?.stop();
+    this.canvasSelectionTracker = undefined;
+  }
+
   /**
    * Suppress the current web selection so it won't be auto-captured again until it changes or is cleared.
    * Called by UI when user removes web selection or starts a new chat.
@@ -233,6 +233,7 @@ export class McpServerManager {
           description: mcpTool.description || `MCP tool from ${serverId}`,
           category: "mcp",
           isAlwaysEnabled: false,
+          approval: "ask",
           mcpServerId: serverId,
           mcpServerName: this.servers.get(serverId)?.config.name || serverId,
           customPromptInstructions: mcpTool.description
@@ -11,7 +11,12 @@ import { Mutex } from "async-mutex";
 import { MD5 } from "crypto-js";
 import { App, Notice, Platform } from "obsidian";
 import { ChunkedStorage } from "./chunkedStorage";
-import { getMatchingPatterns, getVectorLength, shouldIndexFile } from "./searchUtils";
+import {
+  getMatchingPatterns,
+  getSearchableFiles,
+  getVectorLength,
+  shouldIndexFile,
+} from "./searchUtils";
 
 const INTEGRITY_CHECK_YIELD_INTERVAL = 25;
 
@@ -554,7 +559,7 @@ export class DBOperations {
     }
 
     try {
-      const files = this.app.vault.getMarkdownFiles();
+      const files = getSearchableFiles(this.app);
       const filePaths = new Set(files.map((file) => file.path));
 
       // Determine which files are currently eligible for indexing based on settings
@@ -1,5 +1,6 @@
 import { getBacklinkedNotes, getLinkedNotes } from "@/noteUtils";
 import { DBOperations } from "@/search/dbOperations";
+import { isSearchableFile } from "@/search/searchUtils";
 import VectorStoreManager from "@/search/vectorStoreManager";
 import { getSettings } from "@/settings/model";
 import { InternalTypedDocument, Orama, Result } from "@orama/orama";
@@ -208,7 +209,7 @@ export async function findRelevantNotes({
   return sortedHits
     .map(([path, score]) => {
       const file = app.vault.getAbstractFileByPath(path);
-      if (!(file instanceof TFile) || file.extension !== "md") {
+      if (!(file instanceof TFile) || !isSearchableFile(file)) {
         return null;
       }
       return {
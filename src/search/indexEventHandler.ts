@@ -5,7 +5,7 @@ import { getSettings, subscribeToSettingsChange } from "@/settings/model";
 import { App, MarkdownView, Platform, TAbstractFile, TFile } from "obsidian";
 import type { SemanticIndexBackend } from "./indexBackend/SemanticIndexBackend";
 import { IndexOperations } from "./indexOperations";
-import { getMatchingPatterns, shouldIndexFile } from "./searchUtils";
+import { getMatchingPatterns, isSearchableFile, shouldIndexFile } from "./searchUtils";
 
 const DEBOUNCE_DELAY = 5000; // 5 seconds
 
@@ -87,7 +87,10 @@ export class IndexEventHandler {
 
     // Update tracking for the new active file
     const currentView = leaf?.view;
-    this.lastActiveFile = currentView instanceof MarkdownView ? currentView.file : null;
+    this.lastActiveFile =
+      currentView instanceof MarkdownView || currentView?.getViewType?.() === "canvas"
+        ? currentView.file
+        : null;
     this.lastActiveFileMtime = this.lastActiveFile?.stat?.mtime ?? null;
 
     // If there was no previous file or it's the same as current, do nothing
@@ -100,8 +103,8 @@ export class IndexEventHandler {
       return;
     }
 
-    // Only process markdown files that match inclusion/exclusion patterns
-    if (fileToCheck.extension === "md") {
+    // Only process notes and canvases that match inclusion/exclusion patterns
+    if (isSearchableFile(fileToCheck)) {
       const { inclusions, exclusions } = getMatchingPatterns();
       const shouldProcess = shouldIndexFile(fileToCheck, inclusions, exclusions);
 
@@ -13,7 +13,7 @@ import { formatDateTime } from "@/utils";
 import { MD5 } from "crypto-js";
 import { App, Notice, TFile } from "obsidian";
 import type { SemanticIndexBackend } from "./indexBackend/SemanticIndexBackend";
-import { getMatchingPatterns, shouldIndexFile } from "./searchUtils";
+import { getMatchingPatterns, getSearchableFiles, shouldIndexFile } from "./searchUtils";
 
 export interface IndexingState {
   isIndexingPaused: boolean;
@@ -293,6 +293,7 @@ export class IndexOperations {
             modified: formatDateTime(new Date(chunk.mtime)).display,
             chunkId: chunk.id, // Store chunkId in metadata for retrieval
             heading: chunk.heading, // Store heading for context
+            ...(chunk.nodeId && { nodeId: chunk.nodeId }), // Canvas node the chunk came from
           },
         };
 
@@ -325,11 +326,11 @@ export class IndexOperations {
 
   private async getFilesToIndex(overwrite?: boolean): Promise<TFile[]> {
     const { inclusions, exclusions } = getMatchingPatterns();
-    const allMarkdownFiles = this.app.vault.getMarkdownFiles();
+    const allSearchableFiles = getSearchableFiles(this.app);
 
-    // If overwrite is true, return all markdown files that match current filters
+    // If overwrite is true, return all notes and canvases that match current filters
     if (overwrite) {
-      return allMarkdownFiles.filter((file) => {
+      return allSearchableFiles.filter((file) => {
         return shouldIndexFile(file, inclusions, exclusions);
       });
     }
@@ -339,11 +340,11 @@ export class IndexOperations {
     const latestMtime = await this.indexBackend.getLatestFileMtime();
     const filesMissingEmbeddings = new Set(this.indexBackend.getFilesMissingEmbeddings());
 
-    // Get all markdown files that should be indexed under current rules
+    // Get all notes and canvases that should be indexed under current rules
     const filesToIndex = new Set<TFile>();
     const emptyFiles = new Set<string>();
 
-    for (const file of allMarkdownFiles) {
+    for (const file of allSearchableFiles) {
       if (!shouldIndexFile(file, inclusions, exclusions)) {
         continue;
       }
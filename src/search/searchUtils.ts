@@ -2,6 +2,7 @@ import { CustomError } from "@/error";
 import EmbeddingsManager from "@/LLMProviders/embeddingManager";
 import { getSettings } from "@/settings/model";
 import { logFileManager } from "@/logFileManager";
+import { isCanvasFile } from "@/search/v3/utils/canvasText";
 import { getTagsFromNote, stripHash } from "@/utils";
 import { Embeddings } from "@langchain/core/embeddings";
 import { App, TFile } from "obsidian";
@@ -135,6 +136,24 @@ export function getMatchingPatterns(options?: {
   };
 }
 
+/**
+ * Whether vault search covers a file type: markdown notes and canvases.
+ * @param file - The file to check.
+ * @returns True for markdown and canvas files.
+ */
+export function isSearchableFile(file: TFile): boolean {
+  return file.extension === "md" || isCanvasFile(file);
+}
+
+/**
+ * Get the files vault search covers, before inclusion and exclusion patterns apply.
+ * @param app - The Obsidian app.
+ * @returns All markdown notes followed by all canvases.
+ */
+export function getSearchableFiles(app: App): TFile[] {
+  return [...app.vault.getMarkdownFiles(), ...app.vault.getFiles().filter(isCanvasFile)];
+}
+
 /**
  * Should index the file based on the inclusions and exclusions patterns.
  * @param file - The file to check.
@@ -154,8 +154,13 @@ export class TieredLexicalRetriever extends BaseRetriever {
           // Get chunk content (not full note content)
           // Prefer async getter to auto-regenerate on cache miss; fall back to sync for test mocks
           let chunkContent = "";
+          let nodeId: string | undefined;
           const cm: any = this.chunkManager as any;
-          if (typeof cm.getChunkText === "function") {
+          if (typeof cm.getChunk === "function") {
+            const chunk = await cm.getChunk(result.id);
+            chunkContent = chunk?.content || "";
+            nodeId = chunk?.nodeId;
+          } else if (typeof cm.getChunkText === "function") {
             chunkContent = await cm.getChunkText(result.id);
           } else if (typeof cm.getChunkTextSync === "function") {
             chunkContent = cm.getChunkTextSync(result.id) || "";
@@ -180,6 +185,8 @@ export class TieredLexicalRetriever extends BaseRetriever {
                 includeInContext: result.score > (this.options.minSimilarityScore || 0.1),
                 explanation: result.explanation,
                 isChunk: true,
+                // Canvas chunks point at the node they came from
+                ...(nodeId && { nodeId }),
               },
             })
           );
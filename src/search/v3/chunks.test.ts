@@ -3,11 +3,13 @@ jest.mock("obsidian", () => {
   class MockTFile {
     path: string;
     basename: string;
+    extension: string;
     stat: { mtime: number };
 
     constructor(path: string) {
       this.path = path;
-      this.basename = path.replace(".md", "");
+      this.basename = path.replace(/\.(md|canvas)$/, "");
+      this.extension = path.split(".").pop() ?? "";
       this.stat = { mtime: Date.now() };
     }
 
@@ -68,6 +70,31 @@ describe("ChunkManager", () => {
               "---\ntitle: Test Document\nauthor: John Doe\ntags: [test, chunk]\n---\n\n# Document with Frontmatter\n\nThis document has YAML frontmatter that should be excluded from chunks.\n\n## Content Section\n\nThe actual content starts here and should be chunked properly.",
             "chinese.md":
               "# 中文文档测试\n\n这是一个用于测试中文字符分块的文档。中文文本应该能够正确处理。\n\n## 第一部分\n\n中文内容包含各种字符，包括标点符号和数字123。这些内容应该被正确地分块处理。\n\n## 第二部分\n\n更多的中文内容用于测试分块功能的正确性。系统应该能够处理中文、日文和韩文字符。",
+            "board.canvas": JSON.stringify({
+              nodes: [
+                { id: "g1", type: "group", label: "Ideas", x: 0, y: 0, width: 600, height: 400 },
+                {
+                  id: "t1",
+                  type: "text",
+                  text: "Solar roof tiles",
+                  x: 40,
+                  y: 40,
+                  width: 200,
+                  height: 100,
+                },
+                {
+                  id: "f1",
+                  type: "file",
+                  file: "short.md",
+                  x: 300,
+                  y: 40,
+                  width: 200,
+                  height: 100,
+                },
+                { id: "t2", type: "text", text: "   ", x: 40, y: 200, width: 200, height: 100 },
+              ],
+              edges: [{ id: "e1", fromNode: "t1", toNode: "f1", label: "cites" }],
+            }),
           };
           return Promise.resolve(contents[file.path] || "");
         }),
@@ -306,6 +333,22 @@ describe("ChunkManager", () => {
       });
     });
 
+    it("should create one chunk per canvas text node, group and edge label", async () => {
+      const chunks = await chunkManager.getChunks(["board.canvas"], defaultOptions);
+
+      expect(chunks.map((chunk) => [chunk.id, chunk.nodeId, chunk.heading])).toEqual([
+        ["board.canvas#0", "g1", ""],
+        ["board.canvas#1", "t1", "Ideas"],
+        ["board.canvas#2", "e1", "Ideas"],
+      ]);
+      expect(chunks[1].content).toContain("Solar roof tiles");
+      expect(chunks[2].content).toContain("Solar roof tiles → cites → short");
+      expect(chunks[0].content).not.toContain('"type"');
+      await expect(chunkManager.getChunk("board.canvas#1")).resolves.toMatchObject({
+        nodeId: "t1",
+      });
+    });
+
     it("should handle CJK characters correctly", async () => {
       const chunks = await chunkManager.getChunks(["chinese.md"], defaultOptions);
 
@@ -1,5 +1,6 @@
 import { logInfo, logWarn } from "@/logger";
 import { CHUNK_SIZE } from "@/constants";
+import { extractCanvasTextEntries, isCanvasFile } from "@/search/v3/utils/canvasText";
 import { App, TFile } from "obsidian";
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 
@@ -15,6 +16,7 @@ export interface Chunk {
   title: string; // note title
   heading: string; // section heading (first-class field)
   mtime: number; // note modification time
+  nodeId?: string; // canvas node (or edge) the chunk was taken from, for canvas files
 }
 
 /**
@@ -166,6 +168,13 @@ export class ChunkManager {
     return chunk?.content || "";
   }
 
+  /**
+   * Get a chunk by ID with automatic cache validation and regeneration
+   */
+  async getChunk(id: string): Promise<Chunk | null> {
+    return this.ensureChunkExists(id);
+  }
+
   /**
    * Ensure chunk exists in cache with automatic validation and regeneration
    */
@@ -302,6 +311,10 @@ export class ChunkManager {
         return [];
       }
 
+      if (isCanvasFile(file)) {
+        return await this.generateChunksForCanvas(content, file, options);
+      }
+
       // Use metadata cache to get headings and ensure deterministic order
       const cache = this.app.metadataCache.getFileCache(file);
       const headings = (cache?.headings || [])
@@ -377,6 +390,29 @@ export class ChunkManager {
     }
   }
 
+  /**
+   * Generate chunks for a canvas: one per text card, group label and edge label,
+   * each tagged with its node ID and headed by the label of the group it sits in
+   */
+  private async generateChunksForCanvas(
+    content: string,
+    file: TFile,
+    options: ChunkOptions
+  ): Promise<Chunk[]> {
+    const chunks: Chunk[] = [];
+    for (const entry of extractCanvasTextEntries(content)) {
+      const processedChunks = await this.processContentSection(
+        entry.text,
+        entry.group,
+        file,
+        chunks.length,
+        options
+      );
+      chunks.push(...processedChunks.map((chunk) => ({ ...chunk, nodeId: entry.nodeId })));
+    }
+    return chunks;
+  }
+
   /**
    * Process a content section (heading + content) into chunks
    * If section > maxChars: split by paragraphs
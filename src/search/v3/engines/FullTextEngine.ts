@@ -186,7 +186,10 @@ export class FullTextEngine {
       }
 
       // Extract path components for searchability
-      const pathComponents = chunk.notePath.replace(/\.md$/, "").split("/").join(" ");
+      const pathComponents = chunk.notePath
+        .replace(/\.(md|canvas)$/, "")
+        .split("/")
+        .join(" ");
 
       // Extract note metadata (cache per note for efficiency)
       let noteMetadata = processedNotes.get(chunk.notePath);
@@ -19,6 +19,7 @@ describe("GrepScanner", () => {
     mockApp = {
       vault: {
         getMarkdownFiles: jest.fn(() => mockFiles.map((f) => ({ path: f.path }))),
+        getFiles: jest.fn(() => []),
         cachedRead: jest.fn((file) => {
           const mockFile = mockFiles.find((f) => f.path === file.path);
           return Promise.resolve(mockFile?.content || "");
@@ -38,6 +39,21 @@ describe("GrepScanner", () => {
       expect(results).not.toContain("note2.md");
     });
 
+    it("should match canvas text cards but not the canvas JSON", async () => {
+      const canvas = JSON.stringify({
+        nodes: [{ id: "t1", type: "text", text: "Kotlin ideas", x: 0, y: 0, width: 1, height: 1 }],
+        edges: [],
+      });
+      const readNote = mockApp.vault.cachedRead;
+      mockApp.vault.getFiles = jest.fn(() => [{ path: "board.canvas", extension: "canvas" }]);
+      mockApp.vault.cachedRead = jest.fn((file) =>
+        file.path === "board.canvas" ? Promise.resolve(canvas) : readNote(file)
+      );
+
+      expect(await scanner.batchCachedReadGrep(["kotlin"], 10)).toEqual(["board.canvas"]);
+      expect(await scanner.batchCachedReadGrep(["nodes"], 10)).toEqual([]);
+    });
+
     it("should perform case-insensitive search", async () => {
       const results = await scanner.batchCachedReadGrep(["JAVASCRIPT"], 10);
 
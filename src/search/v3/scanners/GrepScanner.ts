@@ -1,5 +1,6 @@
 import { logInfo } from "@/logger";
-import { getMatchingPatterns, shouldIndexFile } from "@/search/searchUtils";
+import { getMatchingPatterns, getSearchableFiles, shouldIndexFile } from "@/search/searchUtils";
+import { getCanvasSearchText, isCanvasFile } from "@/search/v3/utils/canvasText";
 import { App, TFile } from "obsidian";
 
 /**
@@ -31,7 +32,7 @@ export class GrepScanner {
     const { inclusions, exclusions } = getMatchingPatterns();
 
     // Filter files based on inclusion/exclusion patterns
-    const allFiles = this.app.vault.getMarkdownFiles();
+    const allFiles = getSearchableFiles(this.app);
     const files = allFiles.filter((file) => shouldIndexFile(file, inclusions, exclusions));
     const batchSize = GrepScanner.CONFIG.BATCH_SIZE;
 
@@ -85,7 +86,7 @@ export class GrepScanner {
             if (pathMatches.has(file.path)) return;
 
             try {
-              const content = await this.app.vault.cachedRead(file);
+              const content = await this.readSearchableText(file);
               const lower = content.toLowerCase();
 
               for (const query of normalizedQueries) {
@@ -175,7 +176,7 @@ export class GrepScanner {
       }
 
       // Then check file content
-      const content = await this.app.vault.cachedRead(file);
+      const content = await this.readSearchableText(file);
       const contentLower = content.toLowerCase();
 
       return queries.some((query) => contentLower.includes(query.toLowerCase()));
@@ -183,4 +184,13 @@ export class GrepScanner {
       return false;
     }
   }
+
+  /**
+   * Read the text of a file that search should match: a note's content, or the
+   * text cards and labels of a canvas rather than its JSON.
+   */
+  private async readSearchableText(file: TFile): Promise<string> {
+    const content = await this.app.vault.cachedRead(file);
+    return isCanvasFile(file) ? getCanvasSearchText(content) : content;
+  }
 }
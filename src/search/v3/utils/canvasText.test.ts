@@ -0,0 +1,52 @@
+import { extractCanvasTextEntries, getCanvasSearchText } from "./canvasText";
+
+function node(id: string, type: string, x: number, y: number, extra: Record<string, unknown>) {
+  return { id, type, x, y, width: 200, height: 100, ...extra };
+}
+
+const canvas = JSON.stringify({
+  nodes: [
+    { ...node("outer", "group", 0, 0, { label: "Roadmap" }), width: 1000, height: 800 },
+    { ...node("inner", "group", 40, 300, { label: "Later" }), width: 500, height: 400 },
+    node("b", "text", 400, 40, { text: "Beta launch" }),
+    node("a", "text", 40, 40, { text: "Alpha\nrelease notes" }),
+    node("c", "text", 80, 350, { text: "Offline mode" }),
+    node("n", "file", 1200, 40, { file: "Specs/Sync.md" }),
+    node("l", "link", 1200, 300, { url: "https://example.com" }),
+  ],
+  edges: [
+    { id: "e1", fromNode: "a", toNode: "b", label: "then" },
+    { id: "e2", fromNode: "b", toNode: "c" },
+    { id: "e3", fromNode: "c", toNode: "n", label: "specified in" },
+  ],
+});
+
+describe("extractCanvasTextEntries", () => {
+  it("lists text cards and group labels in reading order, then labelled edges", () => {
+    // Everything overlaps the outer group vertically, so it all reads as one row
+    expect(extractCanvasTextEntries(canvas)).toEqual([
+      { nodeId: "outer", kind: "group", text: "Roadmap", group: "" },
+      { nodeId: "a", kind: "text", text: "Alpha\nrelease notes", group: "Roadmap" },
+      { nodeId: "inner", kind: "group", text: "Later", group: "Roadmap" },
+      { nodeId: "c", kind: "text", text: "Offline mode", group: "Later" },
+      { nodeId: "b", kind: "text", text: "Beta launch", group: "Roadmap" },
+      { nodeId: "e1", kind: "edge", text: "Alpha → then → Beta launch", group: "Roadmap" },
+      { nodeId: "e3", kind: "edge", text: "Offline mode → specified in → Sync", group: "Later" },
+    ]);
+  });
+
+  it("returns nothing for invalid or empty canvases", () => {
+    expect(extractCanvasTextEntries("{not json")).toEqual([]);
+    expect(extractCanvasTextEntries("{}")).toEqual([]);
+  });
+});
+
+describe("getCanvasSearchText", () => {
+  it("joins the searchable text without the canvas JSON", () => {
+    const text = getCanvasSearchText(canvas);
+
+    expect(text).toContain("Beta launch");
+    expect(text).not.toContain("https://example.com");
+    expect(text).not.toContain('"type"');
+  });
+});
@@ -0,0 +1,144 @@
+import { sortByReadingOrder } from "@/tools/CanvasSerializer";
+import { TFile } from "obsidian";
+
+/** Longest edge endpoint description quoted in an edge entry. */
+const MAX_ENDPOINT_LENGTH = 60;
+
+interface RawCanvasNode {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text?: string;
+  label?: string;
+  file?: string;
+  url?: string;
+}
+
+interface RawCanvasEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  label?: string;
+}
+
+/**
+ * A piece of searchable text on a canvas: a text card, a group label or an edge label.
+ */
+export interface CanvasTextEntry {
+  /** ID of the canvas node (or edge, for edge labels) the text belongs to. */
+  nodeId: string;
+  kind: "text" | "group" | "edge";
+  text: string;
+  /** Label of the innermost group the node sits in, or "" outside groups. */
+  group: string;
+}
+
+/**
+ * Whether a file is a canvas.
+ */
+export function isCanvasFile(file: TFile): boolean {
+  return file.extension === "canvas";
+}
+
+/**
+ * Extract the searchable text of a `.canvas` file: text cards and group labels in
+ * reading order, then labelled edges. File and link nodes are skipped; the notes
+ * they point to are indexed on their own. Returns an empty list for invalid JSON.
+ */
+export function extractCanvasTextEntries(raw: string): CanvasTextEntry[] {
+  let data: { nodes?: RawCanvasNode[]; edges?: RawCanvasEdge[] };
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  const nodes = Array.isArray(data?.nodes) ? data.nodes.filter((node) => node?.id) : [];
+  const edges = Array.isArray(data?.edges) ? data.edges.filter((edge) => edge?.id) : [];
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  const parents = getParentGroups(nodes);
+  const groupOf = (id: string) => parents.get(id)?.label?.trim() ?? "";
+
+  const entries: CanvasTextEntry[] = [];
+  for (const node of sortByReadingOrder(nodes)) {
+    const text = (node.type === "text" ? node.text : node.type === "group" ? node.label : "")
+      ?.trim()
+      .replace(/\r\n/g, "\n");
+    if (text) {
+      entries.push({
+        nodeId: node.id,
+        kind: node.type as "text" | "group",
+        text,
+        group: groupOf(node.id),
+      });
+    }
+  }
+
+  for (const edge of edges) {
+    const label = edge.label?.trim();
+    const from = byId.get(edge.fromNode);
+    const to = byId.get(edge.toNode);
+    if (!label || !from || !to) continue;
+    entries.push({
+      nodeId: edge.id,
+      kind: "edge",
+      text: `${describeEndpoint(from)} → ${label} → ${describeEndpoint(to)}`,
+      group: groupOf(from.id),
+    });
+  }
+  return entries;
+}
+
+/**
+ * All searchable text of a canvas as one string, for substring matching.
+ */
+export function getCanvasSearchText(raw: string): string {
+  return extractCanvasTextEntries(raw)
+    .map((entry) => entry.text)
+    .join("\n\n");
+}
+
+/**
+ * The innermost group containing each node's centre.
+ */
+function getParentGroups(nodes: RawCanvasNode[]): Map<string, RawCanvasNode> {
+  const area = (node: RawCanvasNode) => node.width * node.height;
+  const groups = nodes.filter((node) => node.type === "group");
+  const parents = new Map<string, RawCanvasNode>();
+  for (const node of nodes) {
+    const centerX = node.x + node.width / 2;
+    const centerY = node.y + node.height / 2;
+    for (const group of groups) {
+      if (group.id === node.id || area(group) <= area(node)) continue;
+      const inside =
+        centerX >= group.x &&
+        centerY >= group.y &&
+        centerX <= group.x + group.width &&
+        centerY <= group.y + group.height;
+      const current = parents.get(node.id);
+      if (inside && (!current || area(group) < area(current))) {
+        parents.set(node.id, group);
+      }
+    }
+  }
+  return parents;
+}
+
+function describeEndpoint(node: RawCanvasNode): string {
+  let description: string;
+  if (node.type === "file") {
+    description = (node.file ?? "").split("/").pop()?.replace(/\.md$/, "") ?? "";
+  } else if (node.type === "link") {
+    description = node.url ?? "";
+  } else if (node.type === "group") {
+    description = node.label ?? "";
+  } else {
+    description = (node.text ?? "").split("\n").find((line) => line.trim()) ?? "";
+  }
+  description = description.trim() || node.type;
+  return description.length > MAX_ENDPOINT_LENGTH
+    ? `${description.slice(0, MAX_ENDPOINT_LENGTH)}…`
+    : description;
+}
@@ -0,0 +1,63 @@
+/**
+ * Canvas Node Focus
+ *
+ * Opens a canvas zoomed to one of its nodes, used by citations that point at a
+ * canvas text card, group or edge.
+ */
+
+import { App, TFile, WorkspaceLeaf } from "obsidian";
+
+/** Obsidian URI action handled by the plugin: `obsidian://copilot-canvas-node?file=…&node=…`. */
+export const CANVAS_NODE_URI_ACTION = "copilot-canvas-node";
+
+/**
+ * The parts of Obsidian's (undocumented) canvas API used to focus a node.
+ */
+interface FocusableCanvasLike {
+  nodes?: Map<string, unknown>;
+  edges?: Map<string, unknown>;
+  selectOnly?: (item: unknown) => void;
+  zoomToSelection?: () => void;
+}
+
+/**
+ * URI that opens a canvas zoomed to a node (or edge).
+ */
+export function getCanvasNodeUri(canvasPath: string, nodeId: string): string {
+  return `obsidian://${CANVAS_NODE_URI_ACTION}?file=${encodeURIComponent(canvasPath)}&node=${encodeURIComponent(nodeId)}`;
+}
+
+/**
+ * Open a canvas, reusing a tab that already shows it, then select the node (or
+ * edge) and zoom to it.
+ *
+ * @returns False when the canvas or the node no longer exists
+ */
+export async function openCanvasAtNode(
+  app: App,
+  canvasPath: string,
+  nodeId: string
+): Promise<boolean> {
+  const file = app.vault.getAbstractFileByPath(canvasPath);
+  if (!(file instanceof TFile)) {
+    return false;
+  }
+
+  let leaf: WorkspaceLeaf | undefined = app.workspace
+    .getLeavesOfType("canvas")
+    .find((candidate) => (candidate.view as { file?: TFile | null }).file?.path === canvasPath);
+  if (!leaf) {
+    leaf = app.workspace.getLeaf(false);
+    await leaf.openFile(file);
+  }
+  app.workspace.setActiveLeaf(leaf, { focus: true });
+
+  const canvas = (leaf.view as { canvas?: FocusableCanvasLike }).canvas;
+  const item = canvas?.nodes?.get(nodeId) ?? canvas?.edges?.get(nodeId);
+  if (!canvas || !item) {
+    return false;
+  }
+  canvas.selectOnly?.(item);
+  canvas.zoomToSelection?.();
+  return true;
+}
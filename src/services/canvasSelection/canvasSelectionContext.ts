@@ -0,0 +1,76 @@
+/**
+ * Canvas Selection Context
+ *
+ * Builds the chat context for nodes selected in a canvas view: the selected nodes'
+ * content and geometry plus their immediate edges and neighbours.
+ */
+
+import { CanvasLoader } from "@/tools/CanvasLoader";
+import { serializeCanvas } from "@/tools/CanvasSerializer";
+import { readCanvasFile } from "@/tools/CanvasTools";
+import type { CanvasSelectedNodesContext } from "@/types/message";
+import { App, TFile } from "obsidian";
+import { v4 as uuidv4 } from "uuid";
+
+/** Token budget for one selection; neighbours share it with the selected nodes. */
+const SELECTION_MAX_TOKENS = 4000;
+
+/**
+ * The parts of Obsidian's (undocumented) canvas view used here.
+ */
+export interface CanvasViewLike {
+  file?: TFile | null;
+  canvas?: {
+    selection?: Set<{ id?: string }>;
+    getData?: () => { nodes?: any[]; edges?: any[] };
+  };
+}
+
+/**
+ * IDs of the nodes currently selected in a canvas view, in selection order.
+ */
+export function getSelectedCanvasNodeIds(view: CanvasViewLike): string[] {
+  const ids: string[] = [];
+  for (const item of view.canvas?.selection ?? []) {
+    if (item.id) ids.push(item.id);
+  }
+  return ids;
+}
+
+/**
+ * Build a selected-nodes context from a canvas view's current selection.
+ * Uses the view's live data so unsaved changes are included.
+ *
+ * @param id - ID to keep when refreshing an attached context
+ * @returns The context, or null when nothing is selected or the canvas cannot be read
+ */
+export async function buildCanvasSelectionContext(
+  app: App,
+  view: CanvasViewLike,
+  id: string = uuidv4()
+): Promise<CanvasSelectedNodesContext | null> {
+  const file = view.file;
+  const selectedNodeIds = getSelectedCanvasNodeIds(view);
+  if (!file || selectedNodeIds.length === 0) {
+    return null;
+  }
+
+  const data = view.canvas?.getData?.() ?? (await readCanvasFile(app.vault, file.path));
+  if (!data) {
+    return null;
+  }
+
+  const canvas = await new CanvasLoader(app.vault).enrich(data);
+  return {
+    id,
+    sourceType: "canvas",
+    canvasTitle: file.basename,
+    canvasPath: file.path,
+    selectedNodeIds,
+    content: serializeCanvas(canvas, {
+      focusNodeIds: selectedNodeIds,
+      hops: 1,
+      maxTokens: SELECTION_MAX_TOKENS,
+    }),
+  };
+}
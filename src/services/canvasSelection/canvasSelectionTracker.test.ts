@@ -0,0 +1,124 @@
+import type { CanvasSelectedNodesContext } from "@/types/message";
+import { App, TFile } from "obsidian";
+import { buildCanvasSelectionContext, CanvasViewLike } from "./canvasSelectionContext";
+import { CanvasSelectionTracker } from "./canvasSelectionTracker";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+const canvasPath = "boards/plan.canvas";
+
+const canvasData = {
+  nodes: [
+    { id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 },
+    { id: "b", type: "text", text: "Beta", x: 300, y: 0, width: 200, height: 100 },
+    { id: "c", type: "file", file: "notes/c.md", x: 600, y: 0, width: 200, height: 100 },
+    { id: "d", type: "text", text: "Far away", x: 900, y: 0, width: 200, height: 100 },
+  ],
+  edges: [
+    { id: "e1", fromNode: "a", toNode: "b", label: "supports" },
+    { id: "e2", fromNode: "b", toNode: "c" },
+    { id: "e3", fromNode: "c", toNode: "d" },
+  ],
+};
+
+function createView(selectedIds: string[]): CanvasViewLike {
+  const file = Object.assign(new (TFile as any)(canvasPath), { basename: "plan" });
+  return {
+    file,
+    canvas: {
+      selection: new Set(selectedIds.map((id) => ({ id }))),
+      getData: () => canvasData,
+    },
+  };
+}
+
+function createApp(): App {
+  const note = new (TFile as any)("notes/c.md");
+  return {
+    vault: {
+      getAbstractFileByPath: jest.fn((path: string) => (path === "notes/c.md" ? note : null)),
+      cachedRead: jest.fn(async () => "Note C body"),
+    },
+  } as unknown as App;
+}
+
+describe("buildCanvasSelectionContext", () => {
+  it("serializes the selected nodes with their edges and neighbours", async () => {
+    const context = await buildCanvasSelectionContext(createApp(), createView(["b"]), "ctx-1");
+
+    expect(context).toMatchObject({
+      id: "ctx-1",
+      sourceType: "canvas",
+      canvasTitle: "plan",
+      canvasPath,
+      selectedNodeIds: ["b"],
+    });
+    expect(context!.content).toContain("[text b] @300,0 200x100 (focus)");
+    expect(context!.content).toContain("Alpha");
+    expect(context!.content).toContain("Note C body");
+    expect(context!.content).toContain('- a → b "supports"');
+    expect(context!.content).not.toContain("Far away");
+  });
+
+  it("returns null when nothing is selected", async () => {
+    expect(await buildCanvasSelectionContext(createApp(), createView([]))).toBeNull();
+  });
+});
+
+describe("CanvasSelectionTracker", () => {
+  const attached: CanvasSelectedNodesContext = {
+    id: "ctx-1",
+    sourceType: "canvas",
+    canvasTitle: "plan",
+    canvasPath,
+    selectedNodeIds: ["a"],
+    content: "",
+  };
+
+  function createTracker(view: CanvasViewLike | null, context = attached) {
+    const onRefresh = jest.fn();
+    const buildContext = jest.fn(async (v: CanvasViewLike, id: string) =>
+      buildCanvasSelectionContext(createApp(), v, id)
+    );
+    const tracker = new CanvasSelectionTracker({
+      getAttachedContext: () => context,
+      getCanvasView: (path) => (path === canvasPath ? view : null),
+      buildContext,
+      onRefresh,
+    });
+    return { tracker, onRefresh, buildContext };
+  }
+
+  it("rebuilds the attached context in place when the selection changes", async () => {
+    const { tracker, onRefresh } = createTracker(createView(["b", "c"]));
+
+    await tracker.checkSelection();
+
+    expect(onRefresh).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "ctx-1", selectedNodeIds: ["b", "c"] })
+    );
+  });
+
+  it("keeps the context when the selection is unchanged or cleared", async () => {
+    for (const selection of [["a"], []]) {
+      const { tracker, buildContext } = createTracker(createView(selection));
+      await tracker.checkSelection();
+      expect(buildContext).not.toHaveBeenCalled();
+    }
+  });
+
+  it("does nothing without an attached context or an open view", async () => {
+    const withoutContext = createTracker(createView(["b"]), null as any);
+    const withoutView = createTracker(null);
+
+    await withoutContext.tracker.checkSelection();
+    await withoutView.tracker.checkSelection();
+
+    expect(withoutContext.buildContext).not.toHaveBeenCalled();
+    expect(withoutView.buildContext).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Canvas Selection Tracker
+ *
+ * Keeps an attached canvas selection context in sync with the selection in its
+ * canvas view. Uses self-scheduling setTimeout pattern to avoid concurrent execution.
+ */
+
+import { logWarn } from "@/logger";
+import type { CanvasSelectedNodesContext } from "@/types/message";
+import { getSelectedCanvasNodeIds, type CanvasViewLike } from "./canvasSelectionContext";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for canvas selection tracking
+ */
+export interface CanvasSelectionTrackingOptions {
+  /** Polling interval in milliseconds (default: 500) */
+  intervalMs?: number;
+  /** Callback to get the attached canvas selection context (if any) */
+  getAttachedContext: () => CanvasSelectedNodesContext | null;
+  /** Callback to get an open view of the given canvas, preferring the active one */
+  getCanvasView: (canvasPath: string) => CanvasViewLike | null;
+  /** Callback to rebuild the context from the view's current selection, keeping its ID */
+  buildContext: (view: CanvasViewLike, id: string) => Promise<CanvasSelectedNodesContext | null>;
+  /** Callback when the attached context has been rebuilt */
+  onRefresh: (context: CanvasSelectedNodesContext) => void;
+}
+
+// ============================================================================
+// CanvasSelectionTracker Class
+// ============================================================================
+
+/**
+ * Refreshes the attached canvas selection context when the selection changes.
+ *
+ * Features:
+ * - Does nothing unless a canvas selection context is attached
+ * - Only follows the canvas the context was taken from
+ * - Ignores empty selections, so clicking on the background keeps the context
+ */
+export class CanvasSelectionTracker {
+  private readonly intervalMs: number;
+  private readonly options: CanvasSelectionTrackingOptions;
+
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isRunning = false;
+
+  constructor(options: CanvasSelectionTrackingOptions) {
+    this.intervalMs = options.intervalMs ?? 500;
+    this.options = options;
+  }
+
+  /**
+   * Start tracking canvas selection changes.
+   * Idempotent - calling multiple times is safe.
+   */
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    this.scheduleNext();
+  }
+
+  /**
+   * Stop tracking canvas selection changes.
+   */
+  stop(): void {
+    this.isRunning = false;
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  /**
+   * Schedule the next check using setTimeout.
+   * Uses self-scheduling pattern to ensure no concurrent execution.
+   */
+  private scheduleNext(): void {
+    if (!this.isRunning) return;
+
+    this.timeoutId = setTimeout(async () => {
+      await this.checkSelection();
+      // Schedule next only after current check completes
+      this.scheduleNext();
+    }, this.intervalMs);
+  }
+
+  /**
+   * Rebuild the attached context if its canvas's selection differs from it.
+   */
+  async checkSelection(): Promise<void> {
+    const context = this.options.getAttachedContext();
+    if (!context) return;
+
+    try {
+      const view = this.options.getCanvasView(context.canvasPath);
+      if (!view) return;
+
+      const selectedNodeIds = getSelectedCanvasNodeIds(view);
+      if (selectedNodeIds.length === 0 || sameIds(selectedNodeIds, context.selectedNodeIds)) {
+        return;
+      }
+
+      const next = await this.options.buildContext(view, context.id);
+      // Skip if the context was removed or replaced while rebuilding
+      if (next && this.options.getAttachedContext()?.id === context.id) {
+        this.options.onRefresh(next);
+      }
+    } catch (error) {
+      logWarn("[CanvasSelectionTracker] Failed to refresh canvas selection context", error);
+    }
+  }
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(b);
+  return a.every((id) => set.has(id));
+}
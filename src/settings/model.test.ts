@@ -1,11 +1,16 @@
 import {
   COPILOT_FOLDER_ROOT,
+  DEFAULT_AGENT_TOOL_IDS,
   DEFAULT_QA_EXCLUSIONS_SETTING,
   DEFAULT_SYSTEM_PROMPT,
   DEFAULT_SETTINGS,
   SEND_SHORTCUT,
 } from "@/constants";
-import { sanitizeQaExclusions, sanitizeSettings } from "@/settings/model";
+import {
+  sanitizeQaExclusions,
+  sanitizeSettings,
+  sanitizeToolApprovalPolicies,
+} from "@/settings/model";
 import { getEffectiveUserPrompt, getSystemPrompt } from "@/system-prompts/systemPromptBuilder";
 import * as systemPromptsState from "@/system-prompts/state";
 import * as settingsModel from "@/settings/model";
@@ -53,6 +58,23 @@ describe("sanitizeQaExclusions", () => {
   });
 });
 
+describe("sanitizeToolApprovalPolicies", () => {
+  it("keeps valid modes and trimmed paths and drops the rest", () => {
+    expect(
+      sanitizeToolApprovalPolicies({
+        writeToFile: { mode: "ask", allowedPaths: [" Drafts/ ", "", 3] },
+        updateMemory: { mode: "sometimes" },
+        canvasEdit: "never",
+      })
+    ).toEqual({ writeToFile: { mode: "ask", allowedPaths: ["Drafts/"] } });
+  });
+
+  it("defaults to no overrides", () => {
+    expect(sanitizeToolApprovalPolicies(undefined)).toEqual({});
+    expect(sanitizeToolApprovalPolicies([])).toEqual({});
+  });
+});
+
 describe("sanitizeSettings - defaultSendShortcut migration", () => {
   it("should use default when defaultSendShortcut is missing", () => {
     const settingsWithoutShortcut = {
@@ -138,6 +160,39 @@ describe("sanitizeSettings - autoAddActiveContentToContext migration", () => {
   });
 });
 
+describe("sanitizeSettings - new default agent tools", () => {
+  it("enables read-only tools added to the defaults once for settings saved before", () => {
+    const oldSettings = {
+      ...DEFAULT_SETTINGS,
+      autonomousAgentEnabledToolIds: ["localSearch", "readNote"],
+      seenDefaultAgentToolIds: undefined as any,
+    };
+
+    const sanitized = sanitizeSettings(oldSettings);
+
+    expect(sanitized.autonomousAgentEnabledToolIds).toEqual(
+      expect.arrayContaining(["localSearch", "readNote", "getTasks", "queryCanvas"])
+    );
+    // Legacy defaults the user turned off stay off
+    expect(sanitized.autonomousAgentEnabledToolIds).not.toContain("webSearch");
+    // New tools that write are left for the user to turn on
+    expect(sanitized.autonomousAgentEnabledToolIds).not.toContain("canvasEdit");
+    expect(sanitized.autonomousAgentEnabledToolIds).not.toContain("moveNote");
+    expect(sanitized.seenDefaultAgentToolIds).toEqual(DEFAULT_AGENT_TOOL_IDS);
+  });
+
+  it("keeps new defaults off once the user has turned them off", () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      autonomousAgentEnabledToolIds: ["localSearch"],
+    };
+
+    const sanitized = sanitizeSettings(settings);
+
+    expect(sanitized.autonomousAgentEnabledToolIds).toEqual(["localSearch"]);
+  });
+});
+
 describe("sanitizeSettings - autoAddSelectionToContext migration", () => {
   it("should migrate from old autoIncludeTextSelection=true", () => {
     const oldSettings = {
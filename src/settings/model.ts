@@ -5,15 +5,20 @@ import { v4 as uuidv4 } from "uuid";
 
 import { type ChainType } from "@/chainFactory";
 import { type SortStrategy, isSortStrategy } from "@/utils/recentUsageManager";
+import { type ToolApprovalMode } from "@/tools/ToolRegistry";
 import {
   AGENT_MAX_ITERATIONS_LIMIT,
+  AGENT_TOOL_CONCURRENCY_LIMIT,
   BUILTIN_CHAT_MODELS,
   BUILTIN_EMBEDDING_MODELS,
   COPILOT_FOLDER_ROOT,
+  DEFAULT_AGENT_TOOL_IDS,
   DEFAULT_OPEN_AREA,
   DEFAULT_QA_EXCLUSIONS_SETTING,
   DEFAULT_SETTINGS,
   EmbeddingModelProviders,
+  LEGACY_DEFAULT_AGENT_TOOL_IDS,
+  READ_ONLY_DEFAULT_AGENT_TOOL_IDS,
   SEND_SHORTCUT,
 } from "@/constants";
 
@@ -153,7 +158,15 @@ export interface CopilotSettings {
   /** Whether we have suggested built-in default commands to the user once. */
   suggestedDefaultCommands: boolean;
   autonomousAgentMaxIterations: number;
+  /** Maximum number of parallel-safe tool calls the agent runs at once (1 runs them one by one) */
+  autonomousAgentToolConcurrency: number;
   autonomousAgentEnabledToolIds: string[];
+  /** Default agent tools already offered to the user, so new defaults are enabled only once */
+  seenDefaultAgentToolIds: string[];
+  /** Per-tool approval overrides for the agent, keyed by tool ID */
+  toolApprovalPolicies: Record<string, ToolApprovalPolicy>;
+  /** Folder of notes defining user tools for the agent */
+  userToolsFolder: string;
   /** Default reasoning effort for models that support it (GPT-5, O-series, etc.) */
   reasoningEffort: "minimal" | "low" | "medium" | "high";
   /** Default verbosity level for models that support it */
@@ -191,6 +204,16 @@ export interface CopilotSettings {
   mcpServers: McpServerConfig[];
 }
 
+/**
+ * User override of a tool's approval mode and the folders it may write to.
+ */
+export interface ToolApprovalPolicy {
+  /** Overrides the tool's default approval mode */
+  mode?: ToolApprovalMode;
+  /** Folders or files the tool may write to; empty means anywhere */
+  allowedPaths?: string[];
+}
+
 export const settingsStore = createStore();
 export const settingsAtom = atom<CopilotSettings>(DEFAULT_SETTINGS);
 
@@ -238,6 +261,40 @@ export function sanitizeQaExclusions(rawValue: unknown): string {
     .join(",");
 }
 
+/**
+ * Drop malformed tool approval overrides, keeping valid modes and non-empty paths.
+ * @param rawValue - Persisted tool approval policies.
+ * @returns Policies keyed by tool ID.
+ */
+export function sanitizeToolApprovalPolicies(
+  rawValue: unknown
+): Record<string, ToolApprovalPolicy> {
+  if (!rawValue || typeof rawValue !== "object" || Array.isArray(rawValue)) {
+    return {};
+  }
+
+  const policies: Record<string, ToolApprovalPolicy> = {};
+  for (const [toolId, rawPolicy] of Object.entries(rawValue as Record<string, unknown>)) {
+    if (!rawPolicy || typeof rawPolicy !== "object") continue;
+    const { mode, allowedPaths } = rawPolicy as Record<string, unknown>;
+    const policy: ToolApprovalPolicy = {};
+    if (mode === "always" || mode === "ask" || mode === "never") {
+      policy.mode = mode;
+    }
+    if (Array.isArray(allowedPaths)) {
+      const paths = allowedPaths
+        .filter((path): path is string => typeof path === "string")
+        .map((path) => path.trim())
+        .filter((path) => path.length > 0);
+      if (paths.length > 0) policy.allowedPaths = paths;
+    }
+    if (policy.mode || policy.allowedPaths) {
+      policies[toolId] = policy;
+    }
+  }
+  return policies;
+}
+
 /**
  * Sets a single setting in the atom.
  */
@@ -411,12 +468,45 @@ export function sanitizeSettings(settings: CopilotSettings): CopilotSettings {
     sanitizedSettings.autonomousAgentMaxIterations = autonomousAgentMaxIterations;
   }
 
+  // Ensure autonomousAgentToolConcurrency has a valid value
+  const autonomousAgentToolConcurrency = Number(settingsToSanitize.autonomousAgentToolConcurrency);
+  if (
+    !Number.isInteger(autonomousAgentToolConcurrency) ||
+    autonomousAgentToolConcurrency < 1 ||
+    autonomousAgentToolConcurrency > AGENT_TOOL_CONCURRENCY_LIMIT
+  ) {
+    sanitizedSettings.autonomousAgentToolConcurrency =
+      DEFAULT_SETTINGS.autonomousAgentToolConcurrency;
+  } else {
+    sanitizedSettings.autonomousAgentToolConcurrency = autonomousAgentToolConcurrency;
+  }
+
   // Ensure autonomousAgentEnabledToolIds is an array
   if (!Array.isArray(sanitizedSettings.autonomousAgentEnabledToolIds)) {
     sanitizedSettings.autonomousAgentEnabledToolIds =
       DEFAULT_SETTINGS.autonomousAgentEnabledToolIds;
   }
 
+  // Enable read-only tools added to the defaults since the settings were saved, once,
+  // so upgrading users get them without re-enabling tools they turned off. New tools
+  // that write are left for the user to turn on.
+  const seenDefaultToolIds = Array.isArray(settingsToSanitize.seenDefaultAgentToolIds)
+    ? settingsToSanitize.seenDefaultAgentToolIds
+    : LEGACY_DEFAULT_AGENT_TOOL_IDS;
+  const newDefaultToolIds = DEFAULT_AGENT_TOOL_IDS.filter(
+    (id) =>
+      READ_ONLY_DEFAULT_AGENT_TOOL_IDS.includes(id) &&
+      !seenDefaultToolIds.includes(id) &&
+      !sanitizedSettings.autonomousAgentEnabledToolIds.includes(id)
+  );
+  if (newDefaultToolIds.length > 0) {
+    sanitizedSettings.autonomousAgentEnabledToolIds = [
+      ...sanitizedSettings.autonomousAgentEnabledToolIds,
+      ...newDefaultToolIds,
+    ];
+  }
+  sanitizedSettings.seenDefaultAgentToolIds = DEFAULT_AGENT_TOOL_IDS;
+
   // Ensure memoryFolderName has a default value
   if (
     !sanitizedSettings.memoryFolderName ||
@@ -505,6 +595,10 @@ export function sanitizeSettings(settings: CopilotSettings): CopilotSettings {
   sanitizedSettings.customPromptsFolder =
     promptsFolder.length > 0 ? promptsFolder : DEFAULT_SETTINGS.customPromptsFolder;
 
+  const userToolsFolder = (settingsToSanitize.userToolsFolder || "").trim();
+  sanitizedSettings.userToolsFolder =
+    userToolsFolder.length > 0 ? userToolsFolder : DEFAULT_SETTINGS.userToolsFolder;
+
   // Ensure chatHistorySortStrategy has a valid value (exclude "manual" which is only for custom commands)
   if (
     !isSortStrategy(sanitizedSettings.chatHistorySortStrategy) ||
@@ -528,6 +622,9 @@ export function sanitizeSettings(settings: CopilotSettings): CopilotSettings {
       : DEFAULT_SETTINGS.userSystemPromptsFolder;
 
   sanitizedSettings.qaExclusions = sanitizeQaExclusions(settingsToSanitize.qaExclusions);
+  sanitizedSettings.toolApprovalPolicies = sanitizeToolApprovalPolicies(
+    settingsToSanitize.toolApprovalPolicies
+  );
 
   return sanitizedSettings;
 }
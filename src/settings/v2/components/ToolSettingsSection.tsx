@@ -1,18 +1,30 @@
 import React, { useState } from "react";
 import { SettingItem } from "@/components/ui/setting-item";
-import { AGENT_MAX_ITERATIONS_LIMIT } from "@/constants";
-import { updateSetting, useSettingsValue } from "@/settings/model";
-import { ToolDefinition, ToolRegistry } from "@/tools/ToolRegistry";
+import { AGENT_MAX_ITERATIONS_LIMIT, AGENT_TOOL_CONCURRENCY_LIMIT } from "@/constants";
+import { ToolApprovalPolicy, updateSetting, useSettingsValue } from "@/settings/model";
+import { ToolApprovalMode, ToolDefinition, ToolRegistry } from "@/tools/ToolRegistry";
+import { useUserToolState } from "@/tools/userToolState";
 import { TruncatedText } from "@/components/TruncatedText";
 import { SettingSwitch } from "@/components/ui/setting-switch";
+import { ObsidianNativeSelect } from "@/components/ui/obsidian-native-select";
+import { Input } from "@/components/ui/input";
 import { ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+const APPROVAL_MODE_OPTIONS: { label: string; value: ToolApprovalMode }[] = [
+  { label: "Always allow", value: "always" },
+  { label: "Ask first", value: "ask" },
+  { label: "Never", value: "never" },
+];
+
 export const ToolSettingsSection: React.FC = () => {
   const settings = useSettingsValue();
   const registry = ToolRegistry.getInstance();
 
   const enabledToolIds = new Set(settings.autonomousAgentEnabledToolIds || []);
+  const approvalPolicies = settings.toolApprovalPolicies || {};
+  // Re-renders when user tool notes are reloaded
+  const userTools = useUserToolState();
 
   // Get configurable tools grouped by category
   const toolsByCategory = registry.getToolsByCategory();
@@ -56,6 +68,57 @@ export const ToolSettingsSection: React.FC = () => {
     updateSetting("autonomousAgentEnabledToolIds", Array.from(newEnabledIds));
   };
 
+  const handlePolicyChange = (def: ToolDefinition, change: ToolApprovalPolicy) => {
+    const { id, approval } = def.metadata;
+    const next = { ...approvalPolicies[id], ...change };
+    // Only store overrides of the tool's defaults
+    if (next.mode === (approval ?? "always")) delete next.mode;
+    if (!next.allowedPaths?.length) delete next.allowedPaths;
+
+    const policies = { ...approvalPolicies };
+    if (next.mode || next.allowedPaths) {
+      policies[id] = next;
+    } else {
+      delete policies[id];
+    }
+    updateSetting("toolApprovalPolicies", policies);
+  };
+
+  /** Render the approval mode and allowed paths of a tool */
+  const renderApprovalItem = (def: ToolDefinition) => {
+    const { metadata } = def;
+    const policy = approvalPolicies[metadata.id] ?? {};
+    return (
+      <div key={metadata.id} className="tw-flex tw-flex-col tw-gap-2 tw-py-2">
+        <div className="tw-flex tw-items-center tw-justify-between tw-gap-4">
+          <div className="tw-min-w-0 tw-flex-1 tw-text-sm tw-font-medium">
+            {metadata.displayName}
+          </div>
+          <ObsidianNativeSelect
+            containerClassName="tw-w-36 tw-shrink-0"
+            options={APPROVAL_MODE_OPTIONS}
+            value={policy.mode ?? metadata.approval ?? "always"}
+            onChange={(e) => handlePolicyChange(def, { mode: e.target.value as ToolApprovalMode })}
+          />
+        </div>
+        {metadata.pathArgs && (
+          <Input
+            placeholder="Only write under these folders, e.g. Drafts/ (comma-separated)"
+            defaultValue={policy.allowedPaths?.join(", ") ?? ""}
+            onBlur={(e) =>
+              handlePolicyChange(def, {
+                allowedPaths: e.target.value
+                  .split(",")
+                  .map((path) => path.trim())
+                  .filter((path) => path.length > 0),
+              })
+            }
+          />
+        )}
+      </div>
+    );
+  };
+
   /** Render a single tool item with truncated description */
   const renderToolItem = (def: ToolDefinition) => {
     const { metadata } = def;
@@ -179,6 +242,19 @@ export const ToolSettingsSection: React.FC = () => {
         step={1}
       />
 
+      <SettingItem
+        type="slider"
+        title="Parallel Tool Calls"
+        description="Maximum number of read-only tool calls (searches, reading notes, time lookups) the agent runs at the same time. Tools that change your vault always run one at a time."
+        value={settings.autonomousAgentToolConcurrency ?? 4}
+        onChange={(value) => {
+          updateSetting("autonomousAgentToolConcurrency", value);
+        }}
+        min={1}
+        max={AGENT_TOOL_CONCURRENCY_LIMIT}
+        step={1}
+      />
+
       <div className="tw-mt-4 tw-rounded-lg tw-bg-secondary tw-p-4">
         <div className="tw-mb-2 tw-text-sm tw-font-medium">Agent Accessible Tools</div>
         <div className="tw-mb-4 tw-text-xs tw-text-muted">
@@ -190,6 +266,48 @@ export const ToolSettingsSection: React.FC = () => {
           {renderMcpTools()}
         </div>
       </div>
+
+      <div className="tw-mt-4 tw-rounded-lg tw-bg-secondary tw-p-4">
+        <div className="tw-mb-2 tw-text-sm tw-font-medium">User Tools</div>
+        <div className="tw-mb-4 tw-text-xs tw-text-muted">
+          Each note in this folder defines a tool: a name, description and parameters in its
+          frontmatter, and a prompt for the model or a chain of tool steps. Tools reload when the
+          notes change and can be toggled above.
+        </div>
+
+        <SettingItem
+          type="text"
+          title="User Tools Folder"
+          description="Folder where user tool notes are stored"
+          value={settings.userToolsFolder}
+          onChange={(value) => {
+            updateSetting("userToolsFolder", value);
+          }}
+          placeholder="copilot/copilot-tools"
+        />
+
+        {userTools.errors.length > 0 && (
+          <div className="tw-mt-2 tw-flex tw-flex-col tw-gap-1">
+            {userTools.errors.map((error) => (
+              <div key={error.path} className="tw-text-xs tw-text-error">
+                {error.path}: {error.message}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="tw-mt-4 tw-rounded-lg tw-bg-secondary tw-p-4">
+        <div className="tw-mb-2 tw-text-sm tw-font-medium">Tool Approval</div>
+        <div className="tw-mb-4 tw-text-xs tw-text-muted">
+          Choose which tools the agent may run on its own, which need your approval in the chat, and
+          where file tools may write
+        </div>
+
+        <div className="tw-flex tw-flex-col tw-divide-y tw-divide-border">
+          {registry.getAllTools().map((def) => renderApprovalItem(def))}
+        </div>
+      </div>
     </>
   );
 };
@@ -0,0 +1,191 @@
+import { App, TFile, Vault } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import {
+  buildCanvasCheckpointMarker,
+  CanvasChangeJournal,
+  extractCanvasCheckpointIds,
+  stripCanvasCheckpointMarkers,
+} from "./CanvasChangeJournal";
+import { applyCanvasOperation, revertCanvasChanges } from "./CanvasTools";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 },
+      { id: "b", type: "text", text: "Beta", x: 300, y: 0, width: 200, height: 100 },
+    ],
+    edges: [{ id: "e1", fromNode: "a", toNode: "b", fromSide: "right", toSide: "left" }],
+  } as CanvasData;
+}
+
+/**
+ * Create a vault mock backed by a single in-memory canvas file.
+ */
+function createVault(path: string, initial: CanvasData) {
+  const file = new (TFile as any)(path);
+  let content = JSON.stringify(initial);
+  const vault = {
+    getAbstractFileByPath: jest.fn((p: string) => (p === path ? file : null)),
+    read: jest.fn(async () => content),
+    modify: jest.fn(async (_file: TFile, next: string) => {
+      content = next;
+    }),
+  };
+  return {
+    vault: vault as unknown as Vault,
+    app: { vault } as unknown as App,
+    getData: () => JSON.parse(content) as CanvasData,
+  };
+}
+
+describe("applyCanvasOperation change capture", () => {
+  it("records prior state for updated nodes", () => {
+    const canvas = createCanvas();
+    const result = applyCanvasOperation(canvas, {
+      type: "update_node",
+      id: "a",
+      updates: { x: 50, content: "Changed" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes![0]).toMatchObject({
+      kind: "node",
+      id: "a",
+      index: 0,
+      before: { x: 0, text: "Alpha" },
+      after: { x: 50, text: "Changed" },
+    });
+  });
+
+  it("records removed edges when deleting a node", () => {
+    const canvas = createCanvas();
+    const result = applyCanvasOperation(canvas, { type: "delete_node", id: "b" });
+
+    expect(result.changes?.map((c) => `${c.kind}:${c.id}`)).toEqual(["node:b", "edge:e1"]);
+    expect(result.changes?.every((c) => c.after === null)).toBe(true);
+  });
+
+  it("does not record changes for failed operations", () => {
+    const canvas = createCanvas();
+    const result = applyCanvasOperation(canvas, { type: "delete_edge", id: "missing" });
+
+    expect(result.success).toBe(false);
+    expect(result.changes).toBeUndefined();
+  });
+});
+
+describe("revertCanvasChanges", () => {
+  it("restores the original canvas after a sequence of operations", () => {
+    const original = createCanvas();
+    const canvas = createCanvas();
+    const changes = [
+      applyCanvasOperation(canvas, {
+        type: "add_node",
+        id: "c",
+        nodeType: "text",
+        x: 0,
+        y: 200,
+        width: 200,
+        height: 100,
+        content: "Gamma",
+      }),
+      applyCanvasOperation(canvas, { type: "update_node", id: "b", updates: { y: 400 } }),
+      applyCanvasOperation(canvas, { type: "delete_node", id: "a" }),
+    ].flatMap((r) => r.changes ?? []);
+
+    revertCanvasChanges(canvas, changes);
+
+    expect(canvas).toEqual(original);
+  });
+});
+
+describe("CanvasChangeJournal", () => {
+  const path = "boards/plan.canvas";
+
+  beforeEach(() => {
+    CanvasChangeJournal.getInstance().clear();
+  });
+
+  it("ignores empty changesets", () => {
+    expect(CanvasChangeJournal.getInstance().record(path, "Nothing", [])).toBeNull();
+  });
+
+  it("rolls back a checkpoint and every later checkpoint on the same canvas", async () => {
+    const journal = CanvasChangeJournal.getInstance();
+    const { vault, app, getData } = createVault(path, createCanvas());
+
+    const working = getData();
+    const first = journal.record(
+      path,
+      "Move alpha",
+      applyCanvasOperation(working, { type: "update_node", id: "a", updates: { x: 999 } }).changes!
+    );
+    const second = journal.record(
+      path,
+      "Delete beta",
+      applyCanvasOperation(working, { type: "delete_node", id: "b" }).changes!
+    );
+    const otherCanvas = journal.record(
+      "other.canvas",
+      "Unrelated",
+      applyCanvasOperation(createCanvas(), { type: "delete_edge", id: "e1" }).changes!
+    );
+    await vault.modify(null as unknown as TFile, JSON.stringify(working));
+
+    expect(journal.getRollbackCheckpoints(first!.id)).toEqual([first, second]);
+    const listener = jest.fn();
+    const unsubscribe = journal.subscribe(listener);
+
+    const result = await journal.rollbackTo(app, first!.id);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ success: true, revertedCount: 2 });
+    expect(getData()).toEqual(createCanvas());
+    expect(journal.getCheckpoint(second!.id)).toBeUndefined();
+    expect(journal.getCheckpoints()).toEqual([otherCanvas]);
+  });
+
+  it("refuses to roll back records the user changed since", async () => {
+    const journal = CanvasChangeJournal.getInstance();
+    const { vault, app, getData } = createVault(path, createCanvas());
+
+    const working = getData();
+    const checkpoint = journal.record(
+      path,
+      "Move alpha",
+      applyCanvasOperation(working, { type: "update_node", id: "a", updates: { x: 999 } }).changes!
+    );
+    applyCanvasOperation(working, { type: "update_node", id: "a", updates: { content: "Mine" } });
+    await vault.modify(null as unknown as TFile, JSON.stringify(working));
+
+    const result = await journal.rollbackTo(app, checkpoint!.id);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('"a" was changed in the canvas (text)');
+    expect(getData()).toEqual(working);
+    expect(journal.getCheckpoint(checkpoint!.id)).toBe(checkpoint);
+  });
+
+  it("reports unknown checkpoints", async () => {
+    const { app } = createVault(path, createCanvas());
+    const result = await CanvasChangeJournal.getInstance().rollbackTo(app, "missing");
+    expect(result.success).toBe(false);
+    expect(result.revertedCount).toBe(0);
+  });
+});
+
+describe("checkpoint markers", () => {
+  it("round-trips checkpoint IDs through message text", () => {
+    const text = `Done.\n\n${buildCanvasCheckpointMarker("abc-123")}`;
+    expect(extractCanvasCheckpointIds(text)).toEqual(["abc-123"]);
+    expect(stripCanvasCheckpointMarkers(text).trim()).toBe("Done.");
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Undo journal for canvas edits made by the agent.
+ * Every applied canvas_edit block is recorded as a checkpoint holding the prior
+ * node/edge state of each operation, so it can be reverted later.
+ *
+ * Checkpoints live in memory for the current session only.
+ */
+
+import { App } from "obsidian";
+import { v4 as uuidv4 } from "uuid";
+import { logInfo, logWarn } from "@/logger";
+import {
+  CanvasRecordChange,
+  findRollbackConflicts,
+  readCanvasFile,
+  revertCanvasChanges,
+  saveOpenCanvasViews,
+  writeCanvasFile,
+} from "@/tools/CanvasTools";
+
+const MAX_CHECKPOINTS = 100;
+
+/**
+ * Marker embedded in chat messages to link them to a checkpoint.
+ * Format: <!--CANVAS_CHECKPOINT:id-->
+ */
+const CANVAS_CHECKPOINT_MARKER_REGEX = /<!--CANVAS_CHECKPOINT:([\w-]+)-->/g;
+
+export interface CanvasCheckpoint {
+  id: string;
+  canvasPath: string;
+  summary: string;
+  createdAt: number;
+  changes: CanvasRecordChange[];
+}
+
+export interface CanvasRollbackResult {
+  success: boolean;
+  error?: string;
+  /** Number of checkpoints that were reverted. */
+  revertedCount: number;
+}
+
+/**
+ * Build the marker that links a chat message to a checkpoint.
+ */
+export function buildCanvasCheckpointMarker(checkpointId: string): string {
+  return `<!--CANVAS_CHECKPOINT:${checkpointId}-->`;
+}
+
+/**
+ * Extract all checkpoint IDs referenced by a chat message.
+ */
+export function extractCanvasCheckpointIds(text: string): string[] {
+  return Array.from(text.matchAll(CANVAS_CHECKPOINT_MARKER_REGEX), (match) => match[1]);
+}
+
+/**
+ * Remove checkpoint markers from a chat message.
+ */
+export function stripCanvasCheckpointMarkers(text: string): string {
+  return text.replace(CANVAS_CHECKPOINT_MARKER_REGEX, "");
+}
+
+/**
+ * Session-scoped journal of agent canvas checkpoints, oldest first.
+ */
+export class CanvasChangeJournal {
+  private static instance: CanvasChangeJournal;
+  private checkpoints: CanvasCheckpoint[] = [];
+  private listeners: Set<() => void> = new Set();
+
+  private constructor() {}
+
+  static getInstance(): CanvasChangeJournal {
+    if (!CanvasChangeJournal.instance) {
+      CanvasChangeJournal.instance = new CanvasChangeJournal();
+    }
+    return CanvasChangeJournal.instance;
+  }
+
+  /**
+   * Record a changeset as a new checkpoint.
+   *
+   * @returns The checkpoint, or null when there is nothing to record
+   */
+  record(
+    canvasPath: string,
+    summary: string,
+    changes: CanvasRecordChange[]
+  ): CanvasCheckpoint | null {
+    if (changes.length === 0) {
+      return null;
+    }
+
+    const checkpoint: CanvasCheckpoint = {
+      id: uuidv4(),
+      canvasPath,
+      summary,
+      createdAt: Date.now(),
+      changes,
+    };
+
+    this.checkpoints.push(checkpoint);
+    if (this.checkpoints.length > MAX_CHECKPOINTS) {
+      this.checkpoints.shift();
+    }
+    this.notifyListeners();
+
+    return checkpoint;
+  }
+
+  /**
+   * Get a checkpoint by ID.
+   */
+  getCheckpoint(id: string): CanvasCheckpoint | undefined {
+    return this.checkpoints.find((c) => c.id === id);
+  }
+
+  /**
+   * Get checkpoints, newest first, optionally limited to one canvas.
+   */
+  getCheckpoints(canvasPath?: string): CanvasCheckpoint[] {
+    return this.checkpoints.filter((c) => !canvasPath || c.canvasPath === canvasPath).reverse();
+  }
+
+  /**
+   * Get the checkpoints a rollback to the given checkpoint reverts: the checkpoint
+   * and every later checkpoint on the same canvas, oldest first.
+   */
+  getRollbackCheckpoints(checkpointId: string): CanvasCheckpoint[] {
+    const target = this.getCheckpoint(checkpointId);
+    if (!target) return [];
+    return this.checkpoints
+      .slice(this.checkpoints.indexOf(target))
+      .filter((c) => c.canvasPath === target.canvasPath);
+  }
+
+  /**
+   * Roll a canvas back to the state before the given checkpoint.
+   * The checkpoint and every later checkpoint on the same canvas are reverted
+   * in a single write and removed from the journal. Nothing is written when the
+   * user has since changed a record the rollback would restore.
+   */
+  async rollbackTo(app: App, checkpointId: string): Promise<CanvasRollbackResult> {
+    const target = this.getCheckpoint(checkpointId);
+    if (!target) {
+      return { success: false, error: "Checkpoint not found", revertedCount: 0 };
+    }
+
+    const toRevert = this.getRollbackCheckpoints(checkpointId);
+    await saveOpenCanvasViews(app, target.canvasPath);
+    const canvasData = await readCanvasFile(app.vault, target.canvasPath);
+    if (!canvasData) {
+      return {
+        success: false,
+        error: `Failed to read canvas: ${target.canvasPath}`,
+        revertedCount: 0,
+      };
+    }
+
+    const conflicts = findRollbackConflicts(
+      canvasData,
+      toRevert.flatMap((c) => c.changes)
+    );
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        error: `The canvas was edited after this update, and undoing it would overwrite those edits: ${conflicts.join("; ")}`,
+        revertedCount: 0,
+      };
+    }
+
+    for (const checkpoint of [...toRevert].reverse()) {
+      revertCanvasChanges(canvasData, checkpoint.changes);
+    }
+
+    const writeSuccess = await writeCanvasFile(app.vault, target.canvasPath, canvasData);
+    if (!writeSuccess) {
+      logWarn(`[CanvasChangeJournal] Rollback failed to write ${target.canvasPath}`);
+      return { success: false, error: "Failed to write canvas file", revertedCount: 0 };
+    }
+
+    const revertedIds = new Set(toRevert.map((c) => c.id));
+    this.checkpoints = this.checkpoints.filter((c) => !revertedIds.has(c.id));
+    this.notifyListeners();
+    logInfo(
+      `[CanvasChangeJournal] Rolled back ${toRevert.length} checkpoint(s) on ${target.canvasPath}`
+    );
+
+    return { success: true, revertedCount: toRevert.length };
+  }
+
+  /**
+   * Clear the journal (useful for testing)
+   */
+  clear(): void {
+    this.checkpoints = [];
+    this.notifyListeners();
+  }
+
+  /**
+   * Subscribe to changes of the recorded checkpoints.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,256 @@
+import { Vault } from "obsidian";
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+import { AddNodeOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import {
+  canvasToMermaid,
+  canvasToOutline,
+  detectDiagramFormat,
+  diagramToCanvasOperations,
+  parseDiagram,
+  parseMarkdownOutline,
+  parseMermaid,
+} from "./CanvasDiagram";
+import { layoutCanvasOperations } from "./CanvasLayout";
+import { CanvasLoader } from "./CanvasLoader";
+import { validateCanvasOperations } from "./CanvasTools";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+function labels(text: string) {
+  const diagram = parseDiagram(text);
+  const byId = new Map(diagram.nodes.map((node) => [node.id, node.label]));
+  return {
+    diagram,
+    nodes: diagram.nodes.map((node) => node.label),
+    edges: diagram.edges.map(
+      (edge) =>
+        `${byId.get(edge.from)} -> ${byId.get(edge.to)}${edge.label ? ` (${edge.label})` : ""}`
+    ),
+  };
+}
+
+async function enrich(nodes: Partial<AllCanvasNodeData>[], edges: Partial<CanvasEdgeData>[]) {
+  const vault = { getAbstractFileByPath: jest.fn(() => null) } as unknown as Vault;
+  return new CanvasLoader(vault).enrich({ nodes, edges } as CanvasData);
+}
+
+describe("parseMermaid", () => {
+  it("reads flowchart nodes, labelled edges, chains and subgraphs", () => {
+    const { diagram, nodes, edges } = labels(`flowchart TD
+  %% a comment
+  A[Start] --> B{"Is it #quot;ready#quot;?"}
+  B -->|yes| C(Ship) & D([Announce])
+  B -- not yet --> E
+  subgraph review [Review loop]
+    E[Fix issues] -.-> F[[Re-test]] --- B
+  end
+  classDef hot fill:#f00
+  C:::hot`);
+
+    expect(diagram.direction).toBe("TB");
+    expect(nodes).toEqual([
+      "Start",
+      'Is it "ready"?',
+      "Ship",
+      "Announce",
+      "Fix issues",
+      "Review loop",
+      "Re-test",
+    ]);
+    expect(edges).toEqual([
+      'Start -> Is it "ready"?',
+      'Is it "ready"? -> Ship (yes)',
+      'Is it "ready"? -> Announce (yes)',
+      'Is it "ready"? -> Fix issues (not yet)',
+      "Fix issues -> Re-test",
+      'Re-test -> Is it "ready"?',
+    ]);
+    expect(diagram.edges[5].toArrow).toBe(false);
+    expect(diagram.nodes.find((n) => n.label === "Review loop")?.isGroup).toBe(true);
+    // E is declared before the subgraph, F inside it
+    expect(diagram.nodes.find((n) => n.label === "Re-test")?.parent).toBe("review");
+  });
+
+  it("reads a mind map as a tree", () => {
+    const { nodes, edges } = labels(`mindmap
+  root((Launch))
+    Marketing
+      Blog post
+    id1[Pricing]
+      ::icon(fa fa-tag)`);
+
+    expect(nodes).toEqual(["Launch", "Marketing", "Blog post", "Pricing"]);
+    expect(edges).toEqual(["Launch -> Marketing", "Marketing -> Blog post", "Launch -> Pricing"]);
+  });
+
+  it("rejects diagrams it cannot convert", () => {
+    expect(() => parseMermaid("sequenceDiagram\n  A->>B: hi")).toThrow("Unsupported Mermaid");
+  });
+});
+
+describe("parseMarkdownOutline", () => {
+  it("nests list items under headings and their parent items", () => {
+    const { nodes, edges } = labels(`---
+tags: plan
+---
+# Plan
+Intro paragraph
+- Goals
+  - Grow
+    with a continuation line
+1. Risks
+## Later
+* Ideas`);
+
+    expect(nodes).toEqual([
+      "Plan",
+      "Goals",
+      "Grow\nwith a continuation line",
+      "Risks",
+      "Later",
+      "Ideas",
+    ]);
+    expect(edges).toEqual([
+      "Plan -> Goals",
+      "Goals -> Grow\nwith a continuation line",
+      "Plan -> Risks",
+      "Plan -> Later",
+      "Later -> Ideas",
+    ]);
+  });
+
+  it("requires at least one list item", () => {
+    expect(() => parseMarkdownOutline("Just a paragraph")).toThrow("No outline items found");
+  });
+});
+
+describe("detectDiagramFormat", () => {
+  it("finds Mermaid in a fenced block or by its header", () => {
+    expect(detectDiagramFormat("Notes\n```mermaid\ngraph LR\n  A --> B\n```")).toBe("mermaid");
+    expect(detectDiagramFormat("%% title\nflowchart LR")).toBe("mermaid");
+    expect(detectDiagramFormat("- a\n  - b")).toBe("outline");
+    expect(labels("Notes\n```mermaid\ngraph LR\n  A --> B\n```\n- not this").nodes).toEqual([
+      "A",
+      "B",
+    ]);
+  });
+});
+
+describe("diagramToCanvasOperations", () => {
+  it("creates a valid canvas with groups that contain their nodes", () => {
+    const diagram = parseMermaid(`flowchart LR
+  A --> B
+  subgraph outer [Outer]
+    C
+    subgraph inner [Inner]
+      D --> E
+    end
+  end
+  B --> C`);
+    const operations = diagramToCanvasOperations(diagram, "flow.canvas");
+    const empty: CanvasData = { nodes: [], edges: [] };
+
+    expect(operations[0]).toEqual({ type: "create_canvas", id: "flow.canvas" });
+    expect(validateCanvasOperations(empty, operations)).toEqual([]);
+
+    const laidOut = layoutCanvasOperations(empty, operations.slice(1));
+    const rects = new Map(
+      laidOut
+        .filter((op): op is AddNodeOperation => op.type === "add_node")
+        .map((op) => [op.content ?? op.label, op])
+    );
+    const inside = (child: string, group: string) => {
+      const c = rects.get(child)!;
+      const g = rects.get(group)!;
+      return (
+        c.x! >= g.x! &&
+        c.y! >= g.y! &&
+        c.x! + c.width! <= g.x! + g.width! &&
+        c.y! + c.height! <= g.y! + g.height!
+      );
+    };
+    expect(["C", "Inner", "D", "E"].every((id) => inside(id, "Outer"))).toBe(true);
+    expect(["D", "E"].every((id) => inside(id, "Inner"))).toBe(true);
+    expect(inside("A", "Outer")).toBe(false);
+  });
+});
+
+describe("canvas export", () => {
+  const nodes = [
+    { id: "g1", type: "group", label: "Phase 1", x: 0, y: 0, width: 700, height: 300 },
+    { id: "a", type: "text", text: "Kickoff", x: 40, y: 40, width: 200, height: 60 },
+    { id: "b", type: "text", text: 'Say "hi"\nto all', x: 400, y: 40, width: 200, height: 60 },
+    { id: "c", type: "file", file: "Notes/Spec.md", x: 900, y: 40, width: 400, height: 400 },
+    { id: "d", type: "link", url: "https://example.com", x: 900, y: 600, width: 400, height: 300 },
+  ] as Partial<AllCanvasNodeData>[];
+  const edges = [
+    { id: "e1", fromNode: "a", toNode: "b", label: "then" },
+    { id: "e2", fromNode: "b", toNode: "c", toEnd: "none" },
+    { id: "e3", fromNode: "d", toNode: "c", fromEnd: "arrow", toEnd: "none" },
+  ] as Partial<CanvasEdgeData>[];
+
+  it("exports groups as subgraphs and keeps edge labels and arrows", async () => {
+    const mermaid = canvasToMermaid(await enrich(nodes, edges));
+
+    expect(mermaid).toBe(
+      [
+        "flowchart LR",
+        '  subgraph g1["Phase 1"]',
+        '    a["Kickoff"]',
+        '    b["Say #quot;hi#quot;<br>to all"]',
+        "  end",
+        '  c[["[[Notes/Spec]]"]]',
+        '  d(["https://example.com"])',
+        "  a -->|then| b",
+        "  b --- c",
+        "  c --> d",
+      ].join("\n")
+    );
+
+    // Reading the export back gives the same diagram
+    const { nodes: roundTrip, edges: roundTripEdges } = labels(mermaid);
+    expect(roundTrip).toEqual([
+      "Phase 1",
+      "Kickoff",
+      'Say "hi"\nto all',
+      "[[Notes/Spec]]",
+      "https://example.com",
+    ]);
+    expect(roundTripEdges[0]).toBe('Kickoff -> Say "hi"\nto all (then)');
+  });
+
+  it("exports an outline nested by groups and edges", async () => {
+    const outline = canvasToOutline(await enrich(nodes, edges));
+
+    expect(outline).toBe(
+      [
+        "- Phase 1",
+        "  - Kickoff",
+        '    - Say "hi"',
+        "      to all",
+        "      - [[Notes/Spec]]",
+        "- https://example.com",
+      ].join("\n")
+    );
+  });
+
+  it("exports only the selected nodes", async () => {
+    const canvas = await enrich(nodes, edges);
+
+    expect(canvasToOutline(canvas, { nodeIds: ["a", "b"] })).toBe(
+      ["- Kickoff", '  - Say "hi"', "    to all"].join("\n")
+    );
+    expect(canvasToMermaid(canvas, { nodeIds: ["b", "c"] })).toBe(
+      [
+        "flowchart LR",
+        '  b["Say #quot;hi#quot;<br>to all"]',
+        '  c[["[[Notes/Spec]]"]]',
+        "  b --- c",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,586 @@
+/**
+ * Conversion between canvases and text diagrams: Mermaid flowcharts and mind maps,
+ * and nested markdown outlines.
+ * Imports produce canvas operations without coordinates for the layout engine to
+ * place; exports nest nodes by the group membership CanvasLoader derives.
+ */
+
+import {
+  AddEdgeOperation,
+  AddNodeOperation,
+  CanvasOperation,
+} from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import type { CanvasData, CanvasEdge, RichNode } from "./CanvasLoader";
+import { sortByReadingOrder } from "./CanvasSerializer";
+import { createCanvasId } from "./CanvasTools";
+
+export type DiagramFormat = "mermaid" | "outline";
+
+/**
+ * A diagram parsed from text, before it is laid out on a canvas.
+ */
+export interface Diagram {
+  format: DiagramFormat;
+  /** Main direction of the flow. */
+  direction: "LR" | "TB";
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+export interface DiagramNode {
+  id: string;
+  label: string;
+  /** Subgraphs become canvas groups. */
+  isGroup?: boolean;
+  /** ID of the subgraph the node belongs to. */
+  parent?: string;
+}
+
+export interface DiagramEdge {
+  from: string;
+  to: string;
+  label?: string;
+  /** Arrow heads at either end. Tree diagrams (mind maps, outlines) have none. */
+  fromArrow?: boolean;
+  toArrow: boolean;
+}
+
+export interface DiagramExportOptions {
+  /** Export only these nodes, e.g. the canvas selection. Defaults to the whole canvas. */
+  nodeIds?: string[];
+}
+
+/* ---------- Import ---------- */
+
+const MERMAID_FENCE = /```mermaid[^\n]*\n([\s\S]*?)```/;
+const FLOWCHART_HEADER = /^(?:flowchart|graph)(?:\s+(TB|TD|BT|RL|LR))?\s*;?$/i;
+const MINDMAP_HEADER = /^mindmap\s*$/i;
+const IGNORED_STATEMENT = /^(?:classDef|class|style|linkStyle|click|direction|accTitle|accDescr)\b/;
+const NODE_ID = /^\s*([\p{L}\p{N}_]+)/u;
+const CLASS_SUFFIX = /^:::[\w-]+/;
+// Arrows with an optional inline label: -->, ---, -.->, ==>, <-->, -- text -->, -->|text|
+const LINK =
+  /^\s*(<)?(?:(?:--|==|-\.)\s+(.+?)\s+)?(-{2,}|={2,}|-?\.+-)(>|[xo](?![\p{L}\p{N}_]))?\s*(?:\|([^|]*)\|)?/u;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+
+// Node shapes by opening bracket, longest first. Shapes only affect the look, so
+// every node becomes a text card.
+const NODE_SHAPES: Array<[string, string[]]> = [
+  ["(((", [")))"]],
+  ["((", ["))"]],
+  ["([", ["])"]],
+  ["[[", ["]]"]],
+  ["[(", [")]"]],
+  ["{{", ["}}"]],
+  ["[/", ["/]", "\\]"]],
+  ["[\\", ["\\]", "/]"]],
+  ["[", ["]"]],
+  ["(", [")"]],
+  ["{", ["}"]],
+  [">", ["]"]],
+];
+
+/**
+ * Detect which diagram format a text holds. Mermaid is recognized by a fenced
+ * mermaid block or a flowchart/mindmap header; anything else is read as an outline.
+ */
+export function detectDiagramFormat(text: string): DiagramFormat {
+  if (MERMAID_FENCE.test(text)) return "mermaid";
+  const firstLine = getLines(text).find((line) => line.trim() && !isMermaidComment(line));
+  const header = firstLine?.trim() ?? "";
+  return FLOWCHART_HEADER.test(header) || MINDMAP_HEADER.test(header) ? "mermaid" : "outline";
+}
+
+/**
+ * Parse a Mermaid diagram or markdown outline. Mermaid may be wrapped in a fenced
+ * block inside a note. Throws when the text holds no diagram.
+ */
+export function parseDiagram(text: string, format = detectDiagramFormat(text)): Diagram {
+  if (format === "outline") {
+    return parseMarkdownOutline(text);
+  }
+  return parseMermaid(MERMAID_FENCE.exec(text)?.[1] ?? text);
+}
+
+/**
+ * Parse a Mermaid flowchart (with subgraphs) or mind map.
+ */
+export function parseMermaid(text: string): Diagram {
+  const lines = getLines(text).filter((line) => line.trim() && !isMermaidComment(line));
+  const header = lines[0]?.trim() ?? "";
+
+  if (MINDMAP_HEADER.test(header)) {
+    return parseMindmap(lines.slice(1));
+  }
+  const flowchart = FLOWCHART_HEADER.exec(header);
+  if (!flowchart) {
+    throw new Error(
+      'Unsupported Mermaid diagram: expected a "flowchart", "graph" or "mindmap" header'
+    );
+  }
+  return parseFlowchart(lines.slice(1), flowchart[1]);
+}
+
+/**
+ * Parse a nested bullet or numbered list into a tree. Headings become parents of
+ * the items below them, and indented lines continue the item above.
+ */
+export function parseMarkdownOutline(text: string): Diagram {
+  const diagram: Diagram = { format: "outline", direction: "LR", nodes: [], edges: [] };
+  // Headings rank above every list level: h1 = -6 ... h6 = -1
+  const stack: Array<{ level: number; node: DiagramNode }> = [];
+
+  for (const line of getLines(stripFrontmatter(text))) {
+    const heading = HEADING.exec(line);
+    const item = heading ? null : LIST_ITEM.exec(line);
+    if (!heading && !item) {
+      const last = stack[stack.length - 1]?.node;
+      if (last && /^\s+\S/.test(line)) {
+        last.label += `\n${line.trim()}`;
+      }
+      continue;
+    }
+
+    const level = heading ? heading[1].length - 7 : getIndentWidth(item![1]);
+    const label = (heading ? heading[2] : item![2]).trim();
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+
+    const node: DiagramNode = { id: `n${diagram.nodes.length + 1}`, label };
+    const parent = stack[stack.length - 1]?.node;
+    if (parent) {
+      diagram.edges.push({ from: parent.id, to: node.id, toArrow: false });
+    }
+    diagram.nodes.push(node);
+    stack.push({ level, node });
+  }
+
+  if (diagram.nodes.length === 0) {
+    throw new Error("No outline items found: expected a bulleted or numbered list");
+  }
+  return diagram;
+}
+
+/**
+ * Build the operations that draw a diagram on a canvas: groups for subgraphs, text
+ * cards for nodes and edges between them. Nodes carry no coordinates, so the layout
+ * engine arranges them as trees following the edges and grids inside groups.
+ * @param createCanvas - Start with create_canvas, for a canvas that does not exist yet
+ */
+export function diagramToCanvasOperations(
+  diagram: Diagram,
+  createCanvas?: string
+): CanvasOperation[] {
+  const ids = new Map(diagram.nodes.map((node) => [node.id, createCanvasId()]));
+  const vertical = diagram.direction === "TB";
+
+  // Groups go first, outer before inner, so nodes can be placed inside them
+  const depth = (node: DiagramNode): number => {
+    let count = 0;
+    for (let parent = node.parent; parent && count < diagram.nodes.length; count++) {
+      parent = diagram.nodes.find((n) => n.id === parent)?.parent;
+    }
+    return count;
+  };
+  const groups = diagram.nodes.filter((node) => node.isGroup);
+  groups.sort((a, b) => depth(a) - depth(b));
+
+  const nodeOperations = [...groups, ...diagram.nodes.filter((node) => !node.isGroup)].map(
+    (node): AddNodeOperation => ({
+      type: "add_node",
+      id: ids.get(node.id)!,
+      nodeType: node.isGroup ? "group" : "text",
+      ...(node.isGroup ? { label: node.label } : { content: node.label }),
+      ...(node.parent && ids.has(node.parent)
+        ? { placement: { inGroup: ids.get(node.parent) } }
+        : {}),
+    })
+  );
+
+  const edgeOperations = diagram.edges
+    .filter((edge) => edge.from !== edge.to && ids.has(edge.from) && ids.has(edge.to))
+    .map(
+      (edge): AddEdgeOperation => ({
+        type: "add_edge",
+        id: createCanvasId(),
+        fromNode: ids.get(edge.from)!,
+        toNode: ids.get(edge.to)!,
+        fromSide: vertical ? "bottom" : "right",
+        toSide: vertical ? "top" : "left",
+        toEnd: edge.toArrow ? "arrow" : "none",
+        ...(edge.fromArrow ? { fromEnd: "arrow" as const } : {}),
+        ...(edge.label ? { label: edge.label } : {}),
+      })
+    );
+
+  return [
+    ...(createCanvas ? [{ type: "create_canvas" as const, id: createCanvas }] : []),
+    ...nodeOperations,
+    ...edgeOperations,
+  ];
+}
+
+function parseFlowchart(lines: string[], direction?: string): Diagram {
+  const diagram: Diagram = {
+    format: "mermaid",
+    direction: direction && /^(LR|RL)$/i.test(direction) ? "LR" : "TB",
+    nodes: [],
+    edges: [],
+  };
+  const nodes = new Map<string, DiagramNode>();
+  const subgraphs: string[] = [];
+
+  const declare = (id: string, label?: string): DiagramNode => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, label: label ?? id, parent: subgraphs[subgraphs.length - 1] };
+      nodes.set(id, node);
+      diagram.nodes.push(node);
+    } else if (label !== undefined) {
+      node.label = label;
+    }
+    return node;
+  };
+
+  for (const line of lines) {
+    const statement = line.trim().replace(/;$/, "");
+    if (!statement || IGNORED_STATEMENT.test(statement)) continue;
+
+    if (statement === "end") {
+      subgraphs.pop();
+      continue;
+    }
+
+    const subgraph = /^subgraph\s+(.+)$/.exec(statement);
+    if (subgraph) {
+      // "subgraph id [title]" or "subgraph Some title"
+      const ref = parseNodeRef(subgraph[1].replace(/^([\p{L}\p{N}_]+)\s+(?=\[)/u, "$1"));
+      const [id, label] =
+        ref && !ref.rest.trim()
+          ? [ref.id, ref.label ?? ref.id]
+          : [`subgraph${subgraphs.length + 1}_${nodes.size}`, decodeLabel(subgraph[1])];
+      const group = declare(id, label);
+      group.isGroup = true;
+      subgraphs.push(id);
+      continue;
+    }
+
+    let current = parseNodeList(statement);
+    if (!current) continue;
+    current.refs.forEach((ref) => declare(ref.id, ref.label));
+
+    for (let link = LINK.exec(current.rest); link; link = LINK.exec(current.rest)) {
+      const next = parseNodeList(current.rest.slice(link[0].length));
+      if (!next) break;
+      next.refs.forEach((ref) => declare(ref.id, ref.label));
+
+      const label = link[5] ?? link[2];
+      for (const from of current.refs) {
+        for (const to of next.refs) {
+          diagram.edges.push({
+            from: from.id,
+            to: to.id,
+            toArrow: !!link[4],
+            ...(link[1] ? { fromArrow: true } : {}),
+            ...(label?.trim() ? { label: decodeLabel(label) } : {}),
+          });
+        }
+      }
+      current = next;
+    }
+  }
+
+  if (diagram.nodes.length === 0) {
+    throw new Error("The Mermaid flowchart has no nodes");
+  }
+  return diagram;
+}
+
+function parseMindmap(lines: string[]): Diagram {
+  const diagram: Diagram = { format: "mermaid", direction: "LR", nodes: [], edges: [] };
+  const stack: Array<{ indent: number; node: DiagramNode }> = [];
+
+  for (const line of lines) {
+    const text = line.trim();
+    // Icons and classes decorate the node above
+    if (text.startsWith("::icon(") || CLASS_SUFFIX.test(text)) continue;
+
+    const indent = getIndentWidth(/^\s*/.exec(line)![0]);
+    const ref = parseNodeRef(text);
+    const label = ref?.label !== undefined && !ref.rest.trim() ? ref.label : decodeLabel(text);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const node: DiagramNode = { id: `n${diagram.nodes.length + 1}`, label };
+    const parent = stack[stack.length - 1]?.node;
+    if (parent) {
+      diagram.edges.push({ from: parent.id, to: node.id, toArrow: false });
+    }
+    diagram.nodes.push(node);
+    stack.push({ indent, node });
+  }
+
+  if (diagram.nodes.length === 0) {
+    throw new Error("The Mermaid mind map has no nodes");
+  }
+  return diagram;
+}
+
+interface NodeRef {
+  id: string;
+  /** Label from the node's shape, if it has one. */
+  label?: string;
+  /** Text after the reference. */
+  rest: string;
+}
+
+/**
+ * Parse "A", "A[label]", "A((label))" etc. at the start of the text.
+ */
+function parseNodeRef(text: string): NodeRef | null {
+  const match = NODE_ID.exec(text);
+  if (!match) return null;
+
+  let rest = text.slice(match[0].length);
+  let label: string | undefined;
+  const shape = NODE_SHAPES.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, closes] = shape;
+    const quoted = rest.slice(open.length).trimStart().startsWith('"');
+    const searchFrom = quoted ? rest.indexOf('"', rest.indexOf('"') + 1) : open.length;
+    const end = closes
+      .map((close) => ({ close, index: rest.indexOf(close, Math.max(searchFrom, open.length)) }))
+      .filter(({ index }) => index !== -1)
+      .sort((a, b) => a.index - b.index)[0];
+    if (end) {
+      label = decodeLabel(rest.slice(open.length, end.index));
+      rest = rest.slice(end.index + end.close.length);
+    }
+  }
+
+  return { id: match[1], label, rest: rest.replace(CLASS_SUFFIX, "") };
+}
+
+/**
+ * Parse "A", or several nodes joined with "&" ("A & B[label]").
+ */
+function parseNodeList(text: string): { refs: NodeRef[]; rest: string } | null {
+  const first = parseNodeRef(text);
+  if (!first) return null;
+
+  const refs = [first];
+  let rest = first.rest;
+  for (let and = /^\s*&\s*/.exec(rest); and; and = /^\s*&\s*/.exec(rest)) {
+    const next = parseNodeRef(rest.slice(and[0].length));
+    if (!next) break;
+    refs.push(next);
+    rest = next.rest;
+  }
+  return { refs, rest };
+}
+
+/**
+ * Turn a Mermaid label into plain text: drop quotes and markdown-string backticks,
+ * and decode line breaks and entity codes.
+ */
+function decodeLabel(label: string): string {
+  return label
+    .trim()
+    .replace(/^"([\s\S]*)"$/, "$1")
+    .replace(/^`([\s\S]*)`$/, "$1")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, "&")
+    .replace(/#lt;/g, "<")
+    .replace(/#gt;/g, ">")
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .trim();
+}
+
+function isMermaidComment(line: string): boolean {
+  return line.trim().startsWith("%%");
+}
+
+function getLines(text: string): string[] {
+  return text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+function getIndentWidth(indent: string): number {
+  return indent.replace(/\t/g, "    ").length;
+}
+
+function stripFrontmatter(text: string): string {
+  return text.replace(/^---\n[\s\S]*?\n---(?:\n|$)/, "");
+}
+
+/* ---------- Export ---------- */
+
+const MERMAID_KEYWORDS = new Set(["end", "graph", "flowchart", "subgraph", "style", "class"]);
+
+/**
+ * Export a canvas as a Mermaid flowchart. Groups become subgraphs, nested by the
+ * smallest group around each node, and edges keep their labels and arrow heads.
+ * @param canvas - Canvas enriched by CanvasLoader, which derives group membership
+ */
+export function canvasToMermaid(canvas: CanvasData, options: DiagramExportOptions = {}): string {
+  const { children, edges } = getHierarchy(canvas, options.nodeIds);
+  const ids = new Map<string, string>();
+  canvas.nodes.forEach((node, index) => {
+    ids.set(
+      node.id,
+      /^\w+$/.test(node.id) && !MERMAID_KEYWORDS.has(node.id) ? node.id : `n${index + 1}`
+    );
+  });
+
+  const lines = ["flowchart LR"];
+  const writeLevel = (parentId: string, depth: number) => {
+    const indent = "  ".repeat(depth);
+    for (const node of children.get(parentId) ?? []) {
+      const label = escapeMermaidLabel(getNodeLabel(node));
+      if (node.type === "group") {
+        lines.push(`${indent}subgraph ${ids.get(node.id)}["${label}"]`);
+        writeLevel(node.id, depth + 1);
+        lines.push(`${indent}end`);
+      } else {
+        const [open, close] =
+          node.type === "file" ? ["[[", "]]"] : node.type === "link" ? ["([", "])"] : ["[", "]"];
+        lines.push(`${indent}${ids.get(node.id)}${open}"${label}"${close}`);
+      }
+    }
+  };
+  writeLevel("", 1);
+
+  for (const edge of edges) {
+    const raw = edge as CanvasEdge & { fromEnd?: string; toEnd?: string };
+    const toArrow = raw.toEnd !== "none";
+    const fromArrow = raw.fromEnd === "arrow";
+    // A lone arrow at the source is drawn as a forward arrow the other way round
+    const [from, to] =
+      fromArrow && !toArrow ? [edge.toNode, edge.fromNode] : [edge.fromNode, edge.toNode];
+    const arrow = fromArrow && toArrow ? "<-->" : fromArrow || toArrow ? "-->" : "---";
+    const label = edge.label
+      ? `|${escapeMermaidLabel(edge.label).replace(/<br>/g, " ").replace(/\|/g, "#124;")}|`
+      : "";
+    lines.push(`  ${ids.get(from)} ${arrow}${label} ${ids.get(to)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Export a canvas as a nested markdown outline. Group members are nested under the
+ * group and edge targets under their source, in reading order; nodes reached more
+ * than once are listed where they are reached first. Edge labels are not kept.
+ * @param canvas - Canvas enriched by CanvasLoader, which derives group membership
+ */
+export function canvasToOutline(canvas: CanvasData, options: DiagramExportOptions = {}): string {
+  const { nodes, children, edges } = getHierarchy(canvas, options.nodeIds);
+  const targets = new Map<string, RichNode[]>();
+  for (const edge of edges) {
+    targets.set(edge.fromNode, [...(targets.get(edge.fromNode) ?? []), canvas.byId[edge.toNode]]);
+  }
+
+  // Within a level, start from the nodes nothing else on the level points to
+  const rootsFirst = (level: RichNode[]): RichNode[] => {
+    const ids = new Set(level.map((node) => node.id));
+    const pointedTo = new Set(
+      edges.filter((edge) => ids.has(edge.fromNode)).map((edge) => edge.toNode)
+    );
+    return [
+      ...level.filter((node) => !pointedTo.has(node.id)),
+      ...level.filter((node) => pointedTo.has(node.id)),
+    ];
+  };
+
+  const lines: string[] = [];
+  const visited = new Set<string>();
+  const write = (node: RichNode, depth: number) => {
+    if (visited.has(node.id)) return;
+    visited.add(node.id);
+
+    const indent = "  ".repeat(depth);
+    const [first, ...more] = getNodeLabel(node)
+      .split("\n")
+      .filter((line) => line.trim());
+    lines.push(`${indent}- ${first ?? ""}`);
+    more.forEach((line) => lines.push(`${indent}  ${line}`));
+
+    const members = rootsFirst(children.get(node.id) ?? []);
+    const next = sortByReadingOrder(targets.get(node.id) ?? []);
+    [...members, ...next].forEach((child) => write(child, depth + 1));
+  };
+
+  rootsFirst(children.get("") ?? []).forEach((node) => write(node, 0));
+  // Whatever is only reachable through a cycle
+  sortByReadingOrder(nodes).forEach((node) => write(node, 0));
+
+  return lines.join("\n");
+}
+
+/**
+ * The exported nodes with their drawn edges, and each group's direct members
+ * ("" for the top level) in reading order.
+ */
+function getHierarchy(
+  canvas: CanvasData,
+  nodeIds?: string[]
+): { nodes: RichNode[]; children: Map<string, RichNode[]>; edges: CanvasEdge[] } {
+  const selected = nodeIds ? new Set(nodeIds) : null;
+  const nodes = canvas.nodes.filter((node) => !selected || selected.has(node.id));
+  const included = new Set(nodes.map((node) => node.id));
+  const area = (node: RichNode) => node.width * node.height;
+
+  // The smallest group containing a node is its parent; a group can only sit in a
+  // larger one, so two groups never contain each other
+  const parents = new Map<string, RichNode>();
+  for (const edge of canvas.edges) {
+    if (!edge.synthetic || !included.has(edge.fromNode) || !included.has(edge.toNode)) continue;
+    const group = canvas.byId[edge.fromNode];
+    const node = canvas.byId[edge.toNode];
+    if (node.type === "group" && area(group) <= area(node)) continue;
+    const current = parents.get(node.id);
+    if (!current || area(group) < area(current)) {
+      parents.set(node.id, group);
+    }
+  }
+
+  const children = new Map<string, RichNode[]>();
+  for (const node of nodes) {
+    const parentId = parents.get(node.id)?.id ?? "";
+    children.set(parentId, [...(children.get(parentId) ?? []), node]);
+  }
+  for (const [parentId, members] of children) {
+    children.set(parentId, sortByReadingOrder(members));
+  }
+
+  const edges = canvas.edges.filter(
+    (edge) => !edge.synthetic && included.has(edge.fromNode) && included.has(edge.toNode)
+  );
+  return { nodes, children, edges };
+}
+
+/**
+ * Text that stands for a node in a diagram.
+ */
+function getNodeLabel(node: RichNode): string {
+  switch (node.type) {
+    case "file": {
+      const path = (node.file ?? "").replace(/\.md$/, "");
+      const subpath = (node as RichNode & { subpath?: string }).subpath ?? "";
+      return `[[${path}${subpath}]]`;
+    }
+    case "link":
+      return node.url ?? "";
+    case "group":
+      return node.label || "Group";
+    default:
+      return (node.text ?? node.content).trim();
+  }
+}
+
+function escapeMermaidLabel(label: string): string {
+  return label.replace(/"/g, "#quot;").replace(/\n/g, "<br>");
+}
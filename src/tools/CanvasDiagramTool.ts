@@ -0,0 +1,194 @@
+import { TFile, Vault } from "obsidian";
+import type { AllCanvasNodeData, CanvasEdgeData } from "obsidian/canvas";
+import { z } from "zod";
+import { logInfo } from "@/logger";
+import {
+  canvasToMermaid,
+  canvasToOutline,
+  DiagramFormat,
+  diagramToCanvasOperations,
+  parseDiagram,
+} from "./CanvasDiagram";
+import { applyCanvasEditBlock } from "./CanvasEditTool";
+import { CanvasLoader } from "./CanvasLoader";
+import { executeCanvasOperations, readCanvasFile } from "./CanvasTools";
+import { createLangChainTool } from "./createLangChainTool";
+
+/**
+ * Draw a Mermaid diagram or markdown outline as a new canvas, in one write.
+ * Returns the number of nodes drawn, or an error message.
+ */
+export async function createCanvasFromDiagram(
+  vault: Vault,
+  canvasPath: string,
+  text: string,
+  format?: DiagramFormat
+): Promise<{ nodeCount: number } | { error: string }> {
+  if (vault.getAbstractFileByPath(canvasPath)) {
+    return { error: `"${canvasPath}" already exists` };
+  }
+
+  let operations;
+  try {
+    operations = diagramToCanvasOperations(parseDiagram(text, format), canvasPath);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const result = await executeCanvasOperations(vault, canvasPath, operations);
+  if (!result.success) {
+    return { error: result.error ?? result.errors[0]?.error ?? "Failed to write canvas" };
+  }
+  logInfo(`[CanvasDiagram] Created ${canvasPath} from a ${format ?? "detected"} diagram`);
+  return { nodeCount: operations.filter((op) => op.type === "add_node").length };
+}
+
+/**
+ * Export canvas data as a Mermaid flowchart or markdown outline.
+ * @param nodeIds - Export only these nodes, e.g. the canvas selection
+ */
+export async function exportCanvasDiagram(
+  vault: Vault,
+  canvasData: { nodes?: AllCanvasNodeData[]; edges?: CanvasEdgeData[] },
+  format: DiagramFormat,
+  nodeIds?: string[]
+): Promise<string> {
+  const canvas = await new CanvasLoader(vault).enrich(canvasData);
+  return format === "mermaid"
+    ? canvasToMermaid(canvas, { nodeIds })
+    : canvasToOutline(canvas, { nodeIds });
+}
+
+/**
+ * A free path for a canvas next to a note, named after it.
+ */
+export function getCanvasPathForNote(vault: Vault, notePath: string): string {
+  const base = notePath.replace(/\.md$/, "");
+  let path = `${base}.canvas`;
+  for (let i = 1; vault.getAbstractFileByPath(path); i++) {
+    path = `${base} ${i}.canvas`;
+  }
+  return path;
+}
+
+/* ---------- Agent tools ---------- */
+
+const convertToCanvasSchema = z.object({
+  path: z.string().describe("Vault-relative path of the new .canvas file, without a leading slash"),
+  content: z
+    .string()
+    .optional()
+    .describe("Mermaid flowchart/mindmap or nested markdown list to convert"),
+  notePath: z
+    .string()
+    .optional()
+    .describe(
+      "Convert a note instead of content: its first mermaid code block, or its list outline"
+    ),
+  format: z
+    .enum(["auto", "mermaid", "outline"])
+    .optional()
+    .describe('Source format. Defaults to "auto", which detects Mermaid by its header'),
+});
+
+const convertToCanvasTool = createLangChainTool({
+  name: "convertToCanvas",
+  description: `Create a new Obsidian canvas from a Mermaid flowchart or mind map, or from a nested markdown bullet outline.
+Nodes become text cards laid out automatically, arrows become edges and subgraphs become groups.`,
+  schema: convertToCanvasSchema,
+  func: async ({ path, content, notePath, format }) => {
+    const canvasPath = path.trim().replace(/^\/+/, "");
+    if (!canvasPath.endsWith(".canvas")) {
+      return { canvasPath, status: "invalid", message: "The path must end with .canvas" };
+    }
+    if (app.vault.getAbstractFileByPath(canvasPath)) {
+      return {
+        canvasPath,
+        status: "exists",
+        message: `"${canvasPath}" already exists. Choose another path, or edit it with canvasEdit.`,
+      };
+    }
+
+    let text = content;
+    if (notePath) {
+      const note = app.vault.getAbstractFileByPath(notePath.trim().replace(/^\/+/, ""));
+      if (!(note instanceof TFile)) {
+        return { canvasPath, status: "invalid", message: `Note not found: ${notePath}` };
+      }
+      text = await app.vault.read(note);
+    }
+    if (!text?.trim()) {
+      return { canvasPath, status: "invalid", message: "Provide content or notePath to convert" };
+    }
+
+    let operations;
+    try {
+      const diagram = parseDiagram(text, format === "auto" ? undefined : format);
+      operations = diagramToCanvasOperations(diagram, canvasPath);
+    } catch (error) {
+      return {
+        canvasPath,
+        status: "invalid",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    // Written like any agent canvas edit, so it can be reviewed and rolled back
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath,
+      summary: "Create canvas from diagram",
+      operations,
+    });
+    if (outcome.status === "applied") {
+      return {
+        canvasPath,
+        status: "created",
+        nodeCount: operations.filter((op) => op.type === "add_node").length,
+        edgeCount: operations.filter((op) => op.type === "add_edge").length,
+        message: `Created "${canvasPath}". Use queryCanvas to look up node IDs before editing it.`,
+      };
+    }
+    return {
+      canvasPath,
+      status: outcome.status,
+      message:
+        outcome.status === "rejected"
+          ? "The user rejected the new canvas. Do not retry unless asked."
+          : `Nothing was written: ${outcome.error ?? outcome.errors[0]?.error}`,
+    };
+  },
+});
+
+const exportCanvasSchema = z.object({
+  path: z.string().describe("Vault-relative path of the .canvas file, without a leading slash"),
+  format: z
+    .enum(["mermaid", "outline"])
+    .describe("Mermaid flowchart, or nested markdown bullet outline"),
+  nodeIds: z
+    .array(z.string())
+    .optional()
+    .describe("Export only these nodes (e.g. from queryCanvas). Defaults to the whole canvas"),
+});
+
+const exportCanvasTool = createLangChainTool({
+  name: "exportCanvas",
+  description: `Export an Obsidian canvas, or some of its nodes, as a Mermaid flowchart or a nested markdown outline.
+Groups become subgraphs (or parent items in the outline) and edges become arrows (or nesting).`,
+  schema: exportCanvasSchema,
+  func: async ({ path, format, nodeIds }) => {
+    const canvasPath = path.trim().replace(/^\/+/, "");
+    const canvasData = await readCanvasFile(app.vault, canvasPath);
+    if (!canvasData) {
+      return {
+        canvasPath,
+        status: "unreadable",
+        message: `Failed to read canvas: ${canvasPath}. Check the path with getFileTree.`,
+      };
+    }
+
+    const diagram = await exportCanvasDiagram(app.vault, canvasData, format, nodeIds);
+    return { canvasPath, status: "ok", format, diagram };
+  },
+});
+
+export { convertToCanvasTool, exportCanvasTool };
@@ -0,0 +1,177 @@
+import { App, TFile } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { showCanvasPreview } from "@/components/composer/CanvasApplyView";
+import { applyCanvasEditBlock, toCanvasOperation } from "./CanvasEditTool";
+import { CanvasChangeJournal } from "./CanvasChangeJournal";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+jest.mock("@/settings/model", () => ({
+  getSettings: jest.fn(() => ({ autoAcceptEdits: false })),
+}));
+
+jest.mock("@/components/composer/CanvasApplyView", () => ({
+  showCanvasPreview: jest.fn(),
+}));
+
+const path = "boards/plan.canvas";
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [{ id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 }],
+    edges: [],
+  } as CanvasData;
+}
+
+/**
+ * Create an app mock backed by a single in-memory canvas file.
+ */
+function createApp() {
+  const file = new (TFile as any)(path);
+  let content = JSON.stringify(createCanvas());
+  const vault = {
+    getAbstractFileByPath: jest.fn((p: string) => (p === path ? file : null)),
+    read: jest.fn(async () => content),
+    modify: jest.fn(async (_file: TFile, next: string) => {
+      content = next;
+    }),
+  };
+  // An open canvas view whose unsaved edits reach the file when it is saved
+  const view = { file, pending: null as CanvasData | null, save: jest.fn() };
+  view.save.mockImplementation(async () => {
+    if (view.pending) content = JSON.stringify(view.pending);
+    view.pending = null;
+  });
+  const workspace = { getLeavesOfType: jest.fn(() => [{ view }]) };
+  return {
+    app: { vault, workspace } as unknown as App,
+    modify: vault.modify,
+    view,
+    getData: () => JSON.parse(content) as CanvasData,
+  };
+}
+
+describe("toCanvasOperation", () => {
+  it("converts flat tool inputs into canvas operations", () => {
+    expect(
+      toCanvasOperation(
+        { type: "add_node", id: "b", nodeType: "text", rightOf: "a", content: "Beta", x: 10.4 },
+        path
+      )
+    ).toMatchObject({ type: "add_node", nodeType: "text", x: 10, placement: { rightOf: "a" } });
+    expect(toCanvasOperation({ type: "update_edge", id: "e1", label: "", to: "b" }, path)).toEqual({
+      type: "update_edge",
+      id: "e1",
+      updates: { toNode: "b", label: "" },
+    });
+    expect(toCanvasOperation({ type: "create_canvas" }, path)).toEqual({
+      type: "create_canvas",
+      id: path,
+    });
+  });
+
+  it("reports missing required fields", () => {
+    expect(toCanvasOperation({ type: "add_edge", from: "a" }, path)).toBe(
+      "missing required field(s): to"
+    );
+    expect(toCanvasOperation({ type: "move_to_group", id: "g" }, path)).toBe(
+      "missing required field(s): nodes"
+    );
+  });
+});
+
+describe("applyCanvasEditBlock", () => {
+  beforeEach(() => {
+    CanvasChangeJournal.getInstance().clear();
+    jest.mocked(showCanvasPreview).mockReset();
+  });
+
+  it("writes the operations accepted in the preview and records a checkpoint", async () => {
+    const { app, modify, getData } = createApp();
+    jest.mocked(showCanvasPreview).mockResolvedValue({ result: "accepted", acceptedIndices: [0] });
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath: path,
+      summary: "Add beta",
+      operations: [
+        { type: "add_node", id: "b", nodeType: "text", rightOf: "a", content: "Beta" } as any,
+        { type: "delete_node", id: "a" },
+      ],
+    });
+
+    expect(outcome.status).toBe("applied");
+    expect(outcome.rejected.map((op) => op.id)).toEqual(["a"]);
+    expect(modify).toHaveBeenCalledTimes(1);
+    expect(getData().nodes.map((n) => n.id)).toEqual(["a", "b"]);
+    expect(CanvasChangeJournal.getInstance().getCheckpoint(outcome.checkpointId!)).toBeDefined();
+  });
+
+  it("returns validation errors without showing the preview", async () => {
+    const { app, modify } = createApp();
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath: path,
+      summary: "",
+      operations: [{ type: "fit_group", id: "a" }],
+    });
+
+    expect(outcome.status).toBe("invalid");
+    expect(outcome.errors[0].error).toBe('Node "a" is not a group');
+    expect(showCanvasPreview).not.toHaveBeenCalled();
+    expect(modify).not.toHaveBeenCalled();
+  });
+
+  it("skips the preview when asked to", async () => {
+    const { app } = createApp();
+
+    const outcome = await applyCanvasEditBlock(
+      app,
+      { canvasPath: path, summary: "", operations: [{ type: "delete_node", id: "a" }] },
+      { preview: false }
+    );
+
+    expect(outcome.status).toBe("applied");
+    expect(showCanvasPreview).not.toHaveBeenCalled();
+  });
+
+  it("keeps edits made in the open canvas view during the preview", async () => {
+    const { app, view, getData } = createApp();
+    jest.mocked(showCanvasPreview).mockImplementation(async () => {
+      view.pending = createCanvas();
+      view.pending.nodes[0].x = 80;
+      return { result: "accepted", acceptedIndices: [0] };
+    });
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath: path,
+      summary: "",
+      operations: [{ type: "update_node", id: "a", updates: { color: "4" } }],
+    });
+
+    expect(outcome.status).toBe("applied");
+    expect(getData().nodes[0]).toMatchObject({ x: 80, color: "4" });
+  });
+
+  it("reports a conflict when the user changed what the operations overwrite", async () => {
+    const { app, view, modify } = createApp();
+    jest.mocked(showCanvasPreview).mockImplementation(async () => {
+      view.pending = createCanvas();
+      (view.pending.nodes[0] as any).text = "Alpha, edited by hand";
+      return { result: "accepted", acceptedIndices: [0] };
+    });
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath: path,
+      summary: "",
+      operations: [{ type: "update_node", id: "a", updates: { content: "Rewritten" } }],
+    });
+
+    expect(outcome.status).toBe("conflict");
+    expect(outcome.errors[0].error).toContain('"a" was changed in the canvas (text)');
+    expect(modify).not.toHaveBeenCalled();
+  });
+});
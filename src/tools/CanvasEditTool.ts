@@ -0,0 +1,430 @@
+import { App } from "obsidian";
+import type { CanvasData, EdgeEnd, NodeSide } from "obsidian/canvas";
+import { z } from "zod";
+import { showCanvasPreview } from "@/components/composer/CanvasApplyView";
+import {
+  AddNodeOperation,
+  CanvasEditBlock,
+  CanvasOperation,
+  NodePlacement,
+  UpdateEdgeOperation,
+  UpdateNodeOperation,
+} from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { logInfo, logWarn } from "@/logger";
+import { getSettings } from "@/settings/model";
+import { CanvasChangeJournal } from "./CanvasChangeJournal";
+import { layoutCanvasOperations } from "./CanvasLayout";
+import {
+  CanvasOperationError,
+  executeCanvasOperations,
+  formatCanvasConflicts,
+  formatCanvasOperationErrors,
+  readCanvasForOperations,
+  saveOpenCanvasViews,
+  validateCanvasOperations,
+} from "./CanvasTools";
+import { createLangChainTool } from "./createLangChainTool";
+
+/**
+ * Result of applying one block of canvas operations.
+ * - applied: at least one operation was written (the rest were rejected by the user)
+ * - rejected: the user rejected every operation
+ * - invalid: the block failed validation and nothing was written
+ * - unreadable: the canvas could not be read
+ * - conflict: the canvas changed meanwhile in a way the operations would overwrite
+ * - failed: the write itself failed
+ */
+export interface CanvasEditOutcome {
+  status: "applied" | "rejected" | "invalid" | "unreadable" | "conflict" | "failed";
+  canvasPath: string;
+  summary: string;
+  /** Operations with resolved placement, in block order. */
+  operations: CanvasOperation[];
+  accepted: CanvasOperation[];
+  rejected: CanvasOperation[];
+  errors: CanvasOperationError[];
+  error?: string;
+  checkpointId?: string;
+}
+
+export interface ApplyCanvasEditOptions {
+  /** Operations already carry resolved placement (e.g. applied live while streaming). */
+  laidOut?: boolean;
+  /** Show the canvas preview view first. Defaults to on unless edits are auto-accepted. */
+  preview?: boolean;
+  /** Canvas the operations were planned against. Defaults to the canvas as read here. */
+  base?: CanvasData;
+}
+
+/**
+ * Apply a block of canvas operations the way every agent canvas edit is applied:
+ * lay out, validate, let the user review, write once, and record an undo checkpoint.
+ * Shared by canvas_edit blocks and the canvasEdit tool.
+ */
+export async function applyCanvasEditBlock(
+  app: App,
+  block: CanvasEditBlock,
+  options: ApplyCanvasEditOptions = {}
+): Promise<CanvasEditOutcome> {
+  const { canvasPath, summary } = block;
+  const outcome: CanvasEditOutcome = {
+    status: "unreadable",
+    canvasPath,
+    summary,
+    operations: block.operations,
+    accepted: [],
+    rejected: [],
+    errors: [],
+  };
+
+  // Pick up edits still pending in open canvas views before reading. Views of a
+  // live-applied block show its unwritten operations, so they are left alone.
+  const saveViews = () => (options.laidOut ? undefined : saveOpenCanvasViews(app, canvasPath));
+  await saveViews();
+  const canvasData = await readCanvasForOperations(app.vault, canvasPath, block.operations);
+  if (!canvasData) {
+    return { ...outcome, error: `Failed to read canvas: ${canvasPath}` };
+  }
+
+  // Resolve relative or missing node placement so the preview shows final positions
+  const operations = options.laidOut
+    ? block.operations
+    : layoutCanvasOperations(canvasData, block.operations);
+  outcome.operations = operations;
+
+  const validationErrors = validateCanvasOperations(canvasData, operations);
+  if (validationErrors.length > 0) {
+    logWarn(
+      `[CanvasEdit] Block rejected: ${validationErrors.length} invalid operation(s) on ${canvasPath}`
+    );
+    return { ...outcome, status: "invalid", errors: validationErrors };
+  }
+
+  // Let the user review the operations first unless edits are auto-accepted
+  let acceptedIndices = operations.map((_, index) => index);
+  if (options.preview ?? !getSettings().autoAcceptEdits) {
+    const decision = await showCanvasPreview(app, canvasPath, canvasData, operations);
+    acceptedIndices = decision.acceptedIndices;
+    logInfo(
+      `[CanvasEdit] Preview ${decision.result}: ${acceptedIndices.length}/${operations.length} operations accepted`
+    );
+  }
+
+  const acceptedSet = new Set(acceptedIndices);
+  outcome.accepted = operations.filter((_, index) => acceptedSet.has(index));
+  outcome.rejected = operations.filter((_, index) => !acceptedSet.has(index));
+  if (outcome.accepted.length === 0) {
+    return { ...outcome, status: "rejected" };
+  }
+
+  // The user may have kept editing the canvas while reviewing, so the operations
+  // are written on top of its current content rather than the copy read above
+  logInfo(`[CanvasEdit] Executing ${outcome.accepted.length} operations on ${canvasPath}`);
+  await saveViews();
+  const transaction = await executeCanvasOperations(
+    app.vault,
+    canvasPath,
+    outcome.accepted,
+    options.base ?? canvasData
+  );
+  if (transaction.conflict) {
+    logWarn(`[CanvasEdit] Canvas ${canvasPath} changed while the edit was pending`);
+    return { ...outcome, status: "conflict", errors: transaction.errors };
+  }
+  if (!transaction.success) {
+    logWarn(`[CanvasEdit] Transaction failed on ${canvasPath}`);
+    return { ...outcome, status: "failed", error: transaction.error, errors: transaction.errors };
+  }
+
+  // Record the applied block so it can be undone from the chat or the rollback command
+  const checkpoint = CanvasChangeJournal.getInstance().record(
+    canvasPath,
+    summary || "Canvas update",
+    transaction.changes
+  );
+
+  return { ...outcome, status: "applied", checkpointId: checkpoint?.id };
+}
+
+/* ---------- canvasEdit tool ---------- */
+
+const NODE_SIDES = ["top", "right", "bottom", "left"] as const;
+const EDGE_ENDS = ["none", "arrow"] as const;
+
+// One flat object per operation (rather than a union) so every provider accepts the schema
+const canvasOperationSchema = z.object({
+  type: z
+    .enum([
+      "add_node",
+      "update_node",
+      "delete_node",
+      "add_edge",
+      "update_edge",
+      "delete_edge",
+      "move_to_group",
+      "fit_group",
+      "create_canvas",
+    ])
+    .describe("Operation type"),
+  id: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the node, edge or group. Required except for add_edge (generated when omitted) and create_canvas"
+    ),
+  nodeType: z
+    .enum(["text", "file", "link", "group"])
+    .optional()
+    .describe("add_node: node type (required)"),
+  x: z.number().optional().describe("add_node/update_node: x coordinate"),
+  y: z.number().optional().describe("add_node/update_node: y coordinate"),
+  width: z.number().optional().describe("add_node/update_node: width"),
+  height: z.number().optional().describe("add_node/update_node: height"),
+  rightOf: z.string().optional().describe("add_node: place right of this node instead of x/y"),
+  below: z.string().optional().describe("add_node: place below this node instead of x/y"),
+  inGroup: z.string().optional().describe("add_node: place inside this group instead of x/y"),
+  content: z.string().optional().describe("add_node/update_node: markdown text of a text node"),
+  file: z.string().optional().describe("add_node/update_node: vault path of a file node"),
+  subpath: z
+    .string()
+    .optional()
+    .describe('update_node: heading or block of a file node, e.g. "#Heading"'),
+  url: z.string().optional().describe("add_node/update_node: URL of a link node"),
+  label: z
+    .string()
+    .optional()
+    .describe("Group label, or edge label. On update_edge an empty string removes it"),
+  color: z
+    .string()
+    .optional()
+    .describe('Preset "1"-"6" or hex color. On update_edge an empty string removes it'),
+  from: z.string().optional().describe("add_edge (required)/update_edge: source node ID"),
+  to: z.string().optional().describe("add_edge (required)/update_edge: target node ID"),
+  fromSide: z.enum(NODE_SIDES).optional().describe("add_edge/update_edge: side of the source"),
+  toSide: z.enum(NODE_SIDES).optional().describe("add_edge/update_edge: side of the target"),
+  fromEnd: z.enum(EDGE_ENDS).optional().describe("add_edge/update_edge: arrow at the source"),
+  toEnd: z.enum(EDGE_ENDS).optional().describe("add_edge/update_edge: arrow at the target"),
+  nodes: z
+    .array(z.string())
+    .optional()
+    .describe("move_to_group: IDs of the nodes to move into the group (id)"),
+});
+
+export type CanvasOperationInput = z.infer<typeof canvasOperationSchema>;
+
+const canvasEditSchema = z.object({
+  path: z.string().describe("Vault-relative path of the .canvas file, without a leading slash"),
+  summary: z.string().optional().describe("Brief description of the change, shown to the user"),
+  operations: z
+    .array(canvasOperationSchema)
+    .min(1)
+    .describe(
+      "Operations applied in order as one transaction. Later operations may refer to nodes created earlier."
+    ),
+});
+
+/**
+ * Convert a tool-call operation into a canvas operation.
+ * @returns The operation, or an error message describing what is missing
+ */
+export function toCanvasOperation(
+  input: CanvasOperationInput,
+  canvasPath: string
+): CanvasOperation | string {
+  const requireFields = (...keys: Array<keyof CanvasOperationInput>): string | null => {
+    const missing = keys.filter((key) => input[key] === undefined || input[key] === "");
+    return missing.length > 0 ? `missing required field(s): ${missing.join(", ")}` : null;
+  };
+
+  switch (input.type) {
+    case "add_node": {
+      const missing = requireFields("id", "nodeType");
+      if (missing) return missing;
+      const placement: NodePlacement = {};
+      if (input.rightOf) placement.rightOf = input.rightOf;
+      if (input.below) placement.below = input.below;
+      if (input.inGroup) placement.inGroup = input.inGroup;
+      return {
+        type: "add_node",
+        id: input.id!,
+        nodeType: input.nodeType as AddNodeOperation["nodeType"],
+        x: roundCoordinate(input.x),
+        y: roundCoordinate(input.y),
+        width: roundCoordinate(input.width),
+        height: roundCoordinate(input.height),
+        placement: Object.keys(placement).length > 0 ? placement : undefined,
+        content: input.content,
+        file: input.file,
+        url: input.url,
+        label: input.label,
+        color: input.color,
+      };
+    }
+
+    case "update_node": {
+      const missing = requireFields("id");
+      if (missing) return missing;
+      const updates: UpdateNodeOperation["updates"] = {};
+      for (const key of ["x", "y", "width", "height"] as const) {
+        if (input[key] !== undefined) updates[key] = roundCoordinate(input[key]);
+      }
+      for (const key of ["content", "color", "label", "file", "subpath", "url"] as const) {
+        if (input[key] !== undefined) updates[key] = input[key];
+      }
+      return { type: "update_node", id: input.id!, updates };
+    }
+
+    case "add_edge": {
+      const missing = requireFields("from", "to");
+      if (missing) return missing;
+      return {
+        type: "add_edge",
+        id: input.id || `edge_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        fromNode: input.from!,
+        toNode: input.to!,
+        fromSide: input.fromSide as NodeSide | undefined,
+        toSide: input.toSide as NodeSide | undefined,
+        fromEnd: input.fromEnd as EdgeEnd | undefined,
+        toEnd: input.toEnd as EdgeEnd | undefined,
+        label: input.label,
+        color: input.color,
+      };
+    }
+
+    case "update_edge": {
+      const missing = requireFields("id");
+      if (missing) return missing;
+      const updates: UpdateEdgeOperation["updates"] = {};
+      if (input.from) updates.fromNode = input.from;
+      if (input.to) updates.toNode = input.to;
+      if (input.fromSide) updates.fromSide = input.fromSide;
+      if (input.toSide) updates.toSide = input.toSide;
+      if (input.fromEnd) updates.fromEnd = input.fromEnd;
+      if (input.toEnd) updates.toEnd = input.toEnd;
+      if (input.label !== undefined) updates.label = input.label;
+      if (input.color !== undefined) updates.color = input.color;
+      return { type: "update_edge", id: input.id!, updates };
+    }
+
+    case "move_to_group": {
+      const missing = requireFields("id", "nodes");
+      if (missing) return missing;
+      return { type: "move_to_group", id: input.id!, nodeIds: input.nodes! };
+    }
+
+    case "delete_node":
+    case "delete_edge":
+    case "fit_group": {
+      const missing = requireFields("id");
+      if (missing) return missing;
+      return { type: input.type, id: input.id! };
+    }
+
+    case "create_canvas":
+      return { type: "create_canvas", id: canvasPath };
+
+    default:
+      return `unknown operation type "${input.type}"`;
+  }
+}
+
+function roundCoordinate(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value);
+}
+
+const canvasEditTool = createLangChainTool({
+  name: "canvasEdit",
+  description: `Edit an Obsidian canvas (.canvas file): add, update and delete nodes and edges, move nodes into groups, fit groups, or create a new canvas.
+All operations are validated together and applied as one transaction: either every operation is written or none is.
+Failed validation is reported per operation so you can fix the operations and call the tool again.`,
+  schema: canvasEditSchema,
+  func: async ({ path, summary, operations: inputs }) => {
+    const canvasPath = path.trim().replace(/^\/+/, "");
+    const conversionErrors: CanvasOperationError[] = [];
+    const operations: CanvasOperation[] = [];
+    inputs.forEach((input, index) => {
+      const converted = toCanvasOperation(input, canvasPath);
+      if (typeof converted === "string") {
+        conversionErrors.push({
+          index,
+          operationId: input.id ?? "",
+          operationType: input.type,
+          error: converted,
+        });
+      } else {
+        operations.push(converted);
+      }
+    });
+
+    if (conversionErrors.length > 0) {
+      return {
+        canvasPath,
+        status: "invalid",
+        message: formatCanvasOperationErrors(canvasPath, conversionErrors, "canvasEdit"),
+      };
+    }
+
+    const outcome = await applyCanvasEditBlock(app, {
+      canvasPath,
+      summary: summary ?? "",
+      operations,
+    });
+    return formatCanvasEditOutcome(outcome);
+  },
+});
+
+/**
+ * Describe an outcome as a tool result the agent can act on.
+ */
+function formatCanvasEditOutcome(outcome: CanvasEditOutcome) {
+  const { canvasPath, status } = outcome;
+
+  switch (status) {
+    case "applied":
+      return {
+        canvasPath,
+        status,
+        checkpointId: outcome.checkpointId,
+        message:
+          `Applied ${outcome.accepted.length} operation(s) to "${canvasPath}".` +
+          (outcome.rejected.length > 0
+            ? ` The user rejected: ${outcome.rejected.map((op) => `${op.type} (${op.id})`).join(", ")}. Do not retry rejected operations unless asked.`
+            : ""),
+      };
+    case "rejected":
+      return {
+        canvasPath,
+        status,
+        message:
+          "The user rejected all operations. Nothing was written; do not retry unless asked.",
+      };
+    case "invalid":
+      return {
+        canvasPath,
+        status,
+        message: formatCanvasOperationErrors(canvasPath, outcome.errors, "canvasEdit"),
+      };
+    case "unreadable":
+      return {
+        canvasPath,
+        status,
+        message: `${outcome.error}. Check the path with getFileTree, or start the operations with create_canvas to create a new canvas.`,
+      };
+    case "conflict":
+      return {
+        canvasPath,
+        status,
+        message: formatCanvasConflicts(canvasPath, outcome.errors),
+      };
+    default:
+      return {
+        canvasPath,
+        status,
+        message: outcome.error
+          ? `Nothing was written: ${outcome.error}`
+          : formatCanvasOperationErrors(canvasPath, outcome.errors, "canvasEdit"),
+      };
+  }
+}
+
+export { canvasEditTool };
@@ -0,0 +1,163 @@
+import { CanvasData } from "obsidian/canvas";
+import {
+  AddNodeOperation,
+  CanvasOperation,
+} from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { estimateTextNodeSize, layoutCanvasOperations, tidyCanvasNodes } from "./CanvasLayout";
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "root", type: "text", text: "Root", x: 0, y: 0, width: 200, height: 100 },
+      { id: "blocker", type: "text", text: "In the way", x: 280, y: 0, width: 200, height: 100 },
+      { id: "group", type: "group", label: "G", x: 0, y: 400, width: 300, height: 200 },
+    ],
+    edges: [],
+  } as CanvasData;
+}
+
+function textNode(id: string, extra: Partial<AddNodeOperation> = {}): AddNodeOperation {
+  return { type: "add_node", id, nodeType: "text", content: id, ...extra };
+}
+
+function boxes(ops: CanvasOperation[]): Record<string, Box> {
+  return Object.fromEntries(
+    ops
+      .filter((op): op is AddNodeOperation => op.type === "add_node")
+      .map((op) => [op.id, { x: op.x!, y: op.y!, width: op.width!, height: op.height! }])
+  );
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+describe("estimateTextNodeSize", () => {
+  it("grows with content within bounds", () => {
+    const short = estimateTextNodeSize("Hi");
+    const long = estimateTextNodeSize("word ".repeat(200));
+
+    expect(short).toEqual({ width: 200, height: 64 });
+    expect(long.width).toBe(400);
+    expect(long.height).toBeGreaterThan(short.height);
+    expect(long.height).toBeLessThanOrEqual(600);
+  });
+});
+
+describe("layoutCanvasOperations", () => {
+  it("leaves fully positioned operations untouched", () => {
+    const ops: CanvasOperation[] = [
+      textNode("a", { x: 10, y: 20, width: 100, height: 50 }),
+      { type: "delete_node", id: "root" },
+    ];
+    expect(layoutCanvasOperations(createCanvas(), ops)).toEqual(ops);
+  });
+
+  it("places nodes right of an anchor without overlapping existing nodes", () => {
+    const canvas = createCanvas();
+    const laidOut = boxes(
+      layoutCanvasOperations(canvas, [textNode("a", { placement: { rightOf: "root" } })])
+    );
+
+    expect(laidOut.a.x).toBeGreaterThan(200);
+    for (const node of canvas.nodes) {
+      expect(overlaps(laidOut.a, node)).toBe(false);
+    }
+  });
+
+  it("lays out siblings below an anchor as a row", () => {
+    const laidOut = boxes(
+      layoutCanvasOperations(createCanvas(), [
+        textNode("a", { placement: { below: "root" } }),
+        textNode("b", { placement: { below: "root" } }),
+      ])
+    );
+
+    expect(laidOut.a.y).toBe(laidOut.b.y);
+    expect(laidOut.a.y).toBeGreaterThanOrEqual(100);
+    expect(laidOut.b.x).toBeGreaterThan(laidOut.a.x + laidOut.a.width);
+  });
+
+  it("builds a tree from edges in the same block", () => {
+    const laidOut = boxes(
+      layoutCanvasOperations({ nodes: [], edges: [] }, [
+        textNode("parent"),
+        textNode("child1"),
+        textNode("child2"),
+        { type: "add_edge", id: "e1", fromNode: "parent", toNode: "child1" },
+        { type: "add_edge", id: "e2", fromNode: "parent", toNode: "child2" },
+      ])
+    );
+
+    expect(laidOut.parent).toMatchObject({ x: 0, y: 0 });
+    expect(laidOut.child1.x).toBeGreaterThan(laidOut.parent.width);
+    expect(laidOut.child1.x).toBe(laidOut.child2.x);
+    expect(overlaps(laidOut.child1, laidOut.child2)).toBe(false);
+  });
+
+  it("places nodes inside a group and grows the group to fit", () => {
+    const ops = layoutCanvasOperations(
+      createCanvas(),
+      ["a", "b", "c", "d"].map((id) => textNode(id, { placement: { inGroup: "group" } }))
+    );
+    const laidOut = boxes(ops);
+
+    expect(laidOut.a).toMatchObject({ x: 40, y: 440 });
+    expect(ops).toHaveLength(5);
+    const resize = ops[4];
+    expect(resize).toMatchObject({ type: "update_node", id: "group" });
+    const { width, height } = (resize as any).updates;
+    for (const box of Object.values(laidOut)) {
+      expect(box.x + box.width).toBeLessThanOrEqual(width);
+      expect(box.y + box.height).toBeLessThanOrEqual(400 + height);
+    }
+  });
+
+  it("sizes new groups around their children", () => {
+    const laidOut = boxes(
+      layoutCanvasOperations({ nodes: [], edges: [] }, [
+        { type: "add_node", id: "g", nodeType: "group", label: "Ideas" },
+        textNode("a", { placement: { inGroup: "g" } }),
+        textNode("b", { placement: { inGroup: "g" } }),
+      ])
+    );
+
+    for (const id of ["a", "b"]) {
+      expect(laidOut[id].x).toBeGreaterThan(laidOut.g.x);
+      expect(laidOut[id].x + laidOut[id].width).toBeLessThan(laidOut.g.x + laidOut.g.width);
+      expect(laidOut[id].y + laidOut[id].height).toBeLessThan(laidOut.g.y + laidOut.g.height);
+    }
+  });
+
+  it("places unanchored nodes beside the existing content", () => {
+    const laidOut = boxes(layoutCanvasOperations(createCanvas(), [textNode("a")]));
+    expect(laidOut.a.x).toBeGreaterThan(480);
+  });
+});
+
+describe("tidyCanvasNodes", () => {
+  it("moves selected nodes into a tree anchored at the selection", () => {
+    const canvas: CanvasData = {
+      nodes: [
+        { id: "a", type: "text", text: "A", x: 100, y: 100, width: 200, height: 100 },
+        { id: "b", type: "text", text: "B", x: 120, y: 130, width: 200, height: 100 },
+        { id: "c", type: "text", text: "C", x: 900, y: 900, width: 200, height: 100 },
+      ],
+      edges: [{ id: "e", fromNode: "a", toNode: "b" }],
+    } as CanvasData;
+
+    const ops = tidyCanvasNodes(canvas, ["a", "b"]);
+    const moved = Object.fromEntries(ops.map((op) => [op.id, op.updates]));
+
+    expect(moved.a).toBeUndefined();
+    expect(moved.b.x).toBeGreaterThan(300);
+    expect(ops.every((op) => op.type === "update_node")).toBe(true);
+  });
+});
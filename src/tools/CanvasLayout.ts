@@ -0,0 +1,641 @@
+/**
+ * Layout engine for canvas operations.
+ * Resolves `add_node` operations with missing or relative placement ("right of X",
+ * "below X", "inside group G") to absolute coordinates: siblings of the same anchor
+ * are laid out as a tree column/row, nodes inside a group as a grid, unanchored nodes
+ * as a grid beside the existing content, and every placement avoids existing nodes.
+ * Also provides the group geometry used by the move_to_group and fit_group operations.
+ */
+
+import { AllCanvasNodeData, CanvasData } from "obsidian/canvas";
+import {
+  AddNodeOperation,
+  CanvasOperation,
+  UpdateNodeOperation,
+} from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+
+/** Horizontal gap between neighbouring nodes. */
+const H_GAP = 80;
+/** Vertical gap between neighbouring nodes. */
+const V_GAP = 40;
+/** Padding between a group's border and its children. */
+const GROUP_PADDING = 40;
+/** Upper bound on collision-avoidance shifts for a single node. */
+const MAX_COLLISION_SHIFTS = 500;
+
+const TEXT_CHAR_WIDTH = 8;
+const TEXT_LINE_HEIGHT = 24;
+const TEXT_PADDING = 40;
+const TEXT_MIN_WIDTH = 200;
+const TEXT_MAX_WIDTH = 400;
+const TEXT_MIN_HEIGHT = 60;
+const TEXT_MAX_HEIGHT = 600;
+
+const DEFAULT_NODE_SIZES: Record<AddNodeOperation["nodeType"], { width: number; height: number }> =
+  {
+    text: { width: 250, height: 60 },
+    file: { width: 400, height: 400 },
+    link: { width: 400, height: 300 },
+    group: { width: 600, height: 400 },
+  };
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type AnchorDirection = "right" | "below" | "inside";
+
+interface Anchor {
+  direction: AnchorDirection;
+  ref: string;
+}
+
+/** An add_node operation whose geometry has been resolved. */
+export type PositionedAddNodeOperation = AddNodeOperation &
+  Required<Pick<AddNodeOperation, "x" | "y" | "width" | "height">>;
+
+export interface CanvasLayoutOptions {
+  /** Top-left corner for unanchored nodes. Defaults to the right of the existing content. */
+  origin?: { x: number; y: number };
+}
+
+/**
+ * Estimate the size of a text node from its content.
+ */
+export function estimateTextNodeSize(text: string): { width: number; height: number } {
+  const lines = text.split("\n");
+  const longestLine = Math.max(0, ...lines.map((line) => line.length));
+  const width = clamp(longestLine * TEXT_CHAR_WIDTH + TEXT_PADDING, TEXT_MIN_WIDTH, TEXT_MAX_WIDTH);
+
+  const charsPerLine = Math.max(1, Math.floor((width - TEXT_PADDING) / TEXT_CHAR_WIDTH));
+  const wrappedLines = lines.reduce(
+    (total, line) => total + Math.max(1, Math.ceil(line.length / charsPerLine)),
+    0
+  );
+  const height = clamp(
+    wrappedLines * TEXT_LINE_HEIGHT + TEXT_PADDING,
+    TEXT_MIN_HEIGHT,
+    TEXT_MAX_HEIGHT
+  );
+
+  return { width, height };
+}
+
+/**
+ * Resolve the geometry of a single add_node operation against the current canvas.
+ * Operations that already carry full geometry are returned unchanged.
+ */
+export function positionAddNode(
+  canvasData: CanvasData,
+  operation: AddNodeOperation
+): PositionedAddNodeOperation {
+  if (isPositioned(operation)) {
+    return operation;
+  }
+  return layoutCanvasOperations(canvasData, [operation])[0] as PositionedAddNodeOperation;
+}
+
+/**
+ * Resolve every add_node operation in a block to absolute geometry.
+ * Operations are returned in their original order, followed by an update_node for
+ * each existing group that has to grow to fit the children placed inside it.
+ */
+export function layoutCanvasOperations(
+  canvasData: CanvasData,
+  operations: CanvasOperation[],
+  options: CanvasLayoutOptions = {}
+): CanvasOperation[] {
+  const result = operations.map((op) => (op.type === "add_node" ? { ...op } : op));
+  const addOps = result.filter((op): op is AddNodeOperation => op.type === "add_node");
+  const pending = addOps.filter((op) => op.x === undefined || op.y === undefined);
+
+  if (addOps.every(isPositioned)) {
+    return result;
+  }
+
+  const blockEdges = result.filter((op) => op.type === "add_edge");
+  const anchors = new Map<string, Anchor | null>(
+    pending.map((op) => [op.id, getAnchor(op, blockEdges)])
+  );
+
+  // Children placed inside each group, to size new groups and grow existing ones
+  const groupChildren = new Map<string, AddNodeOperation[]>();
+  for (const op of pending) {
+    const anchor = anchors.get(op.id);
+    if (anchor?.direction === "inside") {
+      groupChildren.set(anchor.ref, [...(groupChildren.get(anchor.ref) ?? []), op]);
+    }
+  }
+
+  for (const op of addOps) {
+    applyDefaultSize(op, groupChildren);
+  }
+
+  const rects = new Map<string, Rect>();
+  const groupIds = new Set<string>();
+  for (const node of canvasData.nodes) {
+    rects.set(node.id, toRect(node));
+    if (node.type === "group") groupIds.add(node.id);
+  }
+  for (const op of addOps) {
+    if (op.nodeType === "group") groupIds.add(op.id);
+    if (isPositioned(op)) rects.set(op.id, toRect(op));
+  }
+
+  const contentBounds = getBounds([...rects.values()]);
+  const origin = options.origin ?? {
+    x: contentBounds ? contentBounds.x + contentBounds.width + H_GAP * 2 : 0,
+    y: contentBounds ? contentBounds.y : 0,
+  };
+
+  // Place anchored siblings together once their anchor has a position; anything whose
+  // anchor never resolves (unknown ID or a cycle) falls back to the free grid
+  let remaining = [...pending];
+  let progress = true;
+  while (remaining.length > 0 && progress) {
+    progress = false;
+    const siblingGroups = groupBy(
+      remaining.filter((op) => {
+        const anchor = anchors.get(op.id);
+        return anchor && rects.has(anchor.ref);
+      }),
+      (op) => {
+        const anchor = anchors.get(op.id)!;
+        return `${anchor.direction}:${anchor.ref}`;
+      }
+    );
+
+    for (const siblings of siblingGroups.values()) {
+      const anchor = anchors.get(siblings[0].id)!;
+      placeSiblings(siblings, anchor, rects, groupIds);
+      progress = true;
+    }
+
+    remaining = remaining.filter((op) => !rects.has(op.id));
+
+    if (!progress && remaining.length > 0) {
+      // Place the first unanchored (or unresolvable) nodes to unlock their descendants
+      const roots = remaining.filter((op) => {
+        const anchor = anchors.get(op.id);
+        return !anchor || !isResolvable(anchor.ref, anchors, rects);
+      });
+      const free = roots.length > 0 ? roots : [remaining[0]];
+      placeGrid(free, origin, rects, groupIds, new Set());
+      remaining = remaining.filter((op) => !rects.has(op.id));
+      progress = true;
+    }
+  }
+
+  return growGroups(result, groupChildren, rects, canvasData);
+}
+
+/**
+ * Compute update_node operations that tidy up the selected nodes.
+ * Connected nodes are laid out as a left-to-right tree and unconnected ones as a
+ * grid, starting at the top-left corner of the current selection.
+ */
+export function tidyCanvasNodes(canvasData: CanvasData, nodeIds: string[]): UpdateNodeOperation[] {
+  const selectedIds = new Set(nodeIds);
+  const selected = canvasData.nodes
+    .filter((node) => selectedIds.has(node.id) && node.type !== "group")
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+
+  if (selected.length === 0) {
+    return [];
+  }
+
+  const movableIds = new Set(selected.map((node) => node.id));
+  const bounds = getBounds(selected.map(toRect))!;
+  // Groups around the selection must not push the nodes out of them
+  const base: CanvasData = {
+    nodes: canvasData.nodes.filter(
+      (node) =>
+        !movableIds.has(node.id) && !(node.type === "group" && contains(toRect(node), bounds))
+    ),
+    edges: [],
+  };
+
+  const virtualOps: CanvasOperation[] = [
+    ...selected.map(
+      (node): AddNodeOperation => ({
+        type: "add_node",
+        id: node.id,
+        nodeType: node.type as AddNodeOperation["nodeType"],
+        width: node.width,
+        height: node.height,
+      })
+    ),
+    ...canvasData.edges
+      .filter((edge) => movableIds.has(edge.fromNode) && movableIds.has(edge.toNode))
+      .map(
+        (edge): CanvasOperation => ({
+          type: "add_edge",
+          id: edge.id,
+          fromNode: edge.fromNode,
+          toNode: edge.toNode,
+          fromSide: edge.fromSide,
+          toSide: edge.toSide,
+        })
+      ),
+  ];
+
+  const laidOut = layoutCanvasOperations(base, virtualOps, {
+    origin: { x: bounds.x, y: bounds.y },
+  });
+
+  return laidOut.flatMap((op) => {
+    if (op.type !== "add_node") return [];
+    const original = selected.find((node) => node.id === op.id)!;
+    if (original.x === op.x && original.y === op.y) return [];
+    return [{ type: "update_node", id: op.id, updates: { x: op.x, y: op.y } }];
+  });
+}
+
+/**
+ * Nodes lying entirely inside a group, including members of nested groups.
+ */
+export function getGroupMembers(canvasData: CanvasData, groupId: string): AllCanvasNodeData[] {
+  const group = canvasData.nodes.find((node) => node.id === groupId);
+  if (!group) return [];
+  const bounds = toRect(group);
+  return canvasData.nodes.filter((node) => node.id !== groupId && contains(bounds, toRect(node)));
+}
+
+/**
+ * Geometry of a group shrunk or grown to enclose its members with padding.
+ * Returns null when the group has no members.
+ */
+export function fitGroupToMembers(canvasData: CanvasData, groupId: string): Rect | null {
+  const bounds = getBounds(getGroupMembers(canvasData, groupId).map(toRect));
+  if (!bounds) return null;
+  return {
+    x: bounds.x - GROUP_PADDING,
+    y: bounds.y - GROUP_PADDING,
+    width: bounds.width + GROUP_PADDING * 2,
+    height: bounds.height + GROUP_PADDING * 2,
+  };
+}
+
+/**
+ * Compute new positions for nodes moved into a group. The nodes keep their
+ * arrangement and go below the group's current members; members of moved groups
+ * move along. The group grows to fit, but never shrinks.
+ */
+export function moveNodesIntoGroup(
+  canvasData: CanvasData,
+  groupId: string,
+  nodeIds: string[]
+): { positions: Map<string, { x: number; y: number }>; group: Rect } {
+  const group = toRect(canvasData.nodes.find((node) => node.id === groupId)!);
+  const requested = canvasData.nodes.filter((node) => nodeIds.includes(node.id));
+  const movingIds = new Set(requested.map((node) => node.id));
+  for (const node of requested) {
+    if (node.type === "group") {
+      getGroupMembers(canvasData, node.id).forEach((member) => movingIds.add(member.id));
+    }
+  }
+  movingIds.delete(groupId);
+
+  const moving = canvasData.nodes.filter((node) => movingIds.has(node.id));
+  const members = getGroupMembers(canvasData, groupId).filter((node) => !movingIds.has(node.id));
+  const movingBounds = getBounds(moving.map(toRect))!;
+  const memberBounds = getBounds(members.map(toRect));
+
+  // Nodes already inside the group stay where they are
+  const alreadyInside = moving.every((node) => contains(group, toRect(node)));
+  const target = {
+    x: group.x + GROUP_PADDING,
+    y: memberBounds ? memberBounds.y + memberBounds.height + V_GAP : group.y + GROUP_PADDING,
+  };
+  const dx = alreadyInside ? 0 : target.x - movingBounds.x;
+  const dy = alreadyInside ? 0 : target.y - movingBounds.y;
+
+  const positions = new Map(moving.map((node) => [node.id, { x: node.x + dx, y: node.y + dy }]));
+  const contentBounds = getBounds([
+    ...members.map(toRect),
+    ...moving.map((node) => ({ ...toRect(node), x: node.x + dx, y: node.y + dy })),
+  ])!;
+
+  return {
+    positions,
+    group: {
+      ...group,
+      width: Math.max(group.width, contentBounds.x + contentBounds.width + GROUP_PADDING - group.x),
+      height: Math.max(
+        group.height,
+        contentBounds.y + contentBounds.height + GROUP_PADDING - group.y
+      ),
+    },
+  };
+}
+
+/* ---------- Helpers ---------- */
+
+function isPositioned(op: AddNodeOperation): op is PositionedAddNodeOperation {
+  return (
+    op.x !== undefined && op.y !== undefined && op.width !== undefined && op.height !== undefined
+  );
+}
+
+/**
+ * Determine what a node should be placed relative to: explicit placement first,
+ * then the source of the first edge pointing at it in the same block.
+ */
+function getAnchor(op: AddNodeOperation, blockEdges: CanvasOperation[]): Anchor | null {
+  if (op.placement?.inGroup) return { direction: "inside", ref: op.placement.inGroup };
+  if (op.placement?.rightOf) return { direction: "right", ref: op.placement.rightOf };
+  if (op.placement?.below) return { direction: "below", ref: op.placement.below };
+
+  for (const edge of blockEdges) {
+    if (edge.type === "add_edge" && edge.toNode === op.id && edge.fromNode !== op.id) {
+      const vertical = edge.fromSide === "bottom" || edge.toSide === "top";
+      return { direction: vertical ? "below" : "right", ref: edge.fromNode };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether an anchor chain eventually reaches a node that will be positioned:
+ * an existing node or an unanchored node of the block. Unknown IDs and cycles do not.
+ */
+function isResolvable(
+  ref: string,
+  anchors: Map<string, Anchor | null>,
+  rects: Map<string, Rect>
+): boolean {
+  const seen = new Set<string>();
+  let current = ref;
+  while (!seen.has(current)) {
+    if (rects.has(current)) return true;
+    if (!anchors.has(current)) return false;
+    const next = anchors.get(current);
+    if (!next) return true;
+    seen.add(current);
+    current = next.ref;
+  }
+  return false;
+}
+
+/**
+ * Fill in a missing size. New groups are sized to fit the grid of their children,
+ * sizing nested groups first.
+ */
+function applyDefaultSize(
+  op: AddNodeOperation,
+  groupChildren: Map<string, AddNodeOperation[]>,
+  visiting = new Set<string>()
+): void {
+  if ((op.width !== undefined && op.height !== undefined) || visiting.has(op.id)) return;
+  visiting.add(op.id);
+
+  let size = DEFAULT_NODE_SIZES[op.nodeType] ?? DEFAULT_NODE_SIZES.text;
+  const children = groupChildren.get(op.id);
+  if (op.nodeType === "text") {
+    size = estimateTextNodeSize(op.content ?? "");
+  } else if (op.nodeType === "group" && children && children.length > 0) {
+    children.forEach((child) => applyDefaultSize(child, groupChildren, visiting));
+    const grid = getGridSize(children);
+    size = {
+      width: grid.width + GROUP_PADDING * 2,
+      height: grid.height + GROUP_PADDING * 2,
+    };
+  }
+
+  op.width = op.width ?? size.width;
+  op.height = op.height ?? size.height;
+}
+
+function placeSiblings(
+  siblings: AddNodeOperation[],
+  anchor: Anchor,
+  rects: Map<string, Rect>,
+  groupIds: Set<string>
+): void {
+  const ref = rects.get(anchor.ref)!;
+  // Groups that contain the anchor are not obstacles for its neighbours
+  const excluded = new Set(
+    [...groupIds].filter((id) => id !== anchor.ref && contains(rects.get(id), ref))
+  );
+
+  if (anchor.direction === "inside") {
+    excluded.add(anchor.ref);
+    placeGrid(
+      siblings,
+      { x: ref.x + GROUP_PADDING, y: ref.y + GROUP_PADDING },
+      rects,
+      groupIds,
+      excluded
+    );
+    return;
+  }
+
+  if (anchor.direction === "right") {
+    const totalHeight =
+      siblings.reduce((sum, op) => sum + op.height!, 0) + V_GAP * (siblings.length - 1);
+    let y = ref.y + ref.height / 2 - totalHeight / 2;
+    for (const op of siblings) {
+      place(op, { x: ref.x + ref.width + H_GAP, y }, "down", rects, excluded);
+      y = rects.get(op.id)!.y + op.height! + V_GAP;
+    }
+    return;
+  }
+
+  const totalWidth =
+    siblings.reduce((sum, op) => sum + op.width!, 0) + H_GAP * (siblings.length - 1);
+  let x = ref.x + ref.width / 2 - totalWidth / 2;
+  for (const op of siblings) {
+    place(op, { x, y: ref.y + ref.height + V_GAP }, "right", rects, excluded);
+    x = rects.get(op.id)!.x + op.width! + H_GAP;
+  }
+}
+
+function placeGrid(
+  ops: AddNodeOperation[],
+  origin: { x: number; y: number },
+  rects: Map<string, Rect>,
+  groupIds: Set<string>,
+  excluded: Set<string>
+): void {
+  const columns = Math.ceil(Math.sqrt(ops.length));
+  const cellWidth = Math.max(...ops.map((op) => op.width!));
+  const cellHeight = Math.max(...ops.map((op) => op.height!));
+
+  ops.forEach((op, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    place(
+      op,
+      {
+        x: origin.x + column * (cellWidth + H_GAP),
+        y: origin.y + row * (cellHeight + V_GAP),
+      },
+      "down",
+      rects,
+      excluded
+    );
+  });
+
+  // Groups placed on the grid are obstacles for everything placed after them
+  ops.filter((op) => op.nodeType === "group").forEach((op) => groupIds.add(op.id));
+}
+
+/**
+ * Place a node at the first collision-free position from the candidate, shifting
+ * past overlapping nodes in the given direction.
+ */
+function place(
+  op: AddNodeOperation,
+  candidate: { x: number; y: number },
+  shift: "down" | "right",
+  rects: Map<string, Rect>,
+  excluded: Set<string>
+): void {
+  const rect: Rect = {
+    x: Math.round(candidate.x),
+    y: Math.round(candidate.y),
+    width: op.width!,
+    height: op.height!,
+  };
+  const obstacles = [...rects.entries()]
+    .filter(([id]) => id !== op.id && !excluded.has(id))
+    .map(([, obstacle]) => obstacle);
+
+  for (let i = 0; i < MAX_COLLISION_SHIFTS; i++) {
+    const hit = obstacles.find((obstacle) => overlaps(rect, obstacle));
+    if (!hit) break;
+    if (shift === "down") {
+      rect.y = hit.y + hit.height + V_GAP;
+    } else {
+      rect.x = hit.x + hit.width + H_GAP;
+    }
+  }
+
+  op.x = rect.x;
+  op.y = rect.y;
+  rects.set(op.id, rect);
+}
+
+/**
+ * Enlarge groups to fit the children placed inside them. New groups are resized in
+ * place; existing groups get an update_node appended to the block, so the indices of
+ * the original operations do not change.
+ */
+function growGroups(
+  operations: CanvasOperation[],
+  groupChildren: Map<string, AddNodeOperation[]>,
+  rects: Map<string, Rect>,
+  canvasData: CanvasData
+): CanvasOperation[] {
+  const resizes: UpdateNodeOperation[] = [];
+
+  // Grow nested groups before the groups around them
+  const parents = new Map<string, string>();
+  for (const [groupId, children] of groupChildren) {
+    children.forEach((child) => parents.set(child.id, groupId));
+  }
+  const depth = (id: string): number => {
+    let count = 0;
+    for (
+      let parent = parents.get(id);
+      parent && count <= parents.size;
+      parent = parents.get(parent)
+    ) {
+      count++;
+    }
+    return count;
+  };
+  const innermostFirst = [...groupChildren].sort(([a], [b]) => depth(b) - depth(a));
+
+  for (const [groupId, children] of innermostFirst) {
+    const group = rects.get(groupId);
+    const childBounds = getBounds(children.map((child) => rects.get(child.id)!));
+    if (!group || !childBounds) continue;
+
+    const width = Math.max(
+      group.width,
+      childBounds.x + childBounds.width + GROUP_PADDING - group.x
+    );
+    const height = Math.max(
+      group.height,
+      childBounds.y + childBounds.height + GROUP_PADDING - group.y
+    );
+    if (width === group.width && height === group.height) continue;
+
+    const newGroup = operations.find(
+      (op): op is AddNodeOperation => op.type === "add_node" && op.id === groupId
+    );
+    if (newGroup) {
+      newGroup.width = width;
+      newGroup.height = height;
+    } else if (canvasData.nodes.some((node) => node.id === groupId)) {
+      resizes.push({ type: "update_node", id: groupId, updates: { width, height } });
+    }
+    rects.set(groupId, { ...group, width, height });
+  }
+
+  return resizes.length > 0 ? [...operations, ...resizes] : operations;
+}
+
+function getGridSize(ops: AddNodeOperation[]): { width: number; height: number } {
+  const columns = Math.ceil(Math.sqrt(ops.length));
+  const rows = Math.ceil(ops.length / columns);
+  const cellWidth = Math.max(...ops.map((op) => op.width!));
+  const cellHeight = Math.max(...ops.map((op) => op.height!));
+  return {
+    width: columns * cellWidth + (columns - 1) * H_GAP,
+    height: rows * cellHeight + (rows - 1) * V_GAP,
+  };
+}
+
+function toRect(node: AllCanvasNodeData | AddNodeOperation): Rect {
+  return { x: node.x!, y: node.y!, width: node.width!, height: node.height! };
+}
+
+function getBounds(rects: Rect[]): Rect | null {
+  if (rects.length === 0) return null;
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.width));
+  const maxY = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Whether two rectangles overlap, counting the minimum gap as part of each.
+ */
+function overlaps(a: Rect, b: Rect): boolean {
+  return (
+    a.x < b.x + b.width + H_GAP / 2 &&
+    b.x < a.x + a.width + H_GAP / 2 &&
+    a.y < b.y + b.height + V_GAP / 2 &&
+    b.y < a.y + a.height + V_GAP / 2
+  );
+}
+
+function contains(outer: Rect | undefined, inner: Rect): boolean {
+  return (
+    !!outer &&
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
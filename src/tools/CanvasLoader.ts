@@ -1,4 +1,5 @@
 import { TFile, Vault } from "obsidian";
+import { CanvasSerializeOptions, serializeCanvas } from "./CanvasSerializer";
 
 /* ---------- Core data types ---------- */
 
@@ -29,6 +30,8 @@ export interface CanvasEdge {
   toSide?: string;
   /** Synthetic labels such as "contains". */
   label?: string;
+  /** Derived by the loader (group membership) rather than drawn on the canvas. */
+  synthetic?: boolean;
 }
 
 export interface CanvasData {
@@ -45,10 +48,12 @@ export class CanvasLoader {
   /** Load & enrich a `.canvas` file. */
   async load(file: TFile): Promise<CanvasData> {
     const raw = await this.vault.read(file);
-    const { nodes = [], edges = [] } = JSON.parse(raw) as {
-      nodes: CanvasNodeBase[];
-      edges: CanvasEdge[];
-    };
+    return this.enrich(JSON.parse(raw));
+  }
+
+  /** Enrich canvas data that is already parsed, e.g. the live data of an open canvas view. */
+  async enrich(data: { nodes?: CanvasNodeBase[]; edges?: CanvasEdge[] }): Promise<CanvasData> {
+    const { nodes = [], edges = [] } = data;
 
     const richNodes: RichNode[] = await Promise.all(
       nodes.map(async (n) => {
@@ -69,45 +74,9 @@ export class CanvasLoader {
     return { nodes: richNodes, edges: allEdges, byId };
   }
 
-  /** Build a concise prompt for an LLM. */
-  buildPrompt(canvas: CanvasData): string {
-    const lines: string[] = [];
-    lines.push(`Canvas contains ${canvas.nodes.length} nodes and ${canvas.edges.length} edges.\n`);
-
-    lines.push("## Nodes\n");
-    for (const node of canvas.nodes) {
-      lines.push(`### Node: ${node.id} (${node.type})`);
-      lines.push(`Position: (${node.x}, ${node.y}) Size: ${node.width}x${node.height}`);
-
-      switch (node.type) {
-        case "text":
-          lines.push(`Content: ${node.text || ""}`);
-          break;
-        case "file":
-          lines.push(`File: ${node.file || ""}`);
-          if (node.content) {
-            lines.push(`File Content:\n${node.content}`);
-          }
-          break;
-        case "link":
-          lines.push(`URL: ${node.url || ""}`);
-          break;
-        case "group":
-          lines.push(`Label: ${node.label || "(no label)"}`);
-          break;
-      }
-      lines.push("");
-    }
-
-    if (canvas.edges.length > 0) {
-      lines.push("## Edges\n");
-      for (const edge of canvas.edges) {
-        const labelPart = edge.label ? ` "${edge.label}"` : "";
-        lines.push(`- ${edge.fromNode} → ${edge.toNode}${labelPart}`);
-      }
-    }
-
-    return lines.join("\n");
+  /** Build a concise, token-budgeted prompt for an LLM. */
+  buildPrompt(canvas: CanvasData, options?: CanvasSerializeOptions): string {
+    return serializeCanvas(canvas, options);
   }
 
   /* ---------- private helpers ---------- */
@@ -126,10 +95,11 @@ export class CanvasLoader {
 
         if (inside) {
           edges.push({
-            id: crypto.randomUUID(),
+            id: `${g.id}-contains-${n.id}`,
             fromNode: g.id,
             toNode: n.id,
             label: "contains",
+            synthetic: true,
           });
         }
       }
@@ -0,0 +1,101 @@
+import { CanvasData } from "obsidian/canvas";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import {
+  buildCanvasOverlay,
+  describeCanvasOperation,
+  previewCanvasOperations,
+} from "./CanvasPreview";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 },
+      { id: "b", type: "text", text: "Beta", x: 300, y: 0, width: 200, height: 100 },
+    ],
+    edges: [{ id: "e1", fromNode: "a", toNode: "b", fromSide: "right", toSide: "left" }],
+  } as CanvasData;
+}
+
+const operations: CanvasOperation[] = [
+  {
+    type: "add_node",
+    id: "c",
+    nodeType: "text",
+    x: 0,
+    y: 200,
+    width: 200,
+    height: 100,
+    content: "Gamma",
+  },
+  { type: "add_edge", id: "e2", fromNode: "a", toNode: "c" },
+  { type: "update_node", id: "a", updates: { x: 50 } },
+  { type: "delete_node", id: "b" },
+];
+
+describe("previewCanvasOperations", () => {
+  it("dry-runs operations without touching the original canvas", () => {
+    const canvas = createCanvas();
+    const previews = previewCanvasOperations(canvas, operations);
+
+    expect(previews.map((p) => p.status)).toEqual([
+      "applicable",
+      "applicable",
+      "applicable",
+      "applicable",
+    ]);
+    expect(canvas).toEqual(createCanvas());
+  });
+
+  it("previews later operations against the canvas without skipped ones", () => {
+    const previews = previewCanvasOperations(createCanvas(), operations, (index) => index !== 0);
+
+    expect(previews[0].status).toBe("skipped");
+    expect(previews[1].status).toBe("invalid");
+    expect(previews[1].error).toContain("c");
+    expect(previews[2].status).toBe("applicable");
+  });
+});
+
+describe("buildCanvasOverlay", () => {
+  it("classifies every record by the change it would undergo", () => {
+    const canvas = createCanvas();
+    const overlay = buildCanvasOverlay(canvas, previewCanvasOperations(canvas, operations));
+    const byKey = Object.fromEntries(overlay.map((item) => [`${item.kind}:${item.id}`, item]));
+
+    expect(byKey["node:a"]).toMatchObject({
+      change: "updated",
+      data: { x: 50 },
+      previous: { x: 0 },
+      operationIndices: [2],
+    });
+    expect(byKey["node:b"]).toMatchObject({ change: "deleted", operationIndices: [3] });
+    expect(byKey["edge:e1"]).toMatchObject({ change: "deleted", operationIndices: [3] });
+    expect(byKey["node:c"]).toMatchObject({ change: "added", operationIndices: [0] });
+    expect(byKey["edge:e2"]).toMatchObject({ change: "added", operationIndices: [1] });
+  });
+
+  it("drops records created and deleted within the same preview", () => {
+    const canvas = createCanvas();
+    const overlay = buildCanvasOverlay(
+      canvas,
+      previewCanvasOperations(canvas, [operations[0], { type: "delete_node", id: "c" }])
+    );
+
+    expect(overlay.map((item) => item.id)).toEqual(["a", "b", "e1"]);
+    expect(overlay.every((item) => item.change === "unchanged")).toBe(true);
+  });
+});
+
+describe("describeCanvasOperation", () => {
+  it("summarizes operations on one line", () => {
+    expect(describeCanvasOperation(operations[0])).toBe("Add text node: Gamma");
+    expect(describeCanvasOperation(operations[1])).toBe("Connect a → c");
+    expect(describeCanvasOperation(operations[2])).toBe("Update x");
+  });
+});
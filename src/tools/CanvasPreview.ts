@@ -0,0 +1,187 @@
+/**
+ * Preview support for agent canvas edits.
+ * Operations are dry-run against a copy of the canvas so the user can review
+ * the outcome of each one in the CanvasApplyView before anything is written.
+ */
+
+import { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { applyCanvasOperation, CanvasRecordChange } from "@/tools/CanvasTools";
+
+export type CanvasOverlayChange = "added" | "updated" | "deleted" | "unchanged";
+
+/** Dry-run outcome of a single operation. */
+export interface CanvasOperationPreview {
+  index: number;
+  operation: CanvasOperation;
+  status: "applicable" | "invalid" | "skipped";
+  error?: string;
+  changes: CanvasRecordChange[];
+}
+
+/** A node or edge as it would appear once the previewed operations are applied. */
+export interface CanvasOverlayItem {
+  kind: "node" | "edge";
+  id: string;
+  change: CanvasOverlayChange;
+  /** Resulting state, or the removed state for deleted records. */
+  data: AllCanvasNodeData | CanvasEdgeData;
+  /** State before the first operation touched the record (updated records only). */
+  previous?: AllCanvasNodeData | CanvasEdgeData;
+  /** Indices of the operations that touched the record. */
+  operationIndices: number[];
+}
+
+/**
+ * Dry-run operations in order against a copy of the canvas.
+ * Operations for which `isIncluded` returns false are marked as skipped, so later
+ * operations are previewed against the canvas they would actually see.
+ */
+export function previewCanvasOperations(
+  canvasData: CanvasData,
+  operations: CanvasOperation[],
+  isIncluded: (index: number) => boolean = () => true
+): CanvasOperationPreview[] {
+  const working = cloneCanvasData(canvasData);
+
+  return operations.map((operation, index) => {
+    if (!isIncluded(index)) {
+      return { index, operation, status: "skipped", changes: [] };
+    }
+
+    const result = applyCanvasOperation(working, operation);
+    if (!result.success) {
+      return { index, operation, status: "invalid", error: result.error, changes: [] };
+    }
+
+    return { index, operation, status: "applicable", changes: result.changes ?? [] };
+  });
+}
+
+/**
+ * Merge the changes of previewed operations into one overlay of the canvas.
+ * Unchanged records are included so the overlay can be drawn in context.
+ */
+export function buildCanvasOverlay(
+  canvasData: CanvasData,
+  previews: CanvasOperationPreview[]
+): CanvasOverlayItem[] {
+  const merged = new Map<
+    string,
+    {
+      kind: "node" | "edge";
+      id: string;
+      before: CanvasRecordChange["before"];
+      after: CanvasRecordChange["after"];
+      operationIndices: number[];
+    }
+  >();
+
+  for (const preview of previews) {
+    for (const change of preview.changes) {
+      const key = `${change.kind}:${change.id}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.after = change.after;
+        if (!existing.operationIndices.includes(preview.index)) {
+          existing.operationIndices.push(preview.index);
+        }
+      } else {
+        merged.set(key, {
+          kind: change.kind,
+          id: change.id,
+          before: change.before,
+          after: change.after,
+          operationIndices: [preview.index],
+        });
+      }
+    }
+  }
+
+  const items: Array<CanvasOverlayItem | null> = [];
+  const toItem = (
+    kind: "node" | "edge",
+    record: AllCanvasNodeData | CanvasEdgeData
+  ): CanvasOverlayItem | null => {
+    const key = `${kind}:${record.id}`;
+    const entry = merged.get(key);
+    if (!entry) {
+      return { kind, id: record.id, change: "unchanged", data: record, operationIndices: [] };
+    }
+    merged.delete(key);
+    return overlayItemFromEntry(entry);
+  };
+
+  canvasData.nodes.forEach((node) => items.push(toItem("node", node)));
+  canvasData.edges.forEach((edge) => items.push(toItem("edge", edge)));
+
+  // Whatever is left was created by the operations
+  for (const entry of merged.values()) {
+    items.push(overlayItemFromEntry(entry));
+  }
+
+  return items.filter((item): item is CanvasOverlayItem => item !== null);
+}
+
+/**
+ * One-line, human-readable description of an operation for review lists.
+ */
+export function describeCanvasOperation(operation: CanvasOperation): string {
+  switch (operation.type) {
+    case "add_node": {
+      const content = operation.content ?? operation.file ?? operation.url ?? operation.label;
+      return `Add ${operation.nodeType} node${content ? `: ${truncate(content)}` : ""}`;
+    }
+    case "update_node":
+      return `Update ${Object.keys(operation.updates).join(", ") || "nothing"}`;
+    case "delete_node":
+      return "Delete node and its edges";
+    case "add_edge":
+      return `Connect ${operation.fromNode} → ${operation.toNode}${
+        operation.label ? ` (${truncate(operation.label)})` : ""
+      }`;
+    case "update_edge":
+      return `Update edge ${Object.keys(operation.updates).join(", ") || "nothing"}`;
+    case "delete_edge":
+      return "Delete edge";
+    case "move_to_group":
+      return `Move ${operation.nodeIds.length} node(s) into group`;
+    case "fit_group":
+      return "Fit group to its contents";
+    case "create_canvas":
+      return "Create canvas";
+    default:
+      return "Unknown operation";
+  }
+}
+
+function overlayItemFromEntry(entry: {
+  kind: "node" | "edge";
+  id: string;
+  before: CanvasRecordChange["before"];
+  after: CanvasRecordChange["after"];
+  operationIndices: number[];
+}): CanvasOverlayItem | null {
+  const { kind, id, before, after, operationIndices } = entry;
+
+  if (before === null && after === null) {
+    // Created and removed within the same preview
+    return null;
+  }
+  if (before === null) {
+    return { kind, id, change: "added", data: after!, operationIndices };
+  }
+  if (after === null) {
+    return { kind, id, change: "deleted", data: before, operationIndices };
+  }
+  return { kind, id, change: "updated", data: after, previous: before, operationIndices };
+}
+
+function cloneCanvasData(canvasData: CanvasData): CanvasData {
+  return JSON.parse(JSON.stringify(canvasData));
+}
+
+function truncate(text: string, maxLength = 60): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
@@ -0,0 +1,86 @@
+import { CanvasData } from "obsidian/canvas";
+import { queryCanvasNodes } from "./CanvasQueryTool";
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "g", type: "group", label: "Budget", x: 0, y: 0, width: 600, height: 400 },
+      { id: "inner", type: "group", x: 20, y: 20, width: 300, height: 200 },
+      {
+        id: "a",
+        type: "text",
+        text: "Rent\n\nand utilities",
+        x: 40,
+        y: 40,
+        width: 200,
+        height: 100,
+      },
+      {
+        id: "b",
+        type: "file",
+        file: "Notes/Budget 2024.md",
+        x: 350,
+        y: 40,
+        width: 200,
+        height: 100,
+        color: "4",
+      },
+      { id: "c", type: "link", url: "https://example.com", x: 800, y: 0, width: 200, height: 100 },
+      {
+        id: "d",
+        type: "text",
+        text: "x".repeat(200),
+        x: 800,
+        y: 300,
+        width: 200,
+        height: 100,
+        color: "#FF0000",
+      },
+    ],
+    edges: [
+      { id: "e1", fromNode: "a", toNode: "b" },
+      { id: "e2", fromNode: "c", toNode: "a" },
+    ],
+  } as CanvasData;
+}
+
+const ids = (query: Parameters<typeof queryCanvasNodes>[1]) =>
+  queryCanvasNodes(createCanvas(), query).map((node) => node.id);
+
+describe("queryCanvasNodes", () => {
+  it("matches text case-insensitively against text, labels, file paths and URLs", () => {
+    expect(ids({ text: "BUDGET" })).toEqual(["g", "b"]);
+    expect(ids({ text: "example.com" })).toEqual(["c"]);
+  });
+
+  it("filters by type, color, group membership, connection and area", () => {
+    expect(ids({ nodeTypes: ["link", "file"] })).toEqual(["b", "c"]);
+    expect(ids({ color: "#ff0000" })).toEqual(["d"]);
+    expect(ids({ inGroup: "g" })).toEqual(["inner", "a", "b"]);
+    expect(ids({ connectedTo: "a" })).toEqual(["b", "c"]);
+    expect(ids({ bounds: { x: 700, y: 0, width: 200, height: 200 } })).toEqual(["c"]);
+  });
+
+  it("combines filters and treats unknown references as matching nothing", () => {
+    expect(ids({ inGroup: "g", nodeTypes: ["text"] })).toEqual(["a"]);
+    expect(ids({ connectedTo: "missing" })).toEqual([]);
+  });
+
+  it("returns geometry, the innermost group and a one-line preview", () => {
+    const [a] = queryCanvasNodes(createCanvas(), { text: "rent" });
+    expect(a).toEqual({
+      id: "a",
+      type: "text",
+      x: 40,
+      y: 40,
+      width: 200,
+      height: 100,
+      group: "inner",
+      preview: "Rent and utilities",
+    });
+
+    const [d] = queryCanvasNodes(createCanvas(), { color: "#FF0000" });
+    expect(d.preview).toHaveLength(121);
+    expect(d.group).toBeUndefined();
+  });
+});
@@ -0,0 +1,243 @@
+import type { AllCanvasNodeData, CanvasData, CanvasEdgeData } from "obsidian/canvas";
+import { z } from "zod";
+import { getGroupMembers, Rect } from "./CanvasLayout";
+import { readCanvasFile } from "./CanvasTools";
+import { createLangChainTool } from "./createLangChainTool";
+
+const PREVIEW_LENGTH = 120;
+const DEFAULT_MAX_RESULTS = 50;
+
+/** Filters combined with AND; omitted filters match every node. */
+export interface CanvasNodeQuery {
+  /** Case-insensitive substring of the text, label, file path or URL. */
+  text?: string;
+  nodeTypes?: Array<AllCanvasNodeData["type"]>;
+  color?: string;
+  /** Group ID; matches nodes inside the group, including nested groups. */
+  inGroup?: string;
+  /** Node ID; matches nodes sharing an edge with it in either direction. */
+  connectedTo?: string;
+  /** Matches nodes overlapping this rectangle. */
+  bounds?: Rect;
+}
+
+export interface CanvasNodeMatch {
+  id: string;
+  type: AllCanvasNodeData["type"];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color?: string;
+  /** Innermost group containing the node. */
+  group?: string;
+  preview: string;
+}
+
+/**
+ * Find the nodes of a canvas matching every given filter, in canvas order.
+ * Unknown group or node IDs in inGroup/connectedTo simply match nothing.
+ */
+export function queryCanvasNodes(
+  canvasData: CanvasData,
+  query: CanvasNodeQuery
+): CanvasNodeMatch[] {
+  const text = query.text?.trim().toLowerCase();
+  const groupMembers = query.inGroup
+    ? new Set(getGroupMembers(canvasData, query.inGroup).map((node) => node.id))
+    : null;
+  const neighbours = query.connectedTo ? getNeighbours(canvasData, query.connectedTo) : null;
+
+  return canvasData.nodes
+    .filter((node) => {
+      if (query.nodeTypes?.length && !query.nodeTypes.includes(node.type)) return false;
+      if (query.color !== undefined && normalizeColor(node.color) !== normalizeColor(query.color)) {
+        return false;
+      }
+      if (groupMembers && !groupMembers.has(node.id)) return false;
+      if (neighbours && !neighbours.has(node.id)) return false;
+      if (query.bounds && !intersects(query.bounds, node)) return false;
+      if (text && !getSearchableText(node).toLowerCase().includes(text)) return false;
+      return true;
+    })
+    .map((node) => ({
+      id: node.id,
+      type: node.type,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      ...(node.color ? { color: node.color } : {}),
+      ...withGroup(canvasData, node),
+      preview: getPreview(node),
+    }));
+}
+
+function getNeighbours(canvasData: CanvasData, nodeId: string): Set<string> {
+  const neighbours = new Set<string>();
+  for (const edge of canvasData.edges) {
+    if (edge.fromNode === nodeId) neighbours.add(edge.toNode);
+    if (edge.toNode === nodeId) neighbours.add(edge.fromNode);
+  }
+  neighbours.delete(nodeId);
+  return neighbours;
+}
+
+/**
+ * The innermost (smallest) group fully containing the node, if any.
+ */
+function withGroup(canvasData: CanvasData, node: AllCanvasNodeData): { group?: string } {
+  let innermost: AllCanvasNodeData | undefined;
+  for (const group of canvasData.nodes) {
+    if (group.type !== "group" || group.id === node.id) continue;
+    const inside =
+      node.x >= group.x &&
+      node.y >= group.y &&
+      node.x + node.width <= group.x + group.width &&
+      node.y + node.height <= group.y + group.height;
+    if (inside && (!innermost || group.width * group.height < innermost.width * innermost.height)) {
+      innermost = group;
+    }
+  }
+  return innermost ? { group: innermost.id } : {};
+}
+
+function getSearchableText(node: AllCanvasNodeData): string {
+  return [node.text, node.label, node.file, node.url]
+    .filter((value): value is string => typeof value === "string")
+    .join("\n");
+}
+
+/**
+ * One-line description of a node's content. File contents are not read; the path
+ * is enough to decide whether to open the note with readNote.
+ */
+function getPreview(node: AllCanvasNodeData): string {
+  let preview: string;
+  switch (node.type) {
+    case "text":
+      preview = node.text ?? "";
+      break;
+    case "file":
+      preview = `${node.file ?? ""}${node.subpath ?? ""}`;
+      break;
+    case "link":
+      preview = node.url ?? "";
+      break;
+    case "group":
+      preview = node.label ?? "(no label)";
+      break;
+    default:
+      preview = getSearchableText(node);
+  }
+  preview = preview.replace(/\s+/g, " ").trim();
+  return preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}…` : preview;
+}
+
+function normalizeColor(color: string | undefined): string {
+  return (color ?? "").trim().toLowerCase();
+}
+
+function intersects(bounds: Rect, node: AllCanvasNodeData): boolean {
+  return (
+    node.x < bounds.x + bounds.width &&
+    bounds.x < node.x + node.width &&
+    node.y < bounds.y + bounds.height &&
+    bounds.y < node.y + node.height
+  );
+}
+
+const queryCanvasSchema = z.object({
+  path: z.string().describe("Vault-relative path of the .canvas file, without a leading slash"),
+  text: z
+    .string()
+    .optional()
+    .describe("Case-insensitive substring of the node text, group label, file path or URL"),
+  nodeTypes: z
+    .array(z.enum(["text", "file", "link", "group"]))
+    .optional()
+    .describe("Only return nodes of these types"),
+  color: z
+    .string()
+    .optional()
+    .describe('Only return nodes with this color (preset "1"-"6" or hex)'),
+  inGroup: z.string().optional().describe("Only return nodes inside this group ID"),
+  connectedTo: z
+    .string()
+    .optional()
+    .describe("Only return nodes connected to this node ID by an edge, in either direction"),
+  bounds: z
+    .object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number(),
+    })
+    .optional()
+    .describe("Only return nodes overlapping this rectangle"),
+  includeEdges: z
+    .boolean()
+    .optional()
+    .describe("Also return the edges between the returned nodes. Defaults to false."),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(`Maximum number of nodes to return. Defaults to ${DEFAULT_MAX_RESULTS}.`),
+});
+
+const queryCanvasTool = createLangChainTool({
+  name: "queryCanvas",
+  description: `Find nodes on an Obsidian canvas (.canvas file) without reading the whole canvas.
+Returns the ID, type, geometry, color, containing group and a short content preview of each node matching all given filters.
+Use the returned IDs with canvasEdit; read file nodes with readNote when their content is needed.`,
+  schema: queryCanvasSchema,
+  func: async ({ path, includeEdges, maxResults, ...query }) => {
+    const canvasPath = path.trim().replace(/^\/+/, "");
+    const canvasData = await readCanvasFile(app.vault, canvasPath);
+    if (!canvasData) {
+      return {
+        canvasPath,
+        status: "unreadable",
+        message: `Failed to read canvas: ${canvasPath}. Check the path with getFileTree.`,
+      };
+    }
+    canvasData.nodes = canvasData.nodes ?? [];
+    canvasData.edges = canvasData.edges ?? [];
+
+    const matches = queryCanvasNodes(canvasData, query);
+    const limit = maxResults ?? DEFAULT_MAX_RESULTS;
+    const nodes = matches.slice(0, limit);
+    const returnedIds = new Set(nodes.map((node) => node.id));
+
+    return {
+      canvasPath,
+      status: "ok",
+      totalNodes: canvasData.nodes.length,
+      totalEdges: canvasData.edges.length,
+      matchedNodes: matches.length,
+      truncated: matches.length > nodes.length,
+      nodes,
+      ...(includeEdges
+        ? {
+            edges: canvasData.edges
+              .filter((edge) => returnedIds.has(edge.fromNode) && returnedIds.has(edge.toNode))
+              .map(formatEdge),
+          }
+        : {}),
+    };
+  },
+});
+
+function formatEdge(edge: CanvasEdgeData) {
+  return {
+    id: edge.id,
+    from: edge.fromNode,
+    to: edge.toNode,
+    ...(edge.label ? { label: edge.label } : {}),
+  };
+}
+
+export { queryCanvasTool };
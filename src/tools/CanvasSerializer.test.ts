@@ -0,0 +1,108 @@
+import type { CanvasData, CanvasEdge, RichNode } from "./CanvasLoader";
+import { serializeCanvas, sortByReadingOrder } from "./CanvasSerializer";
+
+function node(partial: Partial<RichNode> & Pick<RichNode, "id" | "type">): RichNode {
+  return { x: 0, y: 0, width: 200, height: 100, content: "", ...partial };
+}
+
+function createCanvas(nodes: RichNode[], edges: CanvasEdge[] = []): CanvasData {
+  return { nodes, edges, byId: Object.fromEntries(nodes.map((n) => [n.id, n])) };
+}
+
+describe("sortByReadingOrder", () => {
+  it("reads rows top to bottom and each row left to right", () => {
+    const nodes = [
+      { id: "c", x: 0, y: 200, height: 100 },
+      { id: "b", x: 300, y: 10, height: 100 },
+      { id: "a", x: 0, y: 30, height: 100 },
+    ];
+
+    expect(sortByReadingOrder(nodes).map((n) => n.id)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("serializeCanvas", () => {
+  it("nests nodes under their groups and skips synthetic edges", () => {
+    const canvas = createCanvas(
+      [
+        node({ id: "b", type: "text", text: "Beta", x: 500 }),
+        node({ id: "g", type: "group", label: "Ideas", x: 0, y: 0, width: 400, height: 300 }),
+        node({ id: "a", type: "text", text: "Alpha", x: 40, y: 40 }),
+      ],
+      [
+        { id: "e1", fromNode: "a", toNode: "b", label: "leads to" },
+        { id: "s1", fromNode: "g", toNode: "a", label: "contains", synthetic: true },
+      ]
+    );
+
+    expect(serializeCanvas(canvas)).toBe(
+      [
+        "Canvas contains 3 nodes and 1 edges.",
+        "",
+        "## Nodes",
+        "- [group g] Ideas @0,0 400x300",
+        "  - [text a] @40,40 200x100",
+        "    Alpha",
+        "- [text b] @500,0 200x100",
+        "  Beta",
+        "",
+        "## Edges",
+        '- a → b "leads to"',
+      ].join("\n")
+    );
+  });
+
+  it("truncates file content in proportion to its length when over budget", () => {
+    const long = "word ".repeat(2000);
+    const short = "word ".repeat(400);
+    const canvas = createCanvas([
+      node({ id: "long", type: "file", file: "long.md", content: long }),
+      node({ id: "short", type: "file", file: "short.md", content: short, y: 200 }),
+    ]);
+
+    const output = serializeCanvas(canvas, { maxTokens: 500 });
+    const [longExcerpt, shortExcerpt] = output
+      .split("\n")
+      .filter((line) => line.includes("truncated"))
+      .map((line) => line.length);
+
+    expect(output.length).toBeLessThanOrEqual(2000);
+    expect(longExcerpt).toBeGreaterThan(shortExcerpt * 3);
+    expect(output).toContain(`[truncated, ${long.trim().length} characters in total]`);
+  });
+
+  it("omits nodes that do not fit once the structure alone exceeds the budget", () => {
+    const nodes = Array.from({ length: 100 }, (_, i) =>
+      node({ id: `n${i}`, type: "text", text: "x", y: i * 200 })
+    );
+
+    const output = serializeCanvas(createCanvas(nodes), { maxTokens: 100 });
+
+    expect(output).toMatch(/\[\d+ more nodes omitted to fit the context budget\]$/);
+    expect(output.length).toBeLessThan(500);
+  });
+
+  it("limits the output to the neighbourhood of focus nodes and their groups", () => {
+    const canvas = createCanvas(
+      [
+        node({ id: "g", type: "group", label: "Area", x: 0, y: 0, width: 1000, height: 500 }),
+        node({ id: "a", type: "text", text: "A", x: 40, y: 40 }),
+        node({ id: "b", type: "text", text: "B", x: 2000 }),
+        node({ id: "c", type: "text", text: "C", x: 3000 }),
+      ],
+      [
+        { id: "e1", fromNode: "b", toNode: "a" },
+        { id: "e2", fromNode: "b", toNode: "c" },
+      ]
+    );
+
+    const output = serializeCanvas(canvas, { focusNodeIds: ["a"], hops: 1 });
+
+    expect(output).toContain('Showing 3 nodes within 1 hop(s) of: a (marked "focus").');
+    expect(output).toContain("[text a] @40,40 200x100 (focus)");
+    expect(output).toContain("[group g]");
+    expect(output).toContain("[text b]");
+    expect(output).not.toContain("[text c]");
+    expect(output).not.toContain("b → c");
+  });
+});
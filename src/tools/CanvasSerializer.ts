@@ -0,0 +1,275 @@
+import type { CanvasData, CanvasEdge, RichNode } from "./CanvasLoader";
+
+/** Rough conversion used to turn the token budget into a character budget. */
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_TOKENS = 8000;
+/** Below this many characters an excerpt is not worth showing. */
+const MIN_EXCERPT_LENGTH = 80;
+const INDENT = "  ";
+
+export interface CanvasSerializeOptions {
+  /** Approximate token budget for the whole output. */
+  maxTokens?: number;
+  /** Only include nodes within `hops` edges of these nodes (plus the groups around them). */
+  focusNodeIds?: string[];
+  /** Neighbourhood radius around the focus nodes. Defaults to 1. */
+  hops?: number;
+}
+
+interface TreeNode {
+  node: RichNode;
+  children: TreeNode[];
+}
+
+/**
+ * Serialize a loaded canvas into an LLM-friendly outline that fits a token budget.
+ *
+ * - Groups are emitted as nesting instead of synthetic "contains" edges
+ * - Siblings are ordered by reading order: rows top to bottom, left to right within a row
+ * - Text and file content is truncated proportionally to its length when over budget
+ * - With focus nodes, only their k-hop neighbourhood is included
+ */
+export function serializeCanvas(canvas: CanvasData, options: CanvasSerializeOptions = {}): string {
+  const budget = (options.maxTokens ?? DEFAULT_MAX_TOKENS) * CHARS_PER_TOKEN;
+  const edges = canvas.edges.filter((edge) => !edge.synthetic);
+  const focusIds = options.focusNodeIds?.filter((id) => canvas.byId[id]) ?? [];
+  const included =
+    focusIds.length > 0
+      ? getNeighbourhood(canvas.nodes, edges, focusIds, options.hops ?? 1)
+      : new Set(canvas.nodes.map((node) => node.id));
+  const includedEdges = edges.filter(
+    (edge) => included.has(edge.fromNode) && included.has(edge.toNode)
+  );
+  const focused = new Set(focusIds);
+  const describe = (node: RichNode) =>
+    describeNode(node) + (focused.has(node.id) ? " (focus)" : "");
+  const roots = buildTree(canvas.nodes.filter((node) => included.has(node.id)));
+
+  const header = [`Canvas contains ${canvas.nodes.length} nodes and ${edges.length} edges.`];
+  if (focusIds.length > 0) {
+    header.push(
+      `Showing ${included.size} nodes within ${options.hops ?? 1} hop(s) of: ${focusIds.join(", ")} (marked "focus").`
+    );
+  }
+
+  const edgeLines = includedEdges.map((edge) => {
+    const label = edge.label ? ` "${edge.label}"` : "";
+    return `- ${edge.fromNode} → ${edge.toNode}${label}`;
+  });
+
+  // Structure first; whatever budget remains is shared by node content
+  const nodeLines: string[] = [];
+  const contents = new Map<string, string>();
+  walk(roots, (tree, depth) => {
+    nodeLines.push(INDENT.repeat(depth) + describe(tree.node));
+    const content = getContent(tree.node);
+    if (content) contents.set(tree.node.id, content);
+  });
+  const structureLength = [...header, ...nodeLines, ...edgeLines].join("\n").length + 32;
+  const excerpts = allocateExcerpts(contents, Math.max(0, budget - structureLength));
+
+  const lines = [...header, "", "## Nodes"];
+  let used = lines.join("\n").length;
+  let emitted = 0;
+  const total = nodeLines.length;
+  walk(roots, (tree, depth) => {
+    const block = [INDENT.repeat(depth) + describe(tree.node)];
+    const excerpt = excerpts.get(tree.node.id);
+    if (excerpt) {
+      const indent = INDENT.repeat(depth + 1);
+      block.push(...excerpt.split("\n").map((line) => `${indent}${line}`));
+    }
+    const text = block.join("\n");
+    if (used + text.length > budget && emitted > 0) return false;
+    lines.push(text);
+    used += text.length + 1;
+    emitted++;
+    return true;
+  });
+  if (emitted < total) {
+    lines.push(`[${total - emitted} more nodes omitted to fit the context budget]`);
+  }
+
+  if (includedEdges.length > 0) {
+    lines.push("", "## Edges");
+    for (const [index, line] of edgeLines.entries()) {
+      if (used + line.length > budget) {
+        lines.push(`[${edgeLines.length - index} more edges omitted to fit the context budget]`);
+        break;
+      }
+      lines.push(line);
+      used += line.length + 1;
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Node IDs reachable from the focus nodes in at most `hops` edges (in either
+ * direction), plus every group enclosing one of them so the nesting stays intact.
+ */
+function getNeighbourhood(
+  nodes: RichNode[],
+  edges: CanvasEdge[],
+  focusIds: string[],
+  hops: number
+): Set<string> {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    adjacency.set(edge.fromNode, [...(adjacency.get(edge.fromNode) ?? []), edge.toNode]);
+    adjacency.set(edge.toNode, [...(adjacency.get(edge.toNode) ?? []), edge.fromNode]);
+  }
+
+  const included = new Set(focusIds);
+  let frontier = focusIds;
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of adjacency.get(id) ?? []) {
+        if (!included.has(neighbour)) {
+          included.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const parents = getParents(nodes);
+  for (const id of [...included]) {
+    for (let parent = parents.get(id); parent; parent = parents.get(parent.id)) {
+      included.add(parent.id);
+    }
+  }
+  return included;
+}
+
+/**
+ * Nest nodes under the smallest group containing their center, ordering siblings
+ * by reading order.
+ */
+function buildTree(nodes: RichNode[]): TreeNode[] {
+  const parents = getParents(nodes);
+  const trees = new Map(nodes.map((node) => [node.id, { node, children: [] as TreeNode[] }]));
+  const roots: TreeNode[] = [];
+  for (const tree of trees.values()) {
+    const parent = parents.get(tree.node.id);
+    (parent ? trees.get(parent.id)!.children : roots).push(tree);
+  }
+
+  const sort = (siblings: TreeNode[]): TreeNode[] => {
+    siblings.forEach((tree) => (tree.children = sort(tree.children)));
+    const order = sortByReadingOrder(siblings.map((tree) => tree.node));
+    return order.map((node) => trees.get(node.id)!);
+  };
+  return sort(roots);
+}
+
+function getParents(nodes: RichNode[]): Map<string, RichNode> {
+  const groups = nodes.filter((node) => node.type === "group");
+  const parents = new Map<string, RichNode>();
+  for (const node of nodes) {
+    const centerX = node.x + node.width / 2;
+    const centerY = node.y + node.height / 2;
+    for (const group of groups) {
+      if (group.id === node.id || group.width * group.height <= node.width * node.height) continue;
+      const inside =
+        centerX >= group.x &&
+        centerY >= group.y &&
+        centerX <= group.x + group.width &&
+        centerY <= group.y + group.height;
+      const current = parents.get(node.id);
+      if (inside && (!current || group.width * group.height < current.width * current.height)) {
+        parents.set(node.id, group);
+      }
+    }
+  }
+  return parents;
+}
+
+/**
+ * Cluster nodes into rows (nodes whose vertical extents overlap the row's first
+ * node) and read rows top to bottom, each row left to right.
+ */
+export function sortByReadingOrder<T extends { x: number; y: number; height: number }>(
+  nodes: T[]
+): T[] {
+  const rows: T[][] = [];
+  for (const node of [...nodes].sort((a, b) => a.y - b.y || a.x - b.x)) {
+    const row = rows[rows.length - 1];
+    const anchor = row?.[0];
+    if (anchor && node.y < anchor.y + anchor.height) {
+      row.push(node);
+    } else {
+      rows.push([node]);
+    }
+  }
+  return rows.flatMap((row) => row.sort((a, b) => a.x - b.x));
+}
+
+/**
+ * Depth-first walk in output order. Returning false from the visitor stops the walk.
+ */
+function walk(trees: TreeNode[], visit: (tree: TreeNode, depth: number) => boolean | void): void {
+  const visitAll = (siblings: TreeNode[], depth: number): boolean => {
+    for (const tree of siblings) {
+      if (visit(tree, depth) === false) return false;
+      if (!visitAll(tree.children, depth + 1)) return false;
+    }
+    return true;
+  };
+  visitAll(trees, 0);
+}
+
+function describeNode(node: RichNode): string {
+  const geometry = `@${Math.round(node.x)},${Math.round(node.y)} ${Math.round(node.width)}x${Math.round(node.height)}`;
+  const color = node.color ? ` color=${node.color}` : "";
+  switch (node.type) {
+    case "group":
+      return `- [group ${node.id}] ${node.label || "(no label)"} ${geometry}${color}`;
+    case "file":
+      return `- [file ${node.id}] ${node.file || ""} ${geometry}${color}`;
+    case "link":
+      return `- [link ${node.id}] ${node.url || ""} ${geometry}${color}`;
+    default:
+      return `- [text ${node.id}] ${geometry}${color}`;
+  }
+}
+
+function getContent(node: RichNode): string {
+  if (node.type === "text") return (node.text ?? "").trim();
+  if (node.type === "file") return (node.content ?? "").trim();
+  return "";
+}
+
+/**
+ * Share the content budget among nodes in proportion to their content length.
+ * Nodes whose share is too small get no excerpt rather than a useless fragment.
+ */
+function allocateExcerpts(contents: Map<string, string>, budget: number): Map<string, string> {
+  const total = [...contents.values()].reduce((sum, content) => sum + content.length, 0);
+  if (total <= budget) return contents;
+
+  const ratio = budget / total;
+  const excerpts = new Map<string, string>();
+  for (const [id, content] of contents) {
+    const limit = Math.floor(content.length * ratio);
+    if (limit >= MIN_EXCERPT_LENGTH) {
+      excerpts.set(id, truncate(content, limit));
+    } else {
+      excerpts.set(id, `[${content.length} characters omitted]`);
+    }
+  }
+  return excerpts;
+}
+
+/**
+ * Cut content at the last line or word boundary within the limit.
+ */
+function truncate(content: string, limit: number): string {
+  const marker = `… [truncated, ${content.length} characters in total]`;
+  const slice = content.slice(0, Math.max(0, limit - marker.length));
+  const boundary = Math.max(slice.lastIndexOf("\n"), slice.lastIndexOf(" "));
+  return (boundary > slice.length / 2 ? slice.slice(0, boundary) : slice).trimEnd() + marker;
+}
@@ -0,0 +1,363 @@
+import { TFile, Vault } from "obsidian";
+import { CanvasData } from "obsidian/canvas";
+import { CanvasOperation } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import {
+  applyCanvasOperation,
+  executeCanvasOperations,
+  formatCanvasConflicts,
+  formatCanvasOperationErrors,
+  validateCanvasOperations,
+} from "./CanvasTools";
+
+jest.mock("@/logger", () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+  logWarn: jest.fn(),
+}));
+
+function createCanvas(): CanvasData {
+  return {
+    nodes: [
+      { id: "a", type: "text", text: "Alpha", x: 0, y: 0, width: 200, height: 100 },
+      { id: "b", type: "text", text: "Beta", x: 300, y: 0, width: 200, height: 100 },
+    ],
+    edges: [{ id: "e1", fromNode: "a", toNode: "b", fromSide: "right", toSide: "left" }],
+  } as CanvasData;
+}
+
+function textNode(id: string): CanvasOperation {
+  return { type: "add_node", id, nodeType: "text", x: 0, y: 200, width: 200, height: 100 };
+}
+
+/**
+ * Create a vault mock backed by a single in-memory canvas file.
+ */
+function createVault(path: string, initial: CanvasData) {
+  const file = new (TFile as any)(path);
+  let content = JSON.stringify(initial);
+  const vault = {
+    getAbstractFileByPath: jest.fn((p: string) => (p === path ? file : null)),
+    read: jest.fn(async () => content),
+    modify: jest.fn(async (_file: TFile, next: string) => {
+      content = next;
+    }),
+  };
+  return {
+    vault: vault as unknown as Vault,
+    modify: vault.modify,
+    getData: () => JSON.parse(content) as CanvasData,
+  };
+}
+
+describe("validateCanvasOperations", () => {
+  it("accepts operations that refer to nodes created earlier in the block", () => {
+    const errors = validateCanvasOperations(createCanvas(), [
+      textNode("c"),
+      { type: "add_edge", id: "e2", fromNode: "a", toNode: "c" },
+      { type: "update_node", id: "c", updates: { content: "Gamma" } },
+    ]);
+
+    expect(errors).toEqual([]);
+  });
+
+  it("reports every invalid operation, not just the first", () => {
+    const errors = validateCanvasOperations(createCanvas(), [
+      textNode("a"),
+      { type: "add_edge", id: "e2", fromNode: "a", toNode: "missing" },
+      { type: "add_edge", id: "b", fromNode: "a", toNode: "b" },
+      { type: "delete_edge", id: "nope" },
+    ]);
+
+    expect(errors.map((e) => e.index)).toEqual([0, 1, 2, 3]);
+    expect(errors[0].error).toContain("already exists");
+    expect(errors[1].error).toContain('"missing" not found');
+    expect(errors[2].error).toContain("already used by a node");
+  });
+
+  it("explains references to nodes created later in the block", () => {
+    const errors = validateCanvasOperations(createCanvas(), [
+      { type: "add_edge", id: "e2", fromNode: "a", toNode: "c" },
+      textNode("c"),
+    ]);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error).toContain("created later in the block by operation #2");
+  });
+
+  it("does not modify the canvas", () => {
+    const canvas = createCanvas();
+    validateCanvasOperations(canvas, [textNode("c"), { type: "delete_node", id: "a" }]);
+    expect(canvas).toEqual(createCanvas());
+  });
+});
+
+describe("executeCanvasOperations", () => {
+  const path = "boards/plan.canvas";
+
+  it("applies a valid block with a single write", async () => {
+    const { vault, modify, getData } = createVault(path, createCanvas());
+
+    const result = await executeCanvasOperations(vault, path, [
+      textNode("c"),
+      { type: "add_edge", id: "e2", fromNode: "b", toNode: "c" },
+      { type: "delete_node", id: "a" },
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(modify).toHaveBeenCalledTimes(1);
+    expect(getData().nodes.map((n) => n.id)).toEqual(["b", "c"]);
+    expect(getData().edges.map((e) => e.id)).toEqual(["e2"]);
+    expect(result.changes.map((c) => `${c.kind}:${c.id}`)).toEqual([
+      "node:c",
+      "edge:e2",
+      "node:a",
+      "edge:e1",
+    ]);
+  });
+
+  it("writes nothing when any operation is invalid", async () => {
+    const { vault, modify, getData } = createVault(path, createCanvas());
+
+    const result = await executeCanvasOperations(vault, path, [
+      textNode("c"),
+      { type: "update_node", id: "missing", updates: { x: 1 } },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.changes).toEqual([]);
+    expect(modify).not.toHaveBeenCalled();
+    expect(getData()).toEqual(createCanvas());
+  });
+
+  it("re-applies the block on top of changes made since the base was read", async () => {
+    const base = createCanvas();
+    const edited = createCanvas();
+    Object.assign(edited.nodes[0], { x: 40, text: "Alpha (edited)" });
+    const { vault, getData } = createVault(path, edited);
+
+    const result = await executeCanvasOperations(
+      vault,
+      path,
+      [textNode("c"), { type: "update_node", id: "a", updates: { color: "3" } }],
+      base
+    );
+
+    expect(result.success).toBe(true);
+    expect(getData().nodes[0]).toMatchObject({ x: 40, text: "Alpha (edited)", color: "3" });
+    expect(getData().nodes.map((n) => n.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("reports a conflict instead of overwriting records changed since the base", async () => {
+    const base = createCanvas();
+    const edited = createCanvas();
+    (edited.nodes[0] as any).text = "Alpha (edited)";
+    edited.nodes.splice(1, 1);
+    edited.edges = [];
+    const { vault, modify } = createVault(path, edited);
+
+    const result = await executeCanvasOperations(
+      vault,
+      path,
+      [
+        { type: "update_node", id: "a", updates: { content: "Agent text" } },
+        { type: "update_node", id: "a", updates: { y: 50 } },
+        { type: "add_edge", id: "e2", fromNode: "a", toNode: "b" },
+      ],
+      base
+    );
+
+    expect(result).toMatchObject({ success: false, conflict: true });
+    expect(result.errors.map((e) => [e.index, e.error.split(" after")[0]])).toEqual([
+      [0, '"a" was changed in the canvas (text)'],
+      [2, '"b" was deleted from the canvas'],
+    ]);
+    expect(modify).not.toHaveBeenCalled();
+  });
+
+  it("reports unreadable canvases", async () => {
+    const { vault } = createVault(path, createCanvas());
+    const result = await executeCanvasOperations(vault, "other.canvas", [textNode("c")]);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Failed to read canvas");
+  });
+});
+
+describe("extended operations", () => {
+  function canvasWithGroup(): CanvasData {
+    const canvas = createCanvas();
+    canvas.nodes.push(
+      { id: "g", type: "group", label: "G", x: 0, y: 300, width: 300, height: 200 },
+      { id: "f", type: "file", file: "notes/a.md", x: 600, y: 0, width: 200, height: 100 },
+      { id: "l", type: "link", url: "https://a.example", x: 900, y: 0, width: 200, height: 100 }
+    );
+    return canvas;
+  }
+
+  it("updates edge labels, arrow ends and endpoints", () => {
+    const canvas = createCanvas();
+    canvas.edges[0].color = "2";
+
+    const result = applyCanvasOperation(canvas, {
+      type: "update_edge",
+      id: "e1",
+      updates: { toNode: "a", fromNode: "b", label: "depends on", color: "", toEnd: "none" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(canvas.edges[0]).toEqual({
+      id: "e1",
+      fromNode: "b",
+      toNode: "a",
+      fromSide: "right",
+      toSide: "left",
+      toEnd: "none",
+      label: "depends on",
+    });
+  });
+
+  it("rejects invalid edge updates", () => {
+    const errors = validateCanvasOperations(createCanvas(), [
+      { type: "update_edge", id: "e1", updates: { toEnd: "dot" as any } },
+      { type: "update_edge", id: "e1", updates: { toNode: "missing" } },
+      { type: "add_edge", id: "e2", fromNode: "a", toNode: "b", fromEnd: "dot" as any },
+    ]);
+
+    expect(errors.map((e) => e.error)).toEqual([
+      'Invalid toEnd "dot" (use "none" or "arrow")',
+      'Target node "missing" not found',
+      'Invalid fromEnd "dot" (use "none" or "arrow")',
+    ]);
+  });
+
+  it("moves nodes into a group and grows it to fit", () => {
+    const canvas = canvasWithGroup();
+
+    const result = applyCanvasOperation(canvas, {
+      type: "move_to_group",
+      id: "g",
+      nodeIds: ["a", "b"],
+    });
+
+    const byId = (id: string) => canvas.nodes.find((n) => n.id === id)!;
+    expect(result.success).toBe(true);
+    // Arrangement is kept: b stays 300px right of a
+    expect(byId("a")).toMatchObject({ x: 40, y: 340 });
+    expect(byId("b")).toMatchObject({ x: 340, y: 340 });
+    expect(byId("g")).toMatchObject({ x: 0, y: 300, width: 580, height: 200 });
+    expect(result.changes?.map((c) => c.id)).toEqual(["a", "b", "g"]);
+  });
+
+  it("fits a group to the nodes inside it", () => {
+    const canvas = canvasWithGroup();
+    canvas.nodes.push({ id: "c", type: "text", text: "", x: 100, y: 350, width: 100, height: 50 });
+
+    const result = applyCanvasOperation(canvas, { type: "fit_group", id: "g" });
+
+    expect(result.success).toBe(true);
+    expect(canvas.nodes.find((n) => n.id === "g")).toMatchObject({
+      x: 60,
+      y: 310,
+      width: 180,
+      height: 130,
+    });
+    expect(applyCanvasOperation(createCanvas(), { type: "fit_group", id: "a" }).error).toBe(
+      'Node "a" is not a group'
+    );
+  });
+
+  it("changes file and link targets", () => {
+    const canvas = canvasWithGroup();
+
+    expect(
+      applyCanvasOperation(canvas, {
+        type: "update_node",
+        id: "f",
+        updates: { file: "notes/b.md", subpath: "Heading" },
+      }).success
+    ).toBe(true);
+    expect(
+      applyCanvasOperation(canvas, {
+        type: "update_node",
+        id: "l",
+        updates: { url: "https://b.example" },
+      }).success
+    ).toBe(true);
+    expect(canvas.nodes.find((n) => n.id === "f")).toMatchObject({
+      file: "notes/b.md",
+      subpath: "#Heading",
+    });
+    expect(canvas.nodes.find((n) => n.id === "l")).toMatchObject({ url: "https://b.example" });
+    expect(
+      applyCanvasOperation(canvas, { type: "update_node", id: "a", updates: { url: "x" } }).error
+    ).toBe('Node "a" is not a link node');
+  });
+
+  it("leaves the node untouched when an update is rejected", () => {
+    const canvas = canvasWithGroup();
+    const before = JSON.parse(JSON.stringify(canvas));
+
+    const result = applyCanvasOperation(canvas, {
+      type: "update_node",
+      id: "f",
+      updates: { x: 500, color: "2", file: "" },
+    });
+
+    expect(result.error).toBe("File path required for file node");
+    expect(canvas).toEqual(before);
+  });
+
+  it("creates a new canvas file", async () => {
+    const { vault } = createVault("boards/plan.canvas", createCanvas());
+    const create = jest.fn(async () => new (TFile as any)("new.canvas"));
+    (vault as any).create = create;
+
+    const result = await executeCanvasOperations(vault, "new.canvas", [
+      { type: "create_canvas", id: "new.canvas" },
+      textNode("c"),
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(create).toHaveBeenCalledTimes(1);
+    const [createdPath, content] = create.mock.calls[0] as unknown as [string, string];
+    expect(createdPath).toBe("new.canvas");
+    expect(JSON.parse(content).nodes.map((n: { id: string }) => n.id)).toEqual(["c"]);
+  });
+
+  it("only creates canvases that do not exist yet, as the first operation", () => {
+    const errors = validateCanvasOperations(createCanvas(), [
+      { type: "create_canvas", id: "plan.canvas" },
+    ]);
+    expect(errors[0].error).toBe('Canvas "plan.canvas" already exists');
+
+    const misplaced = validateCanvasOperations({ nodes: [], edges: [] }, [
+      textNode("c"),
+      { type: "create_canvas", id: "plan.canvas" },
+    ]);
+    expect(misplaced[0].error).toBe("create_canvas must be the first operation in the block");
+  });
+});
+
+describe("formatCanvasOperationErrors", () => {
+  it("lists each failed operation with its position", () => {
+    const text = formatCanvasOperationErrors("plan.canvas", [
+      { index: 2, operationId: "e2", operationType: "add_edge", error: "Target node not found" },
+    ]);
+
+    expect(text).toContain("NOT applied");
+    expect(text).toContain("- Operation #3 `add_edge` (e2): Target node not found");
+  });
+});
+
+describe("formatCanvasConflicts", () => {
+  it("asks the agent to re-read the canvas", () => {
+    const text = formatCanvasConflicts("plan.canvas", [
+      { index: 0, operationId: "a", operationType: "update_node", error: '"a" was changed' },
+    ]);
+
+    expect(text).toContain("changed by the user while it was pending");
+    expect(text).toContain("Read the canvas again");
+    expect(text).toContain('- Operation #1 `update_node` (a): "a" was changed');
+  });
+});
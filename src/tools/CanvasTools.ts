@@ -3,7 +3,8 @@
  * Implements atomic operations on canvas files following JSON-Canvas spec.
  */
 
-import { TFile, Vault } from "obsidian";
+import { App, TFile, Vault } from "obsidian";
+import { v4 as uuidv4 } from "uuid";
 import {
   AllCanvasNodeData,
   CanvasData,
@@ -13,18 +14,54 @@ import {
   CanvasLinkData,
   CanvasGroupData,
 } from "obsidian/canvas";
-import { logError, logInfo } from "@/logger";
+import { logError, logInfo, logWarn } from "@/logger";
+import {
+  fitGroupToMembers,
+  layoutCanvasOperations,
+  moveNodesIntoGroup,
+  positionAddNode,
+  PositionedAddNodeOperation,
+} from "@/tools/CanvasLayout";
 import {
   CanvasOperation,
-  AddNodeOperation,
   UpdateNodeOperation,
   DeleteNodeOperation,
   AddEdgeOperation,
+  UpdateEdgeOperation,
   DeleteEdgeOperation,
+  MoveToGroupOperation,
+  FitGroupOperation,
 } from "@/LLMProviders/chainRunner/CanvasOperationStreamer";
+import { ensureFolderExists } from "@/utils";
+
+const NODE_SIDES = ["top", "right", "bottom", "left"];
+const EDGE_ENDS = ["none", "arrow"];
 
 /* ---------- Canvas I/O ---------- */
 
+/**
+ * Canvas node IDs in Obsidian's own format (16 hex characters).
+ */
+export function createCanvasId(): string {
+  return uuidv4().replace(/-/g, "").slice(0, 16);
+}
+
+/**
+ * Save every open view of the canvas so edits the user just made are on disk.
+ * Canvas views save on a debounce; without this the write would overwrite them.
+ */
+export async function saveOpenCanvasViews(app: App, canvasPath: string): Promise<void> {
+  for (const leaf of app.workspace?.getLeavesOfType("canvas") ?? []) {
+    const view = leaf.view as any;
+    if (view?.file?.path !== canvasPath || typeof view.save !== "function") continue;
+    try {
+      await view.save();
+    } catch (error) {
+      logWarn(`[CanvasTools] Failed to save open canvas view: ${canvasPath}`, error);
+    }
+  }
+}
+
 /**
  * Read and parse a canvas file.
  */
@@ -45,7 +82,22 @@ export async function readCanvasFile(vault: Vault, canvasPath: string): Promise<
 }
 
 /**
- * Write canvas data back to file.
+ * Read the canvas a block of operations applies to. A block that starts with
+ * create_canvas starts from an empty canvas when the file does not exist yet.
+ */
+export async function readCanvasForOperations(
+  vault: Vault,
+  canvasPath: string,
+  operations: CanvasOperation[]
+): Promise<CanvasData | null> {
+  if (operations[0]?.type === "create_canvas" && !vault.getAbstractFileByPath(canvasPath)) {
+    return { nodes: [], edges: [] };
+  }
+  return readCanvasFile(vault, canvasPath);
+}
+
+/**
+ * Write canvas data back to file, creating the file (and its folder) if needed.
  */
 export async function writeCanvasFile(
   vault: Vault,
@@ -54,12 +106,27 @@ export async function writeCanvasFile(
 ): Promise<boolean> {
   try {
     const file = vault.getAbstractFileByPath(canvasPath);
+    const content = JSON.stringify(data, null, 2);
+
+    if (!file) {
+      if (!canvasPath.endsWith(".canvas")) {
+        logError(`[CanvasTools] Invalid canvas path: ${canvasPath}`);
+        return false;
+      }
+      const folder = canvasPath.includes("/") ? canvasPath.split("/").slice(0, -1).join("/") : "";
+      if (folder) {
+        await ensureFolderExists(folder);
+      }
+      await vault.create(canvasPath, content);
+      logInfo(`[CanvasTools] Canvas created: ${canvasPath}`);
+      return true;
+    }
+
     if (!(file instanceof TFile)) {
-      logError(`[CanvasTools] Canvas file not found: ${canvasPath}`);
+      logError(`[CanvasTools] Canvas path is not a file: ${canvasPath}`);
       return false;
     }
 
-    const content = JSON.stringify(data, null, 2);
     await vault.modify(file, content);
     logInfo(`[CanvasTools] Canvas updated: ${canvasPath}`);
     return true;
@@ -71,30 +138,48 @@ export async function writeCanvasFile(
 
 /* ---------- Operation Execution ---------- */
 
+/**
+ * A single node or edge record changed by an operation, with its state on both
+ * sides of the change. `before` is null for created records and `after` is null
+ * for removed ones, so a change can always be inverted.
+ */
+export interface CanvasRecordChange {
+  kind: "node" | "edge";
+  id: string;
+  /** Position of the record in its array before the change (-1 if it did not exist). */
+  index: number;
+  before: AllCanvasNodeData | CanvasEdgeData | null;
+  after: AllCanvasNodeData | CanvasEdgeData | null;
+}
+
 export interface OperationResult {
   success: boolean;
   error?: string;
   affectedIds?: string[];
+  /** Prior and resulting state of every record the operation touched. */
+  changes?: CanvasRecordChange[];
 }
 
 /**
- * Execute a single canvas operation.
+ * Apply a single operation to in-memory canvas data and record the changes it made.
  */
-export async function executeCanvasOperation(
-  vault: Vault,
-  canvasPath: string,
+export function applyCanvasOperation(
+  canvasData: CanvasData,
   operation: CanvasOperation
-): Promise<OperationResult> {
-  const canvasData = await readCanvasFile(vault, canvasPath);
-  if (!canvasData) {
-    return { success: false, error: `Failed to read canvas: ${canvasPath}` };
-  }
+): OperationResult {
+  // Shallow copies are enough: executors replace or mutate top-level fields only
+  const nodesBefore = new Map(
+    canvasData.nodes.map((n, index) => [n.id, { index, data: { ...n } }])
+  );
+  const edgesBefore = new Map(
+    canvasData.edges.map((e, index) => [e.id, { index, data: { ...e } }])
+  );
 
   let result: OperationResult;
 
   switch (operation.type) {
     case "add_node":
-      result = executeAddNode(canvasData, operation);
+      result = executeAddNode(canvasData, positionAddNode(canvasData, operation));
       break;
     case "update_node":
       result = executeUpdateNode(canvasData, operation);
@@ -105,13 +190,56 @@ export async function executeCanvasOperation(
     case "add_edge":
       result = executeAddEdge(canvasData, operation);
       break;
+    case "update_edge":
+      result = executeUpdateEdge(canvasData, operation);
+      break;
     case "delete_edge":
       result = executeDeleteEdge(canvasData, operation);
       break;
+    case "move_to_group":
+      result = executeMoveToGroup(canvasData, operation);
+      break;
+    case "fit_group":
+      result = executeFitGroup(canvasData, operation);
+      break;
+    case "create_canvas":
+      // The file itself is created when the block is written
+      result =
+        canvasData.nodes.length > 0 || canvasData.edges.length > 0
+          ? { success: false, error: `Canvas "${operation.id}" already exists` }
+          : { success: true, affectedIds: [] };
+      break;
     default:
       return { success: false, error: `Unknown operation type` };
   }
 
+  if (result.success) {
+    result.changes = collectRecordChanges(
+      canvasData,
+      result.affectedIds ?? [],
+      nodesBefore,
+      edgesBefore
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Execute a single canvas operation.
+ */
+export async function executeCanvasOperation(
+  vault: Vault,
+  canvasPath: string,
+  operation: CanvasOperation
+): Promise<OperationResult> {
+  const canvasData = await readCanvasFile(vault, canvasPath);
+  if (!canvasData) {
+    return { success: false, error: `Failed to read canvas: ${canvasPath}` };
+  }
+
+  const result = applyCanvasOperation(canvasData, operation);
+
   if (result.success) {
     const writeSuccess = await writeCanvasFile(vault, canvasPath, canvasData);
     if (!writeSuccess) {
@@ -123,74 +251,420 @@ export async function executeCanvasOperation(
 }
 
 /**
- * Execute multiple canvas operations atomically.
+ * A block operation that cannot be applied, reported so the agent can fix it.
+ */
+export interface CanvasOperationError {
+  /** Position of the operation in the block. */
+  index: number;
+  operationId: string;
+  operationType: string;
+  error: string;
+}
+
+export interface CanvasTransactionResult {
+  success: boolean;
+  /** Read/write failure that prevented the transaction from running. */
+  error?: string;
+  /** Per-operation results, in block order. */
+  results: OperationResult[];
+  /** Every operation that failed validation. Empty when the block was written. */
+  errors: CanvasOperationError[];
+  /** Changes written to the canvas, in order. Empty when nothing was written. */
+  changes: CanvasRecordChange[];
+  /**
+   * The canvas changed since the operations were planned and they could not be
+   * re-applied on top of the change. `errors` describes each conflict.
+   */
+  conflict?: boolean;
+}
+
+/**
+ * Validate a block of operations against canvas data without modifying it.
+ * Operations are checked in order, so an operation may refer to records created
+ * earlier in the same block. Nodes without coordinates are laid out first.
+ * Every failing operation is reported, not just the first.
+ */
+export function validateCanvasOperations(
+  canvasData: CanvasData,
+  operations: CanvasOperation[]
+): CanvasOperationError[] {
+  return dryRunCanvasOperations(canvasData, operations).errors;
+}
+
+/**
+ * Execute a block of canvas operations as a single transaction.
+ * The whole block is validated first; the canvas is written exactly once when
+ * every operation applies, and left untouched otherwise.
+ * @param base - Canvas the operations were planned against. When the file has
+ * changed since, the operations are re-applied on top of the current content,
+ * and the transaction fails as a conflict if they touch records that changed.
  */
 export async function executeCanvasOperations(
   vault: Vault,
   canvasPath: string,
-  operations: CanvasOperation[]
-): Promise<{ results: OperationResult[]; allSuccess: boolean }> {
-  const canvasData = await readCanvasFile(vault, canvasPath);
+  operations: CanvasOperation[],
+  base?: CanvasData
+): Promise<CanvasTransactionResult> {
+  const canvasData = await readCanvasForOperations(vault, canvasPath, operations);
   if (!canvasData) {
     return {
-      results: [{ success: false, error: `Failed to read canvas: ${canvasPath}` }],
-      allSuccess: false,
+      success: false,
+      error: `Failed to read canvas: ${canvasPath}`,
+      results: [],
+      errors: [],
+      changes: [],
     };
   }
 
-  const results: OperationResult[] = [];
-
-  for (const operation of operations) {
-    let result: OperationResult;
-
-    switch (operation.type) {
-      case "add_node":
-        result = executeAddNode(canvasData, operation);
-        break;
-      case "update_node":
-        result = executeUpdateNode(canvasData, operation);
-        break;
-      case "delete_node":
-        result = executeDeleteNode(canvasData, operation);
-        break;
-      case "add_edge":
-        result = executeAddEdge(canvasData, operation);
-        break;
-      case "delete_edge":
-        result = executeDeleteEdge(canvasData, operation);
-        break;
-      default:
-        result = { success: false, error: `Unknown operation type` };
+  const changed = !!base && JSON.stringify(base) !== JSON.stringify(canvasData);
+  if (changed) {
+    const conflicts = findCanvasConflicts(base!, canvasData, operations);
+    if (conflicts.length > 0) {
+      logWarn(`[CanvasTools] ${conflicts.length} conflicting operation(s) on ${canvasPath}`);
+      return { success: false, results: [], errors: conflicts, changes: [], conflict: true };
     }
+    logInfo(`[CanvasTools] ${canvasPath} changed since it was read; merging operations`);
+  }
+
+  const dryRun = dryRunCanvasOperations(canvasData, operations);
+  if (dryRun.errors.length > 0) {
+    return {
+      success: false,
+      results: dryRun.results,
+      errors: dryRun.errors,
+      changes: [],
+      ...(changed && { conflict: true }),
+    };
+  }
 
-    results.push(result);
+  const writeSuccess = await writeCanvasFile(vault, canvasPath, dryRun.canvasData);
+  if (!writeSuccess) {
+    return {
+      success: false,
+      error: "Failed to write canvas file",
+      results: dryRun.results,
+      errors: [],
+      changes: [],
+    };
   }
 
-  const allSuccess = results.every((r) => r.success);
+  return {
+    success: true,
+    results: dryRun.results,
+    errors: [],
+    changes: dryRun.results.flatMap((r) => r.changes ?? []),
+  };
+}
 
-  // Only write if at least one operation succeeded
-  if (results.some((r) => r.success)) {
-    const writeSuccess = await writeCanvasFile(vault, canvasPath, canvasData);
-    if (!writeSuccess) {
-      return {
-        results: results.map((r) =>
-          r.success ? { ...r, success: false, error: "Failed to write canvas file" } : r
-        ),
-        allSuccess: false,
-      };
+/**
+ * Format validation errors as instructions the agent can act on.
+ * @param via - Whether the operations came from a canvas_edit block or the canvasEdit tool
+ */
+export function formatCanvasOperationErrors(
+  canvasPath: string,
+  errors: CanvasOperationError[],
+  via: "canvas_edit" | "canvasEdit" = "canvas_edit"
+): string {
+  const [subject, retry] =
+    via === "canvasEdit"
+      ? ["canvasEdit call", "call canvasEdit again with"]
+      : ["canvas_edit block", "output a corrected canvas_edit block containing"];
+  return [
+    `The ${subject} for "${canvasPath}" was NOT applied: ${errors.length} operation(s) failed validation, so no changes were written.`,
+    `Fix the operations below and ${retry} the complete set of operations.`,
+    ...errors.map(
+      (e) => `- Operation #${e.index + 1} \`${e.operationType}\` (${e.operationId}): ${e.error}`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Find operations that would overwrite changes made to the canvas after the
+ * operations were planned against `base`. Updates conflict only when a field they
+ * set was changed; deletions conflict when the record was changed at all, and any
+ * operation conflicts when a record it depends on was removed.
+ */
+export function findCanvasConflicts(
+  base: CanvasData,
+  current: CanvasData,
+  operations: CanvasOperation[]
+): CanvasOperationError[] {
+  const baseRecords = indexCanvasRecords(base);
+  const currentRecords = indexCanvasRecords(current);
+  const errors: CanvasOperationError[] = [];
+
+  operations.forEach((operation, index) => {
+    const conflict = getReferencedIds(operation)
+      .map((id) => {
+        const before = baseRecords.get(id);
+        if (!before) return null;
+        return describeRecordDrift(
+          id,
+          before,
+          currentRecords.get(id),
+          getWrittenFields(operation, id)
+        );
+      })
+      .find((message) => message !== null);
+
+    if (conflict) {
+      errors.push({
+        index,
+        operationId: operation.id,
+        operationType: operation.type,
+        error: `${conflict} after this edit was planned. Read the canvas again before retrying.`,
+      });
     }
+  });
+
+  return errors;
+}
+
+/**
+ * Find records the user changed after a set of recorded changes was applied,
+ * which reverting those changes would overwrite. Each record is compared with
+ * its state after the last change to it.
+ */
+export function findRollbackConflicts(
+  current: CanvasData,
+  changes: CanvasRecordChange[]
+): string[] {
+  const expected = new Map<string, CanvasRecordChange["after"]>();
+  for (const change of changes) {
+    expected.set(change.id, change.after);
+  }
+
+  const currentRecords = indexCanvasRecords(current);
+  const conflicts: string[] = [];
+  for (const [id, after] of expected) {
+    const record = currentRecords.get(id);
+    const conflict = after
+      ? describeRecordDrift(id, after, record, null)
+      : record
+        ? `"${id}" was added to the canvas again`
+        : null;
+    if (conflict) conflicts.push(conflict);
   }
+  return conflicts;
+}
 
-  return { results, allSuccess };
+/**
+ * Format concurrent-edit conflicts as instructions the agent can act on.
+ */
+export function formatCanvasConflicts(canvasPath: string, errors: CanvasOperationError[]): string {
+  return [
+    `The edit for "${canvasPath}" was NOT applied: the canvas was changed by the user while it was pending, and ${errors.length} operation(s) would overwrite those changes. Nothing was written.`,
+    "Read the canvas again and redo the edit against its current content.",
+    ...errors.map(
+      (e) => `- Operation #${e.index + 1} \`${e.operationType}\` (${e.operationId}): ${e.error}`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Revert recorded changes on in-memory canvas data, newest change first.
+ * Removed records are re-inserted at their original position where possible.
+ */
+export function revertCanvasChanges(canvasData: CanvasData, changes: CanvasRecordChange[]): void {
+  for (const change of [...changes].reverse()) {
+    const records: Array<AllCanvasNodeData | CanvasEdgeData> =
+      change.kind === "node" ? canvasData.nodes : canvasData.edges;
+    const currentIndex = records.findIndex((r) => r.id === change.id);
+
+    if (change.before === null) {
+      if (currentIndex !== -1) {
+        records.splice(currentIndex, 1);
+      }
+      continue;
+    }
+
+    const restored = { ...change.before };
+    if (currentIndex !== -1) {
+      records[currentIndex] = restored;
+    } else {
+      const insertAt = change.index >= 0 ? Math.min(change.index, records.length) : records.length;
+      records.splice(insertAt, 0, restored);
+    }
+  }
+}
+
+/**
+ * Build change records for the IDs an operation reported as affected.
+ */
+function collectRecordChanges(
+  canvasData: CanvasData,
+  affectedIds: string[],
+  nodesBefore: Map<string, { index: number; data: AllCanvasNodeData }>,
+  edgesBefore: Map<string, { index: number; data: CanvasEdgeData }>
+): CanvasRecordChange[] {
+  const changes: CanvasRecordChange[] = [];
+
+  for (const id of affectedIds) {
+    const nodeBefore = nodesBefore.get(id);
+    const nodeAfter = canvasData.nodes.find((n) => n.id === id);
+    if (nodeBefore || nodeAfter) {
+      changes.push({
+        kind: "node",
+        id,
+        index: nodeBefore?.index ?? -1,
+        before: nodeBefore?.data ?? null,
+        after: nodeAfter ? { ...nodeAfter } : null,
+      });
+    }
+
+    const edgeBefore = edgesBefore.get(id);
+    const edgeAfter = canvasData.edges.find((e) => e.id === id);
+    if (edgeBefore || edgeAfter) {
+      changes.push({
+        kind: "edge",
+        id,
+        index: edgeBefore?.index ?? -1,
+        before: edgeBefore?.data ?? null,
+        after: edgeAfter ? { ...edgeAfter } : null,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Apply operations in order to a copy of the canvas, collecting every failure.
+ * Failed operations are skipped so later operations are still checked.
+ */
+function dryRunCanvasOperations(
+  canvasData: CanvasData,
+  operations: CanvasOperation[]
+): { canvasData: CanvasData; results: OperationResult[]; errors: CanvasOperationError[] } {
+  const working: CanvasData = JSON.parse(JSON.stringify(canvasData));
+  const errors: CanvasOperationError[] = [];
+  const laidOut = layoutCanvasOperations(canvasData, operations);
+
+  // Where each ID is created in the block, to explain forward references
+  const createdAt = new Map<string, number>();
+  laidOut.forEach((op, index) => {
+    if ((op.type === "add_node" || op.type === "add_edge") && !createdAt.has(op.id)) {
+      createdAt.set(op.id, index);
+    }
+  });
+
+  const results = laidOut.map((operation, index) => {
+    const result: OperationResult =
+      operation.type === "create_canvas" && index > 0
+        ? { success: false, error: "create_canvas must be the first operation in the block" }
+        : applyCanvasOperation(working, operation);
+    if (!result.success) {
+      const laterRef = getReferencedIds(operation).find((id) => (createdAt.get(id) ?? -1) > index);
+      const hint =
+        laterRef !== undefined
+          ? ` ("${laterRef}" is only created later in the block by operation #${createdAt.get(laterRef)! + 1}; move that operation before this one)`
+          : "";
+      errors.push({
+        index,
+        operationId: operation.id,
+        operationType: operation.type,
+        error: `${result.error ?? "Unknown error"}${hint}`,
+      });
+    }
+    return result;
+  });
+
+  return { canvasData: working, results, errors };
+}
+
+/**
+ * Nodes and edges by ID.
+ */
+function indexCanvasRecords(
+  canvasData: CanvasData
+): Map<string, AllCanvasNodeData | CanvasEdgeData> {
+  const records = new Map<string, AllCanvasNodeData | CanvasEdgeData>();
+  for (const record of [...canvasData.nodes, ...canvasData.edges]) {
+    records.set(record.id, record);
+  }
+  return records;
+}
+
+/**
+ * Describe how a record differs from its expected state, limited to `fields`
+ * when given, or null when it is unchanged.
+ */
+function describeRecordDrift(
+  id: string,
+  expected: AllCanvasNodeData | CanvasEdgeData,
+  current: AllCanvasNodeData | CanvasEdgeData | undefined,
+  fields: string[] | null
+): string | null {
+  if (!current) return `"${id}" was deleted from the canvas`;
+
+  const changedFields = Array.from(
+    new Set([...Object.keys(expected), ...Object.keys(current)])
+  ).filter(
+    (key) =>
+      (!fields || fields.includes(key)) &&
+      JSON.stringify((expected as any)[key]) !== JSON.stringify((current as any)[key])
+  );
+  return changedFields.length > 0
+    ? `"${id}" was changed in the canvas (${changedFields.join(", ")})`
+    : null;
+}
+
+/**
+ * Record fields an operation overwrites on a referenced record, or null when it
+ * replaces the record as a whole (deletions). Records an operation only refers to,
+ * like the ends of a new edge, have no written fields.
+ */
+function getWrittenFields(operation: CanvasOperation, id: string): string[] | null {
+  switch (operation.type) {
+    case "update_node":
+    case "update_edge":
+      if (id !== operation.id) return [];
+      return Object.keys(operation.updates).map((key) => (key === "content" ? "text" : key));
+    case "delete_node":
+    case "delete_edge":
+      return null;
+    case "move_to_group":
+      return id === operation.id ? ["width", "height"] : ["x", "y"];
+    case "fit_group":
+      return ["x", "y", "width", "height"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * IDs of existing records an operation depends on.
+ */
+function getReferencedIds(operation: CanvasOperation): string[] {
+  switch (operation.type) {
+    case "add_edge":
+      return [operation.fromNode, operation.toNode];
+    case "update_edge":
+      return [operation.id, operation.updates.fromNode, operation.updates.toNode].filter(
+        (id): id is string => !!id
+      );
+    case "move_to_group":
+      return [operation.id, ...operation.nodeIds];
+    case "update_node":
+    case "delete_node":
+    case "delete_edge":
+    case "fit_group":
+      return [operation.id];
+    default:
+      return [];
+  }
 }
 
 /* ---------- Individual Operations ---------- */
 
-function executeAddNode(canvasData: CanvasData, op: AddNodeOperation): OperationResult {
-  // Check for duplicate ID
+function executeAddNode(canvasData: CanvasData, op: PositionedAddNodeOperation): OperationResult {
+  // Check for duplicate ID (nodes and edges share one ID space)
   if (canvasData.nodes.some((n) => n.id === op.id)) {
     return { success: false, error: `Node with ID "${op.id}" already exists` };
   }
+  if (canvasData.edges.some((e) => e.id === op.id)) {
+    return { success: false, error: `ID "${op.id}" is already used by an edge` };
+  }
 
   let newNode: AllCanvasNodeData;
 
@@ -268,20 +742,47 @@ function executeUpdateNode(canvasData: CanvasData, op: UpdateNodeOperation): Ope
   }
 
   const node = canvasData.nodes[nodeIndex];
+  const { updates } = op;
+
+  // Validate everything first so a rejected update leaves the node untouched
+  if ((updates.file !== undefined || updates.subpath !== undefined) && node.type !== "file") {
+    return { success: false, error: `Node "${op.id}" is not a file node` };
+  }
+  if (updates.file !== undefined && !updates.file) {
+    return { success: false, error: "File path required for file node" };
+  }
+  if (updates.url !== undefined && node.type !== "link") {
+    return { success: false, error: `Node "${op.id}" is not a link node` };
+  }
+  if (updates.url !== undefined && !updates.url) {
+    return { success: false, error: "URL required for link node" };
+  }
 
   // Apply updates
-  if (op.updates.x !== undefined) node.x = op.updates.x;
-  if (op.updates.y !== undefined) node.y = op.updates.y;
-  if (op.updates.width !== undefined) node.width = op.updates.width;
-  if (op.updates.height !== undefined) node.height = op.updates.height;
-  if (op.updates.color !== undefined) node.color = op.updates.color;
+  if (updates.x !== undefined) node.x = updates.x;
+  if (updates.y !== undefined) node.y = updates.y;
+  if (updates.width !== undefined) node.width = updates.width;
+  if (updates.height !== undefined) node.height = updates.height;
+  if (updates.color !== undefined) node.color = updates.color;
 
   // Type-specific updates
-  if (node.type === "text" && op.updates.content !== undefined) {
-    (node as CanvasTextData).text = op.updates.content;
+  if (node.type === "text" && updates.content !== undefined) {
+    (node as CanvasTextData).text = updates.content;
   }
-  if (node.type === "group" && op.updates.label !== undefined) {
-    (node as CanvasGroupData).label = op.updates.label;
+  if (node.type === "group" && updates.label !== undefined) {
+    (node as CanvasGroupData).label = updates.label;
+  }
+  if (node.type === "file") {
+    const fileNode = node as CanvasFileData;
+    if (updates.file !== undefined) fileNode.file = updates.file;
+    if (updates.subpath) {
+      fileNode.subpath = updates.subpath.startsWith("#") ? updates.subpath : `#${updates.subpath}`;
+    } else if (updates.subpath !== undefined) {
+      delete fileNode.subpath;
+    }
+  }
+  if (node.type === "link" && updates.url !== undefined) {
+    (node as CanvasLinkData).url = updates.url;
   }
 
   return { success: true, affectedIds: [op.id] };
@@ -309,7 +810,27 @@ function executeDeleteNode(canvasData: CanvasData, op: DeleteNodeOperation): Ope
   return { success: true, affectedIds: [op.id, ...removedEdgeIds] };
 }
 
+/**
+ * Check the optional arrow ends of an edge. Returns an error message, or null when valid.
+ */
+function validateEdgeEnds(ends: { fromEnd?: string; toEnd?: string }): string | null {
+  for (const key of ["fromEnd", "toEnd"] as const) {
+    if (ends[key] !== undefined && !EDGE_ENDS.includes(ends[key]!)) {
+      return `Invalid ${key} "${ends[key]}" (use "none" or "arrow")`;
+    }
+  }
+  return null;
+}
+
 function executeAddEdge(canvasData: CanvasData, op: AddEdgeOperation): OperationResult {
+  // Check for duplicate ID (nodes and edges share one ID space)
+  if (canvasData.edges.some((e) => e.id === op.id)) {
+    return { success: false, error: `Edge with ID "${op.id}" already exists` };
+  }
+  if (canvasData.nodes.some((n) => n.id === op.id)) {
+    return { success: false, error: `ID "${op.id}" is already used by a node` };
+  }
+
   // Validate nodes exist
   if (!canvasData.nodes.some((n) => n.id === op.fromNode)) {
     return { success: false, error: `Source node "${op.fromNode}" not found` };
@@ -317,6 +838,10 @@ function executeAddEdge(canvasData: CanvasData, op: AddEdgeOperation): Operation
   if (!canvasData.nodes.some((n) => n.id === op.toNode)) {
     return { success: false, error: `Target node "${op.toNode}" not found` };
   }
+  const endError = validateEdgeEnds(op);
+  if (endError) {
+    return { success: false, error: endError };
+  }
 
   const newEdge: CanvasEdgeData = {
     id: op.id,
@@ -324,6 +849,8 @@ function executeAddEdge(canvasData: CanvasData, op: AddEdgeOperation): Operation
     toNode: op.toNode,
     fromSide: op.fromSide || "right",
     toSide: op.toSide || "left",
+    fromEnd: op.fromEnd,
+    toEnd: op.toEnd,
     label: op.label,
     color: op.color,
   };
@@ -332,6 +859,49 @@ function executeAddEdge(canvasData: CanvasData, op: AddEdgeOperation): Operation
   return { success: true, affectedIds: [op.id] };
 }
 
+function executeUpdateEdge(canvasData: CanvasData, op: UpdateEdgeOperation): OperationResult {
+  const edge = canvasData.edges.find((e) => e.id === op.id);
+  if (!edge) {
+    return { success: false, error: `Edge with ID "${op.id}" not found` };
+  }
+
+  const { updates } = op;
+  if (updates.fromNode !== undefined && !canvasData.nodes.some((n) => n.id === updates.fromNode)) {
+    return { success: false, error: `Source node "${updates.fromNode}" not found` };
+  }
+  if (updates.toNode !== undefined && !canvasData.nodes.some((n) => n.id === updates.toNode)) {
+    return { success: false, error: `Target node "${updates.toNode}" not found` };
+  }
+  for (const key of ["fromSide", "toSide"] as const) {
+    if (updates[key] !== undefined && !NODE_SIDES.includes(updates[key]!)) {
+      return { success: false, error: `Invalid ${key} "${updates[key]}"` };
+    }
+  }
+  const endError = validateEdgeEnds(updates);
+  if (endError) {
+    return { success: false, error: endError };
+  }
+
+  if (updates.fromNode !== undefined) edge.fromNode = updates.fromNode;
+  if (updates.toNode !== undefined) edge.toNode = updates.toNode;
+  if (updates.fromSide !== undefined) edge.fromSide = updates.fromSide;
+  if (updates.toSide !== undefined) edge.toSide = updates.toSide;
+  if (updates.fromEnd !== undefined) edge.fromEnd = updates.fromEnd;
+  if (updates.toEnd !== undefined) edge.toEnd = updates.toEnd;
+
+  // Empty values remove the optional label and color
+  for (const key of ["label", "color"] as const) {
+    if (updates[key] === undefined) continue;
+    if (updates[key]) {
+      edge[key] = updates[key];
+    } else {
+      delete edge[key];
+    }
+  }
+
+  return { success: true, affectedIds: [op.id] };
+}
+
 function executeDeleteEdge(canvasData: CanvasData, op: DeleteEdgeOperation): OperationResult {
   const edgeIndex = canvasData.edges.findIndex((e) => e.id === op.id);
   if (edgeIndex === -1) {
@@ -341,3 +911,54 @@ function executeDeleteEdge(canvasData: CanvasData, op: DeleteEdgeOperation): Ope
   canvasData.edges.splice(edgeIndex, 1);
   return { success: true, affectedIds: [op.id] };
 }
+
+function executeMoveToGroup(canvasData: CanvasData, op: MoveToGroupOperation): OperationResult {
+  const group = canvasData.nodes.find((n) => n.id === op.id);
+  if (!group) {
+    return { success: false, error: `Group with ID "${op.id}" not found` };
+  }
+  if (group.type !== "group") {
+    return { success: false, error: `Node "${op.id}" is not a group` };
+  }
+  if (op.nodeIds.length === 0) {
+    return { success: false, error: "No nodes to move" };
+  }
+  if (op.nodeIds.includes(op.id)) {
+    return { success: false, error: "A group cannot be moved into itself" };
+  }
+  const missing = op.nodeIds.filter((id) => !canvasData.nodes.some((n) => n.id === id));
+  if (missing.length > 0) {
+    return { success: false, error: `Node(s) not found: ${missing.join(", ")}` };
+  }
+
+  const { positions, group: geometry } = moveNodesIntoGroup(canvasData, op.id, op.nodeIds);
+  for (const node of canvasData.nodes) {
+    const position = positions.get(node.id);
+    if (position) {
+      node.x = position.x;
+      node.y = position.y;
+    }
+  }
+  group.width = geometry.width;
+  group.height = geometry.height;
+
+  return { success: true, affectedIds: [...positions.keys(), op.id] };
+}
+
+function executeFitGroup(canvasData: CanvasData, op: FitGroupOperation): OperationResult {
+  const group = canvasData.nodes.find((n) => n.id === op.id);
+  if (!group) {
+    return { success: false, error: `Group with ID "${op.id}" not found` };
+  }
+  if (group.type !== "group") {
+    return { success: false, error: `Node "${op.id}" is not a group` };
+  }
+
+  const geometry = fitGroupToMembers(canvasData, op.id);
+  if (!geometry) {
+    return { success: false, error: `Group "${op.id}" has no nodes inside it to fit` };
+  }
+  Object.assign(group, geometry);
+
+  return { success: true, affectedIds: [op.id] };
+}
@@ -430,6 +430,7 @@ function parseSearchReplaceBlocks(
 }
 
 export {
+  show_preview,
   writeToFileTool,
   replaceInFileTool,
   parseSearchReplaceBlocks,
@@ -0,0 +1,143 @@
+import { StructuredTool } from "@langchain/core/tools";
+import { TFile } from "obsidian";
+import { getLinkedNotesTool } from "./LinkGraphTools";
+
+const notes: Record<string, string> = {
+  "Specs/Auth.md": "# Auth\nUses the [[Glossary]] terms.\nSee [[Missing page]] later.",
+  "Specs/Glossary.md": "# Glossary",
+  "Design/Login.md": "# Login\nImplements [[Auth#Tokens|token rules]] from the spec.",
+  "Tasks/Ship login.md": "- [ ] Build [[Login]]",
+};
+
+const resolvedLinks: Record<string, Record<string, number>> = {
+  "Specs/Auth.md": { "Specs/Glossary.md": 1 },
+  "Design/Login.md": { "Specs/Auth.md": 1 },
+  "Tasks/Ship login.md": { "Design/Login.md": 1 },
+};
+
+/** Link caches with the position of each [[link]] in the note. */
+function linkCache(path: string) {
+  const links = notes[path].split("\n").flatMap((line, index) =>
+    Array.from(line.matchAll(/\[\[([^\]]+)\]\]/g), (match) => ({
+      link: match[1].split("|")[0],
+      original: match[0],
+      position: { start: { line: index, col: 0, offset: 0 } },
+    }))
+  );
+  return { links };
+}
+
+const invoke = async (args: Record<string, unknown>) => {
+  const result = await (getLinkedNotesTool as StructuredTool).invoke(args);
+  return typeof result === "string" ? JSON.parse(result) : result;
+};
+
+describe("getLinkedNotesTool", () => {
+  const originalApp = (globalThis as any).app;
+
+  beforeEach(() => {
+    const files = new Map(Object.keys(notes).map((path) => [path, new (TFile as any)(path)]));
+    (globalThis as any).app = {
+      vault: {
+        getAbstractFileByPath: jest.fn((path: string) => files.get(path) ?? null),
+        getMarkdownFiles: jest.fn(() => Array.from(files.values())),
+        cachedRead: jest.fn(async (file: TFile) => notes[file.path]),
+      },
+      metadataCache: {
+        resolvedLinks,
+        unresolvedLinks: { "Specs/Auth.md": { "Missing page": 1 } },
+        getFileCache: jest.fn((file: TFile) =>
+          file.path === "Specs/Glossary.md"
+            ? { ...linkCache(file.path), frontmatter: { tags: ["spec"] } }
+            : linkCache(file.path)
+        ),
+        getFirstLinkpathDest: jest.fn(
+          (linkpath: string) =>
+            Array.from(files.values()).find((file) => file.basename === linkpath) ?? null
+        ),
+      },
+    };
+  });
+
+  afterEach(() => {
+    (globalThis as any).app = originalApp;
+  });
+
+  it("returns outgoing links, backlinks and unresolved links with their context", async () => {
+    const result = await invoke({ notePath: "Specs/Auth" });
+
+    expect(result.status).toBe("ok");
+    expect(result.outgoing).toEqual([
+      {
+        path: "Specs/Glossary.md",
+        title: "Glossary",
+        hop: 1,
+        from: "Specs/Auth.md",
+        context: ["Uses the [[Glossary]] terms."],
+      },
+    ]);
+    expect(result.backlinks).toEqual([
+      {
+        path: "Design/Login.md",
+        title: "Login",
+        hop: 1,
+        from: "Specs/Auth.md",
+        context: ["Implements [[Auth#Tokens|token rules]] from the spec."],
+      },
+    ]);
+    expect(result.unresolved).toEqual([
+      { link: "Missing page", from: "Specs/Auth.md", context: ["See [[Missing page]] later."] },
+    ]);
+  });
+
+  it("follows backlinks over several hops", async () => {
+    const result = await invoke({ notePath: "Specs/Auth.md", direction: "backlinks", depth: 2 });
+
+    expect(result.outgoing).toEqual([]);
+    expect(result.backlinks.map((entry: any) => [entry.path, entry.hop, entry.from])).toEqual([
+      ["Design/Login.md", 1, "Specs/Auth.md"],
+      ["Tasks/Ship login.md", 2, "Design/Login.md"],
+    ]);
+    expect(result.backlinks[1].context).toEqual(["- [ ] Build [[Login]]"]);
+  });
+
+  it("lists a mutually linked note under both outgoing links and backlinks", async () => {
+    resolvedLinks["Specs/Glossary.md"] = { "Specs/Auth.md": 1 };
+    notes["Specs/Glossary.md"] = "# Glossary\nTerms of [[Auth]].";
+    try {
+      const result = await invoke({ notePath: "Specs/Auth.md" });
+
+      expect(result.outgoing.map((entry: any) => entry.path)).toEqual(["Specs/Glossary.md"]);
+      expect(result.backlinks.map((entry: any) => [entry.path, entry.context])).toEqual([
+        ["Design/Login.md", ["Implements [[Auth#Tokens|token rules]] from the spec."]],
+        ["Specs/Glossary.md", ["Terms of [[Auth]]."]],
+      ]);
+    } finally {
+      delete resolvedLinks["Specs/Glossary.md"];
+      notes["Specs/Glossary.md"] = "# Glossary";
+    }
+  });
+
+  it("filters results by folder and tag but still walks through other notes", async () => {
+    const byFolder = await invoke({ notePath: "Specs/Auth.md", depth: 2, folder: "Tasks" });
+    const byTag = await invoke({ notePath: "Specs/Auth.md", tag: "#spec" });
+
+    expect(byFolder.backlinks.map((entry: any) => entry.path)).toEqual(["Tasks/Ship login.md"]);
+    expect(byFolder.outgoing).toEqual([]);
+    expect(byTag.outgoing.map((entry: any) => entry.path)).toEqual(["Specs/Glossary.md"]);
+    expect(byTag.backlinks).toEqual([]);
+  });
+
+  it("caps the number of returned notes", async () => {
+    const result = await invoke({ notePath: "Specs/Auth.md", depth: 3, maxResults: 1 });
+
+    expect(result.outgoing.length + result.backlinks.length).toBe(1);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("reports notes that do not exist", async () => {
+    const result = await invoke({ notePath: "Nowhere.md" });
+
+    expect(result.status).toBe("not_found");
+  });
+});
@@ -0,0 +1,267 @@
+import { logWarn } from "@/logger";
+import { getTagsFromNote } from "@/utils";
+import { LinkCache, TFile } from "obsidian";
+import { z } from "zod";
+import { createLangChainTool } from "./createLangChainTool";
+import { resolveNoteFile } from "./NoteTools";
+
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_CONTEXT_LINES = 3;
+const MAX_CONTEXT_LENGTH = 200;
+
+interface LinkedNoteEntry {
+  path: string;
+  title: string;
+  /** Distance from the starting note */
+  hop: number;
+  /** Note this one was reached from */
+  from: string;
+  /** Lines where the link appears, in the linking note */
+  context: string[];
+}
+
+interface UnresolvedLinkEntry {
+  link: string;
+  from: string;
+  context: string[];
+}
+
+const getLinkedNotesSchema = z.object({
+  notePath: z.string().min(1).describe("Vault-relative path (or name) of the note to start from"),
+  direction: z
+    .enum(["outgoing", "backlinks", "both"])
+    .optional()
+    .describe("Follow links from the note, links to it, or both. Defaults to both."),
+  depth: z
+    .number()
+    .int()
+    .min(1)
+    .max(3)
+    .optional()
+    .describe("How many hops to follow. Defaults to 1 (direct links only)."),
+  folder: z.string().optional().describe("Only return notes inside this folder"),
+  tag: z.string().optional().describe("Only return notes with this tag (nested tags match)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(`Maximum number of linked notes to return. Defaults to ${DEFAULT_MAX_RESULTS}.`),
+});
+
+/**
+ * Strip the heading/block reference and alias from a link target.
+ */
+function linkTarget(link: string): string {
+  return link.split("|")[0].split("#")[0].trim();
+}
+
+/**
+ * Build the backlink index by inverting `resolvedLinks` once per call.
+ */
+function buildBacklinkIndex(resolvedLinks: Record<string, Record<string, number>>) {
+  const index = new Map<string, string[]>();
+  for (const [source, targets] of Object.entries(resolvedLinks)) {
+    for (const target of Object.keys(targets)) {
+      const sources = index.get(target) ?? [];
+      sources.push(source);
+      index.set(target, sources);
+    }
+  }
+  return index;
+}
+
+/**
+ * Reads notes and their link positions, caching both for the duration of one call.
+ */
+class LinkContextReader {
+  private contents = new Map<string, string[]>();
+
+  private async lines(file: TFile): Promise<string[]> {
+    let lines = this.contents.get(file.path);
+    if (!lines) {
+      try {
+        lines = (await app.vault.cachedRead(file)).split("\n");
+      } catch (error) {
+        logWarn(`getLinkedNotes: failed to read ${file.path}`, error);
+        lines = [];
+      }
+      this.contents.set(file.path, lines);
+    }
+    return lines;
+  }
+
+  /**
+   * Lines of `source` containing links that match `isTarget`.
+   */
+  async contextLines(source: TFile, isTarget: (link: LinkCache) => boolean): Promise<string[]> {
+    const cache = app.metadataCache.getFileCache(source);
+    const links = [...(cache?.links ?? []), ...(cache?.embeds ?? [])].filter(isTarget);
+    if (links.length === 0) return [];
+
+    const lines = await this.lines(source);
+    const context: string[] = [];
+    for (const link of links) {
+      const line = lines[link.position.start.line]?.trim();
+      if (!line || context.includes(line)) continue;
+      context.push(
+        line.length > MAX_CONTEXT_LENGTH ? `${line.slice(0, MAX_CONTEXT_LENGTH - 3)}...` : line
+      );
+      if (context.length >= MAX_CONTEXT_LINES) break;
+    }
+    return context;
+  }
+
+  /**
+   * Lines of `source` that link to `target`.
+   */
+  linksTo(source: TFile, target: TFile): Promise<string[]> {
+    return this.contextLines(
+      source,
+      (link) =>
+        app.metadataCache.getFirstLinkpathDest(linkTarget(link.link), source.path)?.path ===
+        target.path
+    );
+  }
+}
+
+/**
+ * Whether a note passes the folder and tag filters.
+ */
+function matchesFilters(file: TFile, folder?: string, tag?: string): boolean {
+  if (folder) {
+    const prefix = folder.replace(/^\/+|\/+$/g, "");
+    if (prefix && !file.path.startsWith(`${prefix}/`)) return false;
+  }
+  if (tag) {
+    const wanted = tag.replace(/^#/, "").toLowerCase();
+    const tags = getTagsFromNote(file, false).map((t) => t.toLowerCase());
+    if (!tags.some((t) => t === wanted || t.startsWith(`${wanted}/`))) return false;
+  }
+  return true;
+}
+
+function getFile(path: string): TFile | null {
+  const file = app.vault.getAbstractFileByPath(path);
+  return file instanceof TFile ? file : null;
+}
+
+const getLinkedNotesTool = createLangChainTool({
+  name: "getLinkedNotes",
+  description:
+    "Walk the vault's link graph from a note: notes it links to, notes linking to it (backlinks) and unresolved links, with the line where each link appears.",
+  schema: getLinkedNotesSchema,
+  func: async ({
+    notePath,
+    direction = "both",
+    depth = 1,
+    folder,
+    tag,
+    maxResults = DEFAULT_MAX_RESULTS,
+  }) => {
+    const resolution = await resolveNoteFile(notePath);
+    if (resolution.type === "not_found") {
+      return {
+        notePath,
+        status: "not_found",
+        message: `Note "${notePath}" was not found.`,
+      };
+    }
+    if (resolution.type === "not_unique") {
+      return {
+        notePath,
+        status: "not_unique",
+        message: `Multiple notes match "${notePath}". Provide a more specific path.`,
+        candidates: resolution.matches.map((file) => ({ path: file.path, title: file.basename })),
+      };
+    }
+
+    const start = resolution.file;
+    const resolvedLinks = app.metadataCache.resolvedLinks ?? {};
+    const backlinkIndex =
+      direction === "outgoing" ? new Map<string, string[]>() : buildBacklinkIndex(resolvedLinks);
+    const reader = new LinkContextReader();
+
+    const outgoing: LinkedNoteEntry[] = [];
+    const backlinks: LinkedNoteEntry[] = [];
+    const unresolved: UnresolvedLinkEntry[] = [];
+    const kinds: Array<"outgoing" | "backlinks"> =
+      direction === "both" ? ["outgoing", "backlinks"] : [direction];
+    let truncated = false;
+
+    // Each direction is walked on its own, so a note linked both ways is listed under both
+    for (const kind of kinds) {
+      const visited = new Set<string>([start.path]);
+      let frontier = [start];
+
+      for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+        const next: TFile[] = [];
+
+        for (const current of frontier) {
+          const neighbours: TFile[] = [];
+          if (kind === "outgoing") {
+            for (const path of Object.keys(resolvedLinks[current.path] ?? {})) {
+              const file = getFile(path);
+              if (file) neighbours.push(file);
+            }
+            for (const link of Object.keys(
+              app.metadataCache.unresolvedLinks?.[current.path] ?? {}
+            )) {
+              if (unresolved.length >= maxResults) break;
+              unresolved.push({
+                link,
+                from: current.path,
+                context: await reader.contextLines(current, (l) => linkTarget(l.link) === link),
+              });
+            }
+          } else {
+            for (const path of backlinkIndex.get(current.path) ?? []) {
+              const file = getFile(path);
+              if (file) neighbours.push(file);
+            }
+          }
+
+          for (const file of neighbours) {
+            if (visited.has(file.path)) continue;
+            visited.add(file.path);
+            next.push(file);
+            if (!matchesFilters(file, folder, tag)) continue;
+            if (outgoing.length + backlinks.length >= maxResults) {
+              truncated = true;
+              break;
+            }
+
+            const entry: LinkedNoteEntry = {
+              path: file.path,
+              title: file.basename,
+              hop,
+              from: current.path,
+              context:
+                kind === "outgoing"
+                  ? await reader.linksTo(current, file)
+                  : await reader.linksTo(file, current),
+            };
+            (kind === "outgoing" ? outgoing : backlinks).push(entry);
+          }
+          if (truncated) break;
+        }
+
+        frontier = next;
+      }
+    }
+
+    return {
+      notePath: start.path,
+      noteTitle: start.basename,
+      status: "ok",
+      depth,
+      outgoing,
+      backlinks,
+      unresolved,
+      truncated,
+    };
+  },
+});
+
+export { getLinkedNotesTool };
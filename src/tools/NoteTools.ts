@@ -1,6 +1,7 @@
 import { TFile } from "obsidian";
 import { z } from "zod";
 import { logInfo, logWarn } from "@/logger";
+import { CanvasLoader } from "./CanvasLoader";
 import { createLangChainTool } from "./createLangChainTool";
 
 const LINES_PER_CHUNK = 200;
@@ -224,6 +225,20 @@ async function readNoteText(file: TFile): Promise<string> {
   }
 }
 
+/**
+ * Canvases are read as a budgeted outline (groups nested, file content excerpted)
+ * rather than raw JSON, which is mostly coordinates and often a single line.
+ */
+async function readCanvasText(file: TFile): Promise<string> {
+  try {
+    const loader = new CanvasLoader(app.vault);
+    return loader.buildPrompt(await loader.load(file));
+  } catch (error) {
+    logWarn(`readNote: failed to parse canvas ${file.path}`, error);
+    return readNoteText(file);
+  }
+}
+
 function buildBasenameIndex(): Map<string, TFile[]> {
   const index = new Map<string, TFile[]>();
   const files = app.vault.getMarkdownFiles?.() ?? [];
@@ -424,7 +439,8 @@ const readNoteTool = createLangChainTool({
 
     const file = resolution.file;
     const canonicalPath = file.path;
-    const text = await readNoteText(file);
+    const text =
+      file.extension === "canvas" ? await readCanvasText(file) : await readNoteText(file);
     const chunks = chunkContentByLines(file, text);
     const totalChunks = chunks.length;
 
@@ -467,4 +483,4 @@ const readNoteTool = createLangChainTool({
   },
 });
 
-export { readNoteSchema, readNoteTool };
+export { readNoteSchema, readNoteTool, resolveNoteFile };
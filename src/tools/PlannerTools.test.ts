@@ -0,0 +1,80 @@
+import {
+  parseAgentPlan,
+  serializeAgentPlan,
+  serializeReasoningBlock,
+  stripAgentPlan,
+} from "@/LLMProviders/chainRunner/utils/AgentReasoningState";
+import { StructuredTool } from "@langchain/core/tools";
+import { applyTodoSnapshot, buildTodoAcknowledgement, writeTodosTool } from "./PlannerTools";
+
+const invokeWriteTodos = (args: unknown) => (writeTodosTool as StructuredTool).invoke(args);
+
+const todos = [
+  { id: "search", content: "Search notes about\nthe Q3 budget", status: "completed" as const },
+  { id: "read", content: "Read the top results", status: "in_progress" as const },
+  { id: "summarize", content: "Summarize --> changes", status: "pending" as const },
+];
+
+describe("writeTodosTool", () => {
+  it("returns the validated snapshot", async () => {
+    const result = await invokeWriteTodos({ todos });
+
+    expect(JSON.parse(result)).toEqual({ todos });
+  });
+
+  it("rejects plans without todos", async () => {
+    await expect(invokeWriteTodos({ todos: [] })).rejects.toThrow();
+  });
+});
+
+describe("plan updates", () => {
+  it("replaces the plan and acknowledges it compactly", () => {
+    const first = applyTodoSnapshot(null, { todos: [todos[0]] });
+    const plan = applyTodoSnapshot(first, { todos });
+
+    expect(plan.revision).toBe(2);
+    expect(plan.todos[0].content).toBe("Search notes about the Q3 budget");
+    expect(JSON.parse(buildTodoAcknowledgement(plan))).toEqual({
+      ok: true,
+      revision: 2,
+      todoCount: 3,
+      completed: 1,
+      inProgress: "read",
+    });
+  });
+});
+
+describe("plan marker", () => {
+  it("round-trips the plan as a readable checklist", () => {
+    const plan = applyTodoSnapshot(null, { todos });
+    const marker = serializeAgentPlan(plan);
+
+    expect(marker).toBe(
+      "<!--AGENT_PLAN:1\n- [x] Search notes about the Q3 budget\n- [/] Read the top results\n- [ ] Summarize -> changes\n-->"
+    );
+    expect(parseAgentPlan(`Intro\n${marker}\n\nAnswer`)).toEqual({
+      revision: 1,
+      todos: [
+        { id: "1", content: "Search notes about the Q3 budget", status: "completed" },
+        { id: "2", content: "Read the top results", status: "in_progress" },
+        { id: "3", content: "Summarize -> changes", status: "pending" },
+      ],
+    });
+    expect(stripAgentPlan(`${marker}\n\nAnswer`)).toBe("Answer");
+  });
+
+  it("follows the reasoning marker when the agent has a plan", () => {
+    const plan = applyTodoSnapshot(null, { todos });
+    const block = serializeReasoningBlock({
+      status: "reasoning",
+      startTime: 0,
+      elapsedSeconds: 3,
+      steps: [{ timestamp: 0, summary: "Updating plan" }],
+      plan,
+    });
+
+    expect(block).toBe(
+      `<!--AGENT_REASONING:reasoning:3:["Updating plan"]-->\n${serializeAgentPlan(plan)}`
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { createLangChainTool } from "./createLangChainTool";
+
+export const WRITE_TODOS_TOOL_NAME = "write_todos";
+
+export type TodoStatus = "pending" | "in_progress" | "completed";
+
+/**
+ * One item of the agent's checklist.
+ */
+export interface AgentTodo {
+  id: string;
+  content: string;
+  status: TodoStatus;
+}
+
+/**
+ * The agent's checklist for the current turn. Each `write_todos` call replaces it
+ * and bumps the revision.
+ */
+export interface AgentPlan {
+  revision: number;
+  todos: AgentTodo[];
+  /** ID of the todo the agent is working on */
+  focus?: string;
+}
+
+const writeTodosSchema = z.object({
+  todos: z
+    .array(
+      z.object({
+        id: z.string().min(1).max(40).describe("Short stable ID, e.g. 'search_notes'"),
+        content: z.string().min(1).max(140).describe("What to do, as a short action"),
+        status: z.enum(["pending", "in_progress", "completed"]),
+      })
+    )
+    .min(1)
+    .max(8)
+    .describe("The complete checklist; replaces the previous one"),
+  focus: z.string().max(40).optional().describe("ID of the todo being worked on"),
+  note: z.string().max(200).optional().describe("Optional short note about the plan change"),
+});
+
+export type WriteTodosInput = z.infer<typeof writeTodosSchema>;
+
+/**
+ * Planning tool for the autonomous agent. It has no side effects: the agent loop
+ * applies the validated snapshot to its plan and answers with an acknowledgement.
+ */
+export const writeTodosTool = createLangChainTool({
+  name: WRITE_TODOS_TOOL_NAME,
+  description:
+    "Create or update your checklist for a multi-step task. Always send the full list with the current status of every item.",
+  schema: writeTodosSchema,
+  func: async (input) => input,
+});
+
+/**
+ * Replace the plan with a new snapshot, keeping todo text on one line.
+ */
+export function applyTodoSnapshot(previous: AgentPlan | null, input: WriteTodosInput): AgentPlan {
+  return {
+    revision: (previous?.revision ?? 0) + 1,
+    todos: input.todos.map((todo) => ({
+      id: todo.id,
+      content: todo.content.replace(/\s+/g, " ").trim(),
+      status: todo.status,
+    })),
+    focus: input.focus,
+  };
+}
+
+/**
+ * Compact acknowledgement of a plan update, sent back to the model as the tool result.
+ */
+export function buildTodoAcknowledgement(plan: AgentPlan): string {
+  const inProgress = plan.focus ?? plan.todos.find((todo) => todo.status === "in_progress")?.id;
+  return JSON.stringify({
+    ok: true,
+    revision: plan.revision,
+    todoCount: plan.todos.length,
+    completed: plan.todos.filter((todo) => todo.status === "completed").length,
+    ...(inProgress && { inProgress }),
+  });
+}
@@ -0,0 +1,91 @@
+import { PropertyRecord, queryPropertyRecords } from "./PropertyQueryTools";
+
+const books: PropertyRecord[] = [
+  {
+    path: "Books/Dune.md",
+    properties: { rating: 5, status: "reading", started: "2024-03-01", tags: ["scifi", "classic"] },
+  },
+  {
+    path: "Books/Emma.md",
+    properties: { Rating: "4", status: "done", started: "2023-11-20", tags: ["classic"] },
+  },
+  {
+    path: "Books/Hyperion.md",
+    properties: { rating: 5, status: "Reading", started: "2024-05-12", tags: ["scifi"] },
+  },
+  { path: "Books/Untitled.md", properties: { status: "wishlist" } },
+  { path: "Notes/Dune review.md", properties: { rating: 5, author: "[[Frank Herbert]]" } },
+];
+
+describe("queryPropertyRecords", () => {
+  it("combines equality filters and lists the notes as a table", () => {
+    const result = queryPropertyRecords(books, {
+      filters: [
+        { property: "rating", op: "eq", value: 5 },
+        { property: "status", op: "eq", value: "reading" },
+      ],
+    });
+
+    expect(result).toEqual({
+      total: 2,
+      returned: 2,
+      truncated: false,
+      table: [
+        "| note | rating | status |",
+        "| --- | --- | --- |",
+        "| [[Books/Dune]] | 5 | reading |",
+        "| [[Books/Hyperion]] | 5 | Reading |",
+      ].join("\n"),
+    });
+  });
+
+  it("compares numbers and dates in ranges", () => {
+    const byRating = queryPropertyRecords(books, {
+      filters: [{ property: "rating", op: "lt", value: 5 }],
+    });
+    const byDate = queryPropertyRecords(books, {
+      filters: [{ property: "started", op: "gte", value: "2024-01-01" }],
+      sortBy: "started",
+      sortOrder: "desc",
+      select: ["started"],
+    });
+
+    expect(byRating.table).toContain("[[Books/Emma]]");
+    expect(byRating.total).toBe(1);
+    expect(byDate.table.split("\n").slice(2)).toEqual([
+      "| [[Books/Hyperion]] | 2024-05-12 |",
+      "| [[Books/Dune]] | 2024-03-01 |",
+    ]);
+  });
+
+  it("checks list items, links and missing properties", () => {
+    const scifi = queryPropertyRecords(books, {
+      filters: [{ property: "tags", op: "contains", value: "#scifi" }],
+    });
+    const byAuthor = queryPropertyRecords(books, {
+      filters: [{ property: "author", op: "eq", value: "Frank Herbert" }],
+    });
+    const unrated = queryPropertyRecords(books, {
+      folder: "Books",
+      filters: [{ property: "rating", op: "missing" }],
+    });
+
+    expect(scifi.total).toBe(2);
+    expect(byAuthor.table).toContain("[[Notes/Dune review]]");
+    expect(unrated.table).toContain("[[Books/Untitled]]");
+    expect(unrated.total).toBe(1);
+  });
+
+  it("counts notes per value and sorts notes without the property last", () => {
+    const groups = queryPropertyRecords(books, { folder: "Books", groupBy: "tags" });
+    const sorted = queryPropertyRecords(books, { sortBy: "rating", limit: 2 });
+
+    expect(groups.table.split("\n").slice(2)).toEqual([
+      "| classic | 2 |",
+      "| scifi | 2 |",
+      "| (none) | 1 |",
+    ]);
+    expect(sorted.table).toContain("[[Books/Emma]]");
+    expect(sorted).toMatchObject({ total: 5, returned: 2, truncated: true });
+  });
+});
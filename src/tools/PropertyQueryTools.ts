@@ -0,0 +1,269 @@
+import { getTagsFromNote } from "@/utils";
+import { TFile } from "obsidian";
+import { z } from "zod";
+import { createLangChainTool } from "./createLangChainTool";
+
+const DEFAULT_LIMIT = 50;
+const MAX_CELL_LENGTH = 80;
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const propertyFilterSchema = z.object({
+  property: z.string().min(1).describe("Frontmatter property name, e.g. 'rating' or 'tags'"),
+  op: z
+    .enum(["eq", "neq", "gt", "gte", "lt", "lte", "contains", "exists", "missing"])
+    .describe(
+      "eq/neq compare values; gt/gte/lt/lte compare numbers or YYYY-MM-DD dates; contains checks list items or text; exists/missing take no value"
+    ),
+  value: z
+    .union([z.string(), z.number(), z.boolean()])
+    .optional()
+    .describe("Value to compare with"),
+});
+
+const queryPropertiesSchema = z.object({
+  filters: z
+    .array(propertyFilterSchema)
+    .max(10)
+    .optional()
+    .describe("Filters that must all match. Omit to match every note."),
+  folder: z.string().optional().describe("Only query notes inside this folder"),
+  select: z
+    .array(z.string())
+    .max(8)
+    .optional()
+    .describe("Properties to show as columns. Defaults to the filtered and sorted properties."),
+  sortBy: z.string().optional().describe("Property to sort by"),
+  sortOrder: z.enum(["asc", "desc"]).optional().describe("Sort order. Defaults to asc."),
+  groupBy: z
+    .string()
+    .optional()
+    .describe("Count matching notes per value of this property instead of listing them"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(200)
+    .optional()
+    .describe(`Maximum number of rows. Defaults to ${DEFAULT_LIMIT}.`),
+});
+
+export type PropertyFilter = z.infer<typeof propertyFilterSchema>;
+export type PropertyQuery = z.infer<typeof queryPropertiesSchema>;
+
+/**
+ * A note's path with its frontmatter, the input of a property query.
+ */
+export interface PropertyRecord {
+  path: string;
+  properties: Record<string, unknown>;
+}
+
+export interface PropertyQueryResult {
+  /** Notes (or groups) matching the filters before the limit */
+  total: number;
+  returned: number;
+  truncated: boolean;
+  /** Markdown table; notes are wikilinks so they can be cited */
+  table: string;
+}
+
+/**
+ * Look up a property case-insensitively, as Obsidian treats property names.
+ */
+function getProperty(properties: Record<string, unknown>, name: string): unknown {
+  if (name in properties) return properties[name];
+  const lower = name.toLowerCase();
+  const key = Object.keys(properties).find((k) => k.toLowerCase() === lower);
+  return key === undefined ? undefined : properties[key];
+}
+
+function isMissing(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Normalize a scalar for comparison: numbers and ISO dates become numbers,
+ * wikilinks and tags lose their brackets and "#", text is lower-cased.
+ */
+function toComparable(value: unknown): number | string | boolean {
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  const text = String(value).trim();
+  if (text !== "" && !isNaN(Number(text))) return Number(text);
+  if (ISO_DATE_REGEX.test(text)) {
+    const time = Date.parse(text);
+    if (!isNaN(time)) return time;
+  }
+  return text
+    .replace(/^\[\[([^|\]]+)(?:\|[^\]]*)?\]\]$/, "$1")
+    .replace(/^#/, "")
+    .toLowerCase();
+}
+
+function compare(a: number | string | boolean, b: number | string | boolean): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+function matchesFilter(properties: Record<string, unknown>, filter: PropertyFilter): boolean {
+  const value = getProperty(properties, filter.property);
+  if (filter.op === "exists") return !isMissing(value);
+  if (filter.op === "missing") return isMissing(value);
+  if (isMissing(value) || filter.value === undefined) return filter.op === "neq";
+
+  const expected = toComparable(filter.value);
+  const values = Array.isArray(value) ? value.map(toComparable) : [toComparable(value)];
+
+  switch (filter.op) {
+    case "eq":
+      return values.some((v) => v === expected);
+    case "neq":
+      return values.every((v) => v !== expected);
+    case "contains":
+      return values.some((v) =>
+        Array.isArray(value) ? v === expected : String(v).includes(String(expected))
+      );
+    default: {
+      // Ranges only compare values of the same kind (numbers with numbers)
+      return values.some((v) => {
+        if (typeof v !== typeof expected) return false;
+        const order = compare(v, expected);
+        if (filter.op === "gt") return order > 0;
+        if (filter.op === "gte") return order >= 0;
+        if (filter.op === "lt") return order < 0;
+        return order <= 0;
+      });
+    }
+  }
+}
+
+/**
+ * Format a property value for a table cell.
+ */
+function formatCell(value: unknown): string {
+  if (isMissing(value)) return "";
+  const text = Array.isArray(value)
+    ? value.map(String).join(", ")
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+  const cell = text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+  return cell.length > MAX_CELL_LENGTH ? `${cell.slice(0, MAX_CELL_LENGTH - 3)}...` : cell;
+}
+
+function toTable(headers: string[], rows: string[][]): string {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.join(" | ")} |`),
+  ].join("\n");
+}
+
+/**
+ * Run a property query over notes' frontmatter: filter, then either group and
+ * count, or sort, limit and list the notes with the selected properties.
+ */
+export function queryPropertyRecords(
+  records: PropertyRecord[],
+  query: PropertyQuery
+): PropertyQueryResult {
+  const filters = query.filters ?? [];
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  const folder = query.folder?.replace(/^\/+|\/+$/g, "");
+  const matches = records.filter(
+    (record) =>
+      (!folder || record.path.startsWith(`${folder}/`)) &&
+      filters.every((filter) => matchesFilter(record.properties, filter))
+  );
+
+  if (query.groupBy) {
+    const groupBy = query.groupBy;
+    const counts = new Map<string, number>();
+    for (const record of matches) {
+      const value = getProperty(record.properties, groupBy);
+      const keys = isMissing(value)
+        ? ["(none)"]
+        : Array.isArray(value)
+          ? value.map(formatCell)
+          : [formatCell(value)];
+      for (const key of new Set(keys)) counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    const groups = Array.from(counts.entries()).sort(
+      (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+    );
+    const shown = groups.slice(0, limit);
+    return {
+      total: groups.length,
+      returned: shown.length,
+      truncated: groups.length > shown.length,
+      table: toTable(
+        [groupBy, "count"],
+        shown.map(([key, count]) => [key, String(count)])
+      ),
+    };
+  }
+
+  if (query.sortBy) {
+    const sortBy = query.sortBy;
+    const direction = query.sortOrder === "desc" ? -1 : 1;
+    matches.sort((a, b) => {
+      const va = getProperty(a.properties, sortBy);
+      const vb = getProperty(b.properties, sortBy);
+      // Notes without the property always go last
+      if (isMissing(va) || isMissing(vb)) return Number(isMissing(va)) - Number(isMissing(vb));
+      return direction * compare(toComparable(va), toComparable(vb));
+    });
+  }
+
+  const columns =
+    query.select && query.select.length > 0
+      ? query.select
+      : Array.from(
+          new Set([...filters.map((f) => f.property), ...(query.sortBy ? [query.sortBy] : [])])
+        );
+  const shown = matches.slice(0, limit);
+  return {
+    total: matches.length,
+    returned: shown.length,
+    truncated: matches.length > shown.length,
+    table: toTable(
+      ["note", ...columns],
+      shown.map((record) => [
+        `[[${record.path.replace(/\.md$/, "")}]]`,
+        ...columns.map((column) => formatCell(getProperty(record.properties, column))),
+      ])
+    ),
+  };
+}
+
+/**
+ * Frontmatter of a note, with "tags" including inline tags so they can be queried too.
+ */
+function getNoteProperties(file: TFile): Record<string, unknown> {
+  const properties: Record<string, unknown> = {
+    ...app.metadataCache.getFileCache(file)?.frontmatter,
+  };
+  delete properties.position;
+  const tags = getTagsFromNote(file, false);
+  return tags.length > 0 ? { ...properties, tags } : properties;
+}
+
+const queryPropertiesTool = createLangChainTool({
+  name: "queryProperties",
+  description:
+    "Query notes by their frontmatter properties with typed filters (equality, number/date ranges, list contains, exists/missing), sorting and group-by counts. Returns a markdown table.",
+  schema: queryPropertiesSchema,
+  func: async (query) => {
+    const records = app.vault.getMarkdownFiles().map((file) => ({
+      path: file.path,
+      properties: getNoteProperties(file),
+    }));
+    return { status: "ok", ...queryPropertyRecords(records, query) };
+  },
+});
+
+export { queryPropertiesTool };
@@ -313,4 +313,26 @@ describe("readNoteTool", () => {
     expect(result.notePath).toBe(targetFile.path);
     expect(mockCachedRead).toHaveBeenCalledWith(targetFile);
   });
+
+  it("reads canvases as an outline instead of raw JSON", async () => {
+    const notePath = "Boards/plan.canvas";
+    const file = Object.assign(new MockTFile(notePath), { extension: "canvas" });
+    getAbstractFileByPathMock.mockReturnValue(file);
+    global.app.vault.read = jest.fn().mockResolvedValue(
+      JSON.stringify({
+        nodes: [
+          { id: "g", type: "group", label: "Ideas", x: 0, y: 0, width: 400, height: 300 },
+          { id: "a", type: "text", text: "First idea", x: 40, y: 40, width: 200, height: 100 },
+        ],
+        edges: [],
+      })
+    );
+
+    const result = await invokeReadNoteTool(readNoteTool, { notePath });
+
+    expect(result.content).toContain("- [group g] Ideas");
+    expect(result.content).toContain("  - [text a]");
+    expect(result.content).toContain("    First idea");
+    expect(result.content).toContain("2 nodes and 0 edges");
+  });
 });
@@ -205,6 +205,7 @@ async function performLexicalSearch({
     mtime: doc.metadata.mtime ?? null,
     ctime: doc.metadata.ctime ?? null,
     chunkId: (doc.metadata as any).chunkId ?? null,
+    nodeId: (doc.metadata as any).nodeId ?? null,
     isChunk: (doc.metadata as any).isChunk ?? false,
     explanation: doc.metadata.explanation ?? null,
     isFilterResult: isFilter,
@@ -317,6 +318,7 @@ const semanticSearchTool = createLangChainTool({
         mtime: doc.metadata.mtime ?? null,
         ctime: doc.metadata.ctime ?? null,
         chunkId: (doc.metadata as any).chunkId ?? null,
+        nodeId: (doc.metadata as any).nodeId ?? null,
         isChunk: (doc.metadata as any).isChunk ?? false,
         explanation: doc.metadata.explanation ?? null,
       };
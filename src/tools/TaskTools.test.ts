@@ -0,0 +1,112 @@
+import { TFile } from "obsidian";
+import { collectVaultTasks, parseTaskLine, setTaskCompletion } from "./TaskTools";
+
+describe("parseTaskLine", () => {
+  it("reads the status and Tasks-plugin or Dataview dates", () => {
+    expect(parseTaskLine("  - [ ] Send budget 📅 2024-05-03 ⏳ 2024-05-01")).toEqual({
+      text: "Send budget 📅 2024-05-03 ⏳ 2024-05-01",
+      status: "open",
+      due: "2024-05-03",
+      scheduled: "2024-05-01",
+      done: undefined,
+    });
+    expect(parseTaskLine("1. [x] Book venue [due:: 2024-04-20] [completion:: 2024-04-18]")).toEqual(
+      expect.objectContaining({ status: "completed", due: "2024-04-20", done: "2024-04-18" })
+    );
+    expect(parseTaskLine("- [/] Draft spec")?.status).toBe("in_progress");
+    expect(parseTaskLine("- Plain item")).toBeNull();
+  });
+});
+
+describe("setTaskCompletion", () => {
+  it("checks off tasks and adds a done date when the task uses emoji dates", () => {
+    expect(setTaskCompletion("- [ ] Send budget 📅 2024-05-03", true, "2024-05-02")).toBe(
+      "- [x] Send budget 📅 2024-05-03 ✅ 2024-05-02"
+    );
+    expect(setTaskCompletion("* [ ] Call Anna", true, "2024-05-02")).toBe("* [x] Call Anna");
+  });
+
+  it("reopens tasks and removes the done date", () => {
+    expect(
+      setTaskCompletion("- [x] Send budget 📅 2024-05-03 ✅ 2024-05-02", false, "2024-05-04")
+    ).toBe("- [ ] Send budget 📅 2024-05-03");
+    expect(setTaskCompletion("Not a task", true, "2024-05-02")).toBeNull();
+  });
+});
+
+describe("collectVaultTasks", () => {
+  const originalApp = (globalThis as any).app;
+  const notes: Record<string, { content: string; mtime: number; tags?: string[] }> = {
+    "Daily/2024-05-01.md": {
+      content: "# Today\n- [ ] Send budget 📅 2024-05-03\n- [x] Call Anna\n- [ ] Water plants",
+      mtime: 1000,
+    },
+    "Projects/Apollo.md": {
+      content: "- [ ] Review #launch checklist 📅 2024-04-28\n- [-] Old idea",
+      mtime: 5000,
+      tags: ["project"],
+    },
+  };
+
+  beforeEach(() => {
+    const files = Object.entries(notes).map(([path, note]) => {
+      const file = new (TFile as any)(path);
+      file.stat = { mtime: note.mtime };
+      return file;
+    });
+    (globalThis as any).app = {
+      vault: {
+        getMarkdownFiles: jest.fn(() => files),
+        cachedRead: jest.fn(async (file: TFile) => notes[file.path].content),
+      },
+      metadataCache: {
+        getFileCache: jest.fn((file: TFile) => {
+          const lines = notes[file.path].content.split("\n");
+          return {
+            frontmatter: notes[file.path].tags ? { tags: notes[file.path].tags } : undefined,
+            listItems: lines.flatMap((line, index) => {
+              const marker = /^- \[(.)\]/.exec(line);
+              return marker ? [{ task: marker[1], position: { start: { line: index } } }] : [];
+            }),
+          };
+        }),
+      },
+    };
+  });
+
+  afterEach(() => {
+    (globalThis as any).app = originalApp;
+  });
+
+  it("returns open tasks sorted by due date with 1-based lines", async () => {
+    const tasks = await collectVaultTasks();
+
+    expect(tasks.map((task) => [task.path, task.line, task.due])).toEqual([
+      ["Projects/Apollo.md", 1, "2024-04-28"],
+      ["Daily/2024-05-01.md", 2, "2024-05-03"],
+      ["Daily/2024-05-01.md", 4, undefined],
+    ]);
+  });
+
+  it("filters by due range, tag, folder, status and modification time", async () => {
+    const dueRange = {
+      startTime: new Date(2024, 4, 1).getTime(),
+      endTime: new Date(2024, 4, 7).getTime(),
+    };
+
+    expect((await collectVaultTasks({ dueRange })).map((task) => task.text)).toEqual([
+      "Send budget 📅 2024-05-03",
+    ]);
+    expect((await collectVaultTasks({ tag: "launch" })).map((task) => task.line)).toEqual([1]);
+    expect((await collectVaultTasks({ tag: "#project", status: "all" })).length).toBe(2);
+    expect((await collectVaultTasks({ folder: "Daily", status: "completed" }))[0].text).toBe(
+      "Call Anna"
+    );
+    expect(
+      (await collectVaultTasks({ modifiedRange: { startTime: 2000 } })).map((task) => task.path)
+    ).toEqual(["Projects/Apollo.md"]);
+    expect((await collectVaultTasks({ hasDueDate: false })).map((task) => task.text)).toEqual([
+      "Water plants",
+    ]);
+  });
+});
@@ -0,0 +1,285 @@
+import { logWarn } from "@/logger";
+import { getTagsFromNote } from "@/utils";
+import moment from "moment";
+import { TFile } from "obsidian";
+import { z } from "zod";
+import { createLangChainTool } from "./createLangChainTool";
+
+const DEFAULT_MAX_TASKS = 100;
+const TASK_LINE_REGEX = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\]\s*)(.*)$/;
+const DATE = "(\\d{4}-\\d{2}-\\d{2})";
+
+/** Date markers of the Tasks plugin (emoji) and Dataview (inline fields). */
+const DATE_PATTERNS = {
+  due: [new RegExp(`(?:📅|📆|🗓️?)\\s*${DATE}`, "u"), new RegExp(`[[(]due::\\s*${DATE}[\\])]`)],
+  scheduled: [
+    new RegExp(`(?:⏳|⌛)\\s*${DATE}`, "u"),
+    new RegExp(`[[(]scheduled::\\s*${DATE}[\\])]`),
+  ],
+  done: [new RegExp(`✅\\s*${DATE}`, "u"), new RegExp(`[[(]completion::\\s*${DATE}[\\])]`)],
+};
+
+export type TaskStatus = "open" | "in_progress" | "completed" | "cancelled" | "other";
+
+/**
+ * A checklist item found in a vault note.
+ */
+export interface VaultTask {
+  path: string;
+  /** 1-based line number in the note */
+  line: number;
+  text: string;
+  status: TaskStatus;
+  due?: string;
+  scheduled?: string;
+  done?: string;
+}
+
+/**
+ * Filters for collecting tasks. Time ranges use epoch milliseconds, as returned
+ * by getTimeRangeMs.
+ */
+export interface TaskFilters {
+  status?: "open" | "completed" | "cancelled" | "all";
+  folder?: string;
+  tag?: string;
+  query?: string;
+  dueRange?: { startTime?: number; endTime?: number };
+  hasDueDate?: boolean;
+  /** Only open tasks due before today */
+  overdue?: boolean;
+  modifiedRange?: { startTime?: number; endTime?: number };
+}
+
+function statusFromMarker(marker: string): TaskStatus {
+  if (marker === " ") return "open";
+  if (marker === "x" || marker === "X") return "completed";
+  if (marker === "/") return "in_progress";
+  if (marker === "-") return "cancelled";
+  return "other";
+}
+
+function findDate(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Parse a markdown task line, with its Tasks-plugin or Dataview dates.
+ * Returns null when the line is not a task.
+ */
+export function parseTaskLine(line: string): Omit<VaultTask, "path" | "line"> | null {
+  const match = TASK_LINE_REGEX.exec(line);
+  if (!match) return null;
+  const text = match[4].trim();
+  return {
+    text,
+    status: statusFromMarker(match[2]),
+    due: findDate(text, DATE_PATTERNS.due),
+    scheduled: findDate(text, DATE_PATTERNS.scheduled),
+    done: findDate(text, DATE_PATTERNS.done),
+  };
+}
+
+/**
+ * Mark a task line as completed or open again. Completed tasks using Tasks-plugin
+ * dates get a "✅ date"; reopening removes it. Returns null when the line is not a task.
+ */
+export function setTaskCompletion(line: string, completed: boolean, today: string): string | null {
+  const match = TASK_LINE_REGEX.exec(line);
+  if (!match) return null;
+  const [, prefix, , close, rest] = match;
+  let text = rest.replace(/\s*✅\s*\d{4}-\d{2}-\d{2}/u, "");
+  if (completed && /(?:📅|📆|🗓|⏳|⌛|🛫)/u.test(text)) {
+    text = `${text.trimEnd()} ✅ ${today}`;
+  }
+  return `${prefix}${completed ? "x" : " "}${close}${text}`;
+}
+
+function inRange(time: number, range?: { startTime?: number; endTime?: number }): boolean {
+  if (!range) return true;
+  if (range.startTime !== undefined && time < range.startTime) return false;
+  if (range.endTime !== undefined && time > range.endTime) return false;
+  return true;
+}
+
+function matchesStatus(status: TaskStatus, wanted: TaskFilters["status"] = "open"): boolean {
+  if (wanted === "all") return true;
+  if (wanted === "open") return status === "open" || status === "in_progress";
+  return status === wanted;
+}
+
+/**
+ * Collect tasks from the vault's list items, filtered and sorted by due date
+ * (undated tasks last), then by note and line.
+ */
+export async function collectVaultTasks(filters: TaskFilters = {}): Promise<VaultTask[]> {
+  const folder = filters.folder?.replace(/^\/+|\/+$/g, "");
+  const tag = filters.tag?.replace(/^#/, "").toLowerCase();
+  const query = filters.query?.toLowerCase();
+  const today = moment().format("YYYY-MM-DD");
+  const tasks: VaultTask[] = [];
+
+  for (const file of app.vault.getMarkdownFiles()) {
+    if (folder && !file.path.startsWith(`${folder}/`)) continue;
+    if (!inRange(file.stat.mtime, filters.modifiedRange)) continue;
+
+    const listItems = app.metadataCache.getFileCache(file)?.listItems ?? [];
+    const taskLines = listItems
+      .filter((item) => item.task !== undefined)
+      .map((item) => item.position.start.line);
+    if (taskLines.length === 0) continue;
+
+    const noteTags = tag ? getTagsFromNote(file, false).map((t) => t.toLowerCase()) : [];
+    const noteHasTag = noteTags.some((t) => t === tag || t.startsWith(`${tag}/`));
+
+    let lines: string[];
+    try {
+      lines = (await app.vault.cachedRead(file)).split("\n");
+    } catch (error) {
+      logWarn(`collectVaultTasks: failed to read ${file.path}`, error);
+      continue;
+    }
+
+    for (const lineIndex of taskLines) {
+      const parsed = parseTaskLine(lines[lineIndex] ?? "");
+      if (!parsed || !matchesStatus(parsed.status, filters.status)) continue;
+      if (tag && !noteHasTag && !parsed.text.toLowerCase().includes(`#${tag}`)) continue;
+      if (query && !parsed.text.toLowerCase().includes(query)) continue;
+      if (filters.hasDueDate !== undefined && Boolean(parsed.due) !== filters.hasDueDate) continue;
+      if (filters.overdue && !(parsed.due && parsed.due < today)) continue;
+      if (filters.dueRange) {
+        if (!parsed.due) continue;
+        if (!inRange(moment(parsed.due, "YYYY-MM-DD").valueOf(), filters.dueRange)) continue;
+      }
+      tasks.push({ path: file.path, line: lineIndex + 1, ...parsed });
+    }
+  }
+
+  return tasks.sort(
+    (a, b) =>
+      (a.due ?? "9999").localeCompare(b.due ?? "9999") ||
+      a.path.localeCompare(b.path) ||
+      a.line - b.line
+  );
+}
+
+const timeRangeSchema = z.object({
+  startTime: z.number().optional().describe("Start time as epoch milliseconds"),
+  endTime: z.number().optional().describe("End time as epoch milliseconds"),
+});
+
+const getTasksSchema = z.object({
+  status: z
+    .enum(["open", "completed", "cancelled", "all"])
+    .optional()
+    .describe("Task status to return. 'open' includes in-progress tasks. Defaults to open."),
+  folder: z.string().optional().describe("Only tasks in notes inside this folder"),
+  tag: z.string().optional().describe("Only tasks tagged with this tag, on the task or its note"),
+  query: z.string().optional().describe("Only tasks whose text contains this text"),
+  dueRange: timeRangeSchema
+    .optional()
+    .describe("Only tasks due in this range. Use getTimeRangeMs output, e.g. for 'due this week'."),
+  overdue: z.boolean().optional().describe("Only tasks due before today"),
+  hasDueDate: z
+    .boolean()
+    .optional()
+    .describe("Only tasks with (true) or without (false) a due date"),
+  modifiedRange: timeRangeSchema
+    .optional()
+    .describe("Only tasks in notes modified in this range. Use getTimeRangeMs output."),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(500)
+    .optional()
+    .describe(`Maximum number of tasks to return. Defaults to ${DEFAULT_MAX_TASKS}.`),
+});
+
+const getTasksTool = createLangChainTool({
+  name: "getTasks",
+  description:
+    "Collect markdown tasks (- [ ]) across the vault with their due dates, filtered by status, folder, tag, text, due date and note modification time.",
+  schema: getTasksSchema,
+  func: async ({ maxResults = DEFAULT_MAX_TASKS, ...filters }) => {
+    const tasks = await collectVaultTasks(filters);
+    return {
+      status: "ok",
+      today: moment().format("YYYY-MM-DD"),
+      total: tasks.length,
+      truncated: tasks.length > maxResults,
+      tasks: tasks.slice(0, maxResults),
+    };
+  },
+});
+
+const completeTaskSchema = z.object({
+  path: z.string().min(1).describe("Vault-relative path of the note containing the task"),
+  line: z
+    .number()
+    .int()
+    .min(1)
+    .describe("1-based line number of the task, as returned by getTasks"),
+  text: z
+    .string()
+    .min(1)
+    .describe("Task text as returned by getTasks, used to find the task if the note has changed"),
+  completed: z
+    .boolean()
+    .optional()
+    .describe("true to complete the task, false to reopen it. Defaults to true."),
+});
+
+const completeTaskTool = createLangChainTool({
+  name: "completeTask",
+  description: "Mark a task as completed, or reopen it.",
+  schema: completeTaskSchema,
+  func: async ({ path, line, text, completed = true }) => {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      return { result: "failed", message: `Note not found at path: ${path}` };
+    }
+
+    const lines = (await app.vault.read(file)).split("\n");
+    let index = line - 1;
+    if (!parseTaskLine(lines[index] ?? "")?.text.includes(text)) {
+      // The note changed since the task was listed: look the task up by its text
+      const matches = lines
+        .map((content, i) => ({ i, task: parseTaskLine(content) }))
+        .filter(({ task }) => task?.text.includes(text));
+      if (matches.length !== 1) {
+        return {
+          result: "failed",
+          message:
+            matches.length === 0
+              ? `Task "${text}" not found in ${path}. Call getTasks again.`
+              : `Several tasks in ${path} match "${text}". Call getTasks again and pass the exact text.`,
+        };
+      }
+      index = matches[0].i;
+    }
+
+    const current = parseTaskLine(lines[index]);
+    if (current?.status === (completed ? "completed" : "open")) {
+      return { result: "unchanged", path, line: index + 1 };
+    }
+    const updated = setTaskCompletion(lines[index], completed, moment().format("YYYY-MM-DD"));
+    if (updated === null) {
+      return { result: "unchanged", path, line: index + 1 };
+    }
+    lines[index] = updated;
+    await app.vault.modify(file, lines.join("\n"));
+    return {
+      result: completed ? "completed" : "reopened",
+      path,
+      line: index + 1,
+      task: updated.trim(),
+    };
+  },
+});
+
+export { getTasksTool, completeTaskTool };
@@ -1,5 +1,11 @@
 import { StructuredTool } from "@langchain/core/tools";
 
+/**
+ * Whether the agent may run a tool on its own ("always"), must ask the user first
+ * ("ask"), or may not run it at all ("never").
+ */
+export type ToolApprovalMode = "always" | "ask" | "never";
+
 /**
  * Tool metadata for registration and UI display.
  * Contains tool configuration including execution control properties.
@@ -8,7 +14,7 @@ export interface ToolMetadata {
   id: string;
   displayName: string;
   description: string;
-  category: "search" | "time" | "file" | "media" | "mcp" | "memory" | "custom";
+  category: "search" | "time" | "file" | "media" | "mcp" | "memory" | "planning" | "custom";
   isAlwaysEnabled?: boolean; // Tools that are always available (e.g., time tools)
   requiresVault?: boolean; // Tools that need vault access
   customPromptInstructions?: string; // Optional custom instructions for this tool
@@ -17,9 +23,13 @@ export interface ToolMetadata {
   timeoutMs?: number;
   isBackground?: boolean; // If true, tool execution is not shown to user
   isPlusOnly?: boolean; // If true, tool requires Plus subscription
+  isParallelSafe?: boolean; // If true, tool may run concurrently with other calls (no side effects)
   requiresUserMessageContent?: boolean; // If true, tool receives original user message for URL extraction
   mcpServerId?: string; // MCP server identifier for grouping MCP tools in UI
   mcpServerName?: string; // MCP server display name for UI
+  // Permission properties
+  approval?: ToolApprovalMode; // Default approval mode, overridable in settings (defaults to "always")
+  pathArgs?: string[]; // Arguments holding vault paths the tool writes to, checked against allowed paths
 }
 
 /**
@@ -60,6 +70,13 @@ export class ToolRegistry {
     definitions.forEach((def) => this.register(def));
   }
 
+  /**
+   * Remove a tool from the registry
+   */
+  unregister(id: string): void {
+    this.tools.delete(id);
+  }
+
   /**
    * Get all registered tools
    */
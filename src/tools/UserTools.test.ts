@@ -0,0 +1,236 @@
+import { StructuredTool } from "@langchain/core/tools";
+import { z } from "zod";
+import { setSettings } from "@/settings/model";
+import { createLangChainTool } from "./createLangChainTool";
+import { ToolRegistry } from "./ToolRegistry";
+import {
+  buildUserToolSchema,
+  createUserToolDefinition,
+  parseUserToolNote,
+  resolveStepArgs,
+  UserToolSpec,
+} from "./UserTools";
+
+const mockInvoke = jest.fn();
+jest.mock("@/LLMProviders/chatModelManager", () => ({
+  __esModule: true,
+  default: { getInstance: () => ({ getChatModel: () => ({ invoke: mockInvoke }) }) },
+}));
+
+const invoke = async (spec: UserToolSpec, args: Record<string, unknown>) => {
+  const result = await (createUserToolDefinition(spec).tool as StructuredTool).invoke(args);
+  return typeof result === "string" && result.startsWith("{") ? JSON.parse(result) : result;
+};
+
+describe("parseUserToolNote", () => {
+  it("reads the name, parameters and prompt, with the note name as default name", () => {
+    const spec = parseUserToolNote(
+      "copilot/copilot-tools/Summarize meeting.md",
+      {
+        description: "Summarize meeting notes",
+        parameters: {
+          notes: "string",
+          style: { type: "string", enum: ["short", "long"], optional: true },
+          attendees: { type: "array", items: "string", description: "People present" },
+        },
+        system: "You write minutes.",
+      },
+      "\nSummarize:\n{{notes}}\n"
+    );
+
+    expect(spec).toEqual({
+      name: "Summarize_meeting",
+      description: "Summarize meeting notes",
+      path: "copilot/copilot-tools/Summarize meeting.md",
+      parameters: {
+        notes: { type: "string", optional: false },
+        style: { type: "string", enum: ["short", "long"], optional: true },
+        attendees: {
+          type: "array",
+          items: "string",
+          description: "People present",
+          optional: false,
+        },
+      },
+      model: undefined,
+      system: "You write minutes.",
+      steps: [],
+      prompt: "Summarize:\n{{notes}}",
+    });
+  });
+
+  it("rejects invalid definitions", () => {
+    const parse =
+      (frontmatter: Record<string, unknown>, body = "Prompt") =>
+      () =>
+        parseUserToolNote("tools/t.md", frontmatter, body);
+
+    expect(parse({ name: "bad name", description: "d" })).toThrow("Invalid tool name");
+    expect(parse({})).toThrow("Missing description");
+    expect(parse({ description: "d", parameters: { n: "date" } })).toThrow(
+      'unsupported type "date"'
+    );
+    expect(parse({ description: "d", steps: [{ args: {} }] })).toThrow("Step 1 must name a tool");
+    expect(parse({ description: "d" }, "  ")).toThrow("Add a prompt");
+  });
+});
+
+describe("buildUserToolSchema", () => {
+  it("validates arguments against the declared parameters", () => {
+    const schema = buildUserToolSchema({
+      query: { type: "string" },
+      limit: { type: "number", optional: true },
+      mode: { type: "string", enum: ["fast", "deep"] },
+    });
+
+    expect(schema.safeParse({ query: "q", mode: "fast" }).success).toBe(true);
+    expect(schema.safeParse({ query: "q", mode: "slow" }).success).toBe(false);
+    expect(schema.safeParse({ mode: "deep", limit: 3 }).success).toBe(false);
+  });
+});
+
+describe("resolveStepArgs", () => {
+  it("keeps the type of whole placeholders and renders the rest as text", () => {
+    const values = { limit: 5, step1: { results: [{ path: "A.md" }] } };
+
+    expect(
+      resolveStepArgs(
+        { maxResults: "{{limit}}", notePath: "{{step1.results.0.path}}", query: "top {{limit}}" },
+        values
+      )
+    ).toEqual({ maxResults: 5, notePath: "A.md", query: "top 5" });
+    expect(resolveStepArgs(["{{missing}}"], values)).toEqual(["{{missing}}"]);
+    expect(resolveStepArgs({ owner: "{{owner}}" }, { owner: null })).toEqual({ owner: undefined });
+  });
+});
+
+describe("createUserToolDefinition", () => {
+  const registry = ToolRegistry.getInstance();
+  const lookupTool = createLangChainTool({
+    name: "lookup",
+    description: "Test lookup",
+    schema: z.object({ query: z.string() }),
+    func: async ({ query }) => ({ results: [{ path: `${query}.md` }] }),
+  });
+
+  beforeEach(() => {
+    mockInvoke.mockReset();
+    setSettings({ autonomousAgentEnabledToolIds: ["lookup", "askFirst", "slow"] });
+    registry.register({
+      tool: lookupTool,
+      metadata: { id: "lookup", displayName: "Lookup", description: "", category: "search" },
+    });
+  });
+
+  afterEach(() => {
+    registry.unregister("lookup");
+    registry.unregister("askFirst");
+    registry.unregister("slow");
+  });
+
+  it("sends the rendered prompt to the chat model", async () => {
+    mockInvoke.mockResolvedValue({ content: "Short summary" });
+    const spec = parseUserToolNote(
+      "tools/summarize.md",
+      {
+        description: "Summarize",
+        parameters: { text: "string", focus: { type: "string", optional: true } },
+        system: "Be brief.",
+      },
+      "Summarize: {{text}}{{focus}}"
+    );
+
+    await expect(invoke(spec, { text: "long text" })).resolves.toBe("Short summary");
+    const messages = mockInvoke.mock.calls[0][0];
+    expect(messages.map((message: any) => message.content)).toEqual([
+      "Be brief.",
+      "Summarize: long text",
+    ]);
+  });
+
+  it("runs a chain of tools and passes step results on", async () => {
+    mockInvoke.mockResolvedValue({ content: "Found Apollo.md" });
+    const spec = parseUserToolNote(
+      "tools/find.md",
+      {
+        description: "Find a note",
+        parameters: { topic: "string" },
+        steps: [{ tool: "lookup", args: { query: "{{topic}}" } }],
+      },
+      "Describe {{step1.results.0.path}}"
+    );
+    const chainOnly = { ...spec, prompt: "" };
+
+    await expect(invoke(chainOnly, { topic: "Apollo" })).resolves.toEqual({
+      results: [{ path: "Apollo.md" }],
+    });
+    await expect(invoke(spec, { topic: "Apollo" })).resolves.toBe("Found Apollo.md");
+    expect(mockInvoke.mock.calls[0][0][0].content).toBe("Describe Apollo.md");
+  });
+
+  it("refuses steps calling tools that are turned off", async () => {
+    setSettings({ autonomousAgentEnabledToolIds: [] });
+    const spec = parseUserToolNote(
+      "tools/t.md",
+      { description: "d", steps: [{ tool: "lookup", args: { query: "x" } }] },
+      ""
+    );
+
+    await expect(invoke(spec, {})).resolves.toEqual({
+      status: "error",
+      message: "t failed: Step 1 (lookup): the tool is turned off in the Agent settings",
+    });
+  });
+
+  it("stops steps that run past the tool's timeout", async () => {
+    registry.register({
+      tool: createLangChainTool({
+        name: "slow",
+        description: "Never finishes",
+        schema: z.object({}),
+        func: () => new Promise(() => {}),
+      }),
+      metadata: {
+        id: "slow",
+        displayName: "Slow",
+        description: "",
+        category: "search",
+        timeoutMs: 10,
+      },
+    });
+    const spec = parseUserToolNote(
+      "tools/t.md",
+      { description: "d", steps: [{ tool: "slow", args: {} }] },
+      ""
+    );
+
+    await expect(invoke(spec, {})).resolves.toEqual({
+      status: "error",
+      message: "t failed: Step 1 (slow): Tool execution timed out after 10ms",
+    });
+  });
+
+  it("refuses steps that need approval or call unknown tools", async () => {
+    registry.register({
+      tool: lookupTool,
+      metadata: {
+        id: "askFirst",
+        displayName: "Ask first",
+        description: "",
+        category: "file",
+        approval: "ask",
+      },
+    });
+    const step = (tool: string) =>
+      parseUserToolNote("tools/t.md", { description: "d", steps: [{ tool, args: {} }] }, "");
+
+    await expect(invoke(step("askFirst"), {})).resolves.toEqual({
+      status: "error",
+      message:
+        "t failed: Step 1 (askFirst): the tool needs approval, so it cannot run inside a user tool",
+    });
+    await expect(invoke(step("nothing"), {})).resolves.toMatchObject({
+      message: "t failed: Step 1 (nothing): tool not found",
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import { CustomModel } from "@/aiParams";
+import { checkToolPolicy } from "@/LLMProviders/chainRunner/utils/toolApproval";
+import { executeSequentialToolCall } from "@/LLMProviders/chainRunner/utils/toolExecution";
+import { getSettings } from "@/settings/model";
+import { extractTextFromChunk } from "@/utils";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from "zod";
+import { createLangChainTool } from "./createLangChainTool";
+import { ToolDefinition, ToolRegistry } from "./ToolRegistry";
+
+const TOOL_NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9_-]{0,63}$/;
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_REGEX = /^\{\{\s*([\w.-]+)\s*\}\}$/;
+const PARAMETER_TYPES = ["string", "number", "boolean", "array"] as const;
+const MAX_STEPS = 10;
+
+type UserToolParameterType = (typeof PARAMETER_TYPES)[number];
+
+/**
+ * A parameter of a user tool, declared in its frontmatter either in full or as
+ * a bare type (`topic: string`).
+ */
+export interface UserToolParameter {
+  type: UserToolParameterType;
+  description?: string;
+  /** Allowed values of a string parameter */
+  enum?: string[];
+  /** Item type of an array parameter */
+  items?: Exclude<UserToolParameterType, "array">;
+  optional?: boolean;
+}
+
+/**
+ * A call of an existing tool in a user tool's chain. String arguments may use
+ * {{param}} and {{stepN}} placeholders.
+ */
+export interface UserToolStep {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * A tool defined by a note in the user tools folder.
+ */
+export interface UserToolSpec {
+  name: string;
+  description: string;
+  /** Path of the note defining the tool */
+  path: string;
+  parameters: Record<string, UserToolParameter>;
+  /** Model key ("name|provider") or model name; the chat model when unset */
+  model?: string;
+  system?: string;
+  steps: UserToolStep[];
+  /** Prompt template from the note body; empty when the tool only runs its steps */
+  prompt: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseParameter(name: string, raw: unknown): UserToolParameter {
+  const declaration = typeof raw === "string" ? { type: raw } : raw;
+  if (!isRecord(declaration)) {
+    throw new Error(`Parameter "${name}" must be a type or an object with a type`);
+  }
+
+  const type = String(declaration.type ?? "string").toLowerCase() as UserToolParameterType;
+  if (!PARAMETER_TYPES.includes(type)) {
+    throw new Error(`Parameter "${name}" has unsupported type "${declaration.type}"`);
+  }
+  const items = declaration.items === undefined ? undefined : String(declaration.items);
+  if (items !== undefined && !["string", "number", "boolean"].includes(items)) {
+    throw new Error(`Parameter "${name}" has unsupported item type "${items}"`);
+  }
+
+  return {
+    type,
+    description:
+      declaration.description === undefined ? undefined : String(declaration.description),
+    enum: Array.isArray(declaration.enum) ? declaration.enum.map(String) : undefined,
+    items: items as UserToolParameter["items"],
+    optional: declaration.optional === true,
+  };
+}
+
+function parseStep(raw: unknown, index: number): UserToolStep {
+  if (!isRecord(raw) || typeof raw.tool !== "string" || raw.tool.trim() === "") {
+    throw new Error(`Step ${index + 1} must name a tool`);
+  }
+  if (raw.args !== undefined && !isRecord(raw.args)) {
+    throw new Error(`Step ${index + 1} args must be an object`);
+  }
+  return { tool: raw.tool.trim(), args: raw.args ?? {} };
+}
+
+/**
+ * Parse the frontmatter and body of a user tool note. The tool name defaults to
+ * the note name. Throws when the definition is invalid.
+ */
+export function parseUserToolNote(
+  path: string,
+  frontmatter: Record<string, unknown> | undefined,
+  body: string
+): UserToolSpec {
+  const fm = frontmatter ?? {};
+  const basename = path.split("/").pop()!.replace(/\.md$/, "");
+  const name = fm.name === undefined ? basename.replace(/\s+/g, "_") : String(fm.name).trim();
+  if (!TOOL_NAME_REGEX.test(name)) {
+    throw new Error(
+      `Invalid tool name "${name}": use letters, digits, "_" or "-", starting with a letter`
+    );
+  }
+
+  const description = typeof fm.description === "string" ? fm.description.trim() : "";
+  if (!description) {
+    throw new Error("Missing description in frontmatter");
+  }
+
+  if (fm.parameters !== undefined && !isRecord(fm.parameters)) {
+    throw new Error("parameters must map parameter names to types");
+  }
+  const parameters: Record<string, UserToolParameter> = {};
+  for (const [param, raw] of Object.entries(fm.parameters ?? {})) {
+    parameters[param] = parseParameter(param, raw);
+  }
+
+  if (fm.steps !== undefined && !Array.isArray(fm.steps)) {
+    throw new Error("steps must be a list of tool calls");
+  }
+  const steps = (fm.steps ?? []).map(parseStep);
+  if (steps.length > MAX_STEPS) {
+    throw new Error(`A tool may chain at most ${MAX_STEPS} steps`);
+  }
+
+  const prompt = body.trim();
+  if (!prompt && steps.length === 0) {
+    throw new Error("Add a prompt to the note body or steps to the frontmatter");
+  }
+
+  return {
+    name,
+    description,
+    path,
+    parameters,
+    model: typeof fm.model === "string" && fm.model.trim() ? fm.model.trim() : undefined,
+    system: typeof fm.system === "string" && fm.system.trim() ? fm.system.trim() : undefined,
+    steps,
+    prompt,
+  };
+}
+
+/**
+ * Build the zod schema of a user tool's parameters.
+ */
+export function buildUserToolSchema(
+  parameters: Record<string, UserToolParameter>
+): z.ZodObject<Record<string, z.ZodTypeAny>> {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [name, param] of Object.entries(parameters)) {
+    let schema: z.ZodTypeAny;
+    if (param.type === "string" && param.enum && param.enum.length > 0) {
+      schema = z.enum(param.enum as [string, ...string[]]);
+    } else if (param.type === "array") {
+      const item =
+        param.items === "number"
+          ? z.number()
+          : param.items === "boolean"
+            ? z.boolean()
+            : z.string();
+      schema = z.array(item);
+    } else {
+      schema =
+        param.type === "number" ? z.number() : param.type === "boolean" ? z.boolean() : z.string();
+    }
+    if (param.optional) schema = schema.optional();
+    shape[name] = param.description ? schema.describe(param.description) : schema;
+  }
+  return z.object(shape);
+}
+
+/**
+ * Look up a placeholder such as "topic" or "step1.results.0.path".
+ */
+function lookupValue(values: Record<string, unknown>, key: string): unknown {
+  return key.split(".").reduce<unknown>((value, part) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[part];
+  }, values);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "object" ? JSON.stringify(value, null, 2) : String(value);
+}
+
+/**
+ * Replace {{name}} placeholders with parameter values and step results.
+ * Omitted optional parameters render as empty text; unknown placeholders are
+ * left as they are.
+ */
+export function renderUserToolTemplate(template: string, values: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_REGEX, (match, key: string) => {
+    const value = lookupValue(values, key);
+    return value === undefined ? match : formatValue(value);
+  });
+}
+
+/**
+ * Resolve the placeholders in a step's arguments. An argument that is a single
+ * placeholder keeps the value's type, so numbers and lists pass through.
+ */
+export function resolveStepArgs(args: unknown, values: Record<string, unknown>): unknown {
+  if (typeof args === "string") {
+    const exact = EXACT_PLACEHOLDER_REGEX.exec(args);
+    if (exact) {
+      const value = lookupValue(values, exact[1]);
+      // Omitted optional parameters are left out of the call
+      return value === undefined ? args : (value ?? undefined);
+    }
+    return renderUserToolTemplate(args, values);
+  }
+  if (Array.isArray(args)) return args.map((item) => resolveStepArgs(item, values));
+  if (isRecord(args)) {
+    return Object.fromEntries(
+      Object.entries(args).map(([key, value]) => [key, resolveStepArgs(value, values)])
+    );
+  }
+  return args;
+}
+
+/** Step results are usually JSON strings; parse them so fields can be referenced. */
+function parseStepResult(result: unknown): unknown {
+  if (typeof result !== "string") return result;
+  try {
+    return JSON.parse(result);
+  } catch {
+    return result;
+  }
+}
+
+/**
+ * Run a user tool's steps in order. A step may only call a tool that is enabled
+ * for the agent and allowed to run without asking, and never another user tool.
+ * Steps run with the same timeout as the agent's own tool calls.
+ */
+export async function runUserToolSteps(
+  spec: UserToolSpec,
+  args: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const registry = ToolRegistry.getInstance();
+  const enabledToolIds = new Set(getSettings().autonomousAgentEnabledToolIds ?? []);
+  const values: Record<string, unknown> = {
+    ...Object.fromEntries(Object.keys(spec.parameters).map((name) => [name, null])),
+    ...args,
+  };
+
+  for (const [index, step] of spec.steps.entries()) {
+    const label = `Step ${index + 1} (${step.tool})`;
+    const definition = registry.getToolDefinition(step.tool);
+    if (!definition) {
+      throw new Error(`${label}: tool not found`);
+    }
+    if (definition.metadata.category === "custom") {
+      throw new Error(`${label}: user tools cannot call other user tools`);
+    }
+    if (!definition.metadata.isAlwaysEnabled && !enabledToolIds.has(step.tool)) {
+      throw new Error(`${label}: the tool is turned off in the Agent settings`);
+    }
+
+    const stepArgs = resolveStepArgs(step.args, values) as Record<string, unknown>;
+    const policy = checkToolPolicy(step.tool, stepArgs);
+    if (policy.verdict !== "allow") {
+      throw new Error(
+        policy.verdict === "deny"
+          ? `${label}: ${policy.reason}`
+          : `${label}: the tool needs approval, so it cannot run inside a user tool`
+      );
+    }
+
+    const execution = await executeSequentialToolCall({ name: step.tool, args: stepArgs }, [
+      definition.tool,
+    ]);
+    if (!execution.success) {
+      throw new Error(`${label}: ${execution.result.replace(/^Error: /, "")}`);
+    }
+    values[`step${index + 1}`] = parseStepResult(execution.result);
+  }
+
+  return values;
+}
+
+/**
+ * Resolve a model by key ("name|provider") or name among the enabled models.
+ */
+export function findUserToolModel(model: string, activeModels: CustomModel[]): CustomModel {
+  const [name, provider] = model.split("|");
+  const match = activeModels.find(
+    (m) => m.enabled && m.name === name && (provider === undefined || m.provider === provider)
+  );
+  if (!match) {
+    throw new Error(`Model "${model}" is not among the enabled chat models`);
+  }
+  return match;
+}
+
+async function askUserToolModel(spec: UserToolSpec, prompt: string): Promise<string> {
+  // Deferred to avoid loading the model stack with the tool module
+  const ChatModelManager = (await import("@/LLMProviders/chatModelManager")).default;
+  const manager = ChatModelManager.getInstance();
+  const chatModel = spec.model
+    ? await manager.createModelInstance(findUserToolModel(spec.model, getSettings().activeModels))
+    : manager.getChatModel();
+
+  const messages: BaseMessage[] = spec.system ? [new SystemMessage(spec.system)] : [];
+  messages.push(new HumanMessage(prompt));
+  const response = (await chatModel.invoke(messages)) as AIMessage;
+  return extractTextFromChunk(response.content);
+}
+
+/**
+ * Create the agent tool of a user tool note. The tool runs its steps, then
+ * sends the rendered prompt to the model; without a prompt it returns the
+ * last step's result.
+ */
+export function createUserToolDefinition(spec: UserToolSpec): ToolDefinition {
+  const tool = createLangChainTool({
+    name: spec.name,
+    description: spec.description,
+    schema: buildUserToolSchema(spec.parameters),
+    func: async (args) => {
+      try {
+        const values = await runUserToolSteps(spec, args);
+        if (!spec.prompt) {
+          const result = values[`step${spec.steps.length}`];
+          return isRecord(result) || Array.isArray(result) ? result : formatValue(result);
+        }
+        return await askUserToolModel(spec, renderUserToolTemplate(spec.prompt, values));
+      } catch (error) {
+        return {
+          status: "error",
+          message: `${spec.name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+  });
+
+  return {
+    tool,
+    metadata: {
+      id: spec.name,
+      displayName: spec.name,
+      description: spec.description,
+      category: "custom",
+      isAlwaysEnabled: false,
+      // A plain model call has no side effects
+      isParallelSafe: spec.steps.length === 0,
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { applyFrontmatterChanges, insertUnderHeading, renderNoteTemplate } from "./VaultTools";
+
+describe("renderNoteTemplate", () => {
+  const now = new Date(2024, 4, 2, 9, 30);
+
+  it("fills the built-in and custom variables", () => {
+    const template =
+      "# {{title}}\nDate: {{date}} {{time}}\nWeek: {{date:YYYY-[W]WW}}\nProject: {{project}}";
+
+    expect(
+      renderNoteTemplate(template, { title: "Standup", variables: { project: "Apollo" }, now })
+    ).toBe("# Standup\nDate: 2024-05-02 09:30\nWeek: 2024-W18\nProject: Apollo");
+  });
+
+  it("leaves unknown variables untouched", () => {
+    expect(renderNoteTemplate("{{owner}}", { title: "Standup", now })).toBe("{{owner}}");
+  });
+});
+
+describe("insertUnderHeading", () => {
+  const note = [
+    "# Apollo",
+    "",
+    "## Meetings",
+    "- [[Kickoff]]",
+    "",
+    "### Notes",
+    "Details",
+    "",
+    "## Tasks",
+    "- [ ] Ship it",
+  ].join("\n");
+
+  it("adds to the end of the section, including its subsections", () => {
+    const { content, headingCreated } = insertUnderHeading(note, "Meetings", "- [[Standup]]");
+
+    expect(headingCreated).toBe(false);
+    expect(content.split("\n").slice(5, 10)).toEqual([
+      "### Notes",
+      "Details",
+      "- [[Standup]]",
+      "",
+      "## Tasks",
+    ]);
+  });
+
+  it("matches headings given with their markers and ignores code blocks", () => {
+    const withCode = "## Log\n```\n## Log\n```\nfirst\n";
+
+    expect(insertUnderHeading(withCode, "## log", "second").content).toBe(
+      "## Log\n```\n## Log\n```\nfirst\nsecond\n"
+    );
+  });
+
+  it("adds the heading at the end of the note when it is missing", () => {
+    const { content, headingCreated } = insertUnderHeading("# Apollo\n\n", "### Risks", "- Budget");
+
+    expect(headingCreated).toBe(true);
+    expect(content).toBe("# Apollo\n\n### Risks\n- Budget\n");
+  });
+});
+
+describe("applyFrontmatterChanges", () => {
+  it("sets, removes and merges tags", () => {
+    const frontmatter: Record<string, unknown> = {
+      status: "draft",
+      tags: "meeting, apollo",
+      old: 1,
+    };
+
+    const changed = applyFrontmatterChanges(frontmatter, {
+      set: { status: "done" },
+      remove: ["old", "missing"],
+      addTags: ["#apollo", "standup"],
+    });
+
+    expect(frontmatter).toEqual({ status: "done", tags: ["meeting", "apollo", "standup"] });
+    expect(changed).toEqual(["status", "old", "tags"]);
+  });
+});
@@ -0,0 +1,402 @@
+import { logWarn } from "@/logger";
+import { getSettings } from "@/settings/model";
+import { ApplyViewResult } from "@/types";
+import { ensureFolderExists, sanitizeFilePath } from "@/utils";
+import moment from "moment";
+import { normalizePath, TFile, TFolder } from "obsidian";
+import { z } from "zod";
+import { show_preview } from "./ComposerTools";
+import { createLangChainTool } from "./createLangChainTool";
+
+const HEADING_REGEX = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Normalize a vault path the way Obsidian stores it, without leading slashes.
+ */
+function toVaultPath(path: string): string {
+  return normalizePath(path.trim()).replace(/^\/+/, "");
+}
+
+/**
+ * Look up a markdown note by path, also accepting the path without ".md".
+ */
+function findNote(path: string): TFile | null {
+  const normalized = toVaultPath(path);
+  const file =
+    app.vault.getAbstractFileByPath(normalized) ??
+    app.vault.getAbstractFileByPath(`${normalized}.md`);
+  return file instanceof TFile ? file : null;
+}
+
+/**
+ * Fill a note template. Supports the core Templates variables {{title}}, {{date}},
+ * {{time}} and {{date:FORMAT}} / {{time:FORMAT}}, plus any custom variables.
+ * Unknown variables are left untouched.
+ */
+export function renderNoteTemplate(
+  template: string,
+  options: { title: string; variables?: Record<string, string>; now?: Date }
+): string {
+  const now = moment(options.now ?? new Date());
+  const variables = options.variables ?? {};
+
+  return template.replace(/\{\{\s*([\w-]+)(?::([^}]*))?\s*\}\}/g, (match, name, format) => {
+    const key = String(name);
+    if (Object.prototype.hasOwnProperty.call(variables, key)) return variables[key];
+    switch (key.toLowerCase()) {
+      case "title":
+        return options.title;
+      case "date":
+        return now.format(format?.trim() || "YYYY-MM-DD");
+      case "time":
+        return now.format(format?.trim() || "HH:mm");
+      default:
+        return match;
+    }
+  });
+}
+
+/**
+ * Insert text at the end of a heading's section, before the next heading of the
+ * same or a higher level. Headings inside code blocks are ignored. When the
+ * heading does not exist it is added at the end of the note.
+ *
+ * @param heading - Heading text, optionally with its "#" markers (defaults to level 2)
+ */
+export function insertUnderHeading(
+  content: string,
+  heading: string,
+  text: string
+): { content: string; headingCreated: boolean } {
+  const target = HEADING_REGEX.exec(heading.trim());
+  const targetText = (target ? target[2] : heading).trim().toLowerCase();
+  const lines = content.split("\n");
+
+  let start = -1;
+  let level = 0;
+  let end = lines.length;
+  let inFence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (FENCE_REGEX.test(lines[i])) inFence = !inFence;
+    if (inFence) continue;
+    const match = HEADING_REGEX.exec(lines[i]);
+    if (!match) continue;
+    if (start === -1) {
+      if (match[2].trim().toLowerCase() === targetText) {
+        start = i;
+        level = match[1].length;
+      }
+    } else if (match[1].length <= level) {
+      end = i;
+      break;
+    }
+  }
+
+  const block = text.replace(/^\n+|\n+$/g, "");
+  if (start === -1) {
+    const markers = target ? target[1] : "##";
+    const headingLine = `${markers} ${target ? target[2] : heading.trim()}`;
+    const body = content.replace(/\n+$/, "");
+    const prefix = body ? `${body}\n\n` : "";
+    return { content: `${prefix}${headingLine}\n${block}\n`, headingCreated: true };
+  }
+
+  // Keep the blank lines that separate the section from the next heading
+  let insertAt = end;
+  while (insertAt > start + 1 && lines[insertAt - 1].trim() === "") insertAt--;
+  lines.splice(insertAt, 0, ...block.split("\n"));
+  return { content: lines.join("\n"), headingCreated: false };
+}
+
+/**
+ * Apply property changes to a note's frontmatter in place. Tags are merged into
+ * the existing "tags" list without duplicates or leading "#".
+ */
+export function applyFrontmatterChanges(
+  frontmatter: Record<string, unknown>,
+  changes: {
+    set?: Record<string, string | number | boolean | string[]>;
+    remove?: string[];
+    addTags?: string[];
+  }
+): string[] {
+  const changed: string[] = [];
+
+  for (const [key, value] of Object.entries(changes.set ?? {})) {
+    frontmatter[key] = value;
+    changed.push(key);
+  }
+
+  for (const key of changes.remove ?? []) {
+    if (key in frontmatter) {
+      delete frontmatter[key];
+      changed.push(key);
+    }
+  }
+
+  const newTags = (changes.addTags ?? [])
+    .map((tag) => tag.trim().replace(/^#/, ""))
+    .filter(Boolean);
+  if (newTags.length > 0) {
+    const existing = frontmatter.tags;
+    const tags: string[] = Array.isArray(existing)
+      ? existing.map(String)
+      : typeof existing === "string"
+        ? existing.split(/[,\s]+/).filter(Boolean)
+        : [];
+    const merged = [...tags];
+    for (const tag of newTags) {
+      if (!merged.includes(tag)) merged.push(tag);
+    }
+    frontmatter.tags = merged;
+    if (!changed.includes("tags")) changed.push("tags");
+  }
+
+  return changed;
+}
+
+/**
+ * Show the change in the preview UI unless edits are auto-accepted, then write it.
+ */
+async function applyWithPreview(path: string, content: string): Promise<ApplyViewResult> {
+  if (getSettings().autoAcceptEdits) {
+    const file = findNote(path);
+    if (file) {
+      await app.vault.modify(file, content);
+    } else {
+      await app.vault.create(path, content);
+    }
+    return "accepted";
+  }
+  return show_preview(path, content);
+}
+
+/**
+ * Folders along a path that do not exist yet, outermost first.
+ */
+function getMissingFolders(folderPath: string): string[] {
+  const missing: string[] = [];
+  let current = "";
+  for (const part of folderPath.split("/").filter(Boolean)) {
+    current = current ? `${current}/${part}` : part;
+    if (!app.vault.getAbstractFileByPath(current)) missing.push(current);
+  }
+  return missing;
+}
+
+const createNoteSchema = z.object({
+  path: z
+    .string()
+    .min(1)
+    .describe("Vault-relative path of the new note, ending in .md. Missing folders are created."),
+  templatePath: z.string().optional().describe("Path or name of a template note to start from"),
+  content: z
+    .string()
+    .optional()
+    .describe("Note content, added after the template when both are given"),
+  variables: z
+    .record(z.string())
+    .optional()
+    .describe(
+      "Values for custom {{variables}} in the template; {{title}}, {{date}} and {{time}} are filled automatically"
+    ),
+});
+
+const createNoteTool = createLangChainTool({
+  name: "createNote",
+  description:
+    "Create a new note, optionally from a template note, and show it in the Change Preview UI. Fails if the note already exists.",
+  schema: createNoteSchema,
+  func: async ({ path, templatePath, content, variables }) => {
+    let notePath = toVaultPath(path);
+    if (!notePath.endsWith(".md")) notePath = `${notePath}.md`;
+    const sanitizedPath = sanitizeFilePath(notePath);
+    if (sanitizedPath !== notePath) {
+      logWarn(
+        `Filename too long, truncated for filesystem compatibility: "${notePath}" → "${sanitizedPath}"`
+      );
+      notePath = sanitizedPath;
+    }
+
+    if (app.vault.getAbstractFileByPath(notePath)) {
+      return {
+        result: "failed",
+        message: `"${notePath}" already exists. Use writeToFile or appendToHeading to change it.`,
+      };
+    }
+
+    let body = content ?? "";
+    if (templatePath) {
+      const template =
+        findNote(templatePath) ??
+        app.metadataCache.getFirstLinkpathDest(templatePath.replace(/\.md$/, ""), "");
+      if (!template) {
+        return { result: "failed", message: `Template "${templatePath}" not found.` };
+      }
+      const title = notePath.split("/").pop()!.replace(/\.md$/, "");
+      const rendered = renderNoteTemplate(await app.vault.read(template), { title, variables });
+      body = content ? `${rendered.replace(/\n+$/, "")}\n\n${content}` : rendered;
+    }
+
+    // The preview needs the folder, so folders created for it are removed on rejection
+    const folder = notePath.includes("/") ? notePath.split("/").slice(0, -1).join("/") : "";
+    const createdFolders = getMissingFolders(folder);
+    await ensureFolderExists(folder);
+
+    const result = await applyWithPreview(notePath, body);
+    if (result !== "accepted") {
+      // The preview creates an empty note to diff against; don't leave it behind
+      const file = findNote(notePath);
+      if (file && (await app.vault.read(file)) === "") {
+        await app.vault.delete(file);
+      }
+      for (const created of [...createdFolders].reverse()) {
+        try {
+          await app.vault.adapter.rmdir(created, false);
+        } catch (error) {
+          // Something else was put in the folder meanwhile
+          logWarn(`Kept folder "${created}" after the note was not created`, error);
+        }
+      }
+    }
+    return {
+      result,
+      path: notePath,
+      message: `Note creation result: ${result}. Do not retry if the note was not accepted.`,
+    };
+  },
+});
+
+const moveNoteSchema = z.object({
+  path: z.string().min(1).describe("Current vault-relative path of the note"),
+  newPath: z
+    .string()
+    .min(1)
+    .describe(
+      "New vault-relative path including the file name and extension. Keep the folder to rename, keep the name to move."
+    ),
+});
+
+const moveNoteTool = createLangChainTool({
+  name: "moveNote",
+  description:
+    "Move or rename a note or file. Links to it across the vault are updated according to the user's Obsidian settings.",
+  schema: moveNoteSchema,
+  func: async ({ path, newPath }) => {
+    const file = findNote(path) ?? app.vault.getAbstractFileByPath(toVaultPath(path));
+    if (!(file instanceof TFile)) {
+      return { result: "failed", message: `File not found at path: ${path}` };
+    }
+
+    let targetPath = toVaultPath(newPath);
+    if (!/\.[^/.]+$/.test(targetPath)) targetPath = `${targetPath}.${file.extension}`;
+    if (targetPath === file.path) {
+      return { result: "unchanged", path: targetPath };
+    }
+    if (app.vault.getAbstractFileByPath(targetPath)) {
+      return { result: "failed", message: `"${targetPath}" already exists.` };
+    }
+
+    const folder = targetPath.includes("/") ? targetPath.split("/").slice(0, -1).join("/") : "";
+    await ensureFolderExists(folder);
+    const oldPath = file.path;
+    await app.fileManager.renameFile(file, targetPath);
+    return { result: "moved", from: oldPath, path: targetPath };
+  },
+});
+
+const appendToHeadingSchema = z.object({
+  path: z.string().min(1).describe("Vault-relative path of the note"),
+  heading: z
+    .string()
+    .min(1)
+    .describe(
+      'Heading to add under, e.g. "Action items" or "### Action items". Created at the end of the note if missing.'
+    ),
+  content: z.string().min(1).describe("Markdown to add at the end of the heading's section"),
+});
+
+const appendToHeadingTool = createLangChainTool({
+  name: "appendToHeading",
+  description:
+    "Add content at the end of a section of an existing note, under the given heading, and show the change in the Change Preview UI.",
+  schema: appendToHeadingSchema,
+  func: async ({ path, heading, content }) => {
+    const file = findNote(path);
+    if (!file) {
+      return { result: "failed", message: `Note not found at path: ${path}` };
+    }
+
+    const original = await app.vault.read(file);
+    const updated = insertUnderHeading(original, heading, content);
+    const result = await applyWithPreview(file.path, updated.content);
+    return {
+      result,
+      path: file.path,
+      headingCreated: updated.headingCreated,
+      message: `Append result: ${result}. Do not retry if the change was not accepted.`,
+    };
+  },
+});
+
+const updateFrontmatterSchema = z.object({
+  path: z.string().min(1).describe("Vault-relative path of the note"),
+  set: z
+    .record(z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]))
+    .optional()
+    .describe("Properties to set, replacing existing values"),
+  remove: z.array(z.string()).optional().describe("Property names to remove"),
+  addTags: z
+    .array(z.string())
+    .optional()
+    .describe("Tags to add to the note's existing tags, without '#'"),
+});
+
+const updateFrontmatterTool = createLangChainTool({
+  name: "updateFrontmatter",
+  description: "Set, remove or add to the frontmatter properties (including tags) of a note.",
+  schema: updateFrontmatterSchema,
+  func: async ({ path, set, remove, addTags }) => {
+    const file = findNote(path);
+    if (!file) {
+      return { result: "failed", message: `Note not found at path: ${path}` };
+    }
+
+    let changed: string[] = [];
+    await app.fileManager.processFrontMatter(file, (frontmatter) => {
+      changed = applyFrontmatterChanges(frontmatter, { set, remove, addTags });
+    });
+    return { result: changed.length > 0 ? "updated" : "unchanged", path: file.path, changed };
+  },
+});
+
+const createFolderSchema = z.object({
+  path: z
+    .string()
+    .min(1)
+    .describe("Vault-relative folder path; missing parent folders are created"),
+});
+
+const createFolderTool = createLangChainTool({
+  name: "createFolder",
+  description: "Create a folder in the vault.",
+  schema: createFolderSchema,
+  func: async ({ path }) => {
+    const folderPath = toVaultPath(path).replace(/\/+$/, "");
+    const existing = app.vault.getAbstractFileByPath(folderPath);
+    if (existing instanceof TFolder) {
+      return { result: "exists", path: folderPath };
+    }
+    await ensureFolderExists(folderPath);
+    return { result: "created", path: folderPath };
+  },
+});
+
+export {
+  createNoteTool,
+  moveNoteTool,
+  appendToHeadingTool,
+  updateFrontmatterTool,
+  createFolderTool,
+};
@@ -1,11 +1,18 @@
 import { getSettings } from "@/settings/model";
 import { Vault } from "obsidian";
+import { convertToCanvasTool, exportCanvasTool } from "./CanvasDiagramTool";
+import { canvasEditTool } from "./CanvasEditTool";
+import { queryCanvasTool } from "./CanvasQueryTool";
 import { replaceInFileTool, writeToFileTool } from "./ComposerTools";
 import { createGetFileTreeTool } from "./FileTreeTools";
+import { getLinkedNotesTool } from "./LinkGraphTools";
 import { updateMemoryTool } from "./memoryTools";
 import { readNoteTool } from "./NoteTools";
+import { queryPropertiesTool } from "./PropertyQueryTools";
+import { writeTodosTool } from "./PlannerTools";
 import { localSearchTool, webSearchTool } from "./SearchTools";
 import { createGetTagListTool } from "./TagTools";
+import { completeTaskTool, getTasksTool } from "./TaskTools";
 import {
   convertTimeBetweenTimezonesTool,
   getCurrentTimeTool,
@@ -13,6 +20,14 @@ import {
   getTimeRangeMsTool,
 } from "./TimeTools";
 import { ToolDefinition, ToolRegistry } from "./ToolRegistry";
+import { getUserToolDefinitions } from "./userToolState";
+import {
+  appendToHeadingTool,
+  createFolderTool,
+  createNoteTool,
+  moveNoteTool,
+  updateFrontmatterTool,
+} from "./VaultTools";
 import { youtubeTranscriptionTool } from "./YoutubeTools";
 
 /**
@@ -27,6 +42,7 @@ export const BUILTIN_TOOLS: ToolDefinition[] = [
       displayName: "Vault Search",
       description: "Search through your vault notes",
       category: "search",
+      isParallelSafe: true,
       copilotCommands: ["@vault"],
       customPromptInstructions: `For localSearch (searching notes based on their contents in the vault):
 - You MUST always provide both "query" (string) and "salientTerms" (array of strings)
@@ -66,6 +82,48 @@ For exhaustive "find all" searches:
 - When setting returnAll: true, also call getFileTree to get all note titles as reference. This helps verify search completeness and identify notes the search may have missed.`,
     },
   },
+  {
+    tool: queryPropertiesTool,
+    metadata: {
+      id: "queryProperties",
+      displayName: "Query Properties",
+      description: "Filter, sort and count notes by their frontmatter properties",
+      category: "search",
+      isParallelSafe: true,
+      requiresVault: true,
+      customPromptInstructions: `For queryProperties:
+- Use for questions about property values ("books I rated 5", "projects due before June", "how many notes per status") instead of localSearch
+- Filters are combined with AND; ranges compare numbers or YYYY-MM-DD dates; "contains" checks list properties such as tags
+- Use groupBy to count notes per value instead of listing them
+- Cite notes from the returned table using their [[links]]; if "truncated" is true, say the list is partial or narrow the query
+
+Examples:
+- Filtered list: filters: [{property: "rating", op: "eq", value: 5}, {property: "status", op: "eq", value: "reading"}], select: ["author", "rating"]
+- Date range: filters: [{property: "due", op: "lt", value: "2024-06-01"}], sortBy: "due"
+- Counts: folder: "Books", groupBy: "status"`,
+    },
+  },
+  {
+    tool: getTasksTool,
+    metadata: {
+      id: "getTasks",
+      displayName: "Vault Tasks",
+      description: "Collect tasks across the vault by status, due date, folder or tag",
+      category: "search",
+      isParallelSafe: true,
+      requiresVault: true,
+      customPromptInstructions: `For getTasks:
+- Use for questions about to-dos ("what's overdue?", "what's due this week?", "open tasks in Project X") instead of localSearch
+- For relative periods, call getTimeRangeMs first and pass its result as dueRange (due dates) or modifiedRange (recently edited notes)
+- Use overdue: true for overdue tasks; the result includes today's date
+- Refer to tasks with their note links; to complete one, pass its path, line and text to completeTask
+
+Examples:
+- Overdue: overdue: true
+- Due this week: dueRange: {startTime: 1714345200000, endTime: 1714949999999}
+- Open tasks of a project: folder: "Projects/Apollo"`,
+    },
+  },
   {
     tool: webSearchTool,
     metadata: {
@@ -74,6 +132,7 @@ For exhaustive "find all" searches:
       description:
         "Search the INTERNET (NOT vault notes) when user explicitly asks for web/online information",
       category: "search",
+      isParallelSafe: true,
       copilotCommands: ["@websearch", "@web"],
       customPromptInstructions: `For webSearch:
 - ONLY use when the user's query contains explicit web-search intent like:
@@ -93,6 +152,7 @@ Example: "search the web for python tutorials" → query: "python tutorials", ch
       displayName: "Get Current Time",
       description: "Get the current time in any timezone",
       category: "time",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
       customPromptInstructions: `For time queries (IMPORTANT: Always use UTC offsets, not timezone names):
 
@@ -113,6 +173,7 @@ Examples:
       displayName: "Get Time Info",
       description: "Convert epoch timestamp to human-readable format",
       category: "time",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
     },
   },
@@ -123,6 +184,7 @@ Examples:
       displayName: "Get Time Range",
       description: "Convert time expressions to date ranges",
       category: "time",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
       customPromptInstructions: `For time-based queries:
 - Use this tool to convert time expressions like "last week", "yesterday", "last month" to proper time ranges
@@ -138,6 +200,7 @@ Example: For "last week" → timeExpression: "last week"`,
       displayName: "Convert Timezones",
       description: "Convert time between different timezones",
       category: "time",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
       customPromptInstructions: `For timezone conversions:
 
@@ -153,6 +216,7 @@ Example: "what time is 6pm PT in Tokyo" (PT is UTC-8 or UTC-7, Tokyo is UTC+9) 
       displayName: "Read Note",
       description: "Read a specific note in sequential chunks using its own line-chunking logic.",
       category: "file",
+      isParallelSafe: true,
       requiresVault: true,
       isAlwaysEnabled: true,
       customPromptInstructions: `For readNote:
@@ -170,6 +234,26 @@ Examples:
 - Next chunk: notePath: "Projects/launch-plan.md", chunkIndex: 1`,
     },
   },
+  {
+    tool: getLinkedNotesTool,
+    metadata: {
+      id: "getLinkedNotes",
+      displayName: "Linked Notes",
+      description: "Follow links and backlinks between notes",
+      category: "file",
+      isParallelSafe: true,
+      requiresVault: true,
+      customPromptInstructions: `For getLinkedNotes:
+- Use for questions about how notes relate ("what depends on this spec?", "what links here?") instead of guessing search terms
+- direction "backlinks" finds notes that link to the note; "outgoing" the notes it links to
+- Raise depth only when direct links are not enough; results are capped (see "truncated")
+- The context lines show how each note refers to the other; call readNote only when they are not enough
+
+Examples:
+- Backlinks: notePath: "Specs/Auth spec.md", direction: "backlinks"
+- Two hops within a folder: notePath: "Projects/Apollo.md", depth: 2, folder: "Projects"`,
+    },
+  },
   {
     tool: writeToFileTool,
     metadata: {
@@ -179,6 +263,7 @@ Examples:
       category: "file",
       requiresVault: true,
       timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
       copilotCommands: ["@composer"],
       customPromptInstructions: `For writeToFile:
 - NEVER display the file content directly in your response
@@ -204,6 +289,7 @@ Examples:
       category: "file",
       requiresVault: true,
       timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
       customPromptInstructions: `For replaceInFile:
 - Remember: Small edits → replaceInFile, Major rewrites → writeToFile
 - SEARCH text must match EXACTLY including all whitespace
@@ -214,6 +300,195 @@ path: "notes/meeting.md"
 diff: "------- SEARCH\\n## Attendees\\n- John Smith\\n- Jane Doe\\n=======\\n## Attendees\\n- John Smith\\n- Jane Doe\\n- Bob Johnson\\n+++++++ REPLACE"`,
     },
   },
+  {
+    tool: createNoteTool,
+    metadata: {
+      id: "createNote",
+      displayName: "Create Note",
+      description: "Create new notes, optionally from a template",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
+      customPromptInstructions: `For createNote:
+- Use to create a new note; it fails if the note exists (use writeToFile or appendToHeading instead)
+- Pass templatePath when the user names a template or the vault has one for this kind of note
+- Use getFileTree first to find the exact folder path
+
+Examples:
+- From a template: path: "Meetings/2024-05-02 Standup.md", templatePath: "Templates/Meeting", variables: {project: "Apollo"}
+- Plain: path: "Ideas/Reading list.md", content: "# Reading list\n"`,
+    },
+  },
+  {
+    tool: moveNoteTool,
+    metadata: {
+      id: "moveNote",
+      displayName: "Move Note",
+      description: "Move or rename notes, updating links to them",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - may wait for user approval
+      approval: "ask",
+      pathArgs: ["path", "newPath"],
+      customPromptInstructions: `For moveNote:
+- Use to file notes into folders or rename them; never recreate a note with writeToFile to move it
+- newPath is the complete new path including the file name
+- Use getFileTree first to find existing folders; missing folders are created
+
+Examples:
+- Move: path: "Inbox/Standup.md", newPath: "Projects/Apollo/Standup.md"
+- Rename: path: "Projects/Apollo/Untitled.md", newPath: "Projects/Apollo/Kickoff.md"`,
+    },
+  },
+  {
+    tool: appendToHeadingTool,
+    metadata: {
+      id: "appendToHeading",
+      displayName: "Append to Heading",
+      description: "Add content under a heading of an existing note",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
+      customPromptInstructions: `For appendToHeading:
+- Prefer it over writeToFile and replaceInFile when only adding to a section of a note
+- content is added at the end of the section, before the next heading of the same level
+
+Example: path: "Projects/Apollo.md", heading: "Meetings", content: "- [[2024-05-02 Standup]]"`,
+    },
+  },
+  {
+    tool: updateFrontmatterTool,
+    metadata: {
+      id: "updateFrontmatter",
+      displayName: "Update Properties",
+      description: "Set or remove note properties and add tags",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - may wait for user approval
+      approval: "ask",
+      pathArgs: ["path"],
+      customPromptInstructions: `For updateFrontmatter:
+- Use addTags to tag a note; it keeps the existing tags
+- set replaces a property's value; use remove to delete properties
+
+Example: path: "Projects/Apollo/Standup.md", set: {project: "Apollo", status: "done"}, addTags: ["meeting"]`,
+    },
+  },
+  {
+    tool: createFolderTool,
+    metadata: {
+      id: "createFolder",
+      displayName: "Create Folder",
+      description: "Create folders in your vault",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - may wait for user approval
+      approval: "ask",
+      pathArgs: ["path"],
+    },
+  },
+  {
+    tool: completeTaskTool,
+    metadata: {
+      id: "completeTask",
+      displayName: "Complete Task",
+      description: "Check off or reopen tasks in your notes",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - may wait for user approval
+      approval: "ask",
+      pathArgs: ["path"],
+      customPromptInstructions: `For completeTask:
+- Only complete tasks the user asked you to; call getTasks first to get the path, line and text
+- Pass completed: false to reopen a task
+
+Example: path: "Daily/2024-05-02.md", line: 12, text: "Send the budget to Anna 📅 2024-05-03"`,
+    },
+  },
+  {
+    tool: canvasEditTool,
+    metadata: {
+      id: "canvasEdit",
+      displayName: "Canvas Edit",
+      description: "Add, update, connect and group nodes on canvases, or create new canvases",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
+      customPromptInstructions: `For canvasEdit:
+- Use for every change to a .canvas file instead of writeToFile or canvas_edit blocks
+- Send all operations for one canvas in a single call; they are validated together and written at once
+- Operations may refer to nodes created earlier in the same call; use unique IDs for new nodes and edges
+- Prefer relative placement (rightOf, below, inGroup) over inventing x/y; omitted sizes are derived from the content
+- To create a new canvas, make create_canvas the first operation
+- If the result reports failed operations, fix them and call canvasEdit again with the complete set of operations
+- Do not retry operations the user rejected
+- If the status is "conflict", the user edited the canvas meanwhile: read it again and redo the edit against its current content
+
+Examples:
+- Add and connect: path: "Boards/plan.canvas", operations: [{type: "add_node", id: "idea2", nodeType: "text", rightOf: "idea1", content: "Next idea"}, {type: "add_edge", from: "idea1", to: "idea2", toEnd: "arrow"}]
+- Group nodes: operations: [{type: "move_to_group", id: "group1", nodes: ["idea1", "idea2"]}]
+- Relabel an edge: operations: [{type: "update_edge", id: "edge1", label: "depends on"}]`,
+    },
+  },
+  {
+    tool: queryCanvasTool,
+    metadata: {
+      id: "queryCanvas",
+      displayName: "Query Canvas",
+      description: "Find canvas nodes by text, type, color, group, connection or area",
+      category: "file",
+      isParallelSafe: true,
+      requiresVault: true,
+      customPromptInstructions: `For queryCanvas:
+- Use to find node IDs on a canvas before editing it, instead of reading the whole canvas
+- All filters are combined; omit a filter to match every node
+- Results are capped (see "truncated"); narrow the filters rather than raising maxResults on large canvases
+- Previews of file nodes show the file path; use readNote to read the note itself
+
+Examples:
+- Find a node by text: path: "Boards/plan.canvas", text: "budget"
+- Nodes in a group: path: "Boards/plan.canvas", inGroup: "group1", includeEdges: true
+- Neighbours of a node: path: "Boards/plan.canvas", connectedTo: "idea1"`,
+    },
+  },
+  {
+    tool: convertToCanvasTool,
+    metadata: {
+      id: "convertToCanvas",
+      displayName: "Convert to Canvas",
+      description: "Create a canvas from a Mermaid diagram or a markdown outline",
+      category: "file",
+      requiresVault: true,
+      timeoutMs: 0, // No timeout - waits for user preview decision
+      pathArgs: ["path"],
+      customPromptInstructions: `For convertToCanvas:
+- Use when the user wants a Mermaid diagram, mind map or bullet outline turned into a canvas; it is laid out automatically
+- Pass the diagram as content, or notePath to convert the first mermaid block (or the outline) of a note
+- It only creates new canvases; use canvasEdit to change an existing one
+
+Examples:
+- From Mermaid: path: "Boards/flow.canvas", content: "flowchart LR\n  A[Start] --> B[Finish]"
+- From a note: path: "Boards/plan.canvas", notePath: "Projects/plan.md", format: "outline"`,
+    },
+  },
+  {
+    tool: exportCanvasTool,
+    metadata: {
+      id: "exportCanvas",
+      displayName: "Export Canvas",
+      description: "Export a canvas as a Mermaid flowchart or a markdown outline",
+      category: "file",
+      isParallelSafe: true,
+      requiresVault: true,
+      customPromptInstructions: `For exportCanvas:
+- Use when the user wants a canvas (or part of it) as Mermaid or as a nested list, e.g. to put in a note
+- Pass nodeIds to export part of a canvas; find them with queryCanvas
+- Wrap Mermaid output in a \`\`\`mermaid code block when writing it into a note`,
+    },
+  },
 
   // Media tools
   {
@@ -223,6 +498,7 @@ diff: "------- SEARCH\\n## Attendees\\n- John Smith\\n- Jane Doe\\n=======\\n##
       displayName: "YouTube Transcription",
       description: "Get transcripts from YouTube videos",
       category: "media",
+      isParallelSafe: true,
       isPlusOnly: true,
       requiresUserMessageContent: true,
       customPromptInstructions: `For youtubeTranscription:
@@ -230,6 +506,27 @@ diff: "------- SEARCH\\n## Attendees\\n- John Smith\\n- Jane Doe\\n=======\\n##
 - No parameters needed - the tool will process URLs from the conversation`,
     },
   },
+
+  // Planning tools
+  {
+    tool: writeTodosTool,
+    metadata: {
+      id: "write_todos",
+      displayName: "Plan",
+      description: "Keep a visible checklist of the steps of multi-step tasks",
+      category: "planning",
+      isAlwaysEnabled: true,
+      isParallelSafe: true,
+      customPromptInstructions: `For write_todos:
+- Use for tasks that need two or more meaningful actions; skip it for simple questions
+- Call it before the first search or edit of a multi-step task
+- Keep todos short and action-oriented, at most 8
+- Always send the full list; mark one todo in_progress and update statuses as you go
+- Do not call it again unless a status or the plan itself changed
+
+Example: todos: [{id: "search", content: "Search notes about the Q3 budget", status: "in_progress"}, {id: "summarize", content: "Summarize the budget changes", status: "pending"}]`,
+    },
+  },
 ];
 
 /**
@@ -245,6 +542,7 @@ export function registerFileTreeTool(vault: Vault): void {
       displayName: "File Tree",
       description: "Browse vault file structure",
       category: "file",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
       requiresVault: true,
       isBackground: true,
@@ -275,6 +573,7 @@ export function registerTagListTool(): void {
       displayName: "Tag List",
       description: "List vault tags with occurrence statistics",
       category: "file",
+      isParallelSafe: true,
       isAlwaysEnabled: true,
       requiresVault: true,
       isBackground: true,
@@ -307,6 +606,7 @@ export function registerMemoryTool(): void {
       category: "memory",
       copilotCommands: ["@memory"],
       isAlwaysEnabled: true,
+      approval: "ask",
       customPromptInstructions: `For updateMemory:
 - Use this tool to update the memory when the user explicitly asks to update the memory
 - DO NOT use for general information - only for personal facts, preferences, or specific things the user wants stored
@@ -354,5 +654,8 @@ export function initializeBuiltinTools(vault?: Vault): void {
     if (settings.enableSavedMemory) {
       registerMemoryTool();
     }
+
+    // Keep the tools loaded from the user tools folder
+    registry.registerAll(getUserToolDefinitions());
   }
 }
@@ -0,0 +1,147 @@
+import { logError, logInfo } from "@/logger";
+import { getSettings, subscribeToSettingsChange } from "@/settings/model";
+import { stripFrontmatter } from "@/utils";
+import debounce from "lodash.debounce";
+import { normalizePath, TAbstractFile, TFile, Vault } from "obsidian";
+import { BUILTIN_TOOLS } from "./builtinTools";
+import { ToolDefinition, ToolRegistry } from "./ToolRegistry";
+import { createUserToolDefinition, parseUserToolNote } from "./UserTools";
+import { getUserToolDefinitions, updateUserToolState, UserToolError } from "./userToolState";
+
+export function getUserToolsFolder(): string {
+  return normalizePath(getSettings().userToolsFolder);
+}
+
+/**
+ * Check if a file is a markdown note directly inside the user tools folder.
+ */
+export function isUserToolFile(file: TAbstractFile): boolean {
+  if (!(file instanceof TFile) || file.extension !== "md") return false;
+  const folder = getUserToolsFolder();
+  if (!file.path.startsWith(folder + "/")) return false;
+  return !file.path.slice(folder.length + 1).includes("/");
+}
+
+/**
+ * Registers the notes of the user tools folder as agent tools and reloads them
+ * when the notes or the folder setting change.
+ */
+export class UserToolRegister {
+  private vault: Vault;
+  private settingsUnsubscriber?: () => void;
+  /** Monotonically increasing request ID for latest-wins semantics */
+  private reloadRequestId = 0;
+
+  constructor(vault: Vault) {
+    this.vault = vault;
+    this.initializeEventListeners();
+  }
+
+  async initialize(): Promise<void> {
+    await this.reload();
+  }
+
+  /**
+   * Clean up event listeners and unregister the user tools
+   */
+  cleanup(): void {
+    this.debouncedReload.cancel();
+    this.settingsUnsubscriber?.();
+    this.vault.off("create", this.handleFileChange);
+    this.vault.off("delete", this.handleFileChange);
+    this.vault.off("rename", this.handleFileRename);
+    this.vault.off("modify", this.handleFileChange);
+
+    const registry = ToolRegistry.getInstance();
+    getUserToolDefinitions().forEach((def) => registry.unregister(def.metadata.id));
+    updateUserToolState([], []);
+  }
+
+  private initializeEventListeners(): void {
+    this.vault.on("create", this.handleFileChange);
+    this.vault.on("delete", this.handleFileChange);
+    this.vault.on("rename", this.handleFileRename);
+    this.vault.on("modify", this.handleFileChange);
+    this.settingsUnsubscriber = subscribeToSettingsChange((prev, next) => {
+      if (prev.userToolsFolder !== next.userToolsFolder) {
+        this.debouncedReload();
+      }
+    });
+  }
+
+  private handleFileChange = (file: TAbstractFile) => {
+    if (isUserToolFile(file)) {
+      this.debouncedReload();
+    }
+  };
+
+  private handleFileRename = (file: TAbstractFile, oldPath: string) => {
+    const folder = getUserToolsFolder();
+    if (isUserToolFile(file) || oldPath.startsWith(folder + "/")) {
+      this.debouncedReload();
+    }
+  };
+
+  /**
+   * Reloads are debounced so a note being edited is read once its frontmatter
+   * has been re-indexed, not on every keystroke.
+   */
+  private debouncedReload = debounce(
+    () => {
+      void this.reload();
+    },
+    1000,
+    { leading: false, trailing: true }
+  );
+
+  /**
+   * Parse every user tool note and replace the registered user tools. Notes
+   * that fail to parse, or reuse a taken name, are reported instead.
+   */
+  private async reload(): Promise<void> {
+    const requestId = ++this.reloadRequestId;
+    const registry = ToolRegistry.getInstance();
+    const takenNames = new Set([
+      ...BUILTIN_TOOLS.map((def) => def.metadata.id),
+      ...registry
+        .getAllTools()
+        .filter((def) => def.metadata.category !== "custom")
+        .map((def) => def.metadata.id),
+    ]);
+
+    const files = this.vault
+      .getMarkdownFiles()
+      .filter(isUserToolFile)
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const definitions: ToolDefinition[] = [];
+    const errors: UserToolError[] = [];
+
+    for (const file of files) {
+      try {
+        const body = stripFrontmatter(await this.vault.read(file));
+        const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+        const spec = parseUserToolNote(file.path, frontmatter, body);
+        if (takenNames.has(spec.name)) {
+          throw new Error(`The name "${spec.name}" is already used by another tool`);
+        }
+        takenNames.add(spec.name);
+        definitions.push(createUserToolDefinition(spec));
+      } catch (error) {
+        errors.push({
+          path: file.path,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    // A later reload started while this one was reading notes
+    if (requestId !== this.reloadRequestId) return;
+
+    getUserToolDefinitions().forEach((def) => registry.unregister(def.metadata.id));
+    registry.registerAll(definitions);
+    updateUserToolState(definitions, errors);
+
+    logInfo(`Loaded ${definitions.length} user tool(s) from ${getUserToolsFolder()}`);
+    errors.forEach((error) => logError(`Invalid user tool ${error.path}: ${error.message}`));
+  }
+}
@@ -0,0 +1,33 @@
+import { atom, createStore, useAtomValue } from "jotai";
+import { ToolDefinition } from "./ToolRegistry";
+
+/**
+ * A user tool note that could not be loaded.
+ */
+export interface UserToolError {
+  path: string;
+  message: string;
+}
+
+interface UserToolState {
+  definitions: ToolDefinition[];
+  errors: UserToolError[];
+}
+
+const userToolsStore = createStore();
+const userToolsAtom = atom<UserToolState>({ definitions: [], errors: [] });
+
+export function updateUserToolState(definitions: ToolDefinition[], errors: UserToolError[]) {
+  userToolsStore.set(userToolsAtom, { definitions, errors });
+}
+
+/**
+ * Tool definitions loaded from the user tools folder.
+ */
+export function getUserToolDefinitions(): ToolDefinition[] {
+  return userToolsStore.get(userToolsAtom).definitions;
+}
+
+export function useUserToolState(): UserToolState {
+  return useAtomValue(userToolsAtom, { store: userToolsStore });
+}
@@ -37,3 +37,10 @@ export enum PromptSortStrategy {
 }
 
 export type ApplyViewResult = "accepted" | "rejected" | "aborted" | "failed";
+
+/** Decision returned by the canvas preview view. */
+export interface CanvasApplyViewResult {
+  result: ApplyViewResult;
+  /** Indices of the operations the user accepted, in their original order. */
+  acceptedIndices: number[];
+}
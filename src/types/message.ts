@@ -48,6 +48,8 @@ export interface CanvasSelectedNodesContext {
   canvasTitle: string;
   canvasPath: string;
   selectedNodeIds: string[];
+  /** Selected nodes with their content and geometry, plus their edges and neighbours. */
+  content?: string;
 }
 
 /**
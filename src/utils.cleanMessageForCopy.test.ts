@@ -127,4 +127,12 @@ Here is the actual response.`;
     const expected = "Actual response.";
     expect(cleanMessageForCopy(input)).toBe(expected);
   });
+
+  it("should remove canvas checkpoint markers", () => {
+    const input = `**Canvas Update:** Added nodes
+
+<!--CANVAS_CHECKPOINT:1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed-->`;
+    const expected = "**Canvas Update:** Added nodes";
+    expect(cleanMessageForCopy(input)).toBe(expected);
+  });
 });
@@ -1006,6 +1006,14 @@ export function cleanMessageForCopy(message: string): string {
   // Use greedy .* so we match to the real closing --> even if the JSON payload contains -->
   cleanedMessage = cleanedMessage.replace(/<!--AGENT_REASONING:\w+:\d+:.*-->/g, "");
 
+  // Remove agent plan markers
+  // Format: <!--AGENT_PLAN:revision\n- [x] todo\n-->
+  cleanedMessage = cleanedMessage.replace(/<!--AGENT_PLAN:\d+\n[\s\S]*?-->/g, "");
+
+  // Remove canvas checkpoint markers
+  // Format: <!--CANVAS_CHECKPOINT:id-->
+  cleanedMessage = cleanedMessage.replace(/<!--CANVAS_CHECKPOINT:[\w-]+-->/g, "");
+
   // Clean up any resulting multiple consecutive newlines (more than 2)
   cleanedMessage = cleanedMessage.replace(/\n{3,}/g, "\n\n");
 